@@ -9,6 +9,7 @@ import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { SessionProvider, useSessionContext } from "@/context/session-context";
 import { AuthProvider, useAuth } from "@/context/auth-context";
+import { AgentStreamProvider } from "@/context/agent-stream-context";
 import { ProtectedRoute } from "@/components/protected-route";
 import { WorkshopProgress } from "@/components/workshop-progress";
 
@@ -55,7 +56,9 @@ function AuthRouter() {
   // Protected routes (main app) when authenticated
   return (
     <SessionProvider>
-      <AppContent />
+      <AgentStreamProvider>
+        <AppContent />
+      </AgentStreamProvider>
     </SessionProvider>
   );
 }
@@ -1,7 +1,8 @@
-import { Brain, MessageSquare, Shield, BarChart3, Gavel, CheckCircle, Clock, Zap } from "lucide-react";
+import { Brain, MessageSquare, Shield, BarChart3, Gavel, CheckCircle, Clock, Zap, XCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { useAgentStream } from "@/context/agent-stream-context";
 
 interface AgentStatusProps {
   currentPhase: number;
@@ -62,7 +63,14 @@ const agents = [
 ];
 
 export function AgentStatus({ currentPhase, className }: AgentStatusProps) {
+  const { agents: liveAgents } = useAgentStream();
+
   const getAgentStatus = (agent: typeof agents[0]) => {
+    // Live events from a streaming phase take precedence over the phase-based guess
+    const live = liveAgents[agent.id];
+    if (live?.status === "writing") return "active";
+    if (live?.status === "failed") return "failed";
+    if (live?.status === "finished") return "completed";
     if (agent.activePhases.includes(currentPhase)) return "active";
     if (agent.readyPhases.includes(currentPhase)) return "ready";
     if (currentPhase > Math.max(...agent.activePhases)) return "completed";
@@ -77,6 +85,8 @@ export function AgentStatus({ currentPhase, className }: AgentStatusProps) {
         return <CheckCircle className="h-4 w-4 text-green-600" />;
       case "completed":
         return <CheckCircle className="h-4 w-4 text-muted-foreground" />;
+      case "failed":
+        return <XCircle className="h-4 w-4 text-destructive" />;
       default:
         return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
@@ -102,6 +112,12 @@ export function AgentStatus({ currentPhase, className }: AgentStatusProps) {
             Completed
           </Badge>
         );
+      case "failed":
+        return (
+          <Badge variant="destructive">
+            Failed
+          </Badge>
+        );
       default:
         return (
           <Badge variant="outline" className="text-muted-foreground">
@@ -112,6 +128,14 @@ export function AgentStatus({ currentPhase, className }: AgentStatusProps) {
   };
 
   const getStatusMessage = (agent: typeof agents[0], status: string) => {
+    const live = liveAgents[agent.id];
+    if (live?.status === "writing") {
+      return live.fallback ? "Writing (using fallback provider)..." : "Writing...";
+    }
+    if (live?.status === "failed") {
+      return live.error || "All providers failed";
+    }
+
     switch (status) {
       case "active":
         if (agent.id === "solution") return "Generating solution proposals...";
@@ -172,7 +196,11 @@ export function AgentStatus({ currentPhase, className }: AgentStatusProps) {
               <div className="flex items-center gap-2">
                 {getStatusIcon(status)}
                 <div className="text-xs text-muted-foreground text-right">
-                  <div>{agent.provider}</div>
+                  <div data-testid={`text-provider-${agent.id}`}>
+                    {liveAgents[agent.id]?.provider
+                      ? `${liveAgents[agent.id].provider}/${liveAgents[agent.id].model}`
+                      : agent.provider}
+                  </div>
                 </div>
               </div>
             </div>
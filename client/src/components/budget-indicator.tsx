@@ -0,0 +1,62 @@
+import { Wallet } from "lucide-react";
+import { useSessionContext } from "@/context/session-context";
+import { useSessionBudget } from "@/hooks/use-sessions";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { BudgetState, SessionBudget } from "@shared/usage";
+
+interface BudgetIndicatorProps {
+  sessionId?: string; // Falls back to the current session from context
+}
+
+const stateLabels: Record<BudgetState, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  unlimited: { label: "No cap", variant: "outline" },
+  ok: { label: "Within budget", variant: "secondary" },
+  downgraded: { label: "Using cheaper models", variant: "default" },
+  exhausted: { label: "Budget exhausted", variant: "destructive" },
+};
+
+function formatAmount(amount: number, budget: SessionBudget | null) {
+  return budget?.unit === "tokens" ? `${Math.round(amount).toLocaleString()} tokens` : `$${amount.toFixed(2)}`;
+}
+
+export function BudgetIndicator({ sessionId: propSessionId }: BudgetIndicatorProps) {
+  const { currentSessionId } = useSessionContext();
+  const sessionId = propSessionId || currentSessionId;
+  const { data: status } = useSessionBudget(sessionId);
+
+  if (!status) {
+    return null;
+  }
+
+  const { label, variant } = stateLabels[status.state];
+
+  return (
+    <Card data-testid="budget-indicator">
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Wallet className="h-4 w-4" />
+            Session Budget
+          </div>
+          <Badge variant={variant} data-testid="badge-budget-state">{label}</Badge>
+        </div>
+
+        {status.budget ? (
+          <>
+            <Progress value={Math.min(100, (status.fractionUsed ?? 0) * 100)} data-testid="progress-budget" />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatAmount(status.spent, status.budget)} of {formatAmount(status.budget.limit, status.budget)} spent</span>
+              <span data-testid="text-budget-remaining">{formatAmount(status.remaining ?? 0, status.budget)} remaining</span>
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {formatAmount(status.spent, null)} spent so far. Set a budget when creating a session to cap agent spending.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
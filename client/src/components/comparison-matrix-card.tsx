@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { Scale, Sparkles, Plus, Trash2, Pencil, RotateCcw, Trophy } from "lucide-react";
+import { useSessionContext } from "@/context/session-context";
+import { useAuth } from "@/context/auth-context";
+import {
+  useSession, useComparisonMatrix, useSaveComparisonCriteria, useProposeComparisonScores, useSetComparisonScore
+} from "@/hooks/use-sessions";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { defaultComparisonCriteria, type ComparisonMatrix } from "@shared/comparison";
+import type { ComparisonCriteriaRequest } from "@shared/schema";
+
+type DraftCriterion = ComparisonCriteriaRequest["criteria"][number];
+
+interface ComparisonMatrixCardProps {
+  sessionId?: string; // Falls back to the current session from context
+}
+
+function CriteriaEditor({ initial, saving, onSave, onCancel }: {
+  initial: DraftCriterion[];
+  saving: boolean;
+  onSave: (criteria: DraftCriterion[]) => void;
+  onCancel?: () => void;
+}) {
+  const [draft, setDraft] = useState<DraftCriterion[]>(initial);
+  const update = (index: number, changes: Partial<DraftCriterion>) =>
+    setDraft(draft.map((criterion, i) => i === index ? { ...criterion, ...changes } : criterion));
+  const valid = draft.every(criterion => criterion.name.trim());
+
+  return (
+    <div className="space-y-3" data-testid="comparison-criteria-editor">
+      {draft.map((criterion, index) => (
+        <div key={criterion.id ?? `new-${index}`} className="flex items-center gap-2">
+          <Input
+            value={criterion.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+            placeholder="Criterion, e.g. Cost"
+            className="w-44"
+            data-testid={`input-criterion-name-${index}`}
+          />
+          <Input
+            value={criterion.description ?? ""}
+            onChange={(e) => update(index, { description: e.target.value })}
+            placeholder="What scores high"
+            className="flex-1"
+            data-testid={`input-criterion-description-${index}`}
+          />
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={criterion.weight}
+            onChange={(e) => update(index, { weight: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+            className="w-20"
+            aria-label="Weight"
+            data-testid={`input-criterion-weight-${index}`}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+            data-testid={`button-remove-criterion-${index}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft([...draft, { name: "", weight: 50 }])}
+          disabled={draft.length >= 12}
+          data-testid="button-add-criterion"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add criterion
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setDraft(defaultComparisonCriteria)} data-testid="button-default-criteria">
+          Use defaults
+        </Button>
+        <div className="flex-1" />
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} data-testid="button-cancel-criteria">
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={() => onSave(draft)} disabled={saving || !valid} data-testid="button-save-criteria">
+          {saving ? "Saving..." : "Save criteria"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Weights are relative; a criterion's share of the ranking is its weight over the sum of all weights.
+      </p>
+    </div>
+  );
+}
+
+function SensitivitySummary({ matrix }: { matrix: ComparisonMatrix }) {
+  const titleOf = (solutionId: string) => matrix.solutions.find(s => s.id === solutionId)?.title ?? "Unknown";
+
+  return (
+    <div className="space-y-2" data-testid="comparison-sensitivity">
+      <h4 className="text-sm font-medium">If the weights shift</h4>
+      <ul className="space-y-1 text-sm text-muted-foreground">
+        {matrix.sensitivity.map(entry => (
+          <li key={entry.criterionId} data-testid={`sensitivity-${entry.criterionId}`}>
+            <span className="font-medium text-foreground">{entry.criterion}</span> (weight {entry.weight}):{" "}
+            {entry.winners.length === 1
+              ? `${titleOf(entry.winners[0].solutionId)} ranks first at any weight.`
+              : <>
+                  current winner holds from {entry.stableFrom} to {entry.stableTo}; {entry.winners
+                    .map(w => `from ${w.fromWeight} ${titleOf(w.solutionId)} leads`)
+                    .join(", ")}.
+                </>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Weighted decision matrix for the session's solutions: facilitator-defined
+ * criteria, AI-proposed scores the facilitator can override, the resulting ranking
+ * and how that ranking responds to weight changes
+ */
+export function ComparisonMatrixCard({ sessionId: propSessionId }: ComparisonMatrixCardProps) {
+  const { currentSessionId } = useSessionContext();
+  const sessionId = propSessionId || currentSessionId;
+  const { user } = useAuth();
+  const { data: session } = useSession(sessionId);
+  const { data: matrix, isLoading } = useComparisonMatrix(sessionId);
+  const saveCriteria = useSaveComparisonCriteria();
+  const proposeScores = useProposeComparisonScores();
+  const setScore = useSetComparisonScore();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+
+  const fail = (title: string) => (error: unknown) => toast({
+    title,
+    description: error instanceof Error ? error.message : "Please try again",
+    variant: "destructive",
+  });
+
+  if (!sessionId || isLoading || !matrix) {
+    return null;
+  }
+
+  const canAdjust = !!user && !!session && session.facilitatorId === user.id;
+
+  const handleSaveCriteria = (criteria: DraftCriterion[]) => {
+    saveCriteria.mutateAsync({ sessionId, criteria })
+      .then(() => setEditing(false))
+      .catch(fail("Could not save criteria"));
+  };
+
+  const handleScore = (solutionId: string, criterionId: string, value: string, current: number | null) => {
+    const score = value.trim() === "" ? null : parseInt(value);
+    if (score === current || (score !== null && (isNaN(score) || score < 1 || score > 10))) {
+      return;
+    }
+    setScore.mutateAsync({ sessionId, solutionId, criterionId, score }).catch(fail("Could not save score"));
+  };
+
+  const cellOf = (solutionId: string, criterionId: string) =>
+    matrix.cells.find(c => c.solutionId === solutionId && c.criterionId === criterionId);
+  const rankOf = (solutionId: string) => matrix.ranking.find(r => r.solutionId === solutionId);
+  const totalWeight = matrix.criteria.reduce((sum, c) => sum + c.weight, 0);
+  const hasScores = matrix.cells.some(c => c.effectiveScore != null);
+  const winner = hasScores ? matrix.ranking[0] : undefined;
+
+  return (
+    <Card data-testid="comparison-matrix-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Solution Comparison
+          </CardTitle>
+          {matrix.criteria.length > 0 && !editing && (
+            <div className="flex items-center gap-2">
+              {canAdjust && (
+                <Button variant="outline" size="sm" onClick={() => setEditing(true)} data-testid="button-edit-criteria">
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Criteria
+                </Button>
+              )}
+              <Button
+                size="sm"
+                onClick={() => proposeScores.mutateAsync(sessionId).catch(fail("Could not score solutions"))}
+                disabled={proposeScores.isPending || !matrix.solutions.length}
+                data-testid="button-score-with-ai"
+              >
+                <Sparkles className="h-4 w-4 mr-1" />
+                {proposeScores.isPending ? "Scoring..." : hasScores ? "Rescore with AI" : "Score with AI"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!matrix.criteria.length && !canAdjust ? (
+          <p className="text-sm text-muted-foreground">The facilitator has not defined comparison criteria yet.</p>
+        ) : (editing || !matrix.criteria.length) ? (
+          <>
+            {!matrix.criteria.length && (
+              <p className="text-sm text-muted-foreground">
+                Define the weighted criteria the solutions should be compared on.
+              </p>
+            )}
+            <CriteriaEditor
+              initial={matrix.criteria.length
+                ? matrix.criteria.map(c => ({ id: c.id, name: c.name, description: c.description ?? undefined, weight: c.weight }))
+                : defaultComparisonCriteria}
+              saving={saveCriteria.isPending}
+              onSave={handleSaveCriteria}
+              onCancel={matrix.criteria.length ? () => setEditing(false) : undefined}
+            />
+          </>
+        ) : !matrix.solutions.length ? (
+          <p className="text-sm text-muted-foreground">Generate solutions to compare them here.</p>
+        ) : (
+          <>
+            <Table data-testid="comparison-matrix">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Solution</TableHead>
+                  {matrix.criteria.map(criterion => (
+                    <TableHead key={criterion.id} title={criterion.description ?? undefined}>
+                      <div>{criterion.name}</div>
+                      <div className="text-xs font-normal">
+                        {totalWeight > 0 ? Math.round((criterion.weight / totalWeight) * 100) : 0}%
+                      </div>
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Weighted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matrix.solutions.map(solution => {
+                  const ranked = rankOf(solution.id);
+                  return (
+                    <TableRow key={solution.id} data-testid={`comparison-row-${solution.id}`}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {winner?.solutionId === solution.id && <Trophy className="h-4 w-4 text-amber-500" />}
+                          {solution.title}
+                        </div>
+                        {solution.authorName && (
+                          <div className="text-xs font-normal text-muted-foreground">Proposed by {solution.authorName}</div>
+                        )}
+                      </TableCell>
+                      {matrix.criteria.map(criterion => {
+                        const cell = cellOf(solution.id, criterion.id);
+                        return (
+                          <TableCell key={criterion.id} title={cell?.aiRationale ?? undefined}>
+                            <div className="flex items-center gap-1">
+                              <Input
+                                key={`${cell?.effectiveScore ?? "none"}`}
+                                type="number"
+                                min={1}
+                                max={10}
+                                defaultValue={cell?.effectiveScore ?? ""}
+                                readOnly={!canAdjust}
+                                onBlur={(e) => canAdjust && handleScore(solution.id, criterion.id, e.target.value, cell?.score ?? null)}
+                                className="w-16 h-8"
+                                data-testid={`input-score-${solution.id}-${criterion.id}`}
+                              />
+                              {cell?.score != null && canAdjust ? (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  title={cell.aiScore != null ? `Revert to AI score ${cell.aiScore}` : "Clear score"}
+                                  onClick={() => handleScore(solution.id, criterion.id, "", cell.score)}
+                                  data-testid={`button-revert-score-${solution.id}-${criterion.id}`}
+                                >
+                                  <RotateCcw className="h-3 w-3" />
+                                </Button>
+                              ) : cell?.aiScore != null && (
+                                <Badge variant="secondary" className="text-xs">AI</Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-right">
+                        {ranked && ranked.scoredCriteria > 0 ? (
+                          <div>
+                            <div className="font-medium">{ranked.weightedScore.toFixed(1)}</div>
+                            <div className="text-xs text-muted-foreground">#{ranked.rank}</div>
+                          </div>
+                        ) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Scores run from 1 to 10, higher is better. Hover a cell for the AI's rationale{canAdjust ? "; edit it to override" : ""}.
+            </p>
+            {matrix.sensitivity.length > 0 && (
+              <>
+                <Separator />
+                <SensitivitySummary matrix={matrix} />
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
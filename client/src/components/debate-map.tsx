@@ -0,0 +1,226 @@
+import { useState, useMemo } from "react";
+import { Network, ChevronDown, ChevronRight, FileText, User, AlertCircle, X } from "lucide-react";
+import { useArgumentGraph } from "@/hooks/use-sessions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { ArgumentEdgeType, ArgumentGraph, ArgumentNode } from "@shared/debate";
+
+interface DebateMapProps {
+  sessionId: string;
+  solutionId: string;
+  onClose?: () => void;
+}
+
+interface ThreadNode {
+  node: ArgumentNode;
+  edgeType?: ArgumentEdgeType; // How this node relates to its parent
+  children: ThreadNode[];
+}
+
+// Turn the reply edges into threads rooted at points that do not reply to anything
+function buildThreads(graph: ArgumentGraph): ThreadNode[] {
+  const threads = new Map(graph.nodes.map(node => [node.id, { node, children: [] } as ThreadNode]));
+  const roots: ThreadNode[] = [];
+
+  for (const thread of Array.from(threads.values())) {
+    const edge = graph.edges.find(e => e.from === thread.node.id);
+    const parent = edge && threads.get(edge.to);
+    if (parent) {
+      thread.edgeType = edge.type;
+      parent.children.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  }
+
+  return roots;
+}
+
+function countDescendants(thread: ThreadNode): number {
+  return thread.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+// Scroll the debate view to the argument card and flash it
+function jumpToArgument(id: string) {
+  const element = document.getElementById(`argument-${id}`);
+  if (!element) return;
+  element.scrollIntoView({ behavior: "smooth", block: "center" });
+  element.classList.add("ring-2", "ring-primary");
+  setTimeout(() => element.classList.remove("ring-2", "ring-primary"), 1500);
+}
+
+interface ThreadItemProps {
+  thread: ThreadNode;
+  collapsed: Set<string>;
+  highlightUnanswered: boolean;
+  onToggle: (id: string) => void;
+}
+
+function ThreadItem({ thread, collapsed, highlightUnanswered, onToggle }: ThreadItemProps) {
+  const { node, children, edgeType } = thread;
+  const isCollapsed = collapsed.has(node.id);
+  const sideColor = node.side === "proponent" ? "border-l-blue-500" : "border-l-red-500";
+  const unansweredRing = highlightUnanswered && node.unanswered ? "ring-2 ring-amber-400" : "";
+
+  return (
+    <li className="space-y-2">
+      <div className={`flex items-center gap-2 rounded-md border border-l-4 ${sideColor} ${unansweredRing} bg-card px-3 py-2`} data-testid={`map-node-${node.id}`}>
+        {children.length > 0 ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={() => onToggle(node.id)}
+            data-testid={`button-toggle-thread-${node.id}`}
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        ) : (
+          <span className="w-6 shrink-0" />
+        )}
+
+        {edgeType && (
+          <Badge variant={edgeType === "rebuttal" ? "destructive" : "secondary"} className="text-xs capitalize shrink-0">
+            {edgeType}
+          </Badge>
+        )}
+
+        <button
+          type="button"
+          className="text-sm font-medium text-left truncate hover:underline"
+          onClick={() => jumpToArgument(node.id)}
+          data-testid={`button-jump-${node.id}`}
+        >
+          {node.title}
+        </button>
+
+        <div className="ml-auto flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+          {node.authorId && <User className="h-3 w-3" />}
+          <span title="Strength score">{node.strengthScore.toFixed(1)}</span>
+          <span title="Net votes">{node.upvotes - node.downvotes >= 0 ? "+" : ""}{node.upvotes - node.downvotes}</span>
+          <span className="flex items-center gap-0.5" title="Evidence">
+            <FileText className="h-3 w-3" />
+            {node.evidenceCount}
+          </span>
+          {isCollapsed && <Badge variant="outline" className="text-xs">+{countDescendants(thread)}</Badge>}
+          {node.unanswered && highlightUnanswered && (
+            <Badge variant="outline" className="text-xs border-amber-400 text-amber-600">Unanswered</Badge>
+          )}
+        </div>
+      </div>
+
+      {!isCollapsed && children.length > 0 && (
+        <ul className="ml-6 space-y-2 border-l pl-4">
+          {children.map(child => (
+            <ThreadItem
+              key={child.node.id}
+              thread={child}
+              collapsed={collapsed}
+              highlightUnanswered={highlightUnanswered}
+              onToggle={onToggle}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function DebateMap({ sessionId, solutionId, onClose }: DebateMapProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [highlightUnanswered, setHighlightUnanswered] = useState(true);
+  const { data: graph, isLoading, error } = useArgumentGraph(sessionId, solutionId);
+
+  const threadsByRound = useMemo(() => {
+    if (!graph) return [];
+    const rounds = new Map<number, ThreadNode[]>();
+    for (const thread of buildThreads(graph)) {
+      rounds.set(thread.node.roundNumber, [...(rounds.get(thread.node.roundNumber) || []), thread]);
+    }
+    return Array.from(rounds.entries()).sort(([a], [b]) => a - b);
+  }, [graph]);
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const unansweredCount = graph?.nodes.filter(n => n.unanswered).length ?? 0;
+
+  return (
+    <Card data-testid="debate-map">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Network className="h-5 w-5" />
+            Debate Map
+          </CardTitle>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="highlight-unanswered"
+                checked={highlightUnanswered}
+                onCheckedChange={setHighlightUnanswered}
+                data-testid="switch-highlight-unanswered"
+              />
+              <Label htmlFor="highlight-unanswered" className="text-sm">
+                Highlight unanswered ({unansweredCount})
+              </Label>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCollapsed(collapsed.size > 0 ? new Set() : new Set(graph?.edges.map(e => e.to)))}
+              disabled={!graph || graph.edges.length === 0}
+              data-testid="button-toggle-all-threads"
+            >
+              {collapsed.size > 0 ? "Expand all" : "Collapse all"}
+            </Button>
+            {onClose && (
+              <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-debate-map">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading map...</p>}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Unable to load the debate map
+          </div>
+        )}
+
+        {threadsByRound.map(([roundNumber, threads]) => (
+          <div key={roundNumber} className="space-y-2" data-testid={`map-round-${roundNumber}`}>
+            <h4 className="text-sm font-medium text-muted-foreground">Round {roundNumber}</h4>
+            <ul className="space-y-2">
+              {threads.map(thread => (
+                <ThreadItem
+                  key={thread.node.id}
+                  thread={thread}
+                  collapsed={collapsed}
+                  highlightUnanswered={highlightUnanswered}
+                  onToggle={toggle}
+                />
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
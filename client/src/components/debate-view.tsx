@@ -1,13 +1,20 @@
 import { useState, useMemo } from "react";
-import { MessageSquare, ThumbsUp, ThumbsDown, User, Bot, Pin, ExternalLink, AlertCircle } from "lucide-react";
+import { MessageSquare, ThumbsUp, ThumbsDown, Bot, Pin, Network, AlertCircle, Play, Loader2, Trophy, User, Reply } from "lucide-react";
 import { useSessionContext } from "@/context/session-context";
-import { useSessionDebatePoints, useVoteOnDebatePoint } from "@/hooks/use-sessions";
+import { useAgentStream, type LiveAgentMessage } from "@/context/agent-stream-context";
+import { useSessionClaims, useSessionDebatePoints, useSessionDebates, useSessionSolutions, useVoteOnDebatePoint } from "@/hooks/use-sessions";
 import { useToast } from "@/hooks/use-toast";
+import { FacilitatorControls } from "@/components/facilitator-controls";
+import { DebateMap } from "@/components/debate-map";
+import { ParticipantArgumentForm, type RebuttalTarget } from "@/components/participant-argument-form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Claim, ClaimStatus, ClaimType, DebatePoint as DebatePointRecord } from "@shared/schema";
+import type { ConsensusLevel, DebateOutcome } from "@shared/debate";
 
 interface DebatePoint {
   id: string;
@@ -21,7 +28,256 @@ interface DebatePoint {
     userVote?: "up" | "down";
   };
   evidenceAttached?: boolean;
-  rebuttal?: DebatePoint;
+  generatedWith?: string; // provider/model that actually produced the point
+  byParticipant: boolean;
+  rebuttals: DebatePoint[];
+}
+
+// One round of the selected solution's debate, with its opening points and the rebuttals to them
+interface RoundView {
+  roundNumber: number;
+  points: DebatePoint[];
+  summary?: string;
+  consensusLevel?: ConsensusLevel;
+  winner?: DebateOutcome;
+}
+
+const consensusVariants: Record<ConsensusLevel, "default" | "secondary" | "outline"> = {
+  high: "default",
+  moderate: "secondary",
+  low: "outline",
+};
+
+const claimStatusStyles: Record<ClaimStatus, string> = {
+  unverified: "border-muted-foreground/40 text-muted-foreground",
+  supported: "border-green-500 text-green-700 dark:text-green-400",
+  contested: "border-amber-500 text-amber-700 dark:text-amber-400",
+  refuted: "border-red-500 text-red-700 dark:text-red-400",
+};
+
+const claimTypeLabels: Record<ClaimType, string> = {
+  factual: "Fact",
+  causal: "Cause",
+  value: "Value",
+  prediction: "Prediction",
+};
+
+function ClaimList({ claims }: { claims: Claim[] }) {
+  return (
+    <ul className="space-y-1" data-testid="list-claims">
+      {claims.map(claim => (
+        <li key={claim.id} className="flex items-start gap-2 text-sm" data-testid={`claim-${claim.id}`}>
+          <Badge variant="secondary" className="text-xs shrink-0">{claimTypeLabels[claim.type as ClaimType]}</Badge>
+          <span className="flex-1">{claim.text}</span>
+          <Badge variant="outline" className={`text-xs capitalize shrink-0 ${claimStatusStyles[claim.status as ClaimStatus]}`} data-testid={`badge-claim-status-${claim.id}`}>
+            {claim.status}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const roundWinnerLabels: Record<DebateOutcome, string> = {
+  proponent: "Proponent took the round",
+  opponent: "Opponent took the round",
+  draw: "Even round",
+};
+
+const outcomeLabels: Record<DebateOutcome, string> = {
+  proponent: "Proponent carried the debate",
+  opponent: "Opponent carried the debate",
+  draw: "Debate ended in a draw",
+};
+
+function toDebatePoint(point: DebatePointRecord): DebatePoint {
+  return {
+    id: point.id,
+    agent: point.agent as "proponent" | "opponent",
+    point: point.pointNumber,
+    title: point.title,
+    content: point.content,
+    votes: {
+      up: point.upvotes,
+      down: point.downvotes,
+      userVote: undefined // Could be determined from user votes if needed
+    },
+    evidenceAttached: point.evidenceAttached || false,
+    generatedWith: point.provider && point.model ? `${point.provider}/${point.model}` : undefined,
+    byParticipant: !!point.authorId,
+    rebuttals: []
+  };
+}
+
+// Nest each rebuttal under the point it answers. Older agent rebuttals without a link fall back to the point number.
+function threadRebuttals(points: DebatePointRecord[]): DebatePoint[] {
+  const ordered = [...points].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const views = new Map(ordered.map(point => [point.id, toDebatePoint(point)]));
+  const roots: DebatePoint[] = [];
+
+  for (const point of ordered) {
+    const view = views.get(point.id)!;
+    const parent = point.rebuttalTo
+      ? views.get(point.rebuttalTo)
+      : point.agent === "opponent" && !point.authorId
+        ? roots.find(r => r.agent === "proponent" && r.point === point.pointNumber && r.rebuttals.length === 0)
+        : undefined;
+
+    if (parent) {
+      parent.rebuttals.push(view);
+    } else {
+      roots.push(view);
+    }
+  }
+
+  return roots;
+}
+
+// A point followed by every rebuttal in its thread, in the order they were made
+function flattenThread(point: DebatePoint): DebatePoint[] {
+  return point.rebuttals.flatMap(rebuttal => [rebuttal, ...flattenThread(rebuttal)]);
+}
+
+function AgentAvatar({ agent, byParticipant }: { agent: "proponent" | "opponent"; byParticipant: boolean }) {
+  return (
+    <Avatar className="h-8 w-8">
+      <AvatarFallback className={
+        agent === "proponent"
+          ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300"
+          : "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300"
+      }>
+        {byParticipant ? <User className="h-4 w-4" /> : agent === "proponent" ? "P" : "O"}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+interface ArgumentCardProps {
+  point: DebatePoint;
+  claims?: Claim[];
+  isRebuttal?: boolean;
+  votePending: boolean;
+  onVote: (pointId: string, vote: "up" | "down") => void;
+  onRebut?: (point: DebatePoint) => void; // Set while participants can still join the debate
+}
+
+function ArgumentCard({ point, claims = [], isRebuttal, votePending, onVote, onRebut }: ArgumentCardProps) {
+  const agentColor = point.agent === "proponent"
+    ? "border-l-blue-500 bg-blue-50/50 dark:bg-blue-950/20"
+    : "border-l-red-500 bg-red-50/50 dark:bg-red-950/20";
+
+  return (
+    <Card className={`${isRebuttal ? "ml-8 " : ""}border-l-4 ${agentColor}`} id={`argument-${point.id}`} data-testid={`argument-${point.id}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <AgentAvatar agent={point.agent} byParticipant={point.byParticipant} />
+          <div className="flex items-center gap-2">
+            <span className="font-medium capitalize">{point.byParticipant ? `Participant (${point.agent})` : point.agent}</span>
+            <Badge variant={isRebuttal ? "outline" : "secondary"}>
+              {isRebuttal ? "Rebuttal" : "Point"} {point.point}
+            </Badge>
+            {point.evidenceAttached && (
+              <Badge variant="outline" className="text-xs">
+                <Pin className="h-3 w-3 mr-1" />
+                Evidence
+              </Badge>
+            )}
+            {point.generatedWith && (
+              <Badge variant="outline" className="text-xs text-muted-foreground" data-testid={`badge-model-${point.id}`}>
+                <Bot className="h-3 w-3 mr-1" />
+                {point.generatedWith}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <h3 className="font-medium text-lg">{point.title}</h3>
+        <p className="text-muted-foreground leading-relaxed">{point.content}</p>
+        {claims.length > 0 && <ClaimList claims={claims} />}
+
+        {/* Voting */}
+        <div className="flex items-center justify-between pt-2">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onVote(point.id, "up")}
+              disabled={votePending}
+              className={`flex items-center gap-1 ${point.votes.userVote === "up" ? "text-green-600" : ""}`}
+              data-testid={`button-upvote-${point.id}`}
+            >
+              <ThumbsUp className="h-4 w-4" />
+              {point.votes.up}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onVote(point.id, "down")}
+              disabled={votePending}
+              className={`flex items-center gap-1 ${point.votes.userVote === "down" ? "text-red-600" : ""}`}
+              data-testid={`button-downvote-${point.id}`}
+            >
+              <ThumbsDown className="h-4 w-4" />
+              {point.votes.down}
+            </Button>
+            {onRebut && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRebut(point)}
+                data-testid={`button-rebut-${point.id}`}
+              >
+                <Reply className="h-4 w-4 mr-1" />
+                Rebut
+              </Button>
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {point.votes.up + point.votes.down} total votes
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LiveArgumentCard({ message }: { message: LiveAgentMessage }) {
+  const isProponent = message.agent === "proponent";
+
+  return (
+    <Card
+      className={`border-l-4 ${isProponent ? "border-l-blue-500 bg-blue-50/50 dark:bg-blue-950/20" : "ml-8 border-l-red-500 bg-red-50/50 dark:bg-red-950/20"}`}
+      data-testid={`live-argument-${message.callId}`}
+    >
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <span className="font-medium capitalize">{message.agent}</span>
+          {message.status === "writing" && (
+            <Badge variant="secondary" className="text-xs">
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              Writing
+            </Badge>
+          )}
+          {message.status === "failed" && (
+            <Badge variant="destructive" className="text-xs">Failed</Badge>
+          )}
+          {message.provider && message.model && (
+            <Badge variant="outline" className="text-xs text-muted-foreground">
+              <Bot className="h-3 w-3 mr-1" />
+              {message.provider}/{message.model}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-muted-foreground leading-relaxed whitespace-pre-wrap">
+          {message.content}
+          {message.status === "writing" && <span className="inline-block w-2 h-4 ml-0.5 bg-muted-foreground/60 animate-pulse align-middle" />}
+        </p>
+      </CardContent>
+    </Card>
+  );
 }
 
 interface DebateViewProps {
@@ -30,51 +286,74 @@ interface DebateViewProps {
 }
 
 export function DebateView({ onVote, onViewDebateMap }: DebateViewProps) {
-  const [currentRound, setCurrentRound] = useState(1);
+  const [selectedSolutionId, setSelectedSolutionId] = useState<string | null>(null);
+  const [rebuttalTarget, setRebuttalTarget] = useState<RebuttalTarget | null>(null);
+  const [showMap, setShowMap] = useState(false);
   
   const { currentSessionId } = useSessionContext();
   const { data: rawDebatePoints = [], isLoading: debateLoading, error: debateError } = useSessionDebatePoints(currentSessionId);
+  const { isStreaming, activePhase, liveMessages, runPhaseStream } = useAgentStream();
+  const { data: claims = [] } = useSessionClaims(currentSessionId);
+  const { data: debates = [] } = useSessionDebates(currentSessionId, isStreaming && activePhase === 4);
+  const { data: solutions = [] } = useSessionSolutions(currentSessionId);
   const voteOnPointMutation = useVoteOnDebatePoint();
   const { toast } = useToast();
 
-  // Transform backend debate points to component format
-  const debatePoints = useMemo(() => {
-    const pointsMap = new Map<number, DebatePoint>();
-    
-    // Group points by point number and organize proponent/opponent pairs
+  // Arguments being written right now; they are replaced by saved points once the stream ends
+  const liveArguments = isStreaming && activePhase === 4
+    ? liveMessages.filter(m => m.agent === "proponent" || m.agent === "opponent")
+    : [];
+
+  // Solutions that have been debated, in the order the engine ran them
+  const debatedSolutionIds = useMemo(() => {
+    const ids = debates.map(d => d.solutionId);
     rawDebatePoints.forEach(point => {
-      const pointNum = point.pointNumber;
-      
-      const debatePoint: DebatePoint = {
-        id: point.id,
-        agent: point.agent as "proponent" | "opponent",
-        point: pointNum,
-        title: point.title,
-        content: point.content,
-        votes: {
-          up: point.upvotes,
-          down: point.downvotes,
-          userVote: undefined // Could be determined from user votes if needed
-        },
-        evidenceAttached: point.evidenceAttached || false
-      };
-
-      if (point.agent === "proponent") {
-        pointsMap.set(pointNum, debatePoint);
-      } else if (point.agent === "opponent") {
-        // Find the proponent point to attach as rebuttal
-        const proponentPoint = pointsMap.get(pointNum);
-        if (proponentPoint) {
-          proponentPoint.rebuttal = debatePoint;
-        } else {
-          // If proponent doesn't exist yet, create a placeholder
-          pointsMap.set(pointNum, debatePoint);
-        }
-      }
+      if (!ids.includes(point.solutionId)) ids.push(point.solutionId);
     });
+    return ids;
+  }, [debates, rawDebatePoints]);
+
+  // Follow the debate that is still running unless the facilitator picked another solution
+  const activeSolutionId = selectedSolutionId && debatedSolutionIds.includes(selectedSolutionId)
+    ? selectedSolutionId
+    : debates.find(d => d.status === "active" || d.status === "paused")?.solutionId ?? debatedSolutionIds[0];
+  const activeSolution = solutions.find(s => s.id === activeSolutionId);
+  const activeDebate = debates.find(d => d.solutionId === activeSolutionId);
 
-    return Array.from(pointsMap.values()).sort((a, b) => a.point - b.point);
-  }, [rawDebatePoints]);
+  // Group the selected solution's points by round, taking summaries and consensus from the persisted debate
+  const rounds = useMemo(() => {
+    const roundsMap = new Map<number, DebatePointRecord[]>();
+    const debateArgumentIds = activeDebate ? new Set(activeDebate.rounds.flatMap(r => r.arguments.map(a => a.id))) : null;
+
+    rawDebatePoints
+      .filter(point => point.solutionId === activeSolutionId && (!debateArgumentIds || debateArgumentIds.has(point.id)))
+      .forEach(point => {
+        roundsMap.set(point.round, [...(roundsMap.get(point.round) || []), point]);
+      });
+
+    return Array.from(roundsMap.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([roundNumber, points]): RoundView => {
+        const round = activeDebate?.rounds.find(r => r.roundNumber === roundNumber);
+        return {
+          roundNumber,
+          points: threadRebuttals(points),
+          summary: round?.roundSummary,
+          consensusLevel: round?.consensusLevel,
+          winner: round?.winner
+        };
+      });
+  }, [rawDebatePoints, activeDebate, activeSolutionId]);
+
+  const claimsByPoint = useMemo(() => {
+    const grouped = new Map<string, Claim[]>();
+    claims.forEach(claim => grouped.set(claim.pointId, [...(grouped.get(claim.pointId) || []), claim]));
+    return grouped;
+  }, [claims]);
+
+  const pointCount = rounds.reduce((sum, round) => sum + round.points.reduce((n, p) => n + 1 + flattenThread(p).length, 0), 0);
+  const debateOpen = !!activeDebate?.id && (activeDebate.status === "active" || activeDebate.status === "paused");
+  const totalRounds = activeDebate?.totalRounds ?? rounds.length;
 
   // Show loading state
   if (debateLoading) {
@@ -102,13 +381,42 @@ export function DebateView({ onVote, onViewDebateMap }: DebateViewProps) {
     );
   }
 
+  const handleStartDebate = async () => {
+    if (!currentSessionId) return;
+
+    try {
+      const result = await runPhaseStream(currentSessionId, "start-debate", 4);
+      if (!result.success) {
+        toast({
+          title: "Debate failed",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Debate failed",
+        description: error instanceof Error ? error.message : "Unable to start the debate.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Show empty state
-  if (debatePoints.length === 0) {
+  if (rounds.length === 0 && liveArguments.length === 0) {
     return (
       <div className="text-center p-8" data-testid="no-debate-points">
         <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
         <h3 className="text-lg font-medium mb-2">No Debate Points Yet</h3>
-        <p className="text-muted-foreground">Debate points will appear here once the AI agents begin their discussion.</p>
+        <p className="text-muted-foreground mb-4">Debate points will appear here once the AI agents begin their discussion.</p>
+        <Button
+          onClick={handleStartDebate}
+          disabled={!currentSessionId || isStreaming}
+          data-testid="button-start-debate"
+        >
+          {isStreaming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          {isStreaming ? "Agents are starting..." : "Start Debate"}
+        </Button>
       </div>
     );
   }
@@ -146,18 +454,8 @@ export function DebateView({ onVote, onViewDebateMap }: DebateViewProps) {
   };
 
   const handleViewDebateMap = () => {
+    setShowMap(!showMap);
     onViewDebateMap?.();
-    console.log("Opening debate map view");
-  };
-
-  const getAgentColor = (agent: "proponent" | "opponent") => {
-    return agent === "proponent" 
-      ? "border-l-blue-500 bg-blue-50/50 dark:bg-blue-950/20" 
-      : "border-l-red-500 bg-red-50/50 dark:bg-red-950/20";
-  };
-
-  const getAgentIcon = (agent: "proponent" | "opponent") => {
-    return agent === "proponent" ? "P" : "O";
   };
 
   return (
@@ -166,25 +464,45 @@ export function DebateView({ onVote, onViewDebateMap }: DebateViewProps) {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle className="flex items-center gap-2">
+            <CardTitle className="flex items-center gap-2" data-testid="text-debate-title">
               <MessageSquare className="h-5 w-5" />
-              Debate: Customer Success Enhancement Program
+              Debate: {activeSolution?.title || "Proposed Solution"}
             </CardTitle>
             <div className="flex items-center gap-4">
-              <Badge variant="outline">Round {currentRound} of 3</Badge>
+              <Badge variant="outline" data-testid="badge-round-progress">
+                {rounds.length} of {totalRounds} round{totalRounds === 1 ? "" : "s"}
+              </Badge>
               <Button 
                 variant="outline" 
                 size="sm"
                 onClick={handleViewDebateMap}
                 data-testid="button-view-debate-map"
               >
-                <ExternalLink className="h-4 w-4 mr-1" />
-                View Debate Map
+                <Network className="h-4 w-4 mr-1" />
+                {showMap ? "Hide Debate Map" : "View Debate Map"}
               </Button>
             </div>
           </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {debatedSolutionIds.length > 1 && (
+            <Select value={activeSolutionId} onValueChange={setSelectedSolutionId}>
+              <SelectTrigger className="w-full md:w-96" data-testid="select-debate-solution">
+                <SelectValue placeholder="Choose a solution" />
+              </SelectTrigger>
+              <SelectContent>
+                {debatedSolutionIds.map(id => {
+                  const solution = solutions.find(s => s.id === id);
+                  return (
+                    <SelectItem key={id} value={id}>
+                      {solution?.title || "Untitled solution"}
+                      {solution?.authorName && ` (proposed by ${solution.authorName})`}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+          )}
           <div className="flex items-center gap-6">
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 bg-blue-500 rounded" />
@@ -198,163 +516,117 @@ export function DebateView({ onVote, onViewDebateMap }: DebateViewProps) {
         </CardContent>
       </Card>
 
-      {/* Debate Points */}
+      {showMap && currentSessionId && activeSolutionId && (
+        <DebateMap sessionId={currentSessionId} solutionId={activeSolutionId} onClose={() => setShowMap(false)} />
+      )}
+
+      {currentSessionId && activeDebate && (
+        <FacilitatorControls sessionId={currentSessionId} debate={activeDebate} />
+      )}
+
+      {/* Debate Rounds */}
       <div className="space-y-6">
-        {debatePoints.map((point, index) => (
-          <div key={point.id} className="space-y-4">
-            {/* Main Point */}
-            <Card className={`border-l-4 ${getAgentColor(point.agent)}`}>
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-center gap-3">
-                    <Avatar className="h-8 w-8">
-                      <AvatarFallback className={
-                        point.agent === "proponent" 
-                          ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300" 
-                          : "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300"
-                      }>
-                        {getAgentIcon(point.agent)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium capitalize">{point.agent}</span>
-                        <Badge variant="secondary">Point {point.point}</Badge>
-                        {point.evidenceAttached && (
-                          <Badge variant="outline" className="text-xs">
-                            <Pin className="h-3 w-3 mr-1" />
-                            Evidence
-                          </Badge>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <h3 className="font-medium text-lg">{point.title}</h3>
-                <p className="text-muted-foreground leading-relaxed">{point.content}</p>
-                
-                {/* Voting */}
-                <div className="flex items-center justify-between pt-2">
-                  <div className="flex items-center gap-4">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleVote(point.id, "up")}
-                      disabled={voteOnPointMutation.isPending}
-                      className={`flex items-center gap-1 ${
-                        point.votes.userVote === "up" ? "text-green-600" : ""
-                      }`}
-                      data-testid={`button-upvote-${point.id}`}
-                    >
-                      <ThumbsUp className="h-4 w-4" />
-                      {point.votes.up}
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleVote(point.id, "down")}
-                      disabled={voteOnPointMutation.isPending}
-                      className={`flex items-center gap-1 ${
-                        point.votes.userVote === "down" ? "text-red-600" : ""
-                      }`}
-                      data-testid={`button-downvote-${point.id}`}
-                    >
-                      <ThumbsDown className="h-4 w-4" />
-                      {point.votes.down}
-                    </Button>
-                  </div>
-                  <div className="text-xs text-muted-foreground">
-                    {point.votes.up + point.votes.down} total votes
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Rebuttal */}
-            {point.rebuttal && (
-              <Card className={`ml-8 border-l-4 ${getAgentColor(point.rebuttal.agent)}`}>
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-center gap-3">
-                      <Avatar className="h-8 w-8">
-                        <AvatarFallback className={
-                          point.rebuttal.agent === "proponent" 
-                            ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300" 
-                            : "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300"
-                        }>
-                          {getAgentIcon(point.rebuttal.agent)}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium capitalize">{point.rebuttal.agent}</span>
-                          <Badge variant="outline">Rebuttal {point.rebuttal.point}</Badge>
-                          {point.rebuttal.evidenceAttached && (
-                            <Badge variant="outline" className="text-xs">
-                              <Pin className="h-3 w-3 mr-1" />
-                              Evidence
-                            </Badge>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <h3 className="font-medium text-lg">{point.rebuttal.title}</h3>
-                  <p className="text-muted-foreground leading-relaxed">{point.rebuttal.content}</p>
-                  
-                  {/* Rebuttal Voting */}
-                  <div className="flex items-center justify-between pt-2">
-                    <div className="flex items-center gap-4">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleVote(point.rebuttal!.id, "up")}
-                        disabled={voteOnPointMutation.isPending}
-                        className={`flex items-center gap-1 ${
-                          point.rebuttal.votes.userVote === "up" ? "text-green-600" : ""
-                        }`}
-                        data-testid={`button-upvote-${point.rebuttal.id}`}
-                      >
-                        <ThumbsUp className="h-4 w-4" />
-                        {point.rebuttal.votes.up}
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleVote(point.rebuttal!.id, "down")}
-                        disabled={voteOnPointMutation.isPending}
-                        className={`flex items-center gap-1 ${
-                          point.rebuttal.votes.userVote === "down" ? "text-red-600" : ""
-                        }`}
-                        data-testid={`button-downvote-${point.rebuttal.id}`}
-                      >
-                        <ThumbsDown className="h-4 w-4" />
-                        {point.rebuttal.votes.down}
-                      </Button>
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {point.rebuttal.votes.up + point.rebuttal.votes.down} total votes
-                    </div>
-                  </div>
+        {rounds.map((round, roundIndex) => (
+          <div key={round.roundNumber} className="space-y-4" data-testid={`debate-round-${round.roundNumber}`}>
+            <div className="flex items-center gap-2">
+              <h3 className="font-semibold">Round {round.roundNumber}</h3>
+              {round.consensusLevel && (
+                <Badge variant={consensusVariants[round.consensusLevel]} className="capitalize" data-testid={`badge-round-consensus-${round.roundNumber}`}>
+                  {round.consensusLevel} consensus
+                </Badge>
+              )}
+              {round.winner && (
+                <Badge variant="outline" data-testid={`badge-round-winner-${round.roundNumber}`}>
+                  {roundWinnerLabels[round.winner]}
+                </Badge>
+              )}
+            </div>
+
+            {round.points.map(point => (
+              <div key={point.id} className="space-y-4">
+                <ArgumentCard
+                  point={point}
+                  claims={claimsByPoint.get(point.id)}
+                  votePending={voteOnPointMutation.isPending}
+                  onVote={handleVote}
+                  onRebut={debateOpen ? setRebuttalTarget : undefined}
+                />
+                {flattenThread(point).map(rebuttal => (
+                  <ArgumentCard
+                    key={rebuttal.id}
+                    point={rebuttal}
+                    claims={claimsByPoint.get(rebuttal.id)}
+                    isRebuttal
+                    votePending={voteOnPointMutation.isPending}
+                    onVote={handleVote}
+                    onRebut={debateOpen ? setRebuttalTarget : undefined}
+                  />
+                ))}
+              </div>
+            ))}
+
+            {round.summary && (
+              <Card className="bg-muted/40" data-testid={`text-round-summary-${round.roundNumber}`}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">{round.summary}</p>
                 </CardContent>
               </Card>
             )}
 
-            {index < debatePoints.length - 1 && <Separator className="my-6" />}
+            {roundIndex < rounds.length - 1 && <Separator className="my-6" />}
           </div>
         ))}
       </div>
 
+      {/* Live Arguments */}
+      {liveArguments.length > 0 && (
+        <div className="space-y-4" data-testid="live-arguments">
+          {rounds.length > 0 && <Separator className="my-6" />}
+          {liveArguments.map(message => (
+            <LiveArgumentCard key={message.callId} message={message} />
+          ))}
+        </div>
+      )}
+
+      {/* Participant Arguments */}
+      {currentSessionId && debateOpen && (
+        <ParticipantArgumentForm
+          sessionId={currentSessionId}
+          debateId={activeDebate!.id!}
+          rebuttalTarget={rebuttalTarget}
+          onClearRebuttal={() => setRebuttalTarget(null)}
+        />
+      )}
+
+      {/* Debate Outcome */}
+      {activeDebate?.status === "completed" && (
+        <Card data-testid="debate-outcome">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5" />
+              Outcome
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center gap-3">
+            <span className="font-medium" data-testid="text-debate-winner">
+              {activeDebate.winningPosition ? outcomeLabels[activeDebate.winningPosition] : "No clear winner"}
+            </span>
+            <Badge variant={consensusVariants[activeDebate.overallConsensus]} className="capitalize" data-testid="badge-overall-consensus">
+              {activeDebate.overallConsensus} overall consensus
+            </Badge>
+            <span className="text-sm text-muted-foreground">
+              {activeDebate.totalVotes} vote{activeDebate.totalVotes === 1 ? "" : "s"} cast
+            </span>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Debate Status */}
       <Card>
         <CardContent className="pt-6">
           <div className="flex items-center justify-between">
             <div className="text-sm text-muted-foreground">
-              Debate in progress • {debatePoints.length} points presented • Round {currentRound} of 3
+              {isStreaming ? "Agents are debating" : activeDebate?.status === "completed" ? "Debate complete" : activeDebate?.status === "failed" ? "Debate stopped on an error" : "Debate in progress"} • {pointCount} points presented • {rounds.length} of {totalRounds} round{totalRounds === 1 ? "" : "s"}
             </div>
             <Button variant="outline" data-testid="button-proceed-to-analysis">
               Proceed to Analysis →
@@ -364,4 +636,4 @@ export function DebateView({ onVote, onViewDebateMap }: DebateViewProps) {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 import { useState, useMemo } from "react";
-import { Search, ExternalLink, Check, AlertCircle, FileText, Link as LinkIcon, Pin } from "lucide-react";
+import { Search, ExternalLink, Check, AlertCircle, FileText, Link as LinkIcon, Pin, Brain } from "lucide-react";
 import { useSessionContext } from "@/context/session-context";
-import { useSessionEvidence } from "@/hooks/use-sessions";
+import { useSessionEvidence, useResearchStatus } from "@/hooks/use-sessions";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -9,6 +9,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import type { ContextReference, EvidenceProvenance, EvidenceSource } from "@shared/schema";
 
 interface Evidence {
   id: string;
@@ -17,14 +18,24 @@ interface Evidence {
   source: {
     title: string;
     url: string;
-    type: "internal" | "external" | "research";
+    type: string;
     date?: string;
+    retrievedAt?: string;
+    citations: string[];
+    references: ContextReference[];
   };
+  provenance: EvidenceProvenance;
   confidence: number;
   snippet: string;
   relevanceScore: number;
 }
 
+const provenanceLabels: Partial<Record<EvidenceProvenance, string>> = {
+  web_search: "Sourced",
+  local_corpus: "Team documents",
+  manual: "Added by participant",
+};
+
 interface Question {
   id: string;
   question: string;
@@ -45,28 +56,32 @@ export function EvidencePanel({ isOpen = true, onToggle }: EvidencePanelProps) {
 
   const { currentSessionId } = useSessionContext();
   const { data: rawEvidence = [], isLoading: evidenceLoading, error: evidenceError } = useSessionEvidence(currentSessionId);
+  const { data: researchStatus } = useResearchStatus();
   const { toast } = useToast();
 
   // Transform backend evidence to component format
-  const evidence = useMemo(() => {
-    return rawEvidence.map(item => ({
-      id: item.id,
-      pointId: item.pointId || '',
-      claim: item.claim,
-      source: typeof item.source === 'object' ? {
-        title: item.source.title || 'Unknown Source',
-        url: item.source.url || '',
-        type: item.source.type || 'external',
-        date: item.source.date
-      } : {
-        title: 'Unknown Source',
-        url: '',
-        type: 'external' as const
-      },
-      confidence: item.confidence,
-      snippet: item.snippet,
-      relevanceScore: item.relevanceScore
-    }));
+  const evidence = useMemo((): Evidence[] => {
+    return rawEvidence.map(item => {
+      const source = item.source && typeof item.source === 'object' ? item.source as Partial<EvidenceSource> : {};
+      return {
+        id: item.id,
+        pointId: item.pointId || '',
+        claim: item.claim,
+        source: {
+          title: source.title || 'Unknown Source',
+          url: source.url || '',
+          type: source.type || 'external',
+          date: source.date,
+          retrievedAt: source.retrievedAt,
+          citations: source.citations || (source.url ? [source.url] : []),
+          references: source.references || []
+        },
+        provenance: item.provenance as EvidenceProvenance,
+        confidence: item.confidence,
+        snippet: item.snippet,
+        relevanceScore: item.relevanceScore
+      };
+    });
   }, [rawEvidence]);
 
   // Mock questions for now - can be integrated later when questions API is added
@@ -139,6 +154,13 @@ export function EvidencePanel({ isOpen = true, onToggle }: EvidencePanelProps) {
     }
   };
 
+  // Session documents open at the cited page; earlier evidence opens in this panel
+  const referenceHref = (reference: ContextReference) => {
+    if (reference.kind !== "grounding" || !reference.documentId) return undefined;
+    const page = reference.page ? `#page=${reference.page}` : "";
+    return `/api/sessions/${currentSessionId}/grounding/${reference.documentId}/file${page}`;
+  };
+
   const handleRetryEvidence = () => {
     toast({
       title: "Retrying...",
@@ -178,6 +200,15 @@ export function EvidencePanel({ isOpen = true, onToggle }: EvidencePanelProps) {
           <Badge variant="outline">{evidence.length} sources</Badge>
           <Badge variant="outline">{questions.length} questions</Badge>
         </div>
+        {researchStatus && !researchStatus.liveSearch && (
+          <div className="flex items-start gap-2 rounded-md border border-amber-400 bg-amber-50 p-2 text-xs text-amber-800 dark:bg-amber-950 dark:text-amber-200" data-testid="banner-mock-research">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <span>
+              No live search backend is configured. Fact checks use team documents or model knowledge only
+              {researchStatus.mockInUse && ", and market research shows placeholder results that are never stored as evidence"}.
+            </span>
+          </div>
+        )}
       </CardHeader>
       
       <CardContent className="space-y-4 p-4">
@@ -269,6 +300,17 @@ export function EvidencePanel({ isOpen = true, onToggle }: EvidencePanelProps) {
                         <Badge variant="outline" className="text-xs">
                           {ev.source.type}
                         </Badge>
+                        {ev.provenance === "model_knowledge" ? (
+                          <Badge variant="secondary" className="text-xs gap-1" data-testid={`badge-provenance-${ev.id}`}>
+                            <Brain className="h-3 w-3" />
+                            Model knowledge
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs gap-1 border-green-500 text-green-700" data-testid={`badge-provenance-${ev.id}`}>
+                            <Check className="h-3 w-3" />
+                            {provenanceLabels[ev.provenance] ?? "Sourced"}
+                          </Badge>
+                        )}
                         <span className={`text-xs font-medium ${getConfidenceColor(ev.confidence)}`}>
                           {ev.confidence}% confidence
                         </span>
@@ -281,6 +323,64 @@ export function EvidencePanel({ isOpen = true, onToggle }: EvidencePanelProps) {
                       <p className="text-xs text-muted-foreground leading-relaxed">
                         {ev.snippet}
                       </p>
+                      {ev.provenance === "model_knowledge" && (
+                        <p className="text-xs text-muted-foreground italic">
+                          No live sources were consulted; this rests on the Analyst's own knowledge.
+                        </p>
+                      )}
+                      {ev.source.citations.length > 0 && (
+                        <ul className="space-y-1" data-testid={`list-citations-${ev.id}`}>
+                          {ev.source.citations.map((url, index) => (
+                            <li key={url} className="text-xs truncate">
+                              <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline" onClick={(e) => e.stopPropagation()}>
+                                [{index + 1}] {url}
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {ev.source.references.length > 0 && (
+                        <div className="space-y-1" data-testid={`list-references-${ev.id}`}>
+                          <p className="text-xs font-medium">From session materials</p>
+                          {ev.source.references.map((reference, index) => {
+                            const label = `${reference.title}${reference.page ? `, p. ${reference.page}` : ""}`;
+                            const href = referenceHref(reference);
+                            return href ? (
+                              <a
+                                key={index}
+                                href={href}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 text-xs text-primary hover:underline"
+                                onClick={(e) => e.stopPropagation()}
+                                data-testid={`link-reference-${ev.id}-${index}`}
+                              >
+                                <FileText className="h-3 w-3 shrink-0" />
+                                <span className="truncate">{label}</span>
+                              </a>
+                            ) : (
+                              <button
+                                key={index}
+                                type="button"
+                                className="flex items-center gap-1 text-xs text-primary hover:underline"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (reference.evidenceId) setSelectedEvidence(reference.evidenceId);
+                                }}
+                                data-testid={`link-reference-${ev.id}-${index}`}
+                              >
+                                <LinkIcon className="h-3 w-3 shrink-0" />
+                                <span className="truncate">{label}</span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                      {ev.source.retrievedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Retrieved {new Date(ev.source.retrievedAt).toLocaleString()}
+                        </p>
+                      )}
                       <div className="flex items-center justify-between">
                         <div className="text-xs text-muted-foreground">
                           {ev.source.title}
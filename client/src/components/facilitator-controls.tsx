@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Pause, Play, Send, Megaphone } from "lucide-react";
+import { useSetDebatePaused, useInjectDebateInstruction } from "@/hooks/use-sessions";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import type { DebateSession } from "@shared/debate";
+
+interface FacilitatorControlsProps {
+  sessionId: string;
+  debate: DebateSession;
+}
+
+const suggestions = ["Focus on cost", "Address accessibility", "Consider implementation risk"];
+
+export function FacilitatorControls({ sessionId, debate }: FacilitatorControlsProps) {
+  const [instruction, setInstruction] = useState("");
+  const setPausedMutation = useSetDebatePaused();
+  const injectMutation = useInjectDebateInstruction();
+  const { toast } = useToast();
+
+  if (!debate.id || debate.status === "completed" || debate.status === "failed") {
+    return null;
+  }
+
+  const debateId = debate.id;
+  const isPaused = debate.status === "paused";
+
+  const handleTogglePause = async () => {
+    try {
+      await setPausedMutation.mutateAsync({ sessionId, debateId, paused: !isPaused });
+      toast({
+        title: isPaused ? "Debate resumed" : "Pause requested",
+        description: isPaused ? "The agents are continuing." : "The debate will pause after the current turn.",
+      });
+    } catch (error) {
+      toast({
+        title: isPaused ? "Resume failed" : "Pause failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSend = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    try {
+      await injectMutation.mutateAsync({ sessionId, debateId, instruction: trimmed });
+      setInstruction("");
+      toast({
+        title: "Instruction sent",
+        description: "The Moderator will relay it to both sides before the next round.",
+      });
+    } catch (error) {
+      toast({
+        title: "Instruction failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card data-testid="facilitator-controls">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5" />
+            Facilitator Controls
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {isPaused && <Badge variant="secondary" data-testid="badge-debate-paused">Paused</Badge>}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleTogglePause}
+              disabled={setPausedMutation.isPending}
+              data-testid="button-toggle-pause"
+            >
+              {isPaused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+              {isPaused ? "Resume" : "Pause"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSend(instruction);
+          }}
+        >
+          <Input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="Instruction for both sides, e.g. focus on cost"
+            maxLength={500}
+            data-testid="input-facilitator-instruction"
+          />
+          <Button type="submit" disabled={!instruction.trim() || injectMutation.isPending} data-testid="button-send-instruction">
+            <Send className="h-4 w-4 mr-1" />
+            Send
+          </Button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map(suggestion => (
+            <Button
+              key={suggestion}
+              variant="secondary"
+              size="sm"
+              onClick={() => handleSend(suggestion)}
+              disabled={injectMutation.isPending}
+              data-testid={`button-suggestion-${suggestion.toLowerCase().replace(/\s+/g, "-")}`}
+            >
+              {suggestion}
+            </Button>
+          ))}
+        </div>
+
+        {debate.instructions.length > 0 && (
+          <div className="space-y-2" data-testid="list-facilitator-instructions">
+            {debate.instructions.map(item => (
+              <div key={item.id} className="flex items-center justify-between text-sm">
+                <span>{item.instruction}</span>
+                <Badge variant="outline" className="text-xs">
+                  {item.relayedInRound ? `Relayed before round ${item.relayedInRound}` : "Waiting for next round"}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
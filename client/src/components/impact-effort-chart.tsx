@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from "react";
+import { CartesianGrid, ReferenceArea, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import { Grid2x2, RotateCcw } from "lucide-react";
+import { useSessionContext } from "@/context/session-context";
+import { useAuth } from "@/context/auth-context";
+import { useSession, useSessionSolutions, useSetSolutionImpact } from "@/hooks/use-sessions";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { IMPACT_MIDPOINT, impactPosition, impactQuadrant, impactQuadrants, type ImpactPosition } from "@shared/impact";
+
+// Plot area offsets; fixed so pointer positions can be mapped back onto the 1-10 scales
+const MARGIN = { top: 16, right: 24, bottom: 8, left: 8 };
+const Y_AXIS_WIDTH = 48;
+const X_AXIS_HEIGHT = 40;
+const SCALE_MIN = 1;
+const SCALE_MAX = 10;
+const TICKS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const chartConfig = {
+  ai: { label: "AI estimate", color: "hsl(var(--chart-1))" },
+  derived: { label: "Estimated from text", color: "hsl(var(--chart-3))" },
+  override: { label: "Placed by facilitator", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+interface ChartPoint extends ImpactPosition {
+  solutionId: string;
+  title: string;
+}
+
+interface ImpactEffortChartProps {
+  sessionId?: string; // Falls back to the current session from context
+  selectedSolutionId?: string;
+}
+
+function clampToScale(value: number) {
+  return Math.round(Math.min(SCALE_MAX, Math.max(SCALE_MIN, value)) * 10) / 10;
+}
+
+function PointTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: ChartPoint }> }) {
+  const point = active ? payload?.[0]?.payload : undefined;
+  if (!point) {
+    return null;
+  }
+  return (
+    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl space-y-1">
+      <div className="font-medium">{point.title}</div>
+      <div className="text-muted-foreground">
+        Impact {point.impactScore} • Effort {point.effortScore} • {point.confidence}% confidence
+      </div>
+      <div className="text-muted-foreground">{chartConfig[point.source].label}</div>
+    </div>
+  );
+}
+
+/**
+ * 2x2 prioritization of the session's solutions: impact against effort, bubble size
+ * for confidence. The facilitator can drag a solution to override the AI estimate.
+ */
+export function ImpactEffortChart({ sessionId: propSessionId, selectedSolutionId }: ImpactEffortChartProps) {
+  const { currentSessionId } = useSessionContext();
+  const sessionId = propSessionId || currentSessionId;
+  const { user } = useAuth();
+  const { data: session } = useSession(sessionId);
+  const { data: solutions = [] } = useSessionSolutions(sessionId);
+  const setImpact = useSetSolutionImpact();
+  const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ solutionId: string; impactScore: number; effortScore: number } | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+
+  const canAdjust = !!user && !!session && session.facilitatorId === user.id;
+
+  const saveOverride = (solutionId: string, override: { impactScore: number; effortScore: number } | null) => {
+    if (!sessionId) return;
+    setImpact.mutateAsync({ sessionId, solutionId, override }).catch(error => toast({
+      title: "Could not save placement",
+      description: error instanceof Error ? error.message : "Please try again",
+      variant: "destructive",
+    }));
+  };
+
+  // Track the pointer on the window so a drag continues outside the bubble
+  const dragging = drag?.solutionId;
+  useEffect(() => {
+    if (!dragging) return;
+
+    const toScale = (event: PointerEvent) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return null;
+      const left = rect.left + MARGIN.left + Y_AXIS_WIDTH;
+      const width = rect.width - MARGIN.left - MARGIN.right - Y_AXIS_WIDTH;
+      const top = rect.top + MARGIN.top;
+      const height = rect.height - MARGIN.top - MARGIN.bottom - X_AXIS_HEIGHT;
+      return {
+        effortScore: clampToScale(SCALE_MIN + ((event.clientX - left) / width) * (SCALE_MAX - SCALE_MIN)),
+        impactScore: clampToScale(SCALE_MAX - ((event.clientY - top) / height) * (SCALE_MAX - SCALE_MIN)),
+      };
+    };
+    const handleMove = (event: PointerEvent) => {
+      const position = toScale(event);
+      if (position) setDrag({ solutionId: dragging, ...position });
+    };
+    const handleUp = () => {
+      const final = dragRef.current;
+      setDrag(null);
+      if (final) saveOverride(final.solutionId, { impactScore: final.impactScore, effortScore: final.effortScore });
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [dragging]);
+
+  if (!sessionId || !solutions.length) {
+    return null;
+  }
+
+  const points: ChartPoint[] = solutions.map(solution => {
+    const position = impactPosition(solution);
+    return drag?.solutionId === solution.id
+      ? { ...position, impactScore: drag.impactScore, effortScore: drag.effortScore, source: "override", solutionId: solution.id, title: solution.title }
+      : { ...position, solutionId: solution.id, title: solution.title };
+  });
+
+  const renderBubble = (props: { cx?: number; cy?: number; size?: number; payload?: ChartPoint }) => {
+    const { cx = 0, cy = 0, size = 64, payload } = props;
+    if (!payload) return <g />;
+    const radius = Math.sqrt(size / Math.PI);
+    const selected = payload.solutionId === selectedSolutionId;
+    return (
+      <g
+        onPointerDown={canAdjust ? (event) => {
+          event.preventDefault();
+          setDrag({ solutionId: payload.solutionId, impactScore: payload.impactScore, effortScore: payload.effortScore });
+        } : undefined}
+        style={{ cursor: canAdjust ? (drag ? "grabbing" : "grab") : "default" }}
+        data-testid={`impact-point-${payload.solutionId}`}
+      >
+        <circle
+          cx={cx}
+          cy={cy}
+          r={radius}
+          fill={`var(--color-${payload.source})`}
+          fillOpacity={0.6}
+          stroke={selected ? "hsl(var(--foreground))" : `var(--color-${payload.source})`}
+          strokeWidth={selected ? 2 : 1}
+        />
+        <text x={cx} y={cy - radius - 4} textAnchor="middle" className="fill-foreground text-[10px]">
+          {payload.title.length > 24 ? `${payload.title.slice(0, 23)}…` : payload.title}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <Card data-testid="impact-effort-chart">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Grid2x2 className="h-5 w-5" />
+          Impact vs Effort
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer ref={containerRef} config={chartConfig} className="aspect-auto h-[380px] w-full select-none">
+          <ScatterChart margin={MARGIN}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <ReferenceArea x1={SCALE_MIN} x2={IMPACT_MIDPOINT} y1={IMPACT_MIDPOINT} y2={SCALE_MAX} fill="hsl(var(--chart-2))" fillOpacity={0.06}
+              label={{ value: impactQuadrants.quick_win.label, position: "insideTopLeft", className: "fill-muted-foreground" }} />
+            <ReferenceArea x1={IMPACT_MIDPOINT} x2={SCALE_MAX} y1={IMPACT_MIDPOINT} y2={SCALE_MAX} fillOpacity={0}
+              label={{ value: impactQuadrants.major_project.label, position: "insideTopRight", className: "fill-muted-foreground" }} />
+            <ReferenceArea x1={SCALE_MIN} x2={IMPACT_MIDPOINT} y1={SCALE_MIN} y2={IMPACT_MIDPOINT} fillOpacity={0}
+              label={{ value: impactQuadrants.fill_in.label, position: "insideBottomLeft", className: "fill-muted-foreground" }} />
+            <ReferenceArea x1={IMPACT_MIDPOINT} x2={SCALE_MAX} y1={SCALE_MIN} y2={IMPACT_MIDPOINT} fill="hsl(var(--destructive))" fillOpacity={0.04}
+              label={{ value: impactQuadrants.thankless_task.label, position: "insideBottomRight", className: "fill-muted-foreground" }} />
+            <ReferenceLine x={IMPACT_MIDPOINT} stroke="hsl(var(--border))" />
+            <ReferenceLine y={IMPACT_MIDPOINT} stroke="hsl(var(--border))" />
+            <XAxis
+              type="number"
+              dataKey="effortScore"
+              domain={[SCALE_MIN, SCALE_MAX]}
+              ticks={TICKS}
+              height={X_AXIS_HEIGHT}
+              label={{ value: "Effort →", position: "insideBottom" }}
+            />
+            <YAxis
+              type="number"
+              dataKey="impactScore"
+              domain={[SCALE_MIN, SCALE_MAX]}
+              ticks={TICKS}
+              width={Y_AXIS_WIDTH}
+              label={{ value: "Impact →", angle: -90, position: "insideLeft" }}
+            />
+            <ZAxis type="number" dataKey="confidence" domain={[0, 100]} range={[120, 900]} />
+            {!drag && <ChartTooltip cursor={false} content={<PointTooltip />} />}
+            <Scatter data={points} shape={renderBubble} isAnimationActive={false} />
+          </ScatterChart>
+        </ChartContainer>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {Object.entries(chartConfig).map(([key, item]) => (
+            <span key={key} className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: item.color }} />
+              {item.label}
+            </span>
+          ))}
+          <span>Bubble size shows confidence.</span>
+          {canAdjust && <span>Drag a solution to adjust its placement.</span>}
+        </div>
+
+        <div className="space-y-2" data-testid="impact-quadrant-list">
+          {points.map(point => (
+            <div key={point.solutionId} className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium">{point.title}</span>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{impactQuadrants[impactQuadrant(point.impactScore, point.effortScore)].label}</Badge>
+                {canAdjust && point.source === "override" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => saveOverride(point.solutionId, null)}
+                    disabled={setImpact.isPending}
+                    data-testid={`button-reset-impact-${point.solutionId}`}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Use AI estimate
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { UserPlus, X } from "lucide-react";
+import { useSubmitParticipantArgument } from "@/hooks/use-sessions";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { DebatePosition } from "@shared/debate";
+
+// The point a participant is answering, picked with an argument's Rebut button
+export interface RebuttalTarget {
+  id: string;
+  agent: DebatePosition;
+  title: string;
+}
+
+interface ParticipantArgumentFormProps {
+  sessionId: string;
+  debateId: string;
+  rebuttalTarget: RebuttalTarget | null;
+  onClearRebuttal: () => void;
+}
+
+export function ParticipantArgumentForm({ sessionId, debateId, rebuttalTarget, onClearRebuttal }: ParticipantArgumentFormProps) {
+  const [side, setSide] = useState<DebatePosition>("proponent");
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const submitMutation = useSubmitParticipantArgument();
+  const { toast } = useToast();
+
+  // Rebutting a point means arguing for the other side
+  useEffect(() => {
+    if (rebuttalTarget) {
+      setSide(rebuttalTarget.agent === "proponent" ? "opponent" : "proponent");
+    }
+  }, [rebuttalTarget]);
+
+  const handleSubmit = async () => {
+    try {
+      await submitMutation.mutateAsync({
+        sessionId,
+        debateId,
+        argument: {
+          side,
+          title: title.trim(),
+          content: content.trim(),
+          rebuttalTo: rebuttalTarget?.id
+        }
+      });
+      setTitle("");
+      setContent("");
+      onClearRebuttal();
+      toast({
+        title: "Argument added",
+        description: `The ${side === "proponent" ? "Opponent" : "Proponent"} agent will respond on its next turn.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Argument failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card data-testid="participant-argument-form">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          Join the Debate
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rebuttalTarget && (
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant="outline">Rebutting</Badge>
+            <span className="truncate">{rebuttalTarget.title}</span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClearRebuttal} data-testid="button-clear-rebuttal">
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Select value={side} onValueChange={(value) => setSide(value as DebatePosition)}>
+            <SelectTrigger className="w-48" data-testid="select-argument-side">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="proponent">Supporting</SelectItem>
+              <SelectItem value="opponent">Challenging</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Headline for your point"
+            maxLength={200}
+            data-testid="input-argument-title"
+          />
+        </div>
+
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Make your argument. The opposing agent will answer it on its next turn."
+          maxLength={5000}
+          rows={4}
+          data-testid="textarea-argument-content"
+        />
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSubmit}
+            disabled={!title.trim() || !content.trim() || submitMutation.isPending}
+            data-testid="button-submit-argument"
+          >
+            Add Argument
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, type ChangeEvent } from "react";
+import { UserPlus } from "lucide-react";
+import { useSessionContext } from "@/context/session-context";
+import { useProposeSolution } from "@/hooks/use-sessions";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+
+const emptyForm = { title: "", description: "", objective: "", approach: "", enablers: "", risks: "", expectedOutcomes: "" };
+
+// One list entry per non-empty line
+function toList(text: string): string[] | undefined {
+  const items = text.split("\n").map(line => line.trim()).filter(Boolean);
+  return items.length ? items : undefined;
+}
+
+/**
+ * Lets a participant add their own solution. Only the title and description are
+ * required; the Solution agent fills in the rest without rewording what was written.
+ */
+export function ProposeSolutionDialog() {
+  const { currentSessionId } = useSessionContext();
+  const proposeSolution = useProposeSolution();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const field = (name: keyof typeof emptyForm) => ({
+    id: `proposal-${name}`,
+    value: form[name],
+    onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm({ ...form, [name]: e.target.value }),
+    "data-testid": `input-proposal-${name}`,
+  });
+
+  const handleSubmit = async () => {
+    if (!currentSessionId) return;
+    try {
+      const solution = await proposeSolution.mutateAsync({
+        sessionId: currentSessionId,
+        proposal: {
+          title: form.title.trim(),
+          description: form.description.trim(),
+          objective: form.objective.trim() || undefined,
+          approach: form.approach.trim() || undefined,
+          enablers: toList(form.enablers),
+          risks: toList(form.risks),
+          expectedOutcomes: toList(form.expectedOutcomes),
+        },
+      });
+      setOpen(false);
+      setForm(emptyForm);
+      toast({ title: "Solution added", description: `"${solution.title}" will be debated with the other solutions.` });
+    } catch (error) {
+      toast({
+        title: "Could not add solution",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={!currentSessionId} data-testid="button-propose-solution">
+          <UserPlus className="h-4 w-4 mr-1" />
+          Propose a solution
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Propose a solution</DialogTitle>
+          <DialogDescription>
+            Describe your idea in your own words. The Solution agent completes anything you leave blank and keeps what you write as is.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proposal-title">Title</Label>
+            <Input {...field("title")} maxLength={200} placeholder="A short name for your solution" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-description">Your idea</Label>
+            <Textarea {...field("description")} rows={5} maxLength={5000} placeholder="What would you do, and why would it work?" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-objective">Objective (optional)</Label>
+            <Input {...field("objective")} maxLength={500} placeholder="One-sentence value proposition" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-approach">Approach (optional)</Label>
+            <Textarea {...field("approach")} rows={3} maxLength={5000} placeholder="Key steps to put it into practice" />
+          </div>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-enablers">Enablers (optional)</Label>
+              <Textarea {...field("enablers")} rows={3} placeholder="One per line" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-risks">Risks (optional)</Label>
+              <Textarea {...field("risks")} rows={3} placeholder="One per line" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-expectedOutcomes">Expected outcomes (optional)</Label>
+              <Textarea {...field("expectedOutcomes")} rows={3} placeholder="One per line" />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} data-testid="button-cancel-proposal">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={proposeSolution.isPending || !form.title.trim() || !form.description.trim()}
+            data-testid="button-submit-proposal"
+          >
+            {proposeSolution.isPending ? "Adding..." : "Add solution"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,9 @@
 import { useState, useCallback } from "react";
 import { useLocation } from "wouter";
-import { useCreateSession } from "@/hooks/use-sessions";
+import { useCreateSession, useUploadGroundingFiles, useAddGroundingLink } from "@/hooks/use-sessions";
 import { useSessionContext } from "@/context/session-context";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, FileText, Link as LinkIcon, Settings, Sliders, Clock } from "lucide-react";
+import { Upload, FileText, Link as LinkIcon, Settings, Sliders, Clock, Wallet } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,14 +20,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import type { AgentSettings } from "@shared/schema";
 
 interface UploadedFile {
   name: string;
   size: string;
   type: "pdf" | "doc" | "link";
+  file?: File; // Sent to the grounding upload once the session exists
+  url?: string;
 }
 
 interface AgentConfig {
+  role: keyof AgentSettings;
   name: string;
   description: string;
   settings: {
@@ -41,50 +45,71 @@ export function SessionSetup() {
   const [researchMode, setResearchMode] = useState<"quick" | "deep">("quick");
   const [debateRounds, setDebateRounds] = useState(3);
   const [pointsPerSide, setPointsPerSide] = useState(3);
+  const [solutionCount, setSolutionCount] = useState(3);
+  const [retrievalBudget, setRetrievalBudget] = useState(1500);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [linkInput, setLinkInput] = useState("");
   const [sessionTitle, setSessionTitle] = useState("");
   const [facilitatorName, setFacilitatorName] = useState("");
   const [isCreating, setIsCreating] = useState(false);
+  const [budgetEnabled, setBudgetEnabled] = useState(false);
+  const [budgetUnit, setBudgetUnit] = useState<"usd" | "tokens">("usd");
+  const [budgetLimit, setBudgetLimit] = useState("5");
+  const [downgradeAt, setDowngradeAt] = useState(80);
 
   const { setCurrentSessionId } = useSessionContext();
   const createSessionMutation = useCreateSession();
+  const uploadFilesMutation = useUploadGroundingFiles();
+  const addLinkMutation = useAddGroundingLink();
   const { toast } = useToast();
   
-  const [agentConfigs] = useState<AgentConfig[]>([
+  const [agentConfigs, setAgentConfigs] = useState<AgentConfig[]>([
     {
+      role: "solution",
       name: "Solution Agent",
       description: "Generates structured solution proposals",
       settings: { innovation: 70, rigor: 80 }
     },
     {
+      role: "proponent",
       name: "Proponent",
       description: "Advocates for proposed solutions",
       settings: { vision: 75, customer_focus: 60 }
     },
     {
+      role: "opponent",
       name: "Opponent", 
       description: "Challenges solutions with counter-arguments",
       settings: { risk_aversion: 80, cost_focus: 70 }
     },
     {
+      role: "analyst",
       name: "Analyst",
       description: "Provides evidence and fact-checking",
       settings: { evidence_depth: 85, confidence_threshold: 75 }
     },
     {
+      role: "moderator",
       name: "Moderator",
       description: "Synthesizes debates into actionable summaries",
       settings: { detail_level: 65, decision_focus: 80 }
     }
   ]);
 
+  const handleAgentSettingChange = (role: AgentConfig["role"], setting: string, value: number) => {
+    setAgentConfigs(prev => prev.map(agent =>
+      agent.role === role ? { ...agent, settings: { ...agent.settings, [setting]: value } } : agent
+    ));
+  };
+
   const handleFileUpload = useCallback((uploadedFiles: FileList | null) => {
     if (!uploadedFiles) return;
     
     const newFiles: UploadedFile[] = Array.from(uploadedFiles).map(file => ({
       name: file.name,
       size: `${(file.size / 1024 / 1024).toFixed(1)} MB`,
-      type: file.type.includes("pdf") ? "pdf" : "doc"
+      type: file.type.includes("pdf") ? "pdf" : "doc",
+      file
     }));
     
     setFiles(prev => [...prev, ...newFiles]);
@@ -106,6 +131,48 @@ export function SessionSetup() {
     handleFileUpload(e.dataTransfer.files);
   }, [handleFileUpload]);
 
+  const handleAddLink = () => {
+    const url = linkInput.trim();
+    if (!/^https?:\/\/\S+$/i.test(url)) {
+      toast({
+        title: "Invalid Link",
+        description: "Enter a full http:// or https:// address.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setFiles(prev => [...prev, { name: url, size: "Web link", type: "link", url }]);
+    setLinkInput("");
+  };
+
+  // Upload files and links to the new session; returns how many could not be indexed
+  const ingestGroundingMaterials = async (sessionId: string): Promise<number> => {
+    let failed = 0;
+    const uploads = files.filter(f => f.file).map(f => f.file!);
+
+    if (uploads.length > 0) {
+      try {
+        const documents = await uploadFilesMutation.mutateAsync({ sessionId, files: uploads });
+        failed += documents.filter(d => d.status === "failed").length;
+      } catch (error) {
+        console.error("Failed to upload grounding files:", error);
+        failed += uploads.length;
+      }
+    }
+
+    for (const link of files.filter(f => f.url)) {
+      try {
+        const document = await addLinkMutation.mutateAsync({ sessionId, url: link.url! });
+        if (document.status === "failed") failed++;
+      } catch (error) {
+        console.error("Failed to add grounding link:", error);
+        failed++;
+      }
+    }
+
+    return failed;
+  };
+
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
@@ -120,6 +187,16 @@ export function SessionSetup() {
       return;
     }
 
+    const limit = Number(budgetLimit);
+    if (budgetEnabled && !(limit > 0)) {
+      toast({
+        title: "Invalid Budget",
+        description: "The budget limit must be a positive number.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsCreating(true);
     
     try {
@@ -130,13 +207,27 @@ export function SessionSetup() {
           researchMode,
           debateRounds,
           pointsPerSide,
-          agentConfigs,
+          solutionCount,
+          agentSettings: Object.fromEntries(agentConfigs.map(agent => [agent.role, agent.settings])),
+          retrieval: { enabled: retrievalBudget > 0, tokenBudget: retrievalBudget },
           facilitatorName: facilitatorName.trim() || "Anonymous",
-          uploadedFiles: files.map(f => ({ name: f.name, type: f.type }))
+          uploadedFiles: files.map(f => ({ name: f.name, type: f.type })),
+          ...(budgetEnabled && {
+            budget: { unit: budgetUnit, limit, downgradeAt: downgradeAt / 100 }
+          })
         }
       });
 
       setCurrentSessionId(newSession.id);
+
+      const failedMaterials = files.length > 0 ? await ingestGroundingMaterials(newSession.id) : 0;
+      if (failedMaterials > 0) {
+        toast({
+          title: "Some Materials Could Not Be Read",
+          description: `${failedMaterials} of ${files.length} grounding materials failed to index. The session will continue without them.`,
+          variant: "destructive",
+        });
+      }
       
       toast({
         title: "🎉 Session Created Successfully!",
@@ -147,6 +238,7 @@ export function SessionSetup() {
       setSessionTitle("");
       setFacilitatorName("");
       setFiles([]);
+      setLinkInput("");
       
       // Auto-navigate to Problem Statement (Phase 2) after brief delay
       setTimeout(() => {
@@ -189,7 +281,7 @@ export function SessionSetup() {
             <Upload className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-lg font-medium mb-2">Upload grounding materials</p>
             <p className="text-muted-foreground mb-4">
-              Drag and drop files here, or click to browse. Supports PDFs, documents, and web links.
+              Drag and drop files here, or click to browse. Supports PDF, Word (.docx), Markdown, HTML and text files, plus web links.
             </p>
 
             <div className="space-y-3 mb-6">
@@ -218,7 +310,7 @@ export function SessionSetup() {
             <input
               type="file"
               multiple
-              accept=".pdf,.doc,.docx"
+              accept=".pdf,.docx,.md,.markdown,.html,.htm,.txt"
               onChange={(e) => handleFileUpload(e.target.files)}
               className="hidden"
               id="file-upload"
@@ -237,10 +329,18 @@ export function SessionSetup() {
             <div className="flex-1">
               <Input
                 placeholder="Add link to external resource..."
+                value={linkInput}
+                onChange={(e) => setLinkInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddLink();
+                  }
+                }}
                 data-testid="input-external-link"
               />
             </div>
-            <Button variant="outline" data-testid="button-add-link">
+            <Button variant="outline" onClick={handleAddLink} disabled={!linkInput.trim()} data-testid="button-add-link">
               <LinkIcon className="h-4 w-4" />
             </Button>
           </div>
@@ -248,7 +348,7 @@ export function SessionSetup() {
           {/* Uploaded Files */}
           {files.length > 0 && (
             <div className="space-y-2">
-              <Label>Uploaded Files ({files.length})</Label>
+              <Label>Materials to Index ({files.length})</Label>
               {files.map((file, index) => (
                 <div
                   key={index}
@@ -256,7 +356,11 @@ export function SessionSetup() {
                   data-testid={`file-item-${index}`}
                 >
                   <div className="flex items-center gap-3">
-                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    {file.type === "link" ? (
+                      <LinkIcon className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                    )}
                     <div>
                       <p className="font-medium text-sm">{file.name}</p>
                       <p className="text-xs text-muted-foreground">{file.size}</p>
@@ -321,6 +425,22 @@ export function SessionSetup() {
               </Select>
             </div>
           </div>
+          <div className="space-y-3">
+            <Label>
+              Document context per agent call: {retrievalBudget > 0 ? `${retrievalBudget.toLocaleString()} tokens` : "Off"}
+            </Label>
+            <Slider
+              value={[retrievalBudget]}
+              onValueChange={(value) => setRetrievalBudget(value[0])}
+              min={0}
+              max={4000}
+              step={250}
+              data-testid="slider-retrieval-budget"
+            />
+            <p className="text-xs text-muted-foreground">
+              The most relevant excerpts of your grounding materials and earlier evidence are added to each agent prompt, up to this budget.
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -333,7 +453,18 @@ export function SessionSetup() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid grid-cols-2 gap-6">
+          <div className="grid grid-cols-3 gap-6">
+            <div className="space-y-3">
+              <Label>Solutions to Generate: {solutionCount}</Label>
+              <Slider
+                value={[solutionCount]}
+                onValueChange={(value) => setSolutionCount(value[0])}
+                min={1}
+                max={5}
+                step={1}
+                data-testid="slider-solution-count"
+              />
+            </div>
             <div className="space-y-3">
               <Label>Points per Side: {pointsPerSide}</Label>
               <Slider
@@ -360,6 +491,70 @@ export function SessionSetup() {
         </CardContent>
       </Card>
 
+      {/* Budget */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Budget
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="budget-enabled">Cap session spending</Label>
+              <p className="text-sm text-muted-foreground">
+                Agents switch to cheaper models near the cap and stop when it is reached
+              </p>
+            </div>
+            <Switch
+              id="budget-enabled"
+              checked={budgetEnabled}
+              onCheckedChange={setBudgetEnabled}
+              data-testid="switch-budget-enabled"
+            />
+          </div>
+          {budgetEnabled && (
+            <div className="grid grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="budget-limit">Limit</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="budget-limit"
+                    type="number"
+                    min={0}
+                    step={budgetUnit === "usd" ? 0.5 : 1000}
+                    value={budgetLimit}
+                    onChange={(e) => setBudgetLimit(e.target.value)}
+                    data-testid="input-budget-limit"
+                  />
+                  <Select value={budgetUnit} onValueChange={(value: "usd" | "tokens") => setBudgetUnit(value)}>
+                    <SelectTrigger className="w-32" data-testid="select-budget-unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="usd">USD</SelectItem>
+                      <SelectItem value="tokens">Tokens</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-3">
+                <Label>Downgrade models at: {downgradeAt}%</Label>
+                <Slider
+                  value={[downgradeAt]}
+                  onValueChange={(value) => setDowngradeAt(value[0])}
+                  min={50}
+                  max={100}
+                  step={5}
+                  data-testid="slider-budget-downgrade"
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Agent Configuration */}
       <Card>
         <CardHeader>
@@ -384,7 +579,7 @@ export function SessionSetup() {
                     </div>
                     <Slider
                       value={[value]}
-                      onValueChange={(newValue) => console.log(`${agent.name} ${setting}: ${newValue[0]}`)}
+                      onValueChange={(newValue) => handleAgentSettingChange(agent.role, setting, newValue[0])}
                       min={0}
                       max={100}
                       step={5}
@@ -1,13 +1,19 @@
 import { useState } from "react";
-import { Lightbulb, Target, Cog, AlertTriangle, TrendingUp, Clock, RotateCcw, Edit, ArrowRight } from "lucide-react";
+import { Lightbulb, Target, Cog, AlertTriangle, TrendingUp, Clock, RotateCcw, Edit, ArrowRight, History, Swords, User } from "lucide-react";
 import { useSessionContext } from "@/context/session-context";
-import { useSessionSolutions } from "@/hooks/use-sessions";
+import { useSessionSolutions, useSolutionVersions, useRefineSolution, useRedebateSolution, useSolutionExpansions } from "@/hooks/use-sessions";
 import { useToast } from "@/hooks/use-toast";
+import { diffWords } from "@/lib/text-diff";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SolutionExpansionPanel, expansionAspects } from "@/components/solution-expansion-panel";
+import type { Solution as SolutionRecord, SolutionVersion } from "@shared/schema";
 
 interface Solution {
   id: string;
@@ -22,6 +28,7 @@ interface Solution {
     confidence: number;
   };
   expectedOutcomes: string[];
+  version: number;
 }
 
 interface SolutionDisplayProps {
@@ -36,9 +43,13 @@ export function SolutionDisplay({
   onRefineSolution 
 }: SolutionDisplayProps) {
   const [selectedSolution, setSelectedSolution] = useState(0);
+  const [refineOpen, setRefineOpen] = useState(false);
+  const [guidance, setGuidance] = useState("");
   
   const { currentSessionId } = useSessionContext();
   const { data: solutions = [], isLoading: solutionsLoading, error: solutionsError, refetch: refetchSolutions } = useSessionSolutions(currentSessionId);
+  const refineSolution = useRefineSolution();
+  const { data: expansions = [] } = useSolutionExpansions(solutions[Math.min(selectedSolution, solutions.length - 1)]?.id);
   const { toast } = useToast();
 
   // Show loading or error states
@@ -69,7 +80,7 @@ export function SolutionDisplay({
       <div className="text-center p-8" data-testid="no-solutions">
         <Lightbulb className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
         <h3 className="text-lg font-medium mb-2">No Solutions Generated Yet</h3>
-        <p className="text-muted-foreground">Solutions will appear here once the AI agents have processed your problem statement.</p>
+        <p className="text-muted-foreground">Solutions will appear here once the AI agents have processed your problem statement, or once a participant proposes one.</p>
       </div>
     );
   }
@@ -90,8 +101,31 @@ export function SolutionDisplay({
   };
 
   const handleRefineSolution = () => {
-    onRefineSolution?.(currentSolution.id);
-    console.log("Refining solution:", currentSolution.id);
+    setRefineOpen(true);
+  };
+
+  const handleConfirmRefine = async () => {
+    if (!currentSessionId) return;
+    try {
+      const result = await refineSolution.mutateAsync({
+        sessionId: currentSessionId,
+        solutionId: currentSolution.id,
+        guidance: guidance.trim() || undefined
+      });
+      setRefineOpen(false);
+      setGuidance("");
+      onRefineSolution?.(currentSolution.id);
+      toast({
+        title: `Solution refined to version ${result.version.version}`,
+        description: result.version.changeSummary || undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Refinement failed",
+        description: error instanceof Error ? error.message : "The Solution agent could not refine this solution",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleProceedToDebate = () => {
@@ -146,6 +180,7 @@ export function SolutionDisplay({
                     value={index.toString()}
                     data-testid={`tab-solution-${index}`}
                   >
+                    {solution.generatedBy === "participant" && <User className="h-3 w-3 mr-1" />}
                     Solution {index + 1}
                     <Badge 
                       variant="secondary" 
@@ -177,6 +212,17 @@ export function SolutionDisplay({
                 <Badge variant="outline">
                   {getImpactData(currentSolution.impact).confidence}% Confidence
                 </Badge>
+                {currentSolution.version > 1 && (
+                  <Badge variant="secondary" data-testid="badge-solution-version">
+                    v{currentSolution.version}
+                  </Badge>
+                )}
+                {currentSolution.generatedBy === "participant" && (
+                  <Badge variant="outline" className="gap-1" data-testid="badge-solution-author">
+                    <User className="h-3 w-3" />
+                    Proposed by {currentSolution.authorName || "a participant"}
+                  </Badge>
+                )}
               </div>
             </div>
             <div className="flex gap-2">
@@ -201,83 +247,133 @@ export function SolutionDisplay({
             </div>
           </div>
         </CardHeader>
-        <CardContent className="space-y-6">
-          {/* Objective */}
-          <div className="space-y-3">
-            <div className="flex items-center gap-2">
-              <Target className="h-4 w-4 text-primary" />
-              <h3 className="font-medium">Objective</h3>
-            </div>
-            <p className="text-muted-foreground leading-relaxed pl-6">
-              {currentSolution.objective}
-            </p>
-          </div>
+        <CardContent>
+          <Tabs defaultValue="overview">
+            <TabsList className="mb-4">
+              <TabsTrigger value="overview" data-testid="tab-solution-overview">Overview</TabsTrigger>
+              {expansionAspects.map(({ aspect, label }) => (
+                <TabsTrigger key={aspect} value={aspect} data-testid={`tab-solution-${aspect}`}>{label}</TabsTrigger>
+              ))}
+            </TabsList>
+            <TabsContent value="overview" className="space-y-6">
+              {/* Objective */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Target className="h-4 w-4 text-primary" />
+                  <h3 className="font-medium">Objective</h3>
+                </div>
+                <p className="text-muted-foreground leading-relaxed pl-6">
+                  {currentSolution.objective}
+                </p>
+              </div>
 
-          <Separator />
+              <Separator />
 
-          {/* Approach */}
-          <div className="space-y-3">
-            <div className="flex items-center gap-2">
-              <Cog className="h-4 w-4 text-primary" />
-              <h3 className="font-medium">Approach</h3>
-            </div>
-            <p className="text-muted-foreground leading-relaxed pl-6">
-              {currentSolution.approach}
-            </p>
-          </div>
+              {/* Approach */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Cog className="h-4 w-4 text-primary" />
+                  <h3 className="font-medium">Approach</h3>
+                </div>
+                <p className="text-muted-foreground leading-relaxed pl-6">
+                  {currentSolution.approach}
+                </p>
+              </div>
 
-          <Separator />
+              <Separator />
 
-          {/* Enablers and Risks */}
-          <div className="grid md:grid-cols-2 gap-6">
-            <div className="space-y-3">
-              <div className="flex items-center gap-2">
-                <Cog className="h-4 w-4 text-green-600" />
-                <h3 className="font-medium">Enablers</h3>
-              </div>
-              <ul className="space-y-2 pl-6">
-                {currentSolution.enablers.map((enabler, index) => (
-                  <li key={index} className="text-muted-foreground text-sm leading-relaxed">
-                    • {enabler}
-                  </li>
-                ))}
-              </ul>
-            </div>
+              {/* Enablers and Risks */}
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Cog className="h-4 w-4 text-green-600" />
+                    <h3 className="font-medium">Enablers</h3>
+                  </div>
+                  <ul className="space-y-2 pl-6">
+                    {currentSolution.enablers.map((enabler, index) => (
+                      <li key={index} className="text-muted-foreground text-sm leading-relaxed">
+                        • {enabler}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
 
-            <div className="space-y-3">
-              <div className="flex items-center gap-2">
-                <AlertTriangle className="h-4 w-4 text-orange-600" />
-                <h3 className="font-medium">Risks</h3>
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-orange-600" />
+                    <h3 className="font-medium">Risks</h3>
+                  </div>
+                  <ul className="space-y-2 pl-6">
+                    {currentSolution.risks.map((risk, index) => (
+                      <li key={index} className="text-muted-foreground text-sm leading-relaxed">
+                        • {risk}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               </div>
-              <ul className="space-y-2 pl-6">
-                {currentSolution.risks.map((risk, index) => (
-                  <li key={index} className="text-muted-foreground text-sm leading-relaxed">
-                    • {risk}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          </div>
 
-          <Separator />
+              <Separator />
 
-          {/* Expected Outcomes */}
-          <div className="space-y-3">
-            <div className="flex items-center gap-2">
-              <TrendingUp className="h-4 w-4 text-primary" />
-              <h3 className="font-medium">Expected Outcomes</h3>
-            </div>
-            <ul className="space-y-2 pl-6">
-              {currentSolution.expectedOutcomes.map((outcome, index) => (
-                <li key={index} className="text-muted-foreground text-sm leading-relaxed">
-                  • {outcome}
-                </li>
-              ))}
-            </ul>
-          </div>
+              {/* Expected Outcomes */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4 text-primary" />
+                  <h3 className="font-medium">Expected Outcomes</h3>
+                </div>
+                <ul className="space-y-2 pl-6">
+                  {currentSolution.expectedOutcomes.map((outcome, index) => (
+                    <li key={index} className="text-muted-foreground text-sm leading-relaxed">
+                      • {outcome}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </TabsContent>
+            {expansionAspects.map(({ aspect }) => (
+              <TabsContent key={aspect} value={aspect}>
+                <SolutionExpansionPanel
+                  solutionId={currentSolution.id}
+                  solutionVersion={currentSolution.version}
+                  aspect={aspect}
+                  expansion={expansions.find(e => e.aspect === aspect)}
+                />
+              </TabsContent>
+            ))}
+          </Tabs>
         </CardContent>
       </Card>
 
+      {currentSolution.version > 1 && currentSessionId && (
+        <SolutionVersionHistory sessionId={currentSessionId} solution={currentSolution} />
+      )}
+
+      <Dialog open={refineOpen} onOpenChange={setRefineOpen}>
+        <DialogContent data-testid="dialog-refine-solution">
+          <DialogHeader>
+            <DialogTitle>Refine "{currentSolution.title}"</DialogTitle>
+            <DialogDescription>
+              The Solution agent revises this solution using the rounds it lost in debate, its contested claims and participants' questions. The current version is kept in the version history.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={guidance}
+            onChange={(e) => setGuidance(e.target.value)}
+            placeholder="Optional direction, e.g. keep the budget under $50k"
+            maxLength={2000}
+            data-testid="input-refine-guidance"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefineOpen(false)} disabled={refineSolution.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmRefine} disabled={refineSolution.isPending} data-testid="button-confirm-refine">
+              {refineSolution.isPending ? "Refining..." : "Refine Solution"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Action Buttons */}
       <div className="flex justify-between">
         <Button variant="outline" data-testid="button-back-to-problem">
@@ -294,4 +390,142 @@ export function SolutionDisplay({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+type SolutionContent = Pick<SolutionVersion, "title" | "objective" | "approach" | "enablers" | "risks" | "expectedOutcomes" | "impact">;
+
+// Words removed from the earlier version are struck through on the left, added words highlighted on the right
+function TextDiff({ before, after, side }: { before: string; after: string; side: "before" | "after" }) {
+  return (
+    <p className="text-sm text-muted-foreground leading-relaxed">
+      {diffWords(before, after).map((part, index) => {
+        if (part.type === "same") return <span key={index}>{part.text}</span>;
+        if (part.type === "removed") {
+          return side === "before"
+            ? <del key={index} className="bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200">{part.text}</del>
+            : null;
+        }
+        return side === "after"
+          ? <ins key={index} className="no-underline bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200">{part.text}</ins>
+          : null;
+      })}
+    </p>
+  );
+}
+
+function ListDiff({ before, after, side }: { before: string[]; after: string[]; side: "before" | "after" }) {
+  const items = side === "before" ? before : after;
+  const other = new Set(side === "before" ? after : before);
+  return (
+    <ul className="space-y-1">
+      {items.map((item, index) => (
+        <li
+          key={index}
+          className={`text-sm leading-relaxed ${other.has(item)
+            ? "text-muted-foreground"
+            : side === "before"
+              ? "line-through bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200"
+              : "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200"}`}
+        >
+          • {item}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function formatImpact(impact: unknown): string {
+  const value = (impact && typeof impact === "object" ? impact : {}) as { timeframe?: string; effort?: string; confidence?: number };
+  return `${value.timeframe === "quick_win" ? "Quick win" : "Long term"}, ${value.effort || "unknown"} effort, ${value.confidence ?? 0}% confidence`;
+}
+
+/**
+ * Earlier versions of a refined solution, compared side by side with the current one
+ */
+function SolutionVersionHistory({ sessionId, solution }: { sessionId: string; solution: SolutionRecord }) {
+  const { data: versions = [] } = useSolutionVersions(solution.id);
+  const redebate = useRedebateSolution();
+  const { toast } = useToast();
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const earlier = versions.filter(v => v.version < solution.version);
+  const current = versions.find(v => v.version === solution.version);
+  const baseline = earlier.find(v => v.version === compareVersion) ?? earlier[0];
+  if (!baseline) {
+    return null;
+  }
+
+  const handleRedebate = async () => {
+    try {
+      await redebate.mutateAsync({ sessionId, solutionId: solution.id });
+      toast({ title: `Debate of version ${solution.version} queued`, description: "Follow its progress on the debate page." });
+    } catch (error) {
+      toast({
+        title: "Could not start the debate",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fields: Array<{ label: string; render: (before: SolutionContent, after: SolutionContent, side: "before" | "after") => JSX.Element }> = [
+    { label: "Title", render: (b, a, side) => <TextDiff before={b.title} after={a.title} side={side} /> },
+    { label: "Objective", render: (b, a, side) => <TextDiff before={b.objective} after={a.objective} side={side} /> },
+    { label: "Approach", render: (b, a, side) => <TextDiff before={b.approach} after={a.approach} side={side} /> },
+    { label: "Enablers", render: (b, a, side) => <ListDiff before={b.enablers} after={a.enablers} side={side} /> },
+    { label: "Risks", render: (b, a, side) => <ListDiff before={b.risks} after={a.risks} side={side} /> },
+    { label: "Expected Outcomes", render: (b, a, side) => <ListDiff before={b.expectedOutcomes} after={a.expectedOutcomes} side={side} /> },
+    { label: "Impact", render: (b, a, side) => <TextDiff before={formatImpact(b.impact)} after={formatImpact(a.impact)} side={side} /> },
+  ];
+
+  return (
+    <Card data-testid="solution-version-history">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={baseline.version.toString()} onValueChange={(value) => setCompareVersion(parseInt(value))}>
+              <SelectTrigger className="w-40" data-testid="select-compare-version">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {earlier.map(v => (
+                  <SelectItem key={v.id} value={v.version.toString()}>Compare with v{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleRedebate} disabled={redebate.isPending} data-testid="button-redebate-solution">
+              <Swords className="h-4 w-4 mr-1" />
+              {redebate.isPending ? "Queuing..." : `Debate v${solution.version}`}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current?.changeSummary && (
+          <p className="text-sm leading-relaxed" data-testid="text-change-summary">
+            <span className="font-medium">What changed in v{solution.version}: </span>
+            {current.changeSummary}
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-6 text-sm font-medium">
+          <div>Version {baseline.version}</div>
+          <div>Version {solution.version} (current)</div>
+        </div>
+        {fields.map(field => (
+          <div key={field.label} className="space-y-2">
+            <Separator />
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">{field.label}</h4>
+            <div className="grid grid-cols-2 gap-6">
+              <div>{field.render(baseline, solution, "before")}</div>
+              <div>{field.render(baseline, solution, "after")}</div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { Sparkles, RefreshCw } from "lucide-react";
+import { useExpandSolution } from "@/hooks/use-sessions";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ExpansionAspect, SolutionExpansion, SolutionExpansionContents } from "@shared/schema";
+
+export const expansionAspects: Array<{ aspect: ExpansionAspect; label: string; description: string }> = [
+  { aspect: "implementation", label: "Implementation", description: "Roadmap phases with milestones and deliverables" },
+  { aspect: "resources", label: "Resources", description: "People, budget, tools and external dependencies" },
+  { aspect: "risks", label: "Risks", description: "Risk register with likelihood, impact and mitigations" },
+  { aspect: "metrics", label: "Metrics", description: "KPIs with targets and how to measure them" },
+];
+
+const levelColors: Record<string, string> = {
+  low: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  medium: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  high: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+function ImplementationView({ content }: { content: SolutionExpansionContents["implementation"] }) {
+  return (
+    <ol className="space-y-4">
+      {content.phases.map((phase, index) => (
+        <li key={index} className="border-l-2 border-primary pl-4 space-y-2" data-testid={`roadmap-phase-${index}`}>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{index + 1}. {phase.name}</span>
+            <Badge variant="outline">{phase.duration}</Badge>
+          </div>
+          <div className="grid md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-xs font-medium uppercase text-muted-foreground mb-1">Milestones</p>
+              <ul className="space-y-1 text-muted-foreground">
+                {phase.milestones.map((milestone, i) => <li key={i}>• {milestone}</li>)}
+              </ul>
+            </div>
+            <div>
+              <p className="text-xs font-medium uppercase text-muted-foreground mb-1">Deliverables</p>
+              <ul className="space-y-1 text-muted-foreground">
+                {phase.deliverables.map((deliverable, i) => <li key={i}>• {deliverable}</li>)}
+              </ul>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function ResourcesView({ content }: { content: SolutionExpansionContents["resources"] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Category</TableHead>
+          <TableHead>Item</TableHead>
+          <TableHead>Quantity</TableHead>
+          <TableHead>Estimated cost</TableHead>
+          <TableHead>Notes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {content.items.map((item, index) => (
+          <TableRow key={index} data-testid={`resource-item-${index}`}>
+            <TableCell><Badge variant="secondary" className="capitalize">{item.category}</Badge></TableCell>
+            <TableCell className="font-medium">{item.item}</TableCell>
+            <TableCell>{item.quantity || "—"}</TableCell>
+            <TableCell>{item.estimatedCost || "—"}</TableCell>
+            <TableCell className="text-muted-foreground">{item.notes || ""}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function RisksView({ content }: { content: SolutionExpansionContents["risks"] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Risk</TableHead>
+          <TableHead>Likelihood</TableHead>
+          <TableHead>Impact</TableHead>
+          <TableHead>Mitigation</TableHead>
+          <TableHead>Owner</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {content.entries.map((entry, index) => (
+          <TableRow key={index} data-testid={`risk-entry-${index}`}>
+            <TableCell className="font-medium">{entry.risk}</TableCell>
+            <TableCell><Badge className={levelColors[entry.likelihood]}>{entry.likelihood}</Badge></TableCell>
+            <TableCell><Badge className={levelColors[entry.impact]}>{entry.impact}</Badge></TableCell>
+            <TableCell className="text-muted-foreground">{entry.mitigation}</TableCell>
+            <TableCell>{entry.owner || "—"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function MetricsView({ content }: { content: SolutionExpansionContents["metrics"] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>KPI</TableHead>
+          <TableHead>Target</TableHead>
+          <TableHead>Measurement</TableHead>
+          <TableHead>Frequency</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {content.kpis.map((kpi, index) => (
+          <TableRow key={index} data-testid={`kpi-${index}`}>
+            <TableCell>
+              <div className="font-medium">{kpi.name}</div>
+              <div className="text-xs text-muted-foreground">{kpi.description}</div>
+            </TableCell>
+            <TableCell>{kpi.target}</TableCell>
+            <TableCell className="text-muted-foreground">{kpi.measurement}</TableCell>
+            <TableCell>{kpi.frequency}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface SolutionExpansionPanelProps {
+  solutionId: string;
+  solutionVersion: number;
+  aspect: ExpansionAspect;
+  expansion?: SolutionExpansion;
+}
+
+/**
+ * One planning aspect of a solution: generates the expansion on request and
+ * flags it when it was written for an earlier version of the solution
+ */
+export function SolutionExpansionPanel({ solutionId, solutionVersion, aspect, expansion }: SolutionExpansionPanelProps) {
+  const expandSolution = useExpandSolution();
+  const { toast } = useToast();
+  const info = expansionAspects.find(a => a.aspect === aspect)!;
+
+  const handleExpand = async () => {
+    try {
+      await expandSolution.mutateAsync({ solutionId, aspect });
+    } catch (error) {
+      toast({
+        title: `Could not expand ${info.label.toLowerCase()}`,
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!expansion) {
+    return (
+      <div className="text-center py-8 space-y-3" data-testid={`expansion-empty-${aspect}`}>
+        <p className="text-muted-foreground">{info.description} for this solution will appear here.</p>
+        <Button onClick={handleExpand} disabled={expandSolution.isPending} data-testid={`button-expand-${aspect}`}>
+          <Sparkles className="h-4 w-4 mr-1" />
+          {expandSolution.isPending ? "Generating..." : `Generate ${info.label}`}
+        </Button>
+      </div>
+    );
+  }
+
+  const content = expansion.content as SolutionExpansionContents[typeof aspect];
+  return (
+    <div className="space-y-4" data-testid={`expansion-${aspect}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Generated {new Date(expansion.createdAt).toLocaleDateString()}</span>
+          {expansion.solutionVersion !== solutionVersion && (
+            <Badge variant="outline" className="text-amber-700 border-amber-300 dark:text-amber-300">
+              Written for v{expansion.solutionVersion}
+            </Badge>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExpand} disabled={expandSolution.isPending} data-testid={`button-regenerate-${aspect}`}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${expandSolution.isPending ? "animate-spin" : ""}`} />
+          Regenerate
+        </Button>
+      </div>
+      {aspect === "implementation" && <ImplementationView content={content as SolutionExpansionContents["implementation"]} />}
+      {aspect === "resources" && <ResourcesView content={content as SolutionExpansionContents["resources"]} />}
+      {aspect === "risks" && <RisksView content={content as SolutionExpansionContents["risks"]} />}
+      {aspect === "metrics" && <MetricsView content={content as SolutionExpansionContents["metrics"]} />}
+    </div>
+  );
+}
@@ -10,18 +10,7 @@ import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Progress } from "@/components/ui/progress";
-
-interface SummarySection {
-  title: string;
-  points: string[];
-  sentiment: "positive" | "negative" | "neutral";
-}
-
-interface ParticipantSentiment {
-  category: string;
-  percentage: number;
-  count: number;
-}
+import type { SummarySection, ParticipantSentiment } from "@shared/schema";
 
 interface SummaryViewProps {
   sessionId?: string; // Make sessionId optional, will use context if not provided
@@ -102,6 +91,12 @@ export function SummaryView({ sessionId: propSessionId, onExport, onEditSummary
   // Transform summary data for component format
   const transformedSections = summary.sections ? (typeof summary.sections === 'string' ? JSON.parse(summary.sections) : summary.sections) : [];
   const transformedSentiment = summary.participantSentiment ? (typeof summary.participantSentiment === 'string' ? JSON.parse(summary.participantSentiment) : summary.participantSentiment) : [];
+  // Summaries saved before sections became structured stored an object here, so only accept arrays
+  const sections: SummarySection[] = Array.isArray(transformedSections) ? transformedSections : [];
+  const participantSentiment: ParticipantSentiment[] = Array.isArray(transformedSentiment) ? transformedSentiment : [];
+  const decisionPrompts = summary.decisionPrompts || [];
+  const recommendedActions = (summary.recommendedActions || "").split("\n").filter(action => action.trim());
+  const totalSentimentCount = participantSentiment.reduce((sum, s) => sum + s.count, 0);
 
   const handleGenerateSummary = async () => {
     if (!sessionId) return;
@@ -157,63 +152,6 @@ export function SummaryView({ sessionId: propSessionId, onExport, onEditSummary
     }
   };
 
-  // Mock data fallback for UI structure (real data should be structured similarly)
-  const mockSummary = {
-    sessionId: "session-001",
-    title: "Customer Success Enhancement Program",
-    moderatorInsights: "The debate revealed strong support for customer success programs with legitimate concerns about implementation costs and automation balance. The evidence strongly supports retention benefits, but implementation strategy needs careful consideration.",
-    createdAt: "2024-01-15T14:30:00Z",
-    totalParticipants: 12,
-    totalVotes: 156
-  };
-
-  const [sections] = useState<SummarySection[]>([
-    {
-      title: "Strongest Pro Arguments",
-      sentiment: "positive",
-      points: [
-        "Proven 20-30% churn reduction across similar SaaS companies with robust evidence from industry benchmarks",
-        "Customer acquisition costs are 5-25x higher than retention, making investment in customer success highly cost-effective",
-        "AI-driven health scoring enables early intervention 30-90 days before churn, maximizing success rates",
-        "Automated systems can handle routine touchpoints while preserving human relationships for high-value accounts"
-      ]
-    },
-    {
-      title: "Key Concerns & Challenges",
-      sentiment: "negative", 
-      points: [
-        "High upfront costs ($80-120K per success manager plus platform costs) may impact short-term profitability",
-        "ROI timeline uncertainty creates budget planning challenges for resource allocation",
-        "Over-automation risks damaging personal relationships that drive B2B customer loyalty",
-        "Implementation complexity may require 3-6 months before seeing measurable results"
-      ]
-    },
-    {
-      title: "Evidence Highlights",
-      sentiment: "neutral",
-      points: [
-        "Industry benchmarks show 23% average churn reduction within 12 months of implementation",
-        "Customer success platforms demonstrate 85% accuracy in predicting churn using behavioral data",
-        "Implementation timeline typically requires 3-6 months for full deployment and measurement",
-        "Cost-benefit analysis shows positive ROI within 6-12 months for companies with >$1M ARR"
-      ]
-    }
-  ]);
-
-  const [participantSentiment] = useState<ParticipantSentiment[]>([
-    { category: "Strongly Support", percentage: 45, count: 54 },
-    { category: "Support with Concerns", percentage: 35, count: 42 },
-    { category: "Neutral", percentage: 12, count: 15 },
-    { category: "Oppose", percentage: 8, count: 10 }
-  ]);
-
-  const [decisionPrompts] = useState([
-    "Should we prioritize quick wins (feature adoption improvements) or long-term customer success program implementation?",
-    "What's the minimum viable customer success program that balances cost concerns with retention benefits?",
-    "How can we measure and communicate ROI to stakeholders during the 6-month implementation period?",
-    "What automation level preserves personal relationships while achieving operational efficiency?"
-  ]);
-
   const handleStartEdit = (sectionIndex: number, currentContent: string) => {
     setIsEditing(`section-${sectionIndex}`);
     setEditContent(currentContent);
@@ -367,12 +305,17 @@ export function SummaryView({ sessionId: propSessionId, onExport, onEditSummary
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          {participantSentiment.map((sentiment, index) => (
+          {totalSentimentCount === 0 && (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-sentiment">
+              No votes or questions were recorded for this session.
+            </p>
+          )}
+          {totalSentimentCount > 0 && participantSentiment.map((sentiment, index) => (
             <div key={index} className="space-y-2">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">{sentiment.category}</span>
                 <div className="flex items-center gap-2">
-                  <span className="text-sm text-muted-foreground">{sentiment.count} votes</span>
+                  <span className="text-sm text-muted-foreground">{sentiment.count} responses</span>
                   <Badge variant="secondary">{sentiment.percentage}%</Badge>
                 </div>
               </div>
@@ -402,11 +345,15 @@ export function SummaryView({ sessionId: propSessionId, onExport, onEditSummary
           <div className="space-y-3">
             <h4 className="font-medium">Recommended Actions</h4>
             <div className="bg-primary/5 border-l-4 border-primary p-4 rounded">
-              <p className="text-sm leading-relaxed">
-                <strong>Immediate:</strong> Conduct cost-benefit analysis for a minimal viable customer success program. 
-                <strong>Short-term (30 days):</strong> Pilot automated health scoring with existing customer data.
-                <strong>Long-term (3-6 months):</strong> Phased rollout of customer success program starting with highest-value accounts.
-              </p>
+              {recommendedActions.length > 0 ? (
+                <ul className="space-y-2 text-sm leading-relaxed">
+                  {recommendedActions.map((action, index) => (
+                    <li key={index} data-testid={`text-recommended-action-${index}`}>{action}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No recommended actions recorded.</p>
+              )}
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,112 @@
+import { DollarSign, AlertCircle } from "lucide-react";
+import { useSessionContext } from "@/context/session-context";
+import { useSessionUsage } from "@/hooks/use-sessions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import type { UsageBreakdown } from "@shared/usage";
+
+interface UsageSummaryCardProps {
+  sessionId?: string; // Falls back to the current session from context
+}
+
+function formatCost(costUsd: number) {
+  return costUsd < 0.01 && costUsd > 0 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+function BreakdownTable({ title, rows, testId }: { title: string; rows: UsageBreakdown[]; testId: string }) {
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="space-y-1">
+        {rows.map(row => (
+          <div key={row.key} className="flex items-center justify-between text-sm" data-testid={`${testId}-${row.key.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`}>
+            <span className="capitalize text-muted-foreground">{row.key}</span>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-muted-foreground">
+                {row.calls} call{row.calls === 1 ? "" : "s"} • {formatTokens(row.inputTokens + row.outputTokens)} tokens
+              </span>
+              <span className="font-medium w-20 text-right">{formatCost(row.costUsd)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function UsageSummaryCard({ sessionId: propSessionId }: UsageSummaryCardProps) {
+  const { currentSessionId } = useSessionContext();
+  const sessionId = propSessionId || currentSessionId;
+  const { data: usage, isLoading, error } = useSessionUsage(sessionId);
+
+  return (
+    <Card data-testid="usage-summary-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Workshop Cost
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading usage...</p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Unable to load usage
+          </div>
+        )}
+
+        {usage && usage.totalCalls === 0 && (
+          <p className="text-sm text-muted-foreground">No AI calls have been made for this session yet.</p>
+        )}
+
+        {usage && usage.totalCalls > 0 && (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold" data-testid="text-total-cost">{formatCost(usage.totalCostUsd)}</div>
+                <div className="text-xs text-muted-foreground">Total cost</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{formatTokens(usage.totalInputTokens + usage.totalOutputTokens)}</div>
+                <div className="text-xs text-muted-foreground">Tokens</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{usage.totalCalls}</div>
+                <div className="text-xs text-muted-foreground">Calls</div>
+              </div>
+            </div>
+
+            {(usage.estimatedCalls > 0 || usage.unpricedCalls > 0) && (
+              <div className="flex flex-wrap gap-2">
+                {usage.estimatedCalls > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    {usage.estimatedCalls} call{usage.estimatedCalls === 1 ? "" : "s"} with estimated tokens
+                  </Badge>
+                )}
+                {usage.unpricedCalls > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    {usage.unpricedCalls} unpriced call{usage.unpricedCalls === 1 ? "" : "s"} not in total
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            <Separator />
+            <BreakdownTable title="By agent" rows={usage.byAgent} testId="usage-by-agent" />
+            <Separator />
+            <BreakdownTable title="By phase" rows={usage.byPhase} testId="usage-by-phase" />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { createContext, useContext, useState, useRef, useCallback, ReactNode } from 'react';
+import { queryClient } from '@/lib/queryClient';
+import type { AgentStreamEvent, PhaseStreamResult } from '@shared/agent-events';
+
+export type StreamingPhaseTrigger = 'generate-solutions' | 'start-debate' | 'process-current-phase';
+
+export type LiveAgentStatus = 'writing' | 'finished' | 'failed';
+
+export interface LiveAgentState {
+  status: LiveAgentStatus;
+  provider?: string;
+  model?: string;
+  fallback?: boolean;
+  error?: string;
+}
+
+// One agent call as it is being written; content grows with each partial event
+export interface LiveAgentMessage {
+  callId: string;
+  agent: string;
+  provider?: string;
+  model?: string;
+  content: string;
+  status: LiveAgentStatus;
+}
+
+interface AgentStreamContextType {
+  isStreaming: boolean;
+  activePhase: number | null;
+  agents: Record<string, LiveAgentState>;
+  liveMessages: LiveAgentMessage[];
+  lastResult: PhaseStreamResult | null;
+  error: string | null;
+  runPhaseStream: (sessionId: string, trigger: StreamingPhaseTrigger, phase: number) => Promise<PhaseStreamResult>;
+}
+
+const AgentStreamContext = createContext<AgentStreamContextType | undefined>(undefined);
+
+// Export the hook with Fast Refresh compatibility
+export function useAgentStream() {
+  const context = useContext(AgentStreamContext);
+  if (context === undefined) {
+    throw new Error('useAgentStream must be used within an AgentStreamProvider');
+  }
+  return context;
+}
+
+// Splits an SSE body into (event, data) pairs; returns the unconsumed remainder
+function parseSSE(buffer: string, onMessage: (event: string, data: string) => void): string {
+  const blocks = buffer.split('\n\n');
+  const remainder = blocks.pop() || '';
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) continue; // heartbeat comment
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    }
+    if (dataLines.length > 0) {
+      onMessage(event, dataLines.join('\n'));
+    }
+  }
+
+  return remainder;
+}
+
+interface AgentStreamProviderProps {
+  children: ReactNode;
+}
+
+export function AgentStreamProvider({ children }: AgentStreamProviderProps) {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [activePhase, setActivePhase] = useState<number | null>(null);
+  const [agents, setAgents] = useState<Record<string, LiveAgentState>>({});
+  const [liveMessages, setLiveMessages] = useState<LiveAgentMessage[]>([]);
+  const [lastResult, setLastResult] = useState<PhaseStreamResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runningRef = useRef(false);
+
+  const applyEvent = useCallback((event: AgentStreamEvent) => {
+    switch (event.type) {
+      case 'started':
+        setAgents(prev => ({
+          ...prev,
+          [event.agent]: { status: 'writing', provider: event.provider, model: event.model, fallback: event.fallback }
+        }));
+        // A retry or fallback restarts the same call, so drop any partial text already shown
+        setLiveMessages(prev => [
+          ...prev.filter(m => m.callId !== event.callId),
+          { callId: event.callId, agent: event.agent, provider: event.provider, model: event.model, content: '', status: 'writing' }
+        ]);
+        break;
+      case 'partial':
+        setLiveMessages(prev => prev.map(m =>
+          m.callId === event.callId ? { ...m, content: m.content + event.delta } : m
+        ));
+        break;
+      case 'finished':
+        setAgents(prev => ({
+          ...prev,
+          [event.agent]: { ...prev[event.agent], status: 'finished', provider: event.provider, model: event.model }
+        }));
+        setLiveMessages(prev => prev.map(m =>
+          m.callId === event.callId
+            ? { ...m, content: event.content, provider: event.provider, model: event.model, status: 'finished' }
+            : m
+        ));
+        break;
+      case 'failed':
+        setAgents(prev => ({
+          ...prev,
+          [event.agent]: { ...prev[event.agent], status: 'failed', error: event.error }
+        }));
+        setLiveMessages(prev => prev.map(m =>
+          m.callId === event.callId ? { ...m, status: 'failed' } : m
+        ));
+        break;
+      case 'debate_failed':
+        // The debate will not resume, so nothing still writing is going to finish
+        setAgents(prev => Object.fromEntries(Object.entries(prev).map(([agent, state]) => [
+          agent,
+          state.status === 'writing' ? { ...state, status: 'failed', error: event.error } : state
+        ])));
+        setLiveMessages(prev => prev.map(m => m.status === 'writing' ? { ...m, status: 'failed' } : m));
+        setError(`Debate stopped: ${event.error}`);
+        break;
+    }
+  }, []);
+
+  const runPhaseStream = useCallback(async (
+    sessionId: string,
+    trigger: StreamingPhaseTrigger,
+    phase: number
+  ): Promise<PhaseStreamResult> => {
+    if (runningRef.current) {
+      throw new Error('A phase is already streaming');
+    }
+
+    runningRef.current = true;
+    setIsStreaming(true);
+    setActivePhase(phase);
+    setAgents({});
+    setLiveMessages([]);
+    setLastResult(null);
+    setError(null);
+
+    let result: PhaseStreamResult | null = null;
+
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/${trigger}/stream`, {
+        method: 'POST',
+        headers: { Accept: 'text/event-stream' },
+        credentials: 'include',
+      });
+
+      if (!res.ok || !res.body) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer = parseSSE(buffer + decoder.decode(value, { stream: true }), (event, data) => {
+          if (event === 'result') {
+            result = JSON.parse(data) as PhaseStreamResult;
+          } else {
+            applyEvent(JSON.parse(data) as AgentStreamEvent);
+          }
+        });
+      }
+
+      if (!result) {
+        throw new Error('Stream ended before the phase finished');
+      }
+
+      const finalResult: PhaseStreamResult = result;
+      setLastResult(finalResult);
+      if (!finalResult.success) {
+        setError(finalResult.message);
+      }
+      return finalResult;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to stream phase';
+      setError(message);
+      throw new Error(message);
+    } finally {
+      runningRef.current = false;
+      setIsStreaming(false);
+      setActivePhase(null);
+      // Agents persist their output as they go, so refresh everything for the session
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+    }
+  }, [applyEvent]);
+
+  const contextValue: AgentStreamContextType = {
+    isStreaming,
+    activePhase,
+    agents,
+    liveMessages,
+    lastResult,
+    error,
+    runPhaseStream,
+  };
+
+  return (
+    <AgentStreamContext.Provider value={contextValue}>
+      {children}
+    </AgentStreamContext.Provider>
+  );
+}
@@ -4,14 +4,33 @@ import type {
   Session, 
   Problem, 
   Solution, 
+  SolutionWithAuthor,
+  SolutionVersion,
+  SolutionFeedback,
+  SolutionImpactOverrideRequest,
+  SolutionExpansion,
+  ExpansionAspect,
+  Job,
   DebatePoint, 
   Evidence, 
+  Claim,
   Summary,
   User,
+  DebateSessionRecord,
+  DebateInstruction,
+  ParticipantArgument,
+  ParticipantSolutionRequest,
+  GroundingDocument,
+  ComparisonCriteriaRequest,
+  ComparisonScoreRequest,
   insertSessionSchema,
   insertProblemSchema,
   insertUserSchema
 } from '@shared/schema';
+import type { UsageSummary, BudgetStatus, SessionBudget } from '@shared/usage';
+import type { ComparisonMatrix } from '@shared/comparison';
+import type { DebateSession, ArgumentGraph } from '@shared/debate';
+import type { ResearchStatus } from '@shared/research';
 import { z } from 'zod';
 
 // Authentication Hooks
@@ -193,13 +212,105 @@ export function useApproveProblem() {
 // Solution Management Hooks
 
 export function useSessionSolutions(sessionId: string | null) {
-  return useQuery<Solution[]>({
+  return useQuery<SolutionWithAuthor[]>({
     queryKey: ['/api/sessions', sessionId, 'solutions'],
     enabled: !!sessionId,
     staleTime: 5000,
   });
 }
 
+export function useProposeSolution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, proposal }: { sessionId: string; proposal: ParticipantSolutionRequest }) => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/solutions/proposals`, proposal);
+      return response.json() as Promise<Solution>;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'solutions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'comparison'] });
+    },
+  });
+}
+
+export function useSolutionVersions(solutionId: string | undefined) {
+  return useQuery<SolutionVersion[]>({
+    queryKey: ['/api/solutions', solutionId, 'versions'],
+    enabled: !!solutionId,
+    staleTime: 5000,
+  });
+}
+
+export function useRefineSolution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ solutionId, guidance }: { sessionId: string; solutionId: string; guidance?: string }) => {
+      const response = await apiRequest('POST', `/api/solutions/${solutionId}/refine`, { guidance });
+      return response.json() as Promise<{ solution: Solution; version: SolutionVersion; feedback: SolutionFeedback }>;
+    },
+    onSuccess: (_, { sessionId, solutionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'solutions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/solutions', solutionId, 'versions'] });
+    },
+  });
+}
+
+// Moves a solution on the impact/effort chart; a null override restores the AI estimate
+export function useSetSolutionImpact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ solutionId, override }: { sessionId: string; solutionId: string } & SolutionImpactOverrideRequest) => {
+      const response = await apiRequest('PUT', `/api/solutions/${solutionId}/impact`, { override });
+      return response.json() as Promise<Solution>;
+    },
+    onSuccess: (solution, { sessionId }) => {
+      queryClient.setQueryData<SolutionWithAuthor[]>(['/api/sessions', sessionId, 'solutions'], solutions =>
+        solutions?.map(s => s.id === solution.id ? { ...s, ...solution } : s));
+    },
+  });
+}
+
+// Latest expansion per aspect
+export function useSolutionExpansions(solutionId: string | undefined) {
+  return useQuery<SolutionExpansion[]>({
+    queryKey: ['/api/solutions', solutionId, 'expansions'],
+    enabled: !!solutionId,
+    staleTime: 5000,
+  });
+}
+
+export function useExpandSolution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ solutionId, aspect }: { solutionId: string; aspect: ExpansionAspect }) => {
+      const response = await apiRequest('POST', `/api/solutions/${solutionId}/expansions/${aspect}`);
+      return response.json() as Promise<SolutionExpansion>;
+    },
+    onSuccess: (_, { solutionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/solutions', solutionId, 'expansions'] });
+    },
+  });
+}
+
+// Queues a new debate of the solution's current version as a background job
+export function useRedebateSolution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, solutionId }: { sessionId: string; solutionId: string }) => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/jobs`, { type: 'debate_session', solutionId });
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'jobs'] });
+    },
+  });
+}
+
 // Debate Management Hooks
 
 export function useSessionDebatePoints(sessionId: string | null) {
@@ -210,6 +321,90 @@ export function useSessionDebatePoints(sessionId: string | null) {
   });
 }
 
+export function useSessionClaims(sessionId: string | null) {
+  return useQuery<Claim[]>({
+    queryKey: ['/api/sessions', sessionId, 'claims'],
+    enabled: !!sessionId,
+    staleTime: 5000,
+  });
+}
+
+export function useSessionDebates(sessionId: string | null, live = false) {
+  return useQuery<DebateSession[]>({
+    queryKey: ['/api/sessions', sessionId, 'debates'],
+    enabled: !!sessionId,
+    staleTime: 5000,
+    refetchInterval: live ? 3000 : false, // Poll while a debate is running so pause state and new rounds show up
+  });
+}
+
+export function useArgumentGraph(sessionId: string | null, solutionId: string | undefined) {
+  return useQuery<ArgumentGraph>({
+    queryKey: ['/api/sessions', sessionId, 'debates', solutionId, 'graph'],
+    enabled: !!sessionId && !!solutionId,
+    staleTime: 5000,
+  });
+}
+
+export function useSetDebatePaused() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ debateId, paused }: { 
+      sessionId: string; 
+      debateId: string; 
+      paused: boolean 
+    }) => {
+      const response = await apiRequest('POST', `/api/debate-sessions/${debateId}/${paused ? 'pause' : 'resume'}`);
+      return response.json() as Promise<DebateSessionRecord>;
+    },
+    onSuccess: (_, { sessionId, paused }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'debates'] });
+      // Resuming a stopped debate queues a job to carry it on
+      if (!paused) {
+        queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'jobs'] });
+      }
+    },
+  });
+}
+
+export function useSubmitParticipantArgument() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ debateId, argument }: { 
+      sessionId: string; 
+      debateId: string; 
+      argument: ParticipantArgument 
+    }) => {
+      const response = await apiRequest('POST', `/api/debate-sessions/${debateId}/arguments`, argument);
+      return response.json() as Promise<DebatePoint>;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'debate-points'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'debates'] });
+    },
+  });
+}
+
+export function useInjectDebateInstruction() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ debateId, instruction }: { 
+      sessionId: string; 
+      debateId: string; 
+      instruction: string 
+    }) => {
+      const response = await apiRequest('POST', `/api/debate-sessions/${debateId}/instructions`, { instruction });
+      return response.json() as Promise<DebateInstruction>;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'debates'] });
+    },
+  });
+}
+
 export function useVoteOnDebatePoint() {
   const queryClient = useQueryClient();
   
@@ -230,6 +425,7 @@ export function useVoteOnDebatePoint() {
     },
     onSuccess: (_, { sessionId }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'debate-points'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'debates'] });
     },
   });
 }
@@ -244,6 +440,53 @@ export function useSessionEvidence(sessionId: string | null) {
   });
 }
 
+// Grounding Material Hooks
+
+export function useGroundingDocuments(sessionId: string | null) {
+  return useQuery<GroundingDocument[]>({
+    queryKey: ['/api/sessions', sessionId, 'grounding'],
+    enabled: !!sessionId,
+    staleTime: 5000,
+  });
+}
+
+export function useUploadGroundingFiles() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, files }: { sessionId: string; files: File[] }) => {
+      const form = new FormData();
+      files.forEach(file => form.append('files', file));
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/grounding`, form);
+      return response.json() as Promise<GroundingDocument[]>;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'grounding'] });
+    },
+  });
+}
+
+export function useAddGroundingLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, url }: { sessionId: string; url: string }) => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/grounding/links`, { url });
+      return response.json() as Promise<GroundingDocument>;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'grounding'] });
+    },
+  });
+}
+
+export function useResearchStatus() {
+  return useQuery<ResearchStatus>({
+    queryKey: ['/api/research/status'],
+    staleTime: 60000,
+  });
+}
+
 // Summary Management Hooks
 
 export function useSessionSummaries(sessionId: string | null) {
@@ -254,6 +497,93 @@ export function useSessionSummaries(sessionId: string | null) {
   });
 }
 
+// Usage and Cost Hooks
+
+export function useSessionUsage(sessionId: string | null) {
+  return useQuery<UsageSummary>({
+    queryKey: ['/api/sessions', sessionId, 'usage'],
+    enabled: !!sessionId,
+    staleTime: 5000,
+  });
+}
+
+export function useSessionBudget(sessionId: string | null) {
+  return useQuery<BudgetStatus>({
+    queryKey: ['/api/sessions', sessionId, 'budget'],
+    enabled: !!sessionId,
+    staleTime: 5000,
+  });
+}
+
+export function useUpdateSessionBudget() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ sessionId, budget }: { 
+      sessionId: string; 
+      budget: SessionBudget | null 
+    }) => {
+      const response = await apiRequest('PUT', `/api/sessions/${sessionId}/budget`, { budget });
+      return response.json() as Promise<BudgetStatus>;
+    },
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+    },
+  });
+}
+
+// Solution Comparison Hooks
+
+export function useComparisonMatrix(sessionId: string | null) {
+  return useQuery<ComparisonMatrix>({
+    queryKey: ['/api/sessions', sessionId, 'comparison'],
+    enabled: !!sessionId,
+  });
+}
+
+export function useSaveComparisonCriteria() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, criteria }: { sessionId: string; criteria: ComparisonCriteriaRequest['criteria'] }) => {
+      const response = await apiRequest('PUT', `/api/sessions/${sessionId}/comparison/criteria`, { criteria });
+      return response.json() as Promise<ComparisonMatrix>;
+    },
+    onSuccess: (matrix, { sessionId }) => {
+      queryClient.setQueryData(['/api/sessions', sessionId, 'comparison'], matrix);
+    },
+  });
+}
+
+export function useProposeComparisonScores() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/comparison/score`);
+      return response.json() as Promise<ComparisonMatrix>;
+    },
+    onSuccess: (matrix, sessionId) => {
+      queryClient.setQueryData(['/api/sessions', sessionId, 'comparison'], matrix);
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'usage'] });
+    },
+  });
+}
+
+export function useSetComparisonScore() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sessionId, ...cell }: ComparisonScoreRequest & { sessionId: string }) => {
+      const response = await apiRequest('PATCH', `/api/sessions/${sessionId}/comparison/scores`, cell);
+      return response.json() as Promise<ComparisonMatrix>;
+    },
+    onSuccess: (matrix, { sessionId }) => {
+      queryClient.setQueryData(['/api/sessions', sessionId, 'comparison'], matrix);
+    },
+  });
+}
+
 // Voice Integration Hooks
 
 export function useGenerateVoice() {
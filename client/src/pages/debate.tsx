@@ -1,5 +1,6 @@
 import { DebateView } from "@/components/debate-view";
 import { EvidencePanel } from "@/components/evidence-panel";
+import { BudgetIndicator } from "@/components/budget-indicator";
 
 export default function DebatePage() {
   return (
@@ -10,6 +11,9 @@ export default function DebatePage() {
           Watch as Proponent and Opponent agents debate the proposed solutions
         </p>
       </div>
+      <div className="mb-6">
+        <BudgetIndicator />
+      </div>
       <div className="relative">
         <DebateView />
         <EvidencePanel />
@@ -1,4 +1,5 @@
 import { SessionSetup } from "@/components/session-setup";
+import { BudgetIndicator } from "@/components/budget-indicator";
 
 export default function SetupPage() {
   return (
@@ -9,6 +10,9 @@ export default function SetupPage() {
           Configure your AI Think Tank workshop with grounding materials and agent personalities
         </p>
       </div>
+      <div className="mb-6">
+        <BudgetIndicator />
+      </div>
       <SessionSetup />
     </div>
   );
@@ -1,15 +1,23 @@
 import { SolutionDisplay } from "@/components/solution-display";
+import { ImpactEffortChart } from "@/components/impact-effort-chart";
+import { ProposeSolutionDialog } from "@/components/propose-solution-dialog";
 
 export default function SolutionPage() {
   return (
     <div className="container max-w-6xl mx-auto py-8" data-testid="page-solution">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Generated Solutions</h1>
-        <p className="text-muted-foreground">
-          Review AI-generated solution proposals before proceeding to debate
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Generated Solutions</h1>
+          <p className="text-muted-foreground">
+            Review AI-generated and participant proposals before proceeding to debate
+          </p>
+        </div>
+        <ProposeSolutionDialog />
       </div>
       <SolutionDisplay />
+      <div className="mt-8">
+        <ImpactEffortChart />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { SummaryView } from "@/components/summary-view";
+import { ComparisonMatrixCard } from "@/components/comparison-matrix-card";
+import { ImpactEffortChart } from "@/components/impact-effort-chart";
+import { UsageSummaryCard } from "@/components/usage-summary-card";
 
 export default function SummaryPage() {
   return (
@@ -10,6 +13,15 @@ export default function SummaryPage() {
         </p>
       </div>
       <SummaryView />
+      <div className="mt-8">
+        <ComparisonMatrixCard />
+      </div>
+      <div className="mt-8">
+        <ImpactEffortChart />
+      </div>
+      <div className="mt-8">
+        <UsageSummaryCard />
+      </div>
     </div>
   );
 }
\ No newline at end of file
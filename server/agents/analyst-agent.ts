@@ -1,245 +1,23 @@
-import { BaseAgent, AgentProvider, AgentMessage, AgentContext } from './base-agent';
-
-// Real-world evidence gathering using Perplexity API
-interface SearchResult {
-  title: string;
-  snippet: string;
-  url: string;
-  source: string;
-}
-
-interface PerplexityResponse {
-  id: string;
-  model: string;
-  object: string;
-  created: number;
-  citations: string[];
-  choices: Array<{
-    index: number;
-    finish_reason: string;
-    message: {
-      role: string;
-      content: string;
-    };
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
-class WebSearchService {
-  private perplexityApiKey: string | undefined;
-  private readonly perplexityBaseUrl = 'https://api.perplexity.ai/chat/completions';
-
-  constructor() {
-    this.perplexityApiKey = process.env.PERPLEXITY_API_KEY;
-    if (!this.perplexityApiKey) {
-      console.warn('PERPLEXITY_API_KEY not found, falling back to mock search results');
-    }
-  }
-
-  private async callPerplexityAPI(prompt: string, systemPrompt: string = 'Be precise and concise.'): Promise<{content: string, citations: string[]}> {
-    if (!this.perplexityApiKey) {
-      throw new Error('Perplexity API key not available');
-    }
-
-    try {
-      const response = await fetch(this.perplexityBaseUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.perplexityApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'llama-3.1-sonar-small-128k-online',
-          messages: [
-            {
-              role: 'system',
-              content: systemPrompt
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 1000,
-          temperature: 0.2,
-          top_p: 0.9,
-          search_recency_filter: 'month',
-          return_images: false,
-          return_related_questions: false,
-          stream: false
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Perplexity API request failed: ${response.status} ${response.statusText}`);
-      }
-
-      const data: PerplexityResponse = await response.json();
-      console.log(`Perplexity API usage: ${data.usage.total_tokens} tokens`);
-      
-      return {
-        content: data.choices[0]?.message?.content || '',
-        citations: data.citations || []
-      };
-    } catch (error) {
-      console.error('Perplexity API call failed:', error);
-      throw error;
-    }
-  }
+import { z } from 'zod';
+import { BaseAgent, AgentProvider, AgentMessage, AgentContext, StructuredResult } from './base-agent';
+import { UsageScope } from '../services/usage-ledger';
+import { ResearchService, ClaimResearch } from './research';
+import { extractedClaimSchema, claimVerdictSchema, type ExtractedClaim, type ClaimVerdict } from '@shared/schema';
 
-  private async searchWeb(query: string): Promise<SearchResult[]> {
-    try {
-      console.log(`Performing real web search for: ${query}`);
-      
-      const { content, citations } = await this.callPerplexityAPI(
-        `Research and provide key insights about: ${query}. Include specific data, trends, and recent developments.`,
-        'You are a research analyst. Provide factual, well-sourced information with specific details and recent data.'
-      );
-
-      // Convert Perplexity response into SearchResult format
-      const results: SearchResult[] = [];
-      
-      // Create primary result from Perplexity content
-      results.push({
-        title: `Research Analysis: ${query}`,
-        snippet: content.substring(0, 200) + (content.length > 200 ? '...' : ''),
-        url: citations[0] || '',
-        source: 'Perplexity Research'
-      });
-
-      // Create additional results from citations
-      citations.slice(0, 3).forEach((citation, index) => {
-        try {
-          const domain = new URL(citation).hostname.replace('www.', '');
-          results.push({
-            title: `${domain} analysis on ${query}`,
-            snippet: `Detailed information and analysis about ${query} from ${domain}.`,
-            url: citation,
-            source: domain
-          });
-        } catch (urlError) {
-          console.warn('Invalid URL in citations:', citation);
-        }
-      });
-
-      return results;
-    } catch (error) {
-      console.error('Real web search failed, falling back to mock results:', error);
-      return this.getMockResults(query);
-    }
-  }
-
-  private getMockResults(query: string): SearchResult[] {
-    console.log(`Using mock search results for: ${query}`);
-    return [
-      {
-        title: `Research findings on: ${query}`,
-        snippet: `Recent studies and market analysis show significant trends related to ${query}. Key factors include implementation challenges, success metrics, and strategic considerations.`,
-        url: `https://example-research.com/${encodeURIComponent(query)}`,
-        source: 'Research Database (Mock)'
-      },
-      {
-        title: `Industry analysis: ${query}`,
-        snippet: `Market data indicates growing interest in ${query} with measurable impacts on operational efficiency and strategic outcomes.`,
-        url: `https://industry-analysis.com/${encodeURIComponent(query)}`,
-        source: 'Industry Reports (Mock)'
-      },
-      {
-        title: `Case studies related to ${query}`,
-        snippet: `Multiple organizations have implemented solutions addressing ${query} with varying degrees of success and measurable ROI.`,
-        url: `https://case-studies.com/${encodeURIComponent(query)}`,
-        source: 'Case Study Archive (Mock)'
-      }
-    ];
-  }
-
-  async gatherEvidence(claim: string): Promise<{findings: string, sources: SearchResult[], confidence: number}> {
-    try {
-      if (this.perplexityApiKey) {
-        console.log(`Gathering real evidence for claim: ${claim}`);
-        
-        const { content, citations } = await this.callPerplexityAPI(
-          `Fact-check this claim with supporting evidence and analysis: "${claim}". Provide specific data, studies, and credible sources.`,
-          'You are a fact-checker. Analyze claims objectively with supporting evidence from credible sources.'
-        );
-
-        const results = await this.searchWeb(`evidence for: ${claim}`);
-        
-        return {
-          findings: content,
-          sources: results,
-          confidence: citations.length > 2 ? 90 : (citations.length > 0 ? 75 : 60)
-        };
-      } else {
-        throw new Error('No Perplexity API key available');
-      }
-    } catch (error) {
-      console.error('Evidence gathering failed, using fallback:', error);
-      const results = this.getMockResults(claim);
-      const findings = results.map(r => `${r.source}: ${r.snippet}`).join('\n\n');
-      
-      return {
-        findings: `${findings}\n\nNote: Using fallback research due to API limitations.`,
-        sources: results,
-        confidence: 50
-      };
-    }
-  }
-
-  async researchTrends(topic: string): Promise<{trends: string[], sources: SearchResult[]}> {
-    try {
-      if (this.perplexityApiKey) {
-        console.log(`Researching real trends for: ${topic}`);
-        
-        const { content, citations } = await this.callPerplexityAPI(
-          `Analyze current market trends, developments, and future outlook for: ${topic}. Focus on 2024-2025 data and recent changes in the industry.`,
-          'You are a market analyst. Provide current trend analysis with specific data points and recent market developments.'
-        );
-
-        // Extract trend points from the content
-        const trendLines = content.split('\n').filter(line => 
-          line.includes('trend') || line.includes('growth') || line.includes('increase') || 
-          line.includes('adoption') || line.includes('market') || line.match(/^\d+\./)
-        );
-        
-        const trends = trendLines.length > 0 ? trendLines.slice(0, 4) : [
-          `Current market evolution in ${topic}`,
-          `Growing industry focus on ${topic} solutions`,
-          `Emerging technological advances in ${topic}`,
-          `Increased investment and adoption patterns`
-        ];
-
-        const results = await this.searchWeb(`${topic} trends 2024 market analysis`);
-        
-        return { trends, sources: results };
-      } else {
-        throw new Error('No Perplexity API key available');
-      }
-    } catch (error) {
-      console.error('Trend research failed, using fallback:', error);
-      const results = this.getMockResults(`${topic} trends`);
-      
-      return {
-        trends: [
-          `Growing adoption of ${topic} across multiple industries`,
-          `Increased investment in ${topic} solutions`,
-          `Emerging regulatory frameworks affecting ${topic}`,
-          `Technology advances enabling better ${topic} implementation`
-        ],
-        sources: results
-      };
-    }
-  }
-}
+const claimSetSchema = z.object({
+  claims: z.array(extractedClaimSchema).max(8)
+});
 
 export class AnalystAgent extends BaseAgent {
-  private searchService: WebSearchService;
-
-  constructor(provider: AgentProvider = { name: 'openai', model: 'gpt-4o' }) {
+  private searchService: ResearchService;
+
+  constructor(
+    provider: AgentProvider = { name: 'openai', model: 'gpt-4o' },
+    fallbacks: AgentProvider[] = [
+      { name: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+      { name: 'gemini', model: 'gemini-1.5-pro' }
+    ]
+  ) {
     const systemPrompt = `You are the ANALYST agent in an AI Think Tank debate system. Your role is to:
 
 CORE RESPONSIBILITIES:
@@ -281,8 +59,8 @@ RESEARCH CAPABILITIES:
 
 You provide the evidence foundation that enables data-driven decision making.`;
 
-    super(provider, 'analyst', systemPrompt);
-    this.searchService = new WebSearchService();
+    super(provider, 'analyst', systemPrompt, fallbacks);
+    this.searchService = new ResearchService();
   }
 
   getName(): string {
@@ -293,6 +71,10 @@ You provide the evidence foundation that enables data-driven decision making.`;
     return 'Provides objective research and evidence-based analysis to support informed decision-making';
   }
 
+  private usageScope(context: AgentContext): UsageScope {
+    return { sessionId: context.sessionId, phase: context.phase, agent: this.role };
+  }
+
   async researchEvidence(query: string, context: AgentContext): Promise<AgentMessage> {
     const researchPrompt = `Research this question and provide evidence-based analysis:
 
@@ -310,42 +92,83 @@ Focus on credible, recent sources and provide objective analysis.`;
     return this.processMessage(researchPrompt, context);
   }
 
-  async factCheckClaim(claim: string, context: AgentContext): Promise<AgentMessage> {
-    // Gather real evidence using web search
-    const { findings, sources, confidence } = await this.searchService.gatherEvidence(claim);
-    
-    const factCheckPrompt = `Fact-check this claim with objective analysis using the following research findings:
+  /**
+   * Break a debate argument into discrete, independently checkable claims
+   */
+  async decomposeArgument(argument: string, context: AgentContext): Promise<StructuredResult<ExtractedClaim[]>> {
+    const decompositionPrompt = `Break this argument into atomic claims:
+
+ARGUMENT: ${argument}
+
+Each claim must be a single self-contained statement that can be assessed on its own. Classify each one:
+- factual: states something that is or was the case and can be checked against sources
+- causal: asserts that one thing leads to or prevents another
+- value: a judgement about what is good, important or preferable
+- prediction: a statement about what will happen
+
+Skip rhetoric, questions and restatements. Return at most 8 claims.
+
+Respond with JSON only, in this shape:
+{"claims": [{"text": "...", "type": "factual" | "causal" | "value" | "prediction"}]}`;
+
+    const result = await this.generateStructured(decompositionPrompt, claimSetSchema, context);
+    return { data: result.data.claims, message: result.message };
+  }
 
-CLAIM TO VERIFY: ${claim}
+  /**
+   * Gather evidence for one claim and judge it: supported, contested, refuted,
+   * or unverified when the evidence does not settle it
+   */
+  async verifyClaim(claim: string, context: AgentContext): Promise<StructuredResult<ClaimVerdict> & { research: ClaimResearch }> {
+    const research = await this.searchService.gatherEvidence(claim, this.usageScope(context), context.config?.researchMode);
+    const { findings, sources, confidence } = research;
+    const threshold = context.config?.agentSettings.analyst.confidence_threshold;
+    const belowThreshold = threshold !== undefined && confidence < threshold
+      ? `
+
+Evidence confidence is below the session's ${threshold}% threshold: answer "unverified" unless the sources settle the claim directly.`
+      : '';
+
+    const verdictPrompt = `Assess this claim against the research findings:
+
+CLAIM: ${claim}
 
 RESEARCH FINDINGS:
 ${findings}
 
 SOURCES CONSULTED:
-${sources.map(s => `- ${s.source}: ${s.title} (${s.url})`).join('\n')}
+${sources.length > 0 ? sources.map(s => `- ${s.source}: ${s.title} (${s.url})`).join('\n') : '- None'}
+
+Choose a status:
+- supported: the evidence backs the claim
+- contested: credible evidence points both ways
+- refuted: the evidence contradicts the claim
+- unverified: the evidence does not bear on the claim
+
+Respond with JSON only, in this shape:
+{"status": "supported" | "contested" | "refuted" | "unverified", "confidence": 0-100, "relevance": 0-100, "analysis": "two or three sentences citing the sources"}
 
-Based on this evidence, provide:
-1. VERIFICATION STATUS: True, False, Partially True, or Unverifiable
-2. SUPPORTING EVIDENCE: Analysis of the sources that confirm or refute the claim
-3. CONTEXT: Important nuances or conditions that affect accuracy
-4. ALTERNATIVE PERSPECTIVES: Different viewpoints on the claim
-5. CONFIDENCE LEVEL: ${confidence}% confidence based on available evidence
+relevance is how directly the findings bear on this exact claim.
 
-Base your analysis on the credible sources provided and logical reasoning.`;
+Research confidence for these findings is ${confidence}%.${belowThreshold}`;
 
-    return this.processMessage(factCheckPrompt, context);
+    const result = await this.generateStructured(verdictPrompt, claimVerdictSchema, context);
+    return { ...result, research };
   }
 
   async analyzeMarketConditions(solutionArea: string, context: AgentContext): Promise<AgentMessage> {
     // Research current market trends using web search
-    const { trends, sources } = await this.searchService.researchTrends(solutionArea);
+    const { trends, sources, mock } = await this.searchService.researchTrends(solutionArea, this.usageScope(context), context.config?.researchMode);
+    const mockNote = mock
+      ? '\n\nNo research backend is configured, so the findings above are placeholders. Do not cite them: say that market data could not be retrieved and reason from general knowledge.'
+      : '';
     
     const marketPrompt = `Analyze current market conditions for this solution area using the following research:
 
 SOLUTION AREA: ${solutionArea}
 
 MARKET RESEARCH FINDINGS:
-${trends.map(t => `• ${t}`).join('\n')}
+${trends.length ? trends.map(t => `• ${t}`).join('\n') : 'No distinct trends were identified.'}
 
 SOURCES CONSULTED:
 ${sources.map(s => `- ${s.source}: ${s.title} (${s.url})`).join('\n')}
@@ -358,7 +181,7 @@ Based on this research, provide analysis on:
 5. CHALLENGES: Barriers to entry and market risks
 6. TIMING: Market readiness and optimal timing considerations
 
-Include quantitative data where available and cite the sources provided.`;
+Include quantitative data where available and cite the sources provided.${mockNote}`;
 
     return this.processMessage(marketPrompt, context);
   }
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z, type ZodType } from 'zod';
+import type { AgentStreamEvent } from '@shared/agent-events';
+import type { AgentContext, AgentMessage } from './base-agent';
+import { FakeProvider, httpError } from '../test/fake-provider';
+import { estimateTokens } from './providers';
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+const { storage } = await import('../storage');
+const { providerRegistry } = await import('./providers');
+const { BaseAgent, StructuredOutputError } = await import('./base-agent');
+const { BudgetExceededError } = await import('../services/budget');
+const { resolveSessionConfig } = await import('../services/session-config');
+
+class TestAgent extends BaseAgent {
+  constructor() {
+    super({ name: 'openai', model: 'gpt-4o' }, 'tester', 'You are a test agent.', [{ name: 'anthropic', model: 'claude-3-5-sonnet-20241022' }]);
+  }
+
+  getName() { return 'Test Agent'; }
+  getDescription() { return 'Agent used to exercise BaseAgent'; }
+
+  ask(prompt: string, context: AgentContext) {
+    return this.generateResponse([{ role: 'user', content: prompt }], context);
+  }
+
+  askStructured<T>(prompt: string, schema: ZodType<T>, context: AgentContext) {
+    return this.generateStructured(prompt, schema, context);
+  }
+}
+
+let openai: FakeProvider;
+let anthropic: FakeProvider;
+
+beforeEach(() => {
+  openai = new FakeProvider('openai');
+  anthropic = new FakeProvider('anthropic');
+  providerRegistry.register(openai);
+  providerRegistry.register(anthropic);
+});
+
+async function sessionContext(budget?: unknown, spentUsd: number = 0): Promise<AgentContext> {
+  const session = await storage.createSession({ title: 'Agent session', config: budget ? { budget } : null });
+  if (spentUsd) {
+    await storage.createUsageEntry({
+      sessionId: session.id, service: 'llm', provider: 'openai', model: 'gpt-4o', latencyMs: 10, costUsd: spentUsd
+    });
+  }
+  return { sessionId: session.id, phase: 3 };
+}
+
+describe('budget enforcement', () => {
+  it('uses the configured models while the budget is under its threshold', async () => {
+    await new TestAgent().ask('Hello', await sessionContext({ unit: 'usd', limit: 10 }, 1));
+    expect(openai.calls.map(call => call.model)).toEqual(['gpt-4o']);
+  });
+
+  it('switches to cheaper models past the downgrade threshold', async () => {
+    const result = await new TestAgent().ask('Hello', await sessionContext({ unit: 'usd', limit: 1 }, 0.9));
+    expect(openai.calls.map(call => call.model)).toEqual(['gpt-4o-mini']);
+    expect(result.model).toBe('gpt-4o-mini');
+  });
+
+  it('refuses the call and reports it failed once the budget is spent', async () => {
+    const events: AgentStreamEvent[] = [];
+    const context = { ...await sessionContext({ unit: 'usd', limit: 1 }, 1), onEvent: (event: AgentStreamEvent) => events.push(event) };
+
+    await expect(new TestAgent().ask('Hello', context)).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(openai.calls).toHaveLength(0);
+    expect(events).toEqual([expect.objectContaining({ type: 'failed', agent: 'tester' })]);
+  });
+});
+
+describe('retries and fallback', () => {
+  it('retries a timed out call on the same provider', async () => {
+    openai.reply(httpError(408));
+    const result = await new TestAgent().ask('Hello', await sessionContext());
+
+    expect(result).toMatchObject({ provider: 'openai', content: 'openai response' });
+    expect(openai.calls).toHaveLength(2);
+    expect(anthropic.calls).toHaveLength(0);
+  });
+
+  it('falls back to the next provider when retrying cannot help', async () => {
+    openai.reply(httpError(401));
+    const result = await new TestAgent().ask('Hello', await sessionContext());
+
+    expect(result).toMatchObject({ provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' });
+    expect(openai.calls).toHaveLength(1);
+  });
+
+  it('reports every failed hop once the chain is exhausted', async () => {
+    openai.reply(httpError(401));
+    anthropic.reply(httpError(403));
+    const events: AgentStreamEvent[] = [];
+    const context = { ...await sessionContext(), onEvent: (event: AgentStreamEvent) => events.push(event) };
+
+    await expect(new TestAgent().ask('Hello', context)).rejects.toThrow(
+      'Failed to generate response for tester agent (openai/gpt-4o: auth; anthropic/claude-3-5-sonnet-20241022: auth)'
+    );
+    expect(events.at(-1)).toMatchObject({ type: 'failed', agent: 'tester' });
+  });
+
+  it('stops waiting to retry when the run is cancelled and reports the call failed', async () => {
+    openai.reply(httpError(429));
+    const controller = new AbortController();
+    const events: AgentStreamEvent[] = [];
+    const context = { ...await sessionContext(), signal: controller.signal, onEvent: (event: AgentStreamEvent) => events.push(event) };
+    const startedAt = Date.now();
+
+    const call = new TestAgent().ask('Hello', context);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(call).rejects.toThrow('tester agent call cancelled');
+    expect(Date.now() - startedAt).toBeLessThan(1000); // A rate limit would otherwise wait 2s
+    expect(openai.calls).toHaveLength(1);
+    expect(anthropic.calls).toHaveLength(0);
+    expect(events.at(-1)).toEqual(expect.objectContaining({ type: 'failed', error: 'tester agent call cancelled' }));
+  });
+});
+
+describe('structured output', () => {
+  const verdictSchema = z.object({ verdict: z.enum(['supported', 'refuted']), confidence: z.number() });
+
+  it('accepts JSON wrapped in a markdown fence', async () => {
+    openai.reply('Here it is:\n```json\n{"verdict": "supported", "confidence": 80}\n```');
+    const result = await new TestAgent().askStructured('Check the claim', verdictSchema, await sessionContext());
+
+    expect(result.data).toEqual({ verdict: 'supported', confidence: 80 });
+    expect(openai.calls[0].responseFormat).toBe('json');
+  });
+
+  it('sends the validation issues back until the output is valid', async () => {
+    openai.reply('Not sure', '{"verdict": "maybe", "confidence": 80}', '{"verdict": "refuted", "confidence": 40}');
+    const result = await new TestAgent().askStructured('Check the claim', verdictSchema, await sessionContext());
+
+    expect(result.data).toEqual({ verdict: 'refuted', confidence: 40 });
+    expect(openai.calls).toHaveLength(3);
+    const repairs = openai.calls.slice(1).map(call => call.messages[call.messages.length - 1].content);
+    expect(repairs[0]).toContain('Your previous response could not be used: Response did not contain a JSON object');
+    expect(repairs[1]).toContain('verdict: Invalid enum value');
+    expect(openai.calls[2].messages.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+  });
+
+  it('gives up with StructuredOutputError once the attempts are used', async () => {
+    openai.reply('{}', '{}', '{}');
+    const call = new TestAgent().askStructured('Check the claim', verdictSchema, await sessionContext());
+
+    await expect(call).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(call).rejects.toThrow('tester agent returned invalid structured output after 3 attempt(s): verdict: Required');
+    expect(openai.calls).toHaveLength(3);
+  });
+});
+
+describe('debate history', () => {
+  const debateSessionId = 'debate-1';
+  const turn = (round: number, agentId: string): AgentMessage => ({
+    role: 'assistant', agentId, debateSessionId, round, content: `${agentId} argument for round ${round}. ${'Supporting detail. '.repeat(20)}`
+  });
+  const debateHistory = [1, 2, 3, 4].flatMap(round => [turn(round, 'proponent'), turn(round, 'opponent')]);
+  const debateDigests = [{ debateSessionId, throughRound: 2, content: 'Both sides agreed a pilot team should go first.' }];
+
+  it('includes the whole debate when the context window has room', async () => {
+    await new TestAgent().ask('Hello', { ...await sessionContext(), debateHistory, debateDigests });
+
+    const prompt = openai.calls[0].systemPrompt;
+    expect(prompt).toContain('DEBATE SO FAR');
+    expect(prompt).toContain('proponent: proponent argument for round 1');
+    expect(prompt).not.toContain('Digest of rounds');
+  });
+
+  it('condenses older rounds into their digest to stay within a small context window', async () => {
+    const small = new FakeProvider('openai', 2800);
+    providerRegistry.register(small);
+    const config = resolveSessionConfig({ history: { recentTurns: 2 } });
+    await new TestAgent().ask('Hello', { ...await sessionContext(), config, debateHistory, debateDigests });
+
+    const { systemPrompt, messages } = small.calls[0];
+    expect(systemPrompt).toContain('Digest of rounds 1-2: Both sides agreed a pilot team should go first.');
+    expect(systemPrompt).toContain('opponent: opponent argument for round 4');
+    expect(systemPrompt).not.toContain('argument for round 1');
+    const promptTokens = estimateTokens(`${systemPrompt}\n${messages.map(m => m.content).join('\n')}`);
+    expect(promptTokens + 2000).toBeLessThanOrEqual(2800); // Leaves room for the completion
+  });
+
+  it('leaves the history out when the prompt already fills the context window', async () => {
+    const full = new FakeProvider('openai', 2000);
+    providerRegistry.register(full);
+    await new TestAgent().ask('Hello', { ...await sessionContext(), debateHistory, debateDigests });
+
+    expect(full.calls[0].systemPrompt).not.toContain('DEBATE SO FAR');
+  });
+});
@@ -1,12 +1,34 @@
-import { OpenAI } from "openai";
-import Anthropic from "@anthropic-ai/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { randomUUID } from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+import { providerRegistry, decideRetry, ProviderName, ChatResult, ChatRequest, LLMProvider, estimateTokens } from './providers';
+import { usageLedger } from '../services/usage-ledger';
+import { enforceBudget, cheaperModels, BudgetExceededError } from '../services/budget';
+import { contextRetriever, RetrievedPassage } from '../services/context-retriever';
+import { contextWindowPolicy } from '../services/context-window';
+import type { AgentStreamEvent } from '@shared/agent-events';
+import type { ZodType, ZodError } from 'zod';
+import type { SessionConfig, ContextReference } from '@shared/schema';
+
+const MAX_OUTPUT_TOKENS = 2000;
 
 export interface AgentMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
   timestamp?: Date;
   agentId?: string;
+  provider?: ProviderName; // Provider that actually produced the message, which may be a fallback hop
+  model?: string;
+  references?: ContextReference[]; // Retrieved session materials the response cited
+  debateSessionId?: string; // Debate run and round a debate turn belongs to, so older rounds can be digested
+  round?: number;
+}
+
+// Moderator's rolling digest of one debate run, covering rounds 1 to throughRound
+export interface DebateDigest {
+  debateSessionId: string;
+  throughRound: number;
+  content: string;
+  label?: string; // e.g. the solution debated, when several debates share a history
 }
 
 export interface AgentContext {
@@ -15,235 +37,292 @@ export interface AgentContext {
   problemStatement?: string;
   solutions?: Array<{id: string, title: string, description: string}>;
   debateHistory?: AgentMessage[];
+  debateDigests?: DebateDigest[]; // Stand in for older rounds of debateHistory when prompts run long
   evidence?: Array<{type: string, content: string, source: string}>;
+  config?: SessionConfig; // Resolved sessions.config; agents fall back to schema defaults when absent
+  facilitatorInstructions?: string[]; // Instructions injected mid-debate, e.g. "focus on cost"
+  onEvent?: (event: AgentStreamEvent) => void; // When set, responses are streamed and lifecycle events reported
+  onProgress?: (progress: number, message: string) => void; // Coarse 0-100 progress for long-running phases
+  signal?: AbortSignal; // Aborting stops the run before the next provider call
 }
 
 export interface AgentProvider {
-  name: 'openai' | 'anthropic' | 'gemini';
+  name: ProviderName;
   model: string;
 }
 
+export interface GenerateOptions {
+  responseFormat?: 'text' | 'json';
+  retrievalQuery?: string; // What to retrieve session materials for; defaults to the last user message
+}
+
+export interface AgentResponse extends ChatResult {
+  references: ContextReference[];
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  message: AgentMessage; // The raw response that passed validation
+}
+
+/**
+ * Thrown when an agent keeps returning output that does not match the
+ * requested schema after all repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  constructor(readonly agent: string, readonly issues: string, readonly attempts: number) {
+    super(`${agent} agent returned invalid structured output after ${attempts} attempt(s): ${issues}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// Models often wrap JSON in markdown fences or a sentence of preamble; keep only the JSON value
+function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    throw new Error('Response did not contain a JSON object');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+function formatIssues(error: ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
 export abstract class BaseAgent {
   protected provider: AgentProvider;
+  protected fallbacks: AgentProvider[];
   protected role: string;
   protected systemPrompt: string;
-  protected openai?: OpenAI;
-  protected anthropic?: Anthropic;
-  protected gemini?: GoogleGenerativeAI;
 
-  constructor(provider: AgentProvider, role: string, systemPrompt: string) {
+  constructor(provider: AgentProvider, role: string, systemPrompt: string, fallbacks: AgentProvider[] = []) {
     this.provider = provider;
+    this.fallbacks = fallbacks;
     this.role = role;
     this.systemPrompt = systemPrompt;
     
-    // Enhanced environment validation and AI client initialization
-    this.initializeAIProviders();
+    this.logProviderStatus();
   }
 
-  private initializeAIProviders(): void {
-    const availableProviders: string[] = [];
-    const unavailableProviders: string[] = [];
-
-    // Initialize AI clients with comprehensive validation
-    if (this.provider.name === 'openai') {
-      if (!process.env.OPENAI_API_KEY) {
-        unavailableProviders.push('OpenAI');
-        console.warn(`❌ ${this.role} agent: OPENAI_API_KEY not found, OpenAI features will be unavailable`);
-      } else {
-        try {
-          this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY,
-          });
-          availableProviders.push(`OpenAI (${this.provider.model})`);
-          console.log(`✅ ${this.role} agent: OpenAI initialized with model ${this.provider.model}`);
-        } catch (error) {
-          console.error(`❌ ${this.role} agent: Failed to initialize OpenAI:`, error);
-          unavailableProviders.push('OpenAI');
-        }
-      }
-    } else if (this.provider.name === 'anthropic') {
-      if (!process.env.ANTHROPIC_API_KEY) {
-        unavailableProviders.push('Anthropic');
-        console.warn(`❌ ${this.role} agent: ANTHROPIC_API_KEY not found, Anthropic features will be unavailable`);
-      } else {
-        try {
-          this.anthropic = new Anthropic({
-            apiKey: process.env.ANTHROPIC_API_KEY,
-          });
-          availableProviders.push(`Anthropic (${this.provider.model})`);
-          console.log(`✅ ${this.role} agent: Anthropic initialized with model ${this.provider.model}`);
-        } catch (error) {
-          console.error(`❌ ${this.role} agent: Failed to initialize Anthropic:`, error);
-          unavailableProviders.push('Anthropic');
-        }
-      }
-    } else if (this.provider.name === 'gemini') {
-      if (!process.env.GOOGLE_API_KEY && !process.env.GEMINI_API_KEY) {
-        unavailableProviders.push('Gemini');
-        console.warn(`❌ ${this.role} agent: GOOGLE_API_KEY or GEMINI_API_KEY not found, Gemini features will be unavailable`);
-      } else {
-        try {
-          const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
-          this.gemini = new GoogleGenerativeAI(apiKey!);
-          availableProviders.push(`Gemini (${this.provider.model})`);
-          console.log(`✅ ${this.role} agent: Gemini initialized with model ${this.provider.model}`);
-        } catch (error) {
-          console.error(`❌ ${this.role} agent: Failed to initialize Gemini:`, error);
-          unavailableProviders.push('Gemini');
-        }
-      }
+  /**
+   * Ordered provider/model hops tried for each call: the primary provider first,
+   * then the agent's fallbacks. Hops whose provider is unregistered or
+   * unconfigured are skipped. LLM_PROVIDER_OVERRIDE collapses the chain to one hop.
+   */
+  protected getProviderChain(): AgentProvider[] {
+    const override = process.env.LLM_PROVIDER_OVERRIDE;
+    if (override && providerRegistry.has(override)) {
+      return [{ name: override, model: process.env.LLM_MODEL_OVERRIDE || this.provider.model }];
     }
 
-    // Check for fallback providers
-    const fallbackProviders: string[] = [];
-    if (this.provider.name !== 'openai' && process.env.OPENAI_API_KEY) {
-      fallbackProviders.push('OpenAI');
-    }
-    if (this.provider.name !== 'anthropic' && process.env.ANTHROPIC_API_KEY) {
-      fallbackProviders.push('Anthropic');
-    }
+    const available = providerRegistry.available();
+    return [this.provider, ...this.fallbacks].filter(hop => available.includes(hop.name));
+  }
 
-    // Log comprehensive provider status
-    if (availableProviders.length > 0) {
-      console.log(`🚀 ${this.role} agent: Ready with ${availableProviders.join(', ')}`);
+  private logProviderStatus(): void {
+    const chain = this.getProviderChain();
+    if (chain.length === 0) {
+      console.warn(`❌ ${this.role} agent: No configured provider in chain ${[this.provider, ...this.fallbacks].map(h => h.name).join(' → ')}`);
+      return;
     }
-    if (fallbackProviders.length > 0) {
-      console.log(`⚡ ${this.role} agent: Fallback providers available: ${fallbackProviders.join(', ')}`);
+
+    if (chain[0] === this.provider) {
+      console.log(`🚀 ${this.role} agent: Ready with ${this.provider.name} (${this.provider.model})`);
+    } else {
+      console.warn(`⚠️  ${this.role} agent: Provider ${this.provider.name} is not configured, starting with ${chain[0].name} (${chain[0].model})`);
     }
-    if (unavailableProviders.length > 0) {
-      console.warn(`⚠️  ${this.role} agent: Unavailable providers: ${unavailableProviders.join(', ')}`);
+
+    if (chain.length > 1) {
+      console.log(`⚡ ${this.role} agent: Fallback chain: ${chain.slice(1).map(h => `${h.name}/${h.model}`).join(' → ')}`);
     }
   }
 
   abstract getName(): string;
   abstract getDescription(): string;
 
-  protected async generateResponse(messages: AgentMessage[], context: AgentContext): Promise<string> {
+  protected async generateResponse(messages: AgentMessage[], context: AgentContext, options: GenerateOptions = {}): Promise<AgentResponse> {
     const startTime = Date.now();
-    const systemMessage: AgentMessage = {
-      role: 'system',
-      content: this.buildSystemPrompt(context)
-    };
+    const passages = await this.retrieveContext(messages, context, options);
+    const systemPrompt = this.buildSystemPrompt(context) + contextRetriever.formatForPrompt(passages);
+    const failures: string[] = [];
+    const emit = context.onEvent;
+    const callId = randomUUID();
 
-    const allMessages = [systemMessage, ...messages];
-    const maxRetries = 2;
-    const inputTokens = JSON.stringify(allMessages).length / 4; // Rough token estimation
+    let chain = this.getProviderChain();
+    try {
+      const budget = await enforceBudget(context.sessionId);
+      if (budget.state === 'downgraded') {
+        console.warn(`💸 ${this.role} agent: Session budget ${Math.round((budget.fractionUsed ?? 0) * 100)}% spent, using cheaper models`);
+        chain = chain.map(hop => ({ ...hop, model: cheaperModels[hop.name] || hop.model }));
+      }
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) {
+        // A failed budget lookup should not block the workshop; proceed with the configured models
+        console.warn(`⚠️ ${this.role} agent: Budget check failed, continuing`, error);
+      } else {
+        console.error(`💸 ${this.role} agent: ${error.message}`);
+        emit?.({ type: 'failed', callId, agent: this.role, error: error.message });
+        throw error;
+      }
+    }
 
-    console.log(`🤖 ${this.role} agent: Starting generation (${this.provider.name}/${this.provider.model}) - Est. ${Math.round(inputTokens)} input tokens`);
+    if (chain.length === 0) {
+      const message = `No configured provider available for ${this.role} agent`;
+      emit?.({ type: 'failed', callId, agent: this.role, error: message });
+      throw new Error(message);
+    }
 
-    // Try the primary provider first
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        let response: string = '';
-        let actualProvider = this.provider.name;
-        let actualModel = this.provider.model;
-        let tokenUsage: any = null;
-
-        if (this.provider.name === 'gemini' && this.gemini) {
-          const model = this.gemini.getGenerativeModel({ model: this.provider.model });
-          
-          // Format messages for Gemini
-          const prompt = `${systemMessage.content}\n\nUser: ${messages.map(m => m.content).join('\n')}`;
-          
-          const result = await model.generateContent(prompt);
-          const geminiResponse = await result.response;
-          response = geminiResponse.text() || '';
-          
-          // Extract usage if available
-          tokenUsage = (result as any)?.response?.usageMetadata;
-          
-        } else if (this.provider.name === 'openai' && this.openai) {
-          const openaiResponse = await this.openai.chat.completions.create({
-            model: this.provider.model,
-            messages: allMessages.map(msg => ({
-              role: msg.role,
-              content: msg.content
-            })),
-            temperature: 0.7,
-            max_tokens: 2000
-          });
+    for (let hopIndex = 0; hopIndex < chain.length; hopIndex++) {
+      const hop = chain[hopIndex];
+      const provider = providerRegistry.get(hop.name);
+      let attemptsOnHop = 0;
 
-          response = openaiResponse.choices[0]?.message?.content || '';
-          tokenUsage = openaiResponse.usage;
-          
-        } else if (this.provider.name === 'anthropic' && this.anthropic) {
-          const anthropicResponse = await this.anthropic.messages.create({
-            model: this.provider.model,
-            max_tokens: 2000,
-            temperature: 0.7,
-            system: systemMessage.content,
-            messages: messages.map(msg => ({
-              role: msg.role === 'system' ? 'user' : msg.role,
-              content: msg.content
-            }))
-          });
+      console.log(`🤖 ${this.role} agent: Starting generation (${hop.name}/${hop.model})${hopIndex > 0 ? ` [fallback ${hopIndex}]` : ''}`);
+      const debateHistory = await this.fitDebateHistory(systemPrompt, messages, context, provider, hop.model);
 
-          response = anthropicResponse.content[0]?.type === 'text' ? anthropicResponse.content[0].text : '';
-          tokenUsage = anthropicResponse.usage;
+      while (true) {
+        if (context.signal?.aborted) {
+          const message = `${this.role} agent call cancelled`;
+          emit?.({ type: 'failed', callId, agent: this.role, error: message });
+          throw new Error(message);
         }
 
-        // Log successful response
-        const duration = Date.now() - startTime;
-        const outputTokens = response.length / 4; // Rough estimation
-        
-        console.log(`✅ ${this.role} agent: Response generated successfully`);
-        console.log(`   📊 Provider: ${actualProvider}/${actualModel}`);
-        console.log(`   ⏱️  Duration: ${duration}ms`);
-        console.log(`   📝 Output: ${Math.round(outputTokens)} tokens (${response.length} chars)`);
-        
-        if (tokenUsage) {
-          console.log(`   🔢 Token Usage:`, tokenUsage);
-        }
+        const request: ChatRequest = {
+          model: hop.model,
+          systemPrompt: systemPrompt + debateHistory,
+          messages,
+          temperature: 0.7,
+          maxTokens: MAX_OUTPUT_TOKENS,
+          responseFormat: options.responseFormat,
+          metadata: {
+            agent: this.role,
+            sessionId: context.sessionId,
+            phase: context.phase
+          }
+        };
 
-        return response;
-        
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        console.error(`❌ ${this.role} agent: Attempt ${attempt + 1}/${maxRetries + 1} failed (${duration}ms)`, error);
-        
-        // If it's the last attempt and we have a fallback, try OpenAI
-        if (attempt === maxRetries && this.provider.name === 'gemini' && process.env.OPENAI_API_KEY) {
-          try {
-            console.log(`🔄 ${this.role} agent: Falling back to OpenAI for Gemini failure`);
-            const fallbackOpenAI = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-            const fallbackResponse = await fallbackOpenAI.chat.completions.create({
-              model: 'gpt-4o',
-              messages: allMessages.map(msg => ({
-                role: msg.role,
-                content: msg.content
-              })),
-              temperature: 0.7,
-              max_tokens: 2000
-            });
-            
-            const response = fallbackResponse.choices[0]?.message?.content || '';
-            const fallbackDuration = Date.now() - startTime;
-            
-            console.log(`✅ ${this.role} agent: Fallback successful (OpenAI/gpt-4o, ${fallbackDuration}ms)`);
-            console.log(`   📝 Output: ${Math.round(response.length / 4)} tokens`);
-            
-            if (fallbackResponse.usage) {
-              console.log(`   🔢 Token Usage:`, fallbackResponse.usage);
-            }
-            
-            return response;
-          } catch (fallbackError) {
-            console.error(`❌ ${this.role} agent: Fallback to OpenAI also failed:`, fallbackError);
+        const attemptStart = Date.now();
+        try {
+          let result: ChatResult;
+          if (emit) {
+            // Retries restart the text, so listeners discard partials on every 'started'
+            emit({ type: 'started', callId, agent: this.role, provider: hop.name, model: hop.model, fallback: hopIndex > 0 });
+            result = await provider.stream(request, delta => emit({ type: 'partial', callId, agent: this.role, delta }));
+            emit({ type: 'finished', callId, agent: this.role, provider: result.provider, model: result.model, content: result.content });
+          } else {
+            result = await provider.chat(request);
           }
-        }
-        
-        // If not the last attempt, wait briefly before retry
-        if (attempt < maxRetries) {
-          const retryDelay = 1000 * (attempt + 1);
-          console.log(`⏳ ${this.role} agent: Retrying in ${retryDelay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
+          this.logResult(result, startTime);
+          await usageLedger.record({
+            sessionId: context.sessionId,
+            phase: context.phase,
+            agent: this.role,
+            service: 'llm',
+            provider: result.provider,
+            model: result.model,
+            inputTokens: result.usage.inputTokens,
+            outputTokens: result.usage.outputTokens,
+            estimated: result.usage.estimated,
+            latencyMs: Date.now() - attemptStart
+          });
+          return { ...result, references: contextRetriever.citedReferences(passages, result.content) };
+        } catch (error) {
+          attemptsOnHop++;
+          const kind = provider.classifyError(error);
+          const duration = Date.now() - startTime;
+          console.error(`❌ ${this.role} agent: ${hop.name}/${hop.model} attempt ${attemptsOnHop} failed with ${kind} (${duration}ms)`, error);
+
+          const decision = decideRetry(kind, attemptsOnHop);
+          if (!decision.retrySameHop) {
+            failures.push(`${hop.name}/${hop.model}: ${kind}`);
+            break;
+          }
+
+          console.log(`⏳ ${this.role} agent: Retrying ${hop.name} in ${decision.delayMs}ms...`);
+          // Cancelling cuts the wait short; the check at the top of the loop reports it
+          await sleep(decision.delayMs, undefined, { signal: context.signal }).catch(() => undefined);
         }
       }
+
+      if (hopIndex < chain.length - 1) {
+        console.log(`🔄 ${this.role} agent: Falling back to ${chain[hopIndex + 1].name}/${chain[hopIndex + 1].model}`);
+      }
     }
 
     const totalDuration = Date.now() - startTime;
-    console.error(`💥 ${this.role} agent: All attempts failed after ${totalDuration}ms`);
-    throw new Error(`Failed to generate response after ${maxRetries + 1} attempts with provider: ${this.provider.name}`);
+    console.error(`💥 ${this.role} agent: All providers failed after ${totalDuration}ms`);
+    const message = `Failed to generate response for ${this.role} agent (${failures.join('; ')})`;
+    emit?.({ type: 'failed', callId, agent: this.role, error: message });
+    throw new Error(message);
+  }
+
+  /**
+   * Grounding chunks and earlier evidence relevant to this call, within the session's
+   * retrieval token budget. A failed lookup is logged and the call goes ahead without them.
+   */
+  private async retrieveContext(messages: AgentMessage[], context: AgentContext, options: GenerateOptions): Promise<RetrievedPassage[]> {
+    const query = options.retrievalQuery ?? [...messages].reverse().find(m => m.role === 'user')?.content;
+    if (!context.sessionId || !query) {
+      return [];
+    }
+
+    try {
+      return await contextRetriever.retrieve(context.sessionId, query, context.config?.retrieval);
+    } catch (error) {
+      console.warn(`⚠️ ${this.role} agent: Context retrieval failed, continuing without session materials`, error);
+      return [];
+    }
+  }
+
+  /**
+   * The debate history section for one provider hop: whatever fits both the session's
+   * history budget and what is left of this model's context window, counted with
+   * the provider's own tokenizer.
+   */
+  private async fitDebateHistory(systemPrompt: string, messages: AgentMessage[], context: AgentContext, provider: LLMProvider, model: string): Promise<string> {
+    if (!context.debateHistory?.length) {
+      return '';
+    }
+
+    // Counting may be a round trip to the provider, so the prompt and the whole history are
+    // counted once each; single turns and digests are then estimated at the history's rate
+    const fullHistory = contextWindowPolicy.format({ digests: context.debateDigests ?? [], messages: context.debateHistory, omitted: 0, tokens: 0 });
+    const [promptTokens, historyTokens] = await Promise.all([
+      provider.countTokens(`${systemPrompt}\n${messages.map(m => m.content).join('\n')}`, model),
+      provider.countTokens(fullHistory, model)
+    ]);
+    const rate = historyTokens / Math.max(1, estimateTokens(fullHistory));
+    const count = (text: string) => Math.ceil(estimateTokens(text) * rate);
+
+    const room = provider.contextWindow(model) - promptTokens - MAX_OUTPUT_TOKENS;
+    if (room <= 0) {
+      console.warn(`⚠️ ${this.role} agent: Prompt already fills ${provider.name}/${model}'s context window, leaving out debate history`);
+      return '';
+    }
+
+    const assembled = contextWindowPolicy.assemble(context.debateHistory, context.debateDigests, {
+      settings: context.config?.history,
+      budget: room,
+      count
+    });
+    if (assembled.digests.length || assembled.omitted) {
+      console.log(`🗜️ ${this.role} agent: Debate history condensed to ${assembled.tokens} tokens (${assembled.messages.length} turns verbatim, ${assembled.digests.length} digests, ${assembled.omitted} omitted)`);
+    }
+    return contextWindowPolicy.formatForPrompt(assembled);
+  }
+
+  private logResult(result: ChatResult, startTime: number): void {
+    const duration = Date.now() - startTime;
+    console.log(`✅ ${this.role} agent: Response generated successfully`);
+    console.log(`   📊 Provider: ${result.provider}/${result.model}`);
+    console.log(`   ⏱️  Duration: ${duration}ms`);
+    console.log(`   🔢 Tokens: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out${result.usage.estimated ? ' (estimated)' : ''}`);
   }
 
   protected buildSystemPrompt(context: AgentContext): string {
@@ -264,6 +343,18 @@ export abstract class BaseAgent {
       prompt += `\n\nCURRENT PHASE: ${this.getPhaseDescription(context.phase)}`;
     }
 
+    // Setup-page sliders for this agent, e.g. the Opponent's risk_aversion
+    const settings = context.config?.agentSettings[this.role as keyof SessionConfig['agentSettings']];
+    if (settings) {
+      prompt += `\n\nAGENT SETTINGS (0 = minimal, 100 = maximal; calibrate tone and depth to these):\n${Object.entries(settings).map(([setting, value]) =>
+        `- ${setting.replace(/_/g, ' ')}: ${value}`
+      ).join('\n')}`;
+    }
+
+    if (context.facilitatorInstructions && context.facilitatorInstructions.length > 0) {
+      prompt += `\n\nFACILITATOR INSTRUCTIONS (address these in your response):\n${context.facilitatorInstructions.map(i => `- ${i}`).join('\n')}`;
+    }
+
     return prompt;
   }
 
@@ -286,24 +377,88 @@ export abstract class BaseAgent {
       timestamp: new Date()
     };
 
-    const response = await this.generateResponse([userMessage], context);
+    const result = await this.generateResponse([userMessage], context);
 
     return {
       role: 'assistant',
-      content: response,
+      content: result.content,
       timestamp: new Date(),
-      agentId: this.getName()
+      agentId: this.getName(),
+      provider: result.provider,
+      model: result.model,
+      references: result.references
     };
   }
 
+  /**
+   * Ask for JSON matching `schema`. Output that fails to parse or validate is sent
+   * back with the validation errors for another attempt; after `maxAttempts`
+   * a StructuredOutputError is thrown rather than returning unvalidated data.
+   */
+  protected async generateStructured<T>(
+    prompt: string,
+    schema: ZodType<T>,
+    context: AgentContext,
+    maxAttempts: number = 3
+  ): Promise<StructuredResult<T>> {
+    const conversation: AgentMessage[] = [{ role: 'user', content: prompt, timestamp: new Date() }];
+    let issues = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Retrieve for the original prompt, not for a repair request
+      const result = await this.generateResponse(conversation, context, { responseFormat: 'json', retrievalQuery: prompt });
+
+      let parsed: unknown;
+      try {
+        parsed = extractJson(result.content);
+      } catch (error) {
+        parsed = undefined;
+        issues = error instanceof Error ? error.message : 'Response was not valid JSON';
+      }
+
+      if (parsed !== undefined) {
+        const validation = schema.safeParse(parsed);
+        if (validation.success) {
+          return {
+            data: validation.data,
+            message: {
+              role: 'assistant',
+              content: result.content,
+              timestamp: new Date(),
+              agentId: this.getName(),
+              provider: result.provider,
+              model: result.model,
+              references: result.references
+            }
+          };
+        }
+        issues = formatIssues(validation.error);
+      }
+
+      console.warn(`⚠️ ${this.role} agent: Invalid structured output (attempt ${attempt}/${maxAttempts}): ${issues}`);
+      conversation.push(
+        { role: 'assistant', content: result.content },
+        {
+          role: 'user',
+          content: `Your previous response could not be used: ${issues}\n\nReply again with only the corrected JSON object, no commentary or markdown.`
+        }
+      );
+    }
+
+    throw new StructuredOutputError(this.role, issues, maxAttempts);
+  }
+
   public async participate(conversation: AgentMessage[], context: AgentContext): Promise<AgentMessage> {
-    const response = await this.generateResponse(conversation, context);
+    const result = await this.generateResponse(conversation, context);
 
     return {
       role: 'assistant',
-      content: response,
+      content: result.content,
       timestamp: new Date(),
-      agentId: this.getName()
+      agentId: this.getName(),
+      provider: result.provider,
+      model: result.model,
+      references: result.references
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import type { AgentStreamEvent } from '@shared/agent-events';
+import type { ScriptedProvider } from './providers';
+
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER_OVERRIDE = 'scripted';
+});
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+const { storage } = await import('../storage');
+const { providerRegistry } = await import('./providers');
+const { debateEngine } = await import('./enhanced-debate-engine');
+const { orchestrator } = await import('./orchestrator');
+
+const scripted = providerRegistry.get('scripted') as ScriptedProvider;
+
+describe('debate engine', () => {
+  let sessionId: string;
+  let solutionId: string;
+
+  beforeAll(async () => {
+    const session = await storage.createSession({ title: 'Debate session', config: { debateRounds: 2 } });
+    sessionId = session.id;
+    const problem = await storage.createProblem({ sessionId, statement: 'Releases slip every quarter', status: 'approved' });
+    const solution = await storage.createSolution({
+      sessionId,
+      problemId: problem.id,
+      title: 'Release trains',
+      objective: 'Ship on a fixed schedule',
+      approach: 'Cut a release every two weeks',
+      impact: { timeframe: 'quick_win', effort: 'medium', confidence: 70, impactScore: 7, effortScore: 5 }
+    });
+    solutionId = solution.id;
+  });
+
+  afterEach(() => {
+    scripted.reset();
+  });
+
+  it('marks the debate and its open round failed when an agent call fails', async () => {
+    scripted.addRule({
+      match: request => request.metadata?.agent === 'opponent',
+      respond: () => { throw new Error('Opponent provider is down'); }
+    });
+    const events: AgentStreamEvent[] = [];
+    const context = await orchestrator.buildContext(sessionId);
+    context.onEvent = event => events.push(event);
+
+    await expect(debateEngine.startDebateSession(sessionId, solutionId, context)).rejects.toThrow('opponent agent');
+
+    const [debate] = await storage.getSessionDebateSessions(sessionId);
+    expect(debate.status).toBe('failed');
+    const rounds = await storage.getDebateRounds(debate.id);
+    expect(rounds.map(round => round.status)).toEqual(['failed']);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'debate_failed', debateSessionId: debate.id }));
+
+    // A failed debate no longer pauses or resumes
+    expect((await debateEngine.pauseDebate(debate.id))?.status).toBe('failed');
+    expect((await debateEngine.resumeDebate(debate.id))?.record.status).toBe('failed');
+  });
+
+  it('persists every round with its summary, digest, consensus and winner', async () => {
+    const context = await orchestrator.buildContext(sessionId);
+    const debate = await debateEngine.startDebateSession(sessionId, solutionId, context, 2);
+
+    const rounds = await storage.getDebateRounds(debate.id!);
+    expect(rounds.map(round => [round.roundNumber, round.status])).toEqual([[1, 'completed'], [2, 'completed']]);
+    for (const round of rounds) {
+      expect(round).toMatchObject({ summary: expect.any(String), digest: expect.any(String), consensusLevel: expect.any(String) });
+      expect(round.winner).toMatch(/^(proponent|opponent|draw)$/);
+      expect(round.completedAt).toBeInstanceOf(Date);
+    }
+    expect(await storage.getDebateSession(debate.id!)).toMatchObject({
+      status: 'completed', overallConsensus: debate.overallConsensus, winningPosition: debate.winningPosition
+    });
+  });
+
+  it('stops a paused debate at its next checkpoint and carries it on from there once resumed', async () => {
+    let debateId = '';
+    const createDebateSession = storage.createDebateSession;
+    vi.spyOn(storage, 'createDebateSession').mockImplementationOnce(async debate => {
+      const record = await createDebateSession(debate);
+      debateId = record.id;
+      return record;
+    });
+    // The facilitator pauses while the proponent's first turn is being written
+    let pausing = true;
+    scripted.addRule({
+      match: request => pausing && request.metadata?.agent === 'proponent',
+      respond: () => {
+        pausing = false;
+        void storage.updateDebateSession(debateId, { status: 'paused' });
+        return 'Release trains make dates predictable.';
+      }
+    });
+
+    const paused = await debateEngine.startDebateSession(sessionId, solutionId, await orchestrator.buildContext(sessionId), 2);
+    expect(paused.status).toBe('paused');
+    expect(await storage.getDebateRounds(debateId)).toMatchObject([{ roundNumber: 1, status: 'paused' }]);
+    expect(scripted.calls.some(call => call.metadata?.agent === 'opponent')).toBe(false);
+
+    expect(await debateEngine.resumeDebate(debateId)).toMatchObject({ record: { status: 'active' }, stopped: true });
+    const finished = await debateEngine.continueDebateSession(debateId, await orchestrator.buildContext(sessionId));
+
+    expect(finished.status).toBe('completed');
+    expect(finished.rounds[0].arguments[0].content).toBe('Release trains make dates predictable.');
+    const points = (await storage.getSessionDebatePoints(sessionId)).filter(point => point.debateSessionId === debateId);
+    expect(points.map(point => [point.round, point.agent])).toEqual([[1, 'proponent'], [1, 'opponent'], [2, 'proponent'], [2, 'opponent']]);
+    expect((await storage.getDebateRounds(debateId)).map(round => round.status)).toEqual(['completed', 'completed']);
+  });
+
+  it('leaves a run that has not reached its checkpoint to keep going when resumed', async () => {
+    const record = await storage.createDebateSession({ sessionId, solutionId, status: 'active', totalRounds: 1 });
+    await debateEngine.pauseDebate(record.id);
+    expect(await debateEngine.resumeDebate(record.id)).toMatchObject({ record: { status: 'active' }, stopped: false });
+  });
+
+  it('queues participant points for the next round once the opponent has spoken', async () => {
+    const record = await storage.createDebateSession({ sessionId, solutionId, status: 'active', totalRounds: 2 });
+    const argument = { side: 'proponent' as const, title: 'Point', content: 'Fixed dates help planning' };
+    const round = await storage.createDebateRound({ debateSessionId: record.id, roundNumber: 1, status: 'active' });
+
+    expect((await debateEngine.submitParticipantArgument(record, 'user', argument))?.round).toBe(1);
+
+    await storage.createDebatePoint({
+      sessionId, solutionId, debateSessionId: record.id, agent: 'opponent', pointNumber: 1, round: 1, title: 'Opponent', content: 'Dates slip anyway'
+    });
+    expect((await debateEngine.submitParticipantArgument(record, 'user', argument))?.round).toBe(2);
+
+    await storage.updateDebateRound(round.id, { status: 'completed' });
+    await storage.createDebateRound({ debateSessionId: record.id, roundNumber: 2, status: 'completed' });
+    expect(await debateEngine.submitParticipantArgument(record, 'user', argument)).toBeUndefined();
+  });
+
+  it('includes participant points in the round summary prompt', async () => {
+    // Add a participant's point to round 1 as soon as the debate record exists
+    const createDebateSession = storage.createDebateSession;
+    vi.spyOn(storage, 'createDebateSession').mockImplementationOnce(async debate => {
+      const record = await createDebateSession(debate);
+      await storage.createDebatePoint({
+        sessionId, solutionId, debateSessionId: record.id, agent: 'opponent', authorId: 'user',
+        pointNumber: 1, round: 1, title: 'Cost', content: 'Trains need a release manager'
+      });
+      return record;
+    });
+
+    const context = await orchestrator.buildContext(sessionId);
+    await debateEngine.startDebateSession(sessionId, solutionId, context, 1);
+
+    const summaryPrompt = scripted.calls
+      .map(call => call.messages[call.messages.length - 1].content)
+      .find(content => content.startsWith('Summarize this debate round'));
+    expect(summaryPrompt).toContain('PARTICIPANT POINTS:\n- Against: Trains need a release manager');
+  });
+});
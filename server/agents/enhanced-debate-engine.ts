@@ -4,42 +4,14 @@ import { OpponentAgent } from './opponent-agent';
 import { ModeratorAgent } from './moderator-agent';
 import { AnalystAgent } from './analyst-agent';
 import { AgentMessage, AgentContext } from './base-agent';
+import type { ArgumentEdge, ArgumentGraph, DebateArgument, DebateRound, DebateSession, FacilitatorInstruction, ConsensusLevel, DebatePosition, DebateOutcome, DebateStatus } from '@shared/debate';
+import { ClaimChecker } from '../services/claim-checker';
+import type { Claim, DebatePoint, DebateSessionRecord, DebateRoundRecord, DebateInstruction, Evidence, ParticipantArgument } from '@shared/schema';
 
-export interface DebateArgument {
-  id: string;
-  agentRole: 'proponent' | 'opponent';
-  roundNumber: number;
-  content: string;
-  evidenceIds: string[];
-  strengthScore: number;
-  votes: {
-    up: number;
-    down: number;
-    participants: string[];
-  };
-  rebuttalTo?: string;
-  timestamp: Date;
-}
-
-export interface DebateRound {
-  roundNumber: number;
-  solutionId: string;
-  arguments: DebateArgument[];
-  roundSummary?: string;
-  consensusLevel: 'low' | 'moderate' | 'high';
-  completed: boolean;
-}
+export type { DebateArgument, DebateRound, DebateSession } from '@shared/debate';
 
-export interface DebateSession {
-  sessionId: string;
-  solutionId: string;
-  rounds: DebateRound[];
-  overallConsensus: 'low' | 'moderate' | 'high';
-  winningPosition?: 'proponent' | 'opponent' | 'draw';
-  totalVotes: number;
-  participantCount: number;
-  status: 'active' | 'completed' | 'paused';
-}
+// Thrown at a checkpoint to stop the run of a debate the facilitator has paused
+class DebatePausedError extends Error {}
 
 export interface VoteResult {
   argumentId: string;
@@ -56,205 +28,338 @@ export class EnhancedDebateEngine {
   private opponent: OpponentAgent;
   private moderator: ModeratorAgent;
   private analyst: AnalystAgent;
+  private claimChecker: ClaimChecker;
 
   constructor() {
     this.proponent = new ProponentAgent();
     this.opponent = new OpponentAgent();
     this.moderator = new ModeratorAgent();
     this.analyst = new AnalystAgent();
+    this.claimChecker = new ClaimChecker(this.analyst);
   }
 
   async startDebateSession(
     sessionId: string, 
     solutionId: string, 
     context: AgentContext,
-    rounds: number = 3
+    requestedRounds?: number
   ): Promise<DebateSession> {
+    // An explicit round count wins over the session's configured debateRounds
+    const rounds = requestedRounds ?? context.config?.debateRounds ?? 3;
+    const solution = await storage.getSolution(solutionId);
+    const record = await storage.createDebateSession({
+      sessionId,
+      solutionId,
+      solutionVersion: solution?.version,
+      status: 'active',
+      totalRounds: rounds
+    });
+
+    return await this.runDebate(record, context, false);
+  }
+
+  /**
+   * Carry on a debate whose run stopped at a pause checkpoint. Finished rounds and
+   * turns already saved are kept, so it continues with the next turn.
+   */
+  async continueDebateSession(debateSessionId: string, context: AgentContext): Promise<DebateSession> {
+    const record = await storage.getDebateSession(debateSessionId);
+    if (!record) {
+      throw new Error('Debate not found');
+    }
+    if (record.status === 'completed' || record.status === 'failed') {
+      throw new Error(`Debate is already ${record.status}`);
+    }
+
+    console.log(`▶️ Debate ${record.id} resumed`);
+    return await this.runDebate(record, context, true);
+  }
+
+  // Runs the debate's remaining rounds; returns it still paused when the facilitator pauses it
+  private async runDebate(record: DebateSessionRecord, context: AgentContext, resumed: boolean): Promise<DebateSession> {
+    const { sessionId, solutionId, totalRounds: rounds } = record;
     const debateSession: DebateSession = {
+      id: record.id,
       sessionId,
       solutionId,
+      solutionVersion: record.solutionVersion ?? undefined,
       rounds: [],
+      totalRounds: rounds,
       overallConsensus: 'low',
+      instructions: [],
       totalVotes: 0,
       participantCount: 0,
       status: 'active'
     };
 
-    // Start with moderator introduction
-    const intro = await this.moderator.processMessage(
-      `Begin a ${rounds}-round structured debate on this solution. Set clear ground rules for constructive argumentation.`,
-      context
-    );
-
-    console.log(`🎯 Debate started for solution ${solutionId} with ${rounds} rounds`);
-
-    for (let roundNum = 1; roundNum <= rounds; roundNum++) {
-      const round = await this.conductDebateRound(
-        roundNum, 
-        solutionId, 
-        context, 
+    // Points saved before a pause are already in the context's history
+    const savedPoints = (await storage.getSessionDebatePoints(sessionId)).filter(p => p.debateSessionId === record.id);
+    const savedPointIds = new Set(savedPoints.map(p => p.id));
+    if (resumed) {
+      const saved = await this.buildDebateSession(
         sessionId,
-        debateSession.rounds
+        solutionId,
+        record,
+        await storage.getDebateRounds(record.id),
+        savedPoints,
+        await storage.getSessionEvidence(sessionId),
+        await storage.getSessionDebateInstructions(sessionId)
       );
+      debateSession.rounds = saved.rounds.filter(round => round.completed);
+      debateSession.instructions = saved.instructions;
+    }
+
+    // Relayed facilitator instructions, finished rounds and their digests accumulate here and reach every later agent call
+    const debateContext: AgentContext = {
+      ...context,
+      facilitatorInstructions: [...(context.facilitatorInstructions || [])],
+      debateHistory: [...(context.debateHistory || [])],
+      debateDigests: [...(context.debateDigests || [])]
+    };
+
+    try {
+      if (!resumed) {
+        // Start with moderator introduction
+        await this.moderator.processMessage(
+          `Begin a ${rounds}-round structured debate on this solution. Set clear ground rules for constructive argumentation.`,
+          debateContext
+        );
+        console.log(`🎯 Debate started for solution ${solutionId} with ${rounds} rounds`);
+      }
+
+      for (let roundNum = debateSession.rounds.length + 1; roundNum <= rounds; roundNum++) {
+        await this.stopIfPaused(record.id);
+        const relayed = await this.relayInstructions(record.id, roundNum, debateContext);
+        debateSession.instructions.push(...relayed.map(item => this.toFacilitatorInstruction(item)));
+
+        const round = await this.conductDebateRound(
+          roundNum, 
+          solutionId, 
+          debateContext, 
+          sessionId,
+          debateSession.rounds,
+          record.id
+        );
       
-      debateSession.rounds.push(round);
+        debateSession.rounds.push(round);
+        debateContext.debateHistory!.push(...round.arguments.filter(arg => !savedPointIds.has(arg.id)).map(arg => ({
+          role: 'assistant' as const,
+          content: arg.content,
+          agentId: arg.agentRole,
+          timestamp: arg.timestamp,
+          debateSessionId: record.id,
+          round: roundNum
+        })));
+        if (round.digest) {
+          debateContext.debateDigests!.push({ debateSessionId: record.id, throughRound: roundNum, content: round.digest });
+        }
+        context.onProgress?.(Math.round(90 * roundNum / rounds), `Completed round ${roundNum} of ${rounds}`);
       
-      // Moderate after each round
-      if (roundNum < rounds) {
-        const moderation = await this.moderator.processMessage(
-          `Moderate this debate round. Identify key points of agreement and disagreement. Guide toward the next round.`,
-          context
-        );
-        console.log(`🎭 Round ${roundNum} moderated:`, moderation.content.substring(0, 100) + '...');
+        // Moderate after each round
+        if (roundNum < rounds) {
+          const moderation = await this.moderator.processMessage(
+            `Moderate this debate round. Identify key points of agreement and disagreement. Guide toward the next round.`,
+            debateContext
+          );
+          console.log(`🎭 Round ${roundNum} moderated:`, moderation.content.substring(0, 100) + '...');
+        }
       }
-    }
 
-    // Final analysis and consensus evaluation
-    debateSession.overallConsensus = await this.evaluateConsensus(debateSession);
-    debateSession.winningPosition = await this.determineWinner(debateSession);
-    debateSession.status = 'completed';
+      // Final analysis and consensus evaluation
+      debateSession.overallConsensus = await this.evaluateConsensus(debateSession);
+      debateSession.winningPosition = await this.determineWinner(debateSession);
+      debateSession.status = 'completed';
 
-    console.log(`✅ Debate completed. Consensus: ${debateSession.overallConsensus}, Winner: ${debateSession.winningPosition}`);
+      await storage.updateDebateSession(record.id, {
+        status: debateSession.status,
+        overallConsensus: debateSession.overallConsensus,
+        winningPosition: debateSession.winningPosition,
+        completedAt: new Date()
+      });
+
+      console.log(`✅ Debate completed. Consensus: ${debateSession.overallConsensus}, Winner: ${debateSession.winningPosition}`);
+    } catch (error) {
+      if (error instanceof DebatePausedError) {
+        debateSession.status = 'paused';
+        return debateSession;
+      }
+      await this.failDebate(record.id, error, context);
+      throw error;
+    }
 
     return debateSession;
   }
 
+  // Moves a debate that errored, and its unfinished round, to the terminal failed state
+  private async failDebate(debateSessionId: string, error: unknown, context: AgentContext): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Debate ${debateSessionId} failed:`, message);
+    try {
+      const rounds = await storage.getDebateRounds(debateSessionId);
+      for (const round of rounds.filter(r => r.status !== 'completed')) {
+        await storage.updateDebateRound(round.id, { status: 'failed', completedAt: new Date() });
+      }
+      await storage.updateDebateSession(debateSessionId, { status: 'failed', completedAt: new Date() });
+    } catch (updateError) {
+      console.error(`Failed to record the failure of debate ${debateSessionId}:`, updateError);
+    }
+    context.onEvent?.({ type: 'debate_failed', debateSessionId, error: message });
+  }
+
   private async conductDebateRound(
     roundNumber: number,
     solutionId: string,
     context: AgentContext,
     sessionId: string,
-    previousRounds: DebateRound[]
+    previousRounds: DebateRound[],
+    debateSessionId: string
   ): Promise<DebateRound> {
+    // A round the debate was paused in is picked up where its run stopped
+    const pausedRound = (await storage.getDebateRounds(debateSessionId)).find(r => r.roundNumber === roundNumber);
+    const roundRecord = pausedRound
+      ? (await storage.updateDebateRound(pausedRound.id, { status: 'active' })) ?? pausedRound
+      : await storage.createDebateRound({ debateSessionId, roundNumber, status: 'active' });
+    const savedTurns = (await storage.getSessionDebatePoints(sessionId))
+      .filter(p => p.debateSessionId === debateSessionId && p.round === roundNumber && !p.authorId);
+
     const round: DebateRound = {
+      id: roundRecord.id,
       roundNumber,
       solutionId,
       arguments: [],
       consensusLevel: 'low',
+      status: 'active',
       completed: false
     };
 
-    // Build context from previous rounds
-    const debateHistory = previousRounds.flatMap(r => 
-      r.arguments.map(arg => ({
-        role: 'assistant' as const,
-        content: arg.content,
-        agentId: arg.agentRole,
-        timestamp: arg.timestamp
-      }))
-    );
-
-    const enhancedContext = {
-      ...context,
-      debateHistory: [...(context.debateHistory || []), ...debateHistory]
-    };
-
     console.log(`🥊 Starting debate round ${roundNumber}`);
 
     // Get current solution description
     const solution = context.solutions?.find(s => s.id === solutionId);
     const solutionDescription = solution ? `${solution.title}: ${solution.description}` : 'Unknown solution';
 
-    // Proponent presents argument
-    let proponentArgument: AgentMessage;
-    if (roundNumber === 1) {
-      proponentArgument = await this.proponent.advocateForSolution(solutionDescription, enhancedContext);
-    } else {
-      // Build on previous arguments
-      const lastOpponentPoint = this.getLastArgumentByRole(previousRounds, 'opponent');
-      proponentArgument = lastOpponentPoint 
-        ? await this.proponent.rebutOpponentPoint(lastOpponentPoint.content, solutionDescription, enhancedContext)
-        : await this.proponent.advocateForSolution(solutionDescription, enhancedContext);
-    }
-
-    const proponentDbPoint = await this.saveDebatePoint(
-      sessionId, 
-      solutionId, 
-      'proponent', 
-      roundNumber, 
-      proponentArgument.content
-    );
+    // Proponent presents argument, answering a participant's opposing point first if one is waiting
+    let proponentDbPoint = savedTurns.find(p => p.agent === 'proponent');
+    if (!proponentDbPoint) {
+      const humanOpponentPoint = await this.nextUnansweredParticipantPoint(sessionId, debateSessionId, 'opponent');
+      let proponentArgument: AgentMessage;
+      if (humanOpponentPoint) {
+        proponentArgument = await this.proponent.rebutOpponentPoint(humanOpponentPoint.content, solutionDescription, context);
+      } else if (roundNumber === 1) {
+        proponentArgument = await this.proponent.advocateForSolution(solutionDescription, context);
+      } else {
+        // Build on previous arguments
+        const lastOpponentPoint = this.getLastArgumentByRole(previousRounds, 'opponent');
+        proponentArgument = lastOpponentPoint 
+          ? await this.proponent.rebutOpponentPoint(lastOpponentPoint.content, solutionDescription, context)
+          : await this.proponent.advocateForSolution(solutionDescription, context);
+      }
+
+      proponentDbPoint = await this.saveDebatePoint(
+        sessionId, 
+        solutionId, 
+        'proponent', 
+        roundNumber, 
+        proponentArgument,
+        debateSessionId,
+        humanOpponentPoint?.id
+      );
+      await this.stopIfPaused(debateSessionId, roundRecord.id);
+    }
 
     round.arguments.push({
       id: proponentDbPoint.id,
       agentRole: 'proponent',
       roundNumber,
-      content: proponentArgument.content,
+      content: proponentDbPoint.content,
       evidenceIds: [],
       strengthScore: 5.0, // Initial neutral score
       votes: { up: 0, down: 0, participants: [] },
-      timestamp: new Date()
+      rebuttalTo: proponentDbPoint.rebuttalTo ?? undefined,
+      timestamp: proponentDbPoint.createdAt
     });
 
-    // Opponent responds
-    let opponentArgument: AgentMessage;
-    if (roundNumber === 1) {
-      opponentArgument = await this.opponent.challengeSolution(solutionDescription, enhancedContext);
-    } else {
-      opponentArgument = await this.opponent.rebutProponentPoint(
-        proponentArgument.content, 
-        solutionDescription, 
-        enhancedContext
+    // Opponent responds, to a participant's supporting point if one is waiting
+    let opponentDbPoint = savedTurns.find(p => p.agent === 'opponent');
+    if (!opponentDbPoint) {
+      const humanProponentPoint = await this.nextUnansweredParticipantPoint(sessionId, debateSessionId, 'proponent');
+      let opponentArgument: AgentMessage;
+      if (humanProponentPoint) {
+        opponentArgument = await this.opponent.rebutProponentPoint(humanProponentPoint.content, solutionDescription, context);
+      } else if (roundNumber === 1) {
+        opponentArgument = await this.opponent.challengeSolution(solutionDescription, context);
+      } else {
+        opponentArgument = await this.opponent.rebutProponentPoint(
+          proponentDbPoint.content, 
+          solutionDescription, 
+          context
+        );
+      }
+
+      opponentDbPoint = await this.saveDebatePoint(
+        sessionId, 
+        solutionId, 
+        'opponent', 
+        roundNumber, 
+        opponentArgument,
+        debateSessionId,
+        humanProponentPoint?.id || proponentDbPoint.id
       );
+      await this.stopIfPaused(debateSessionId, roundRecord.id);
     }
 
-    const opponentDbPoint = await this.saveDebatePoint(
-      sessionId, 
-      solutionId, 
-      'opponent', 
-      roundNumber, 
-      opponentArgument.content,
-      proponentDbPoint.id
-    );
-
     round.arguments.push({
       id: opponentDbPoint.id,
       agentRole: 'opponent',
       roundNumber,
-      content: opponentArgument.content,
+      content: opponentDbPoint.content,
       evidenceIds: [],
       strengthScore: 5.0, // Initial neutral score
       votes: { up: 0, down: 0, participants: [] },
-      rebuttalTo: proponentDbPoint.id,
-      timestamp: new Date()
+      rebuttalTo: opponentDbPoint.rebuttalTo ?? undefined,
+      timestamp: opponentDbPoint.createdAt
     });
 
-    // Gather evidence for key claims made in this round
-    const evidenceRequests = this.extractClaimsForEvidence(round.arguments);
-    for (const claim of evidenceRequests.slice(0, 2)) { // Limit to 2 per round
-      try {
-        const evidence = await this.analyst.factCheckClaim(claim, enhancedContext);
-        const savedEvidence = await storage.createEvidence({
-          sessionId,
-          pointId: this.findArgumentIdForClaim(round.arguments, claim),
-          claim,
-          snippet: evidence.content.substring(0, 500),
-          source: { type: 'ai_analysis', url: '', title: 'AI Fact Check' },
-          confidence: 75,
-          relevanceScore: 80,
-          gatheredBy: 'analyst_agent'
-        });
+    // Participant points made during this round are scored and fact-checked with the agents' points
+    const participantPoints = await this.getParticipantPoints(sessionId, debateSessionId, roundNumber);
+    for (const point of participantPoints) {
+      round.arguments.push(this.toDebateArgument(point, []));
+    }
 
-        // Attach evidence to relevant argument
-        const relevantArg = round.arguments.find(arg => 
-          arg.content.toLowerCase().includes(claim.toLowerCase().substring(0, 30))
-        );
-        if (relevantArg) {
-          relevantArg.evidenceIds.push(savedEvidence.id);
-        }
+    // Break this round's points into claims, then fact-check the first checkable ones
+    const roundPoints = [proponentDbPoint, opponentDbPoint, ...participantPoints];
+    const roundClaims: Claim[] = [];
+    for (const point of roundPoints) {
+      roundClaims.push(...await this.claimChecker.decomposePoint(point, context));
+    }
+
+    const evidencePerRound = context.config?.researchMode === 'deep' ? 3 : 2;
+    for (const claim of this.claimChecker.selectUnchecked(roundClaims, evidencePerRound)) {
+      try {
+        await this.claimChecker.verifyClaim(claim, context);
       } catch (error) {
-        console.error('Failed to gather evidence for claim:', claim, error);
+        console.error('Failed to gather evidence for claim:', claim.text, error);
       }
     }
 
+    // Evidence attached to claims counts towards their point's strength
+    const roundEvidence = (await storage.getSessionEvidence(sessionId)).filter(e => e.claimId && roundClaims.some(c => c.id === e.claimId));
+    for (const arg of round.arguments) {
+      arg.evidenceIds = roundEvidence.filter(e => e.pointId === arg.id).map(e => e.id);
+    }
+
     // Generate round summary using moderator agent
+    const participantSummary = participantPoints.length
+      ? `PARTICIPANT POINTS:\n${participantPoints.map(p => `- ${p.agent === 'proponent' ? 'For' : 'Against'}: ${p.content}`).join('\n')}\n\n`
+      : '';
     const roundSummaryPrompt = `Summarize this debate round between proponent and opponent:\n\n` +
-      `PROPONENT ARGUMENT: ${round.arguments.find(arg => arg.agentRole === 'proponent')?.content || 'None'}\n\n` +
-      `OPPONENT ARGUMENT: ${round.arguments.find(arg => arg.agentRole === 'opponent')?.content || 'None'}\n\n` +
+      `PROPONENT ARGUMENT: ${proponentDbPoint.content}\n\n` +
+      `OPPONENT ARGUMENT: ${opponentDbPoint.content}\n\n` +
+      participantSummary +
       `Provide a balanced summary of the key points, evidence quality, and areas of agreement/disagreement. Keep it concise but comprehensive.`;
     
     try {
-      const summaryResponse = await this.moderator.processMessage(roundSummaryPrompt, enhancedContext);
+      const summaryResponse = await this.moderator.processMessage(roundSummaryPrompt, context);
       round.roundSummary = summaryResponse.content;
       console.log(`📝 Round ${roundNumber} summary generated: ${round.roundSummary.substring(0, 100)}...`);
     } catch (error) {
@@ -262,15 +367,121 @@ export class EnhancedDebateEngine {
       round.roundSummary = `Round ${roundNumber}: Debate between proponent and opponent with ${round.arguments.length} arguments. Consensus level: ${round.consensusLevel}.`;
     }
 
+    // Fold the round into the running digest that later prompts use in place of its arguments
+    const previousDigest = previousRounds[previousRounds.length - 1]?.digest;
+    if (!previousDigest) {
+      round.digest = round.roundSummary;
+    } else {
+      try {
+        round.digest = (await this.moderator.digestRound(previousDigest, roundNumber, round.roundSummary, context)).content;
+      } catch (error) {
+        console.error(`Failed to update the debate digest after round ${roundNumber}:`, error);
+        round.digest = `${previousDigest}\n\n${round.roundSummary}`;
+      }
+    }
+
     // Evaluate round consensus
     round.consensusLevel = await this.evaluateRoundConsensus(round);
+    round.winner = this.determineRoundWinner(round);
+    round.status = 'completed';
     round.completed = true;
 
+    await storage.updateDebateRound(roundRecord.id, {
+      status: round.status,
+      summary: round.roundSummary,
+      digest: round.digest,
+      consensusLevel: round.consensusLevel,
+      winner: round.winner,
+      completedAt: new Date()
+    });
+
     console.log(`✅ Round ${roundNumber} completed with ${round.arguments.length} arguments and consensus: ${round.consensusLevel}`);
 
     return round;
   }
 
+  /**
+   * Ask a running debate to pause. The turn in progress finishes first; the
+   * run then stops at its next checkpoint, leaving the debate to be resumed.
+   */
+  async pauseDebate(debateSessionId: string): Promise<DebateSessionRecord | undefined> {
+    const record = await storage.getDebateSession(debateSessionId);
+    if (!record || record.status !== 'active') {
+      return record;
+    }
+    return await storage.updateDebateSession(debateSessionId, { status: 'paused' });
+  }
+
+  /**
+   * Reactivate a paused debate. When its run has already stopped, stopped is true
+   * and the caller has to carry it on with continueDebateSession; a run still on
+   * its way to the checkpoint simply keeps going.
+   */
+  async resumeDebate(debateSessionId: string): Promise<{ record: DebateSessionRecord; stopped: boolean } | undefined> {
+    return await storage.resumeDebateSession(debateSessionId);
+  }
+
+  /**
+   * Queue a facilitator instruction; the Moderator relays it to both sides before the next round
+   */
+  async injectInstruction(record: DebateSessionRecord, instruction: string, userId?: string): Promise<DebateInstruction> {
+    const saved = await storage.createDebateInstruction({
+      debateSessionId: record.id,
+      sessionId: record.sessionId,
+      instruction,
+      createdBy: userId ?? null
+    });
+    console.log(`📣 Facilitator instruction queued for debate ${record.id}: ${instruction}`);
+    return saved;
+  }
+
+  // Checkpoint between turns: stops the run once the debate is paused
+  private async stopIfPaused(debateSessionId: string, roundId?: string): Promise<void> {
+    if (!await storage.stopPausedDebateSession(debateSessionId)) {
+      return;
+    }
+
+    if (roundId) {
+      await storage.updateDebateRound(roundId, { status: 'paused' });
+    }
+    console.log(`⏸️ Debate ${debateSessionId} paused by facilitator`);
+    throw new DebatePausedError(`Debate ${debateSessionId} paused`);
+  }
+
+  // Moderator relays pending facilitator instructions and records them in the debate history
+  private async relayInstructions(debateSessionId: string, roundNumber: number, context: AgentContext): Promise<DebateInstruction[]> {
+    const pending = await storage.getPendingDebateInstructions(debateSessionId);
+    const relayed: DebateInstruction[] = [];
+
+    for (const item of pending) {
+      const relay = await this.moderator.processMessage(
+        `The facilitator has given this instruction: "${item.instruction}". Relay it to both the proponent and the opponent before round ${roundNumber}, stating briefly how each side should address it.`,
+        context
+      );
+
+      context.facilitatorInstructions!.push(item.instruction);
+      context.debateHistory!.push(
+        { role: 'user', content: `Facilitator instruction: ${item.instruction}`, agentId: 'facilitator', timestamp: item.createdAt },
+        { ...relay, agentId: 'moderator' }
+      );
+
+      const updated = await storage.markDebateInstructionRelayed(item.id, roundNumber, relay.content);
+      relayed.push(updated || item);
+      console.log(`📣 Round ${roundNumber}: relayed facilitator instruction "${item.instruction}"`);
+    }
+
+    return relayed;
+  }
+
+  private toFacilitatorInstruction(item: DebateInstruction): FacilitatorInstruction {
+    return {
+      id: item.id,
+      instruction: item.instruction,
+      relayedInRound: item.relayedInRound ?? undefined,
+      relay: item.relay ?? undefined
+    };
+  }
+
   async voteOnArgument(
     argumentId: string, 
     voteType: 'up' | 'down', 
@@ -369,21 +580,84 @@ export class EnhancedDebateEngine {
     solutionId: string,
     agent: 'proponent' | 'opponent',
     roundNumber: number,
-    content: string,
+    message: AgentMessage,
+    debateSessionId: string,
     rebuttalTo?: string
   ) {
     return await storage.createDebatePoint({
       sessionId,
       solutionId,
+      debateSessionId,
       agent,
       pointNumber: roundNumber,
       round: roundNumber,
       title: `${agent} argument round ${roundNumber}`,
-      content,
-      rebuttalTo: rebuttalTo || null
+      content: message.content,
+      rebuttalTo: rebuttalTo || null,
+      provider: message.provider,
+      model: message.model
     });
   }
 
+  /**
+   * Add a participant's argument or rebuttal to a debate and the agents answer it on
+   * their next turn. It joins the round in progress until that round's opponent has
+   * spoken, when the round's participant points are collected; later points wait for
+   * the next round. Returns undefined once no round is left to take the point.
+   */
+  async submitParticipantArgument(
+    record: DebateSessionRecord,
+    userId: string,
+    argument: ParticipantArgument
+  ): Promise<DebatePoint | undefined> {
+    const rounds = await storage.getDebateRounds(record.id);
+    const current = rounds[rounds.length - 1];
+    let roundNumber = 1;
+    if (current) {
+      const collected = current.status === 'completed' || (await storage.getSessionDebatePoints(record.sessionId))
+        .some(p => p.debateSessionId === record.id && p.round === current.roundNumber && p.agent === 'opponent' && !p.authorId);
+      roundNumber = collected ? current.roundNumber + 1 : current.roundNumber;
+    }
+    if (roundNumber > record.totalRounds) {
+      return undefined;
+    }
+
+    const point = await storage.createDebatePoint({
+      sessionId: record.sessionId,
+      solutionId: record.solutionId,
+      debateSessionId: record.id,
+      agent: argument.side,
+      authorId: userId,
+      pointNumber: roundNumber,
+      round: roundNumber,
+      title: argument.title,
+      content: argument.content,
+      rebuttalTo: argument.rebuttalTo || null
+    });
+
+    console.log(`🙋 Participant ${userId} added a ${argument.side} point to round ${roundNumber} of debate ${record.id}`);
+    return point;
+  }
+
+  // Oldest participant point on one side that no later point has rebutted yet
+  private async nextUnansweredParticipantPoint(
+    sessionId: string,
+    debateSessionId: string,
+    side: DebatePosition
+  ): Promise<DebatePoint | undefined> {
+    const points = (await storage.getSessionDebatePoints(sessionId)).filter(p => p.debateSessionId === debateSessionId);
+    const answered = new Set(points.map(p => p.rebuttalTo).filter(Boolean));
+
+    return points
+      .filter(p => p.authorId && p.agent === side && !answered.has(p.id))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+  }
+
+  private async getParticipantPoints(sessionId: string, debateSessionId: string, roundNumber: number): Promise<DebatePoint[]> {
+    const points = await storage.getSessionDebatePoints(sessionId);
+    return points.filter(p => p.debateSessionId === debateSessionId && p.authorId && p.round === roundNumber);
+  }
+
   private getLastArgumentByRole(rounds: DebateRound[], role: 'proponent' | 'opponent'): DebateArgument | null {
     for (let i = rounds.length - 1; i >= 0; i--) {
       // Create a copy and reverse it to avoid mutating the original array
@@ -394,34 +668,6 @@ export class EnhancedDebateEngine {
     return null;
   }
 
-  private extractClaimsForEvidence(debateArgs: DebateArgument[]): string[] {
-    const claims: string[] = [];
-    
-    for (const arg of debateArgs) {
-      // Extract sentences that sound like factual claims
-      const sentences = arg.content.split(/[.!?]+/);
-      for (const sentence of sentences) {
-        if (sentence.length > 30 && 
-            (sentence.includes('studies show') || 
-             sentence.includes('research indicates') ||
-             sentence.includes('data suggests') ||
-             sentence.includes('proven') ||
-             sentence.includes('evidence'))) {
-          claims.push(sentence.trim());
-        }
-      }
-    }
-    
-    return claims.slice(0, 3); // Limit claims per round
-  }
-
-  private findArgumentIdForClaim(debateArgs: DebateArgument[], claim: string): string | null {
-    const relevantArg = debateArgs.find(arg => 
-      arg.content.toLowerCase().includes(claim.toLowerCase().substring(0, 30))
-    );
-    return relevantArg?.id || null;
-  }
-
   private async evaluateRoundConsensus(round: DebateRound): Promise<'low' | 'moderate' | 'high'> {
     const totalVotes = round.arguments.reduce((sum, arg) => sum + arg.votes.up + arg.votes.down, 0);
     const avgScore = round.arguments.reduce((sum, arg) => sum + arg.strengthScore, 0) / round.arguments.length;
@@ -441,21 +687,28 @@ export class EnhancedDebateEngine {
   }
 
   private async determineWinner(session: DebateSession): Promise<'proponent' | 'opponent' | 'draw'> {
+    return this.scoreArguments(session.rounds.flatMap(r => r.arguments), 5);
+  }
+
+  private determineRoundWinner(round: DebateRound): DebateOutcome {
+    return this.scoreArguments(round.arguments, 2);
+  }
+
+  // Strength plus net votes per side; a gap below drawMargin is a draw
+  private scoreArguments(debateArguments: DebateArgument[], drawMargin: number): DebateOutcome {
     let proponentScore = 0;
     let opponentScore = 0;
 
-    for (const round of session.rounds) {
-      for (const arg of round.arguments) {
-        if (arg.agentRole === 'proponent') {
-          proponentScore += arg.strengthScore + arg.votes.up - arg.votes.down;
-        } else {
-          opponentScore += arg.strengthScore + arg.votes.up - arg.votes.down;
-        }
+    for (const arg of debateArguments) {
+      if (arg.agentRole === 'proponent') {
+        proponentScore += arg.strengthScore + arg.votes.up - arg.votes.down;
+      } else {
+        opponentScore += arg.strengthScore + arg.votes.up - arg.votes.down;
       }
     }
 
     const difference = Math.abs(proponentScore - opponentScore);
-    if (difference < 5) return 'draw';
+    if (difference < drawMargin) return 'draw';
     
     return proponentScore > opponentScore ? 'proponent' : 'opponent';
   }
@@ -495,29 +748,140 @@ export class EnhancedDebateEngine {
     return null;
   }
 
-  async getDebateSession(sessionId: string): Promise<DebateSession | null> {
+  /**
+   * Latest debate for every debated solution in a session
+   */
+  async getDebateSessions(sessionId: string): Promise<DebateSession[]> {
+    const records = await storage.getSessionDebateSessions(sessionId);
+    const debatePoints = await storage.getSessionDebatePoints(sessionId);
+    const evidence = await storage.getSessionEvidence(sessionId);
+    const instructions = await storage.getSessionDebateInstructions(sessionId);
+
+    // Records come newest first, so the first one seen per solution is the latest
+    const latest = new Map<string, DebateSessionRecord>();
+    for (const record of records) {
+      if (!latest.has(record.solutionId)) {
+        latest.set(record.solutionId, record);
+      }
+    }
+
+    const debates: DebateSession[] = [];
+    for (const record of Array.from(latest.values()).reverse()) {
+      const rounds = await storage.getDebateRounds(record.id);
+      debates.push(await this.buildDebateSession(sessionId, record.solutionId, record, rounds, debatePoints, evidence, instructions));
+    }
+    return debates;
+  }
+
+  /**
+   * Latest debate for a solution, or the session's most recent debate when no solution is given.
+   * Sessions debated before debate_sessions existed are rebuilt from their debate points.
+   */
+  async getDebateSession(sessionId: string, solutionId?: string): Promise<DebateSession | null> {
     // This method allows external systems to get the current debate session
     // for passing to voteOnArgument and attachEvidence methods
     const session = await storage.getSession(sessionId);
     if (!session) return null;
 
-    const solutions = await storage.getSessionSolutions(sessionId);
+    const record = await storage.getLatestDebateSession(sessionId, solutionId);
     const debatePoints = await storage.getSessionDebatePoints(sessionId);
+    const targetSolutionId = record?.solutionId || solutionId || debatePoints[0]?.solutionId;
+    if (!targetSolutionId) return null;
+
+    const rounds = record ? await storage.getDebateRounds(record.id) : [];
     const evidence = await storage.getSessionEvidence(sessionId);
+    const instructions = await storage.getSessionDebateInstructions(sessionId);
+
+    return this.buildDebateSession(sessionId, targetSolutionId, record, rounds, debatePoints, evidence, instructions);
+  }
+
+  /**
+   * Reply graph for a solution's latest debate. Agent rebuttals saved without a
+   * link are attached to the opposing point with the same round number.
+   */
+  async getArgumentGraph(sessionId: string, solutionId: string): Promise<ArgumentGraph | null> {
+    const debate = await this.getDebateSession(sessionId, solutionId);
+    if (!debate || debate.rounds.length === 0) return null;
+
+    const debateArguments = debate.rounds.flatMap(r => r.arguments);
+    const byId = new Map(debateArguments.map(arg => [arg.id, arg]));
+    const edges: ArgumentEdge[] = [];
+
+    for (const arg of debateArguments) {
+      const target = arg.rebuttalTo
+        ? byId.get(arg.rebuttalTo)
+        : arg.agentRole === 'opponent' && !arg.authorId
+          ? debateArguments.find(a => a.agentRole === 'proponent' && !a.authorId && a.roundNumber === arg.roundNumber)
+          : undefined;
+
+      if (target) {
+        edges.push({ from: arg.id, to: target.id, type: target.agentRole === arg.agentRole ? 'support' : 'rebuttal' });
+      }
+    }
+
+    const rebutted = new Set(edges.filter(e => e.type === 'rebuttal').map(e => e.to));
 
-    // Reconstruct debate session from database
-    const rounds: DebateRound[] = [];
+    return {
+      sessionId,
+      solutionId,
+      debateSessionId: debate.id,
+      nodes: debateArguments.map(arg => ({
+        id: arg.id,
+        side: arg.agentRole,
+        roundNumber: arg.roundNumber,
+        title: arg.title || `${arg.agentRole} argument round ${arg.roundNumber}`,
+        strengthScore: arg.strengthScore,
+        upvotes: arg.votes.up,
+        downvotes: arg.votes.down,
+        evidenceCount: arg.evidenceIds.length,
+        authorId: arg.authorId,
+        unanswered: !rebutted.has(arg.id)
+      })),
+      edges
+    };
+  }
+
+  private async buildDebateSession(
+    sessionId: string,
+    solutionId: string,
+    record: DebateSessionRecord | undefined,
+    roundRecords: DebateRoundRecord[],
+    debatePoints: DebatePoint[],
+    evidence: Evidence[],
+    instructions: DebateInstruction[]
+  ): Promise<DebateSession> {
+    // Points belong to the debate run that saved them; legacy points have no run and are grouped by solution
+    const points = debatePoints.filter(point => record
+      ? point.debateSessionId === record.id
+      : point.solutionId === solutionId && !point.debateSessionId
+    );
     const roundsMap = new Map<number, DebateRound>();
 
+    for (const roundRecord of roundRecords) {
+      roundsMap.set(roundRecord.roundNumber, {
+        id: roundRecord.id,
+        roundNumber: roundRecord.roundNumber,
+        solutionId,
+        arguments: [],
+        roundSummary: roundRecord.summary || undefined,
+        digest: roundRecord.digest || undefined,
+        consensusLevel: (roundRecord.consensusLevel as ConsensusLevel | null) || 'low',
+        winner: (roundRecord.winner as DebateOutcome | null) || undefined,
+        status: roundRecord.status as DebateStatus,
+        completed: roundRecord.status === 'completed'
+      });
+    }
+
     // Group debate points by round
-    for (const point of debatePoints) {
+    for (const point of points) {
       const roundNum = point.round;
       if (!roundsMap.has(roundNum)) {
         roundsMap.set(roundNum, {
           roundNumber: roundNum,
-          solutionId: point.solutionId,
+          solutionId,
           arguments: [],
           consensusLevel: 'low',
+          status: 'completed',
           completed: true
         });
       }
@@ -525,46 +889,61 @@ export class EnhancedDebateEngine {
       const round = roundsMap.get(roundNum)!;
       const pointEvidence = evidence.filter(e => e.pointId === point.id);
       
-      round.arguments.push({
-        id: point.id,
-        agentRole: point.agent as 'proponent' | 'opponent',
-        roundNumber: roundNum,
-        content: point.content,
-        evidenceIds: pointEvidence.map(e => e.id),
-        strengthScore: this.calculateStrengthScore(point.upvotes, point.downvotes, pointEvidence.length),
-        votes: {
-          up: point.upvotes,
-          down: point.downvotes,
-          participants: [] // Could be populated from votes table if needed
-        },
-        rebuttalTo: point.rebuttalTo || undefined,
-        timestamp: point.createdAt
-      });
+      round.arguments.push(this.toDebateArgument(point, pointEvidence));
     }
 
     // Convert map to sorted array
     const sortedRounds = Array.from(roundsMap.values()).sort((a, b) => a.roundNumber - b.roundNumber);
     
-    // Evaluate consensus for each round
+    // Rounds without a debate_rounds row predate persisted outcomes, so score them from current votes
     for (const round of sortedRounds) {
-      round.consensusLevel = await this.evaluateRoundConsensus(round);
+      if (!round.id) {
+        round.consensusLevel = await this.evaluateRoundConsensus(round);
+        round.winner = this.determineRoundWinner(round);
+      }
     }
 
     const debateSession: DebateSession = {
+      id: record?.id,
       sessionId,
-      solutionId: solutions[0]?.id || '',
+      solutionId,
+      solutionVersion: record?.solutionVersion ?? undefined,
       rounds: sortedRounds,
-      overallConsensus: await this.evaluateConsensus({ rounds: sortedRounds } as DebateSession),
-      totalVotes: debatePoints.reduce((sum, p) => sum + p.upvotes + p.downvotes, 0),
+      totalRounds: record?.totalRounds ?? sortedRounds.length,
+      overallConsensus: (record?.overallConsensus as ConsensusLevel | null) || await this.evaluateConsensus({ rounds: sortedRounds } as DebateSession),
+      instructions: instructions
+        .filter(item => record && item.debateSessionId === record.id)
+        .map(item => this.toFacilitatorInstruction(item)),
+      totalVotes: points.reduce((sum, p) => sum + p.upvotes + p.downvotes, 0),
       participantCount: 0, // Could be calculated from unique voters
-      status: 'completed'
+      status: (record?.status as DebateStatus | undefined) || 'completed'
     };
 
-    debateSession.winningPosition = await this.determineWinner(debateSession);
+    debateSession.winningPosition = (record?.winningPosition as DebateOutcome | null) || await this.determineWinner(debateSession);
     
     return debateSession;
   }
 
+  private toDebateArgument(point: DebatePoint, pointEvidence: Evidence[]): DebateArgument {
+    return {
+      id: point.id,
+      agentRole: point.agent as DebatePosition,
+      roundNumber: point.round,
+      title: point.title,
+      content: point.content,
+      evidenceIds: pointEvidence.map(e => e.id),
+      strengthScore: this.calculateStrengthScore(point.upvotes, point.downvotes, pointEvidence.length),
+      votes: {
+        up: point.upvotes,
+        down: point.downvotes,
+        participants: [] // Could be populated from votes table if needed
+      },
+      rebuttalTo: point.rebuttalTo || undefined,
+      authorId: point.authorId || undefined,
+      timestamp: point.createdAt
+    };
+  }
+
   private calculateStrengthScore(upvotes: number, downvotes: number, evidenceCount: number): number {
     const totalVotes = upvotes + downvotes;
     const baseScore = totalVotes > 0 ? (upvotes / totalVotes) * 10 : 5.0;
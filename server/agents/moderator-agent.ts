@@ -1,7 +1,15 @@
-import { BaseAgent, AgentProvider, AgentMessage, AgentContext } from './base-agent';
+import { BaseAgent, AgentProvider, AgentMessage, AgentContext, StructuredResult } from './base-agent';
+import { moderatorSummarySchema, type ModeratorSummary } from '@shared/schema';
+import { contextWindowPolicy } from '../services/context-window';
 
 export class ModeratorAgent extends BaseAgent {
-  constructor(provider: AgentProvider = { name: 'anthropic', model: 'claude-3-5-sonnet-20241022' }) {
+  constructor(
+    provider: AgentProvider = { name: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+    fallbacks: AgentProvider[] = [
+      { name: 'openai', model: 'gpt-4o' },
+      { name: 'gemini', model: 'gemini-1.5-pro' }
+    ]
+  ) {
     const systemPrompt = `You are the MODERATOR agent in an AI Think Tank debate system. Your role is to:
 
 CORE RESPONSIBILITIES:
@@ -28,7 +36,7 @@ COMMUNICATION STYLE:
 
 You facilitate evidence-based decision making and ensure all voices are heard while maintaining productive momentum toward session goals.`;
 
-    super(provider, 'moderator', systemPrompt);
+    super(provider, 'moderator', systemPrompt, fallbacks);
   }
 
   getName(): string {
@@ -55,16 +63,74 @@ You facilitate evidence-based decision making and ensure all voices are heard wh
     return this.processMessage(message, context);
   }
 
-  async summarizeDebate(debateHistory: AgentMessage[], context: AgentContext): Promise<AgentMessage> {
-    const summaryPrompt = `Please analyze the debate history and provide a balanced summary including:
+  // Short prose recap closing a debate phase; the structured session summary comes from summarizeDebate
+  async recapDebate(debateHistory: AgentMessage[], context: AgentContext): Promise<AgentMessage> {
+    const recapPrompt = `Please recap this debate in a few short paragraphs, covering:
     1. Key arguments presented
-    2. Areas of consensus and disagreement  
+    2. Areas of consensus and disagreement
+    3. Questions to resolve with evidence
+
+    Debate to recap: ${this.condenseHistory(debateHistory, context)}`;
+
+    return this.processMessage(recapPrompt, { ...context, debateHistory: [] });
+  }
+
+  /**
+   * Fold a finished round into the running digest of its debate. Later prompts use
+   * the digest in place of the round's full arguments once they fall out of the
+   * recent turns.
+   */
+  async digestRound(previousDigest: string | undefined, roundNumber: number, roundSummary: string, context: AgentContext): Promise<AgentMessage> {
+    const digestPrompt = `Update the running digest of this debate with round ${roundNumber}.
+
+    Digest so far: ${previousDigest || 'None, this is the first round.'}
+
+    Round ${roundNumber} summary: ${roundSummary}
+
+    Write one compact paragraph of at most 150 words covering every round so far: each side's main arguments, concessions, evidence cited and open disagreements. Keep earlier rounds' points; drop wording, not substance.`;
+
+    return this.processMessage(digestPrompt, { ...context, debateHistory: [] });
+  }
+
+  // Debate history as prompt text, older rounds condensed into their digests
+  private condenseHistory(debateHistory: AgentMessage[], context: AgentContext): string {
+    return contextWindowPolicy.format(contextWindowPolicy.assemble(debateHistory, context.debateDigests, { settings: context.config?.history }));
+  }
+
+  /**
+   * Summarize the session as a validated structured summary. `participantActivity`
+   * describes how participants voted and what they asked, so section sentiment
+   * can reflect the room and not only the agents.
+   */
+  async summarizeDebate(
+    debateHistory: AgentMessage[],
+    context: AgentContext,
+    participantActivity: string = 'No participant votes or questions recorded.'
+  ): Promise<StructuredResult<ModeratorSummary>> {
+    const summaryPrompt = `Please analyze the debate history and provide a balanced summary covering:
+    1. Key arguments presented, for and against
+    2. Areas of consensus and disagreement
     3. Most compelling evidence shared
-    4. Recommended next steps
-    
-    Debate to summarize: ${debateHistory.map(msg => `${msg.agentId}: ${msg.content}`).join('\n\n')}`;
+    4. Decisions the group still has to make, and recommended actions
+
+    Debate to summarize: ${this.condenseHistory(debateHistory, context)}
+
+    Participant activity: ${participantActivity}
+
+    Respond with a single JSON object of this shape and nothing else:
+    {
+      "insights": "Two to four sentences of overall moderator insight",
+      "sections": [
+        { "title": "Section heading", "points": ["Specific point"], "sentiment": "positive" | "negative" | "neutral" }
+      ],
+      "decisionPrompts": ["Open question the group must decide"],
+      "recommendedActions": ["Concrete action, ideally with a timeframe"],
+      "proposedOutcome": "adopted" | "modified" | "rejected" | "pending"
+    }
+
+    Use one section per theme (for example strongest arguments for, key concerns, evidence highlights). A section's sentiment says whether its points favour the proposals (positive), argue against them (negative) or neither (neutral).`;
 
-    return this.processMessage(summaryPrompt, context);
+    return this.generateStructured(summaryPrompt, moderatorSummarySchema, { ...context, debateHistory: [] });
   }
 
   async progressPhase(currentPhase: number, context: AgentContext): Promise<{
@@ -1,7 +1,13 @@
 import { BaseAgent, AgentProvider, AgentMessage, AgentContext } from './base-agent';
 
 export class OpponentAgent extends BaseAgent {
-  constructor(provider: AgentProvider = { name: 'anthropic', model: 'claude-3-5-sonnet-20241022' }) {
+  constructor(
+    provider: AgentProvider = { name: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+    fallbacks: AgentProvider[] = [
+      { name: 'openai', model: 'gpt-4o' },
+      { name: 'gemini', model: 'gemini-1.5-pro' }
+    ]
+  ) {
     const systemPrompt = `You are the OPPONENT agent in an AI Think Tank debate system. Your role is to:
 
 CORE RESPONSIBILITIES:
@@ -41,7 +47,7 @@ DEBATE TACTICS:
 
 You strengthen solutions by identifying and addressing weaknesses before implementation.`;
 
-    super(provider, 'opponent', systemPrompt);
+    super(provider, 'opponent', systemPrompt, fallbacks);
   }
 
   getName(): string {
@@ -64,7 +70,7 @@ Structure your challenge around:
 4. ALTERNATIVES: What other approaches might be better?
 5. EVIDENCE: What proof is missing to support the claims?
 
-Focus on constructive criticism that helps strengthen the solution.`;
+Make ${context.config?.pointsPerSide ?? 3} distinct, numbered points. Focus on constructive criticism that helps strengthen the solution.`;
 
     return this.processMessage(challengePrompt, context);
   }
@@ -83,7 +89,7 @@ Provide a thoughtful rebuttal that:
 4. Raises additional concerns they haven't addressed
 5. Asks probing questions that test their assumptions
 
-Maintain focus on strengthening the solution through rigorous analysis.`;
+Make ${context.config?.pointsPerSide ?? 3} distinct, numbered points. Maintain focus on strengthening the solution through rigorous analysis.`;
 
     return this.processMessage(rebuttalPrompt, context);
   }
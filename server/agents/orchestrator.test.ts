@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+
+// Every agent answers through the scripted provider, so the run never leaves the process
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER_OVERRIDE = 'scripted';
+});
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+const { storage } = await import('../storage');
+const { orchestrator } = await import('./orchestrator');
+
+describe('orchestrator with the scripted provider', () => {
+  let sessionId: string;
+
+  beforeAll(async () => {
+    const session = await storage.createSession({
+      title: 'Offline session',
+      config: { debateRounds: 2, solutionCount: 2 }
+    });
+    sessionId = session.id;
+    await storage.createProblem({
+      sessionId,
+      statement: 'Onboarding new engineers takes too long',
+      status: 'approved'
+    });
+  });
+
+  it('generates and saves solutions in phase 3', async () => {
+    const result = await orchestrator.processPhase(sessionId, 3);
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.data?.totalSolutions).toBe(2);
+
+    const solutions = await storage.getSessionSolutions(sessionId);
+    expect(solutions.map(s => s.title)).toEqual(['Scripted Solution 1', 'Scripted Solution 2']);
+    expect((await storage.getSession(sessionId))?.currentPhase).toBe(4);
+  });
+
+  it('debates every solution for the configured rounds in phase 4', async () => {
+    const events: string[] = [];
+    const result = await orchestrator.processPhase(sessionId, 4, { onEvent: event => events.push(event.type) });
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.data?.debateSessionIds).toHaveLength(2);
+    expect(events).toContain('finished');
+
+    const debates = await storage.getSessionDebateSessions(sessionId);
+    expect(debates.map(d => d.status)).toEqual(['completed', 'completed']);
+
+    // One proponent and one opponent point per round
+    const points = await storage.getSessionDebatePoints(sessionId);
+    expect(points).toHaveLength(8);
+    expect(points.filter(p => p.agent === 'opponent').every(p => p.rebuttalTo)).toBe(true);
+  });
+
+  it('fact-checks the debate claims in phase 5', async () => {
+    const result = await orchestrator.processPhase(sessionId, 5);
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    const claims = await storage.getSessionClaims(sessionId);
+    expect(claims.length).toBeGreaterThan(0);
+    expect(claims.some(claim => claim.status === 'supported')).toBe(true);
+  });
+
+  it('saves the structured summary in phase 6', async () => {
+    const result = await orchestrator.processPhase(sessionId, 6);
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    const summary = await storage.getSessionSummary(sessionId);
+    expect(summary?.moderatorInsights).toContain('Both sides agreed');
+    expect(summary?.decisionPrompts).toEqual(['Which solution should be piloted first?']);
+    expect((await storage.getSession(sessionId))?.completedPhases).toEqual([3, 4, 5, 6]);
+  });
+});
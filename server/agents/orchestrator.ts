@@ -1,17 +1,13 @@
 import { ModeratorAgent } from './moderator-agent';
 import { SolutionAgent } from './solution-agent';
-import { ProponentAgent } from './proponent-agent';
-import { OpponentAgent } from './opponent-agent';
 import { AnalystAgent } from './analyst-agent';
-import { AgentMessage, AgentContext } from './base-agent';
+import { AgentMessage, AgentContext, DebateDigest } from './base-agent';
+import { debateEngine, type DebateSession } from './enhanced-debate-engine';
 import { storage } from '../storage';
-
-export interface DebateRound {
-  roundNumber: number;
-  solutionId: string;
-  messages: AgentMessage[];
-  completed: boolean;
-}
+import { BudgetExceededError } from '../services/budget';
+import { resolveSessionConfig } from '../services/session-config';
+import { ClaimChecker } from '../services/claim-checker';
+import type { DebatePoint, Question, InsertSummary, ParticipantSentiment } from '@shared/schema';
 
 export interface OrchestrationResult {
   success: boolean;
@@ -19,9 +15,11 @@ export interface OrchestrationResult {
   nextActions?: string[];
   phaseComplete?: boolean;
   error?: string;
+  errorCode?: 'budget_exceeded';
   data?: {
     savedSolutionIds?: string[];
     savedDebatePointIds?: string[];
+    debateSessionIds?: string[];
     savedEvidenceIds?: string[];
     savedSummaryId?: string;
     totalSolutions?: number;
@@ -29,24 +27,37 @@ export interface OrchestrationResult {
   };
 }
 
+export type SummaryResult =
+  | { success: true; summary: Omit<InsertSummary, 'sessionId'> }
+  | { success: false; error: string };
+
+export interface ProcessPhaseOptions {
+  // Receives agent lifecycle and token events while the phase runs
+  onEvent?: AgentContext['onEvent'];
+  onProgress?: AgentContext['onProgress'];
+  signal?: AbortSignal;
+}
+
 export class AgentOrchestrator {
   private moderator: ModeratorAgent;
   private solution: SolutionAgent;
-  private proponent: ProponentAgent;
-  private opponent: OpponentAgent;
   private analyst: AnalystAgent;
+  private claimChecker: ClaimChecker;
 
   constructor() {
     this.moderator = new ModeratorAgent();
     this.solution = new SolutionAgent();
-    this.proponent = new ProponentAgent();
-    this.opponent = new OpponentAgent();
     this.analyst = new AnalystAgent();
+    this.claimChecker = new ClaimChecker(this.analyst);
   }
 
-  async processPhase(sessionId: string, phase: number): Promise<OrchestrationResult> {
+  async processPhase(sessionId: string, phase: number, options: ProcessPhaseOptions = {}): Promise<OrchestrationResult> {
     try {
       const context = await this.buildContext(sessionId);
+      context.onEvent = options.onEvent;
+      context.onProgress = options.onProgress;
+      context.signal = options.signal;
+      context.onProgress?.(0, `Starting phase ${phase}`);
       let result: OrchestrationResult;
       
       switch (phase) {
@@ -72,6 +83,10 @@ export class AgentOrchestrator {
           throw new Error(`Unknown phase: ${phase}`);
       }
 
+      if (result.success) {
+        context.onProgress?.(100, `Phase ${phase} complete`);
+      }
+
       // Update session phase if processing was successful and phase complete
       if (result.success && result.phaseComplete) {
         const session = await storage.getSession(sessionId);
@@ -89,12 +104,13 @@ export class AgentOrchestrator {
       return {
         success: false,
         messages: [],
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        errorCode: error instanceof BudgetExceededError ? 'budget_exceeded' : undefined
       };
     }
   }
 
-  private async buildContext(sessionId: string): Promise<AgentContext> {
+  async buildContext(sessionId: string): Promise<AgentContext> {
     const session = await storage.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -104,6 +120,9 @@ export class AgentOrchestrator {
     const solutions = await storage.getSessionSolutions(sessionId);
     const debatePoints = await storage.getSessionDebatePoints(sessionId);
     const evidence = await storage.getSessionEvidence(sessionId);
+    const instructions = await storage.getSessionDebateInstructions(sessionId);
+    const debateSessions = await storage.getSessionDebateSessions(sessionId);
+    const debateRounds = await storage.getSessionDebateRounds(sessionId);
 
     return {
       sessionId,
@@ -114,17 +133,37 @@ export class AgentOrchestrator {
         title: s.title,
         description: s.objective
       })),
-      debateHistory: debatePoints.map(point => ({
-        role: 'assistant' as const,
-        content: point.content,
-        timestamp: point.createdAt,
-        agentId: point.agent
-      })),
+      debateHistory: [
+        ...debatePoints.map(point => ({
+          role: 'assistant' as const,
+          content: point.content,
+          timestamp: point.createdAt,
+          agentId: point.authorId ? `participant (${point.agent})` : point.agent,
+          debateSessionId: point.debateSessionId ?? undefined,
+          round: point.round
+        })),
+        // Facilitator steering, so the summary can say how the debate was directed
+        ...instructions.map(item => ({
+          role: 'user' as const,
+          content: `Facilitator instruction${item.relayedInRound ? ` before round ${item.relayedInRound}` : ''}: ${item.instruction}`,
+          timestamp: item.createdAt,
+          agentId: 'facilitator'
+        }))
+      ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+      debateDigests: debateRounds
+        .filter(round => round.digest)
+        .map(round => ({
+          debateSessionId: round.debateSessionId,
+          throughRound: round.roundNumber,
+          content: round.digest!,
+          label: solutions.find(s => s.id === debateSessions.find(d => d.id === round.debateSessionId)?.solutionId)?.title
+        })),
       evidence: evidence.map(e => ({
         type: e.claim,
         content: e.snippet,
         source: typeof e.source === 'object' ? (e.source as any).title || 'Unknown' : 'Unknown'
-      }))
+      })),
+      config: resolveSessionConfig(session.config)
     };
   }
 
@@ -177,7 +216,7 @@ export class AgentOrchestrator {
 
     try {
       const facilitation = await this.moderator.facilitatePhase(3, context);
-      const solutions = await this.solution.generateSolutions(context.problemStatement, context, 3);
+      const generated = await this.solution.generateSolutions(context.problemStatement, context, context.config?.solutionCount ?? 3);
       const savedSolutionIds: string[] = [];
 
       // Find the approved problem ID first
@@ -193,47 +232,33 @@ export class AgentOrchestrator {
       }
 
       // Store generated solutions in database with enhanced error handling
-      for (const solutionMessage of solutions) {
-        const solutionContent = this.parseSolutionFromMessage(solutionMessage.content);
-        
-        for (const sol of solutionContent) {
-          try {
-            const savedSolution = await storage.createSolution({
-              sessionId,
-              problemId: approvedProblem.id,
-              title: sol.title,
-              objective: sol.description,
-              approach: sol.approach,
-              enablers: sol.enablers || [],
-              risks: sol.risks || [],
-              expectedOutcomes: sol.expectedOutcomes || [sol.impact],
-              impact: {
-                timeframe: 'medium',
-                effort: 'moderate', 
-                confidence: 'high'
-              },
-              generatedBy: 'solution_agent'
-            });
-            
-            savedSolutionIds.push(savedSolution.id);
-          } catch (error) {
-            console.error('Failed to save solution:', sol.title, error);
-            // Continue with other solutions even if one fails
-          }
+      for (const sol of generated.data) {
+        try {
+          const savedSolution = await storage.createSolution({
+            sessionId,
+            problemId: approvedProblem.id,
+            ...sol,
+            generatedBy: 'solution_agent'
+          });
+          
+          savedSolutionIds.push(savedSolution.id);
+        } catch (error) {
+          console.error('Failed to save solution:', sol.title, error);
+          // Continue with other solutions even if one fails
         }
       }
 
       if (savedSolutionIds.length === 0) {
         return {
           success: false,
-          messages: [facilitation, ...solutions],
+          messages: [facilitation, generated.message],
           error: 'Failed to save any generated solutions'
         };
       }
 
       return {
         success: true,
-        messages: [facilitation, ...solutions],
+        messages: [facilitation, generated.message],
         nextActions: [
           'Review generated solutions',
           'Begin structured debate phase'
@@ -245,6 +270,9 @@ export class AgentOrchestrator {
         }
       };
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       return {
         success: false,
         messages: [],
@@ -265,98 +293,60 @@ export class AgentOrchestrator {
     const facilitation = await this.moderator.facilitatePhase(4, context);
     const messages = [facilitation];
 
-    // Conduct debate for each solution
-    for (const solution of context.solutions) {
-      const debateRound = await this.conductDebateRound(solution.id, solution, context, sessionId);
-      messages.push(...debateRound.messages);
+    // Debate each solution through the enhanced engine (multi-round, round summaries, inline fact-checks)
+    const total = context.solutions.length;
+    const debates: DebateSession[] = [];
+    for (let i = 0; i < total; i++) {
+      const solution = context.solutions[i];
+      const debate = await debateEngine.startDebateSession(sessionId, solution.id, {
+        ...context,
+        // Scale each debate's round progress into this solution's share of the phase
+        onProgress: (progress, message) => context.onProgress?.(
+          Math.round(90 * (i + progress / 100) / total),
+          `${solution.title}: ${message}`
+        )
+      });
+      debates.push(debate);
     }
 
-    // Moderator summarizes the debate
-    const summary = await this.moderator.summarizeDebate(
-      context.debateHistory || [],
-      context
+    // Moderator recaps the arguments that were just made
+    const debateHistory: AgentMessage[] = debates.flatMap(debate => debate.rounds.flatMap(round =>
+      round.arguments.map(arg => ({
+        role: 'assistant' as const,
+        content: arg.content,
+        timestamp: arg.timestamp,
+        agentId: arg.agentRole,
+        debateSessionId: debate.id,
+        round: round.roundNumber
+      }))
+    ));
+    const debateDigests: DebateDigest[] = debates.flatMap(debate => debate.rounds
+      .filter(round => debate.id && round.digest)
+      .map(round => ({
+        debateSessionId: debate.id!,
+        throughRound: round.roundNumber,
+        content: round.digest!,
+        label: context.solutions?.find(s => s.id === debate.solutionId)?.title
+      }))
     );
-    messages.push(summary);
+    const recap = await this.moderator.recapDebate(debateHistory, { ...context, debateDigests });
+    messages.push(recap);
+
 
     return {
       success: true,
       messages,
       nextActions: [
+        // A paused debate stopped early; resuming it carries it on in the background
+        ...(debates.some(debate => debate.status === 'paused') ? ['Resume paused debates to finish them'] : []),
         'Gather evidence for claims made',
         'Proceed to analysis phase'
       ],
-      phaseComplete: true
-    };
-  }
-
-  private async conductDebateRound(
-    solutionId: string, 
-    solution: {id: string, title: string, description: string}, 
-    context: AgentContext,
-    sessionId: string
-  ): Promise<DebateRound> {
-    const messages: AgentMessage[] = [];
-
-    // Proponent advocates for the solution
-    const advocacy = await this.proponent.advocateForSolution(
-      `${solution.title}: ${solution.description}`,
-      context
-    );
-    messages.push(advocacy);
-
-    // Store debate point
-    await storage.createDebatePoint({
-      sessionId,
-      solutionId,
-      agent: 'proponent',
-      pointNumber: 1,
-      round: 1,
-      title: `Advocacy for ${solution.title}`,
-      content: advocacy.content
-    });
-
-    // Opponent challenges the solution
-    const challenge = await this.opponent.challengeSolution(
-      `${solution.title}: ${solution.description}`,
-      context
-    );
-    messages.push(challenge);
-
-    // Store opponent's challenge
-    await storage.createDebatePoint({
-      sessionId,
-      solutionId,
-      agent: 'opponent',
-      pointNumber: 2,
-      round: 1,
-      title: `Challenge to ${solution.title}`,
-      content: challenge.content
-    });
-
-    // Proponent responds to the challenge
-    const rebuttal = await this.proponent.rebutOpponentPoint(
-      challenge.content,
-      `${solution.title}: ${solution.description}`,
-      context
-    );
-    messages.push(rebuttal);
-
-    // Store proponent's rebuttal
-    await storage.createDebatePoint({
-      sessionId,
-      solutionId,
-      agent: 'proponent',
-      pointNumber: 3,
-      round: 1,
-      title: `Rebuttal for ${solution.title}`,
-      content: rebuttal.content
-    });
-
-    return {
-      roundNumber: 1,
-      solutionId,
-      messages,
-      completed: true
+      phaseComplete: true,
+      data: {
+        debateSessionIds: debates.map(debate => debate.id!),
+        savedDebatePointIds: debates.flatMap(debate => debate.rounds.flatMap(round => round.arguments.map(arg => arg.id)))
+      }
     };
   }
 
@@ -364,30 +354,22 @@ export class AgentOrchestrator {
     const facilitation = await this.moderator.facilitatePhase(5, context);
     const messages = [facilitation];
 
-    // Gather evidence for key claims made during debate
-    if (context.debateHistory && context.debateHistory.length > 0) {
-      const claims = this.extractClaimsFromDebate(context.debateHistory);
-      
-      for (const claim of claims.slice(0, 3)) { // Limit to top 3 claims
-        const research = await this.analyst.factCheckClaim(claim, context);
-        messages.push(research);
-
-        // Store evidence
-        await storage.createEvidence({
-          sessionId,
-          claim: claim,
-          snippet: research.content,
-          source: {
-            title: 'AI Analysis',
-            url: '',
-            type: 'analysis',
-            date: new Date().toISOString()
-          },
-          confidence: 80,
-          relevanceScore: 85,
-          gatheredBy: 'analyst_agent'
-        });
-      }
+    // Fact-check the debate's atomic claims; points added since their round are decomposed first
+    await this.claimChecker.decomposeMissing(sessionId, context);
+
+    // Deep research checks more claims per session
+    const claimLimit = context.config?.researchMode === 'deep' ? 5 : 3;
+    const claims = this.claimChecker.selectUnchecked(await storage.getSessionClaims(sessionId), claimLimit);
+
+    for (let i = 0; i < claims.length; i++) {
+      const { claim, verdict } = await this.claimChecker.verifyClaim(claims[i], context);
+      messages.push({
+        role: 'assistant',
+        content: `CLAIM: ${claim.text}\nSTATUS: ${claim.status} (${Math.round(verdict.confidence)}% confidence)\n\n${verdict.analysis}`,
+        agentId: 'analyst',
+        timestamp: new Date()
+      });
+      context.onProgress?.(Math.round(90 * (i + 1) / claims.length), `Fact-checked ${i + 1} of ${claims.length} claims`);
     }
 
     return {
@@ -405,202 +387,98 @@ export class AgentOrchestrator {
     const facilitation = await this.moderator.facilitatePhase(6, context);
     
     // Generate comprehensive summary
-    const summary = await this.moderator.summarizeDebate(
-      context.debateHistory || [],
-      context
-    );
-
-    // Store summary
-    const keyFindings = this.extractKeyFindings(summary.content);
-    const recommendations = this.extractRecommendations(summary.content);
-    const nextSteps = this.extractNextSteps(summary.content);
-    
-    await storage.createSummary({
-      sessionId,
-      moderatorInsights: summary.content,
-      sections: {
-        keyFindings,
-        recommendations,
-        nextSteps,
-        sentiment: 'neutral'
-      },
-      participantSentiment: {
-        positive: 60,
-        neutral: 30,
-        negative: 10
-      },
-      decisionPrompts: nextSteps,
-      recommendedActions: recommendations.join('; '),
-      outcome: 'pending'
-    });
+    const { summary, message } = await this.buildSummary(sessionId, context);
+    const savedSummary = await storage.upsertSummary(sessionId, summary);
 
     return {
       success: true,
-      messages: [facilitation, summary],
+      messages: [facilitation, message],
       phaseComplete: true,
       nextActions: [
         'Review final recommendations',
         'Plan implementation next steps'
-      ]
+      ],
+      data: {
+        savedSummaryId: savedSummary.id
+      }
     };
   }
 
-  // Helper methods for parsing content
-  private parseSolutionFromMessage(content: string): Array<{title: string, description: string, approach: string, impact: string, enablers?: string[], risks?: string[], expectedOutcomes?: string[]}> {
-    const solutions = [];
-    const lines = content.split('\n');
-    let currentSolution: any = {};
-    let inSolution = false;
-
-    for (const line of lines) {
-      const cleanLine = line.trim();
-      
-      // Look for solution markers
-      if (cleanLine.match(/^\d+\./)) {
-        // Save previous solution if exists
-        if (currentSolution.title && currentSolution.description) {
-          solutions.push({
-            ...currentSolution,
-            enablers: currentSolution.enablers || ['AI analysis', 'Strategic planning'],
-            risks: currentSolution.risks || ['Implementation complexity', 'Resource constraints'],
-            expectedOutcomes: currentSolution.expectedOutcomes || ['Process improvement', 'Enhanced outcomes']
-          });
-        }
-        
-        // Start new solution
-        currentSolution = {};
-        inSolution = true;
-      }
-      
-      // Parse different sections
-      if (cleanLine.includes('TITLE:') || cleanLine.match(/^title:/i)) {
-        currentSolution.title = cleanLine.replace(/TITLE:|title:/i, '').trim();
-      } else if (cleanLine.includes('SUMMARY:') || cleanLine.match(/^summary:/i)) {
-        currentSolution.description = cleanLine.replace(/SUMMARY:|summary:/i, '').trim();
-      } else if (cleanLine.includes('APPROACH:') || cleanLine.match(/^approach:/i)) {
-        currentSolution.approach = cleanLine.replace(/APPROACH:|approach:/i, '').trim();
-      } else if (cleanLine.includes('IMPACT:') || cleanLine.match(/^impact:/i)) {
-        currentSolution.impact = cleanLine.replace(/IMPACT:|impact:/i, '').trim();
-      } else if (inSolution && cleanLine.length > 20 && !currentSolution.title && !cleanLine.includes(':')) {
-        // If no explicit title, use first meaningful line
-        currentSolution.title = cleanLine.substring(0, 50);
-      } else if (inSolution && cleanLine.length > 30 && !currentSolution.description && cleanLine !== currentSolution.title) {
-        // If no explicit description, use substantial content line
-        currentSolution.description = cleanLine;
-      } else if (inSolution && !currentSolution.approach && cleanLine.length > 20 && cleanLine !== currentSolution.title && cleanLine !== currentSolution.description) {
-        currentSolution.approach = cleanLine;
-      }
-    }
-    
-    // Don't forget the last solution
-    if (currentSolution.title && currentSolution.description) {
-      solutions.push({
-        ...currentSolution,
-        enablers: currentSolution.enablers || ['AI analysis', 'Strategic planning'],
-        risks: currentSolution.risks || ['Implementation complexity', 'Resource constraints'],
-        expectedOutcomes: currentSolution.expectedOutcomes || ['Process improvement', 'Enhanced outcomes'],
-        impact: currentSolution.impact || 'Positive strategic impact expected'
-      });
-    }
-    
-    // If no solutions parsed, create a fallback from the full content
-    if (solutions.length === 0 && content.trim().length > 0) {
-      const fallbackTitle = content.split('\n')[0].substring(0, 50).trim();
-      const fallbackDescription = content.substring(0, 200).trim();
-      solutions.push({
-        title: fallbackTitle || 'AI Generated Solution',
-        description: fallbackDescription || content.trim(),
-        approach: 'Strategic implementation approach',
-        impact: 'Positive outcomes expected',
-        enablers: ['AI analysis', 'Strategic planning'],
-        risks: ['Implementation complexity', 'Resource constraints'],
-        expectedOutcomes: ['Process improvement', 'Enhanced outcomes']
-      });
+  /**
+   * Generate the structured summary for a session without saving it
+   */
+  async generateSummary(sessionId: string): Promise<SummaryResult> {
+    try {
+      const context = await this.buildContext(sessionId);
+      context.phase = 6;
+      const { summary } = await this.buildSummary(sessionId, context);
+      return { success: true, summary };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
     }
-    
-    return solutions;
   }
 
-  private extractClaimsFromDebate(debateHistory: AgentMessage[]): string[] {
-    // Extract key claims that need fact-checking
-    const claims: string[] = [];
-    
-    for (const message of debateHistory) {
-      const sentences = message.content.split(/[.!?]+/);
-      for (const sentence of sentences) {
-        if (sentence.includes('evidence shows') || 
-            sentence.includes('research indicates') || 
-            sentence.includes('studies prove') ||
-            sentence.length > 50) {
-          claims.push(sentence.trim());
-        }
-      }
-    }
-    
-    return claims.slice(0, 5); // Return top 5 claims
-  }
+  private async buildSummary(sessionId: string, context: AgentContext): Promise<{ summary: Omit<InsertSummary, 'sessionId'>; message: AgentMessage }> {
+    const debatePoints = await storage.getSessionDebatePoints(sessionId);
+    const questions = await storage.getSessionQuestions(sessionId);
+    const participantSentiment = this.computeParticipantSentiment(debatePoints, questions);
 
-  private extractKeyFindings(summaryContent: string): string[] {
-    // Extract key findings from summary
-    const lines = summaryContent.split('\n');
-    const findings: string[] = [];
-    
-    let inFindingsSection = false;
-    for (const line of lines) {
-      if (line.toLowerCase().includes('key findings') || line.toLowerCase().includes('findings')) {
-        inFindingsSection = true;
-        continue;
-      }
-      if (inFindingsSection && line.trim().startsWith('-')) {
-        findings.push(line.replace('-', '').trim());
-      }
-      if (inFindingsSection && line.toLowerCase().includes('recommendations')) {
-        break;
-      }
-    }
-    
-    return findings;
-  }
+    const topQuestions = [...questions].sort((a, b) => b.votes - a.votes).slice(0, 5);
+    const participantActivity = participantSentiment.some(s => s.count > 0)
+      ? [
+          participantSentiment.map(s => `${s.category}: ${s.count} (${s.percentage}%)`).join(', '),
+          ...topQuestions.map(q => `Question (${q.votes} votes): ${q.question}`)
+        ].join('\n')
+      : undefined;
 
-  private extractRecommendations(summaryContent: string): string[] {
-    // Extract recommendations from summary
-    const lines = summaryContent.split('\n');
-    const recommendations: string[] = [];
-    
-    let inRecommendationsSection = false;
-    for (const line of lines) {
-      if (line.toLowerCase().includes('recommendations')) {
-        inRecommendationsSection = true;
-        continue;
-      }
-      if (inRecommendationsSection && line.trim().startsWith('-')) {
-        recommendations.push(line.replace('-', '').trim());
-      }
-      if (inRecommendationsSection && line.toLowerCase().includes('next steps')) {
-        break;
+    const result = await this.moderator.summarizeDebate(context.debateHistory || [], context, participantActivity);
+
+    return {
+      message: result.message,
+      summary: {
+        moderatorInsights: result.data.insights,
+        sections: result.data.sections,
+        participantSentiment,
+        decisionPrompts: result.data.decisionPrompts,
+        recommendedActions: result.data.recommendedActions.join('\n'),
+        outcome: result.data.proposedOutcome
       }
-    }
-    
-    return recommendations;
+    };
   }
 
-  private extractNextSteps(summaryContent: string): string[] {
-    // Extract next steps from summary
-    const lines = summaryContent.split('\n');
-    const nextSteps: string[] = [];
-    
-    let inNextStepsSection = false;
-    for (const line of lines) {
-      if (line.toLowerCase().includes('next steps')) {
-        inNextStepsSection = true;
-        continue;
-      }
-      if (inNextStepsSection && line.trim().startsWith('-')) {
-        nextSteps.push(line.replace('-', '').trim());
+  /**
+   * Participant sentiment from real activity. Upvoting a proponent point or
+   * downvoting an opponent point counts as support, and vice versa; every
+   * question and question vote counts as an unresolved concern.
+   */
+  private computeParticipantSentiment(debatePoints: DebatePoint[], questions: Question[]): ParticipantSentiment[] {
+    let support = 0;
+    let oppose = 0;
+    for (const point of debatePoints) {
+      if (point.agent === 'proponent') {
+        support += point.upvotes;
+        oppose += point.downvotes;
+      } else if (point.agent === 'opponent') {
+        support += point.downvotes;
+        oppose += point.upvotes;
       }
     }
-    
-    return nextSteps;
+    const questioning = questions.reduce((sum, q) => sum + 1 + q.votes, 0);
+
+    const total = support + oppose + questioning;
+    const counts: Array<[string, number]> = [
+      ['Support', support],
+      ['Oppose', oppose],
+      ['Open Questions', questioning]
+    ];
+    return counts.map(([category, count]) => ({
+      category,
+      count,
+      percentage: total > 0 ? Math.round((count / total) * 100) : 0
+    }));
   }
 }
 
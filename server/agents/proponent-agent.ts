@@ -1,7 +1,13 @@
 import { BaseAgent, AgentProvider, AgentMessage, AgentContext } from './base-agent';
 
 export class ProponentAgent extends BaseAgent {
-  constructor(provider: AgentProvider = { name: 'openai', model: 'gpt-4o' }) {
+  constructor(
+    provider: AgentProvider = { name: 'openai', model: 'gpt-4o' },
+    fallbacks: AgentProvider[] = [
+      { name: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+      { name: 'gemini', model: 'gemini-1.5-pro' }
+    ]
+  ) {
     const systemPrompt = `You are the PROPONENT agent in an AI Think Tank debate system. Your role is to:
 
 CORE RESPONSIBILITIES:
@@ -41,7 +47,7 @@ DEBATE TACTICS:
 
 You champion solutions while remaining intellectually honest and evidence-based in your advocacy.`;
 
-    super(provider, 'proponent', systemPrompt);
+    super(provider, 'proponent', systemPrompt, fallbacks);
   }
 
   getName(): string {
@@ -64,7 +70,7 @@ Structure your advocacy with:
 4. IMPACT: Positive outcomes and transformational potential
 5. URGENCY: Why action should be taken now
 
-Make a persuasive case that inspires confidence and commitment.`;
+Make ${context.config?.pointsPerSide ?? 3} distinct, numbered points. Make a persuasive case that inspires confidence and commitment.`;
 
     return this.processMessage(advocacyPrompt, context);
   }
@@ -83,7 +89,7 @@ Provide a thoughtful rebuttal that:
 4. Reinforces why the solution's benefits outweigh the risks
 5. Suggests specific actions to address their concern
 
-Be respectful but firm in maintaining your advocacy position.`;
+Make ${context.config?.pointsPerSide ?? 3} distinct, numbered points. Be respectful but firm in maintaining your advocacy position.`;
 
     return this.processMessage(rebuttalPrompt, context);
   }
@@ -0,0 +1,112 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LLMProvider, ChatRequest, ChatResult, ProviderErrorKind,
+  classifyHttpError, estimateUsage, countTokensByRatio, findContextWindow
+} from './types';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  constructor(private apiKey: string | undefined = process.env.ANTHROPIC_API_KEY) {}
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      if (!this.apiKey) {
+        throw new Error('ANTHROPIC_API_KEY not configured');
+      }
+      this.client = new Anthropic({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: ChatRequest) {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens ?? 2000,
+      temperature: request.temperature ?? 0.7,
+      system: request.systemPrompt,
+      messages: request.messages.map(msg => ({
+        role: msg.role === 'system' ? 'user' as const : msg.role,
+        content: msg.content
+      }))
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const response = await this.getClient().messages.create(this.buildParams(request));
+
+    const content = response.content[0]?.type === 'text' ? response.content[0].text : '';
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.input_tokens,
+            outputTokens: response.usage.output_tokens,
+            estimated: false
+          }
+        : estimateUsage(request, content)
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const stream = await this.getClient().messages.create({ ...this.buildParams(request), stream: true });
+
+    let content = '';
+    let inputTokens: number | null = null;
+    let outputTokens: number | null = null;
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        content += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage.output_tokens;
+      }
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: inputTokens !== null && outputTokens !== null
+        ? { inputTokens, outputTokens, estimated: false }
+        : estimateUsage(request, content)
+    };
+  }
+
+  // Claude's tokenizer is not published, so Anthropic's token-counting endpoint does the counting
+  async countTokens(text: string, model: string): Promise<number> {
+    if (!text) {
+      return 0;
+    }
+    try {
+      const result = await this.getClient().messages.countTokens({ model, messages: [{ role: 'user', content: text }] });
+      return result.input_tokens;
+    } catch (error) {
+      console.warn(`⚠️ Anthropic provider: Token count failed for ${model}, estimating`, error);
+      // Claude's tokenizer splits English more finely than OpenAI's
+      return countTokensByRatio(text, 3.5);
+    }
+  }
+
+  contextWindow(model: string): number {
+    return findContextWindow(this.name, model);
+  }
+
+  classifyError(error: unknown): ProviderErrorKind {
+    // Anthropic returns 529 when overloaded, which is a capacity issue rather than a hard failure
+    if (error && typeof error === 'object' && (error as { status?: number }).status === 529) {
+      return 'unavailable';
+    }
+    return classifyHttpError(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect, vi } from 'vitest';
+import Anthropic from '@anthropic-ai/sdk';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { countTokensByRatio } from './types';
+
+describe('countTokens', () => {
+  it('counts OpenAI prompts with the model tokenizer', async () => {
+    const provider = new OpenAIProvider({ apiKey: 'test-key' });
+    expect(await provider.countTokens('Hello world', 'gpt-4o')).toBe(2);
+    // Self-hosted models tiktoken does not know still get a tokenizer count
+    expect(await provider.countTokens('Hello world', 'llama-3.1-8b')).toBe(2);
+  });
+
+  it('estimates from the character ratio when the counting API fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const countTokens = vi.spyOn(Anthropic.Messages.prototype, 'countTokens').mockRejectedValue(new Error('Service unavailable'));
+    const text = 'Release trains make dates predictable.';
+    expect(await new AnthropicProvider('test-key').countTokens(text, 'claude-3-5-sonnet-20241022')).toBe(countTokensByRatio(text, 3.5));
+    expect(countTokens).toHaveBeenCalledOnce();
+  });
+});
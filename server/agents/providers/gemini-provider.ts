@@ -0,0 +1,106 @@
+import { GoogleGenerativeAI, type EnhancedGenerateContentResponse } from '@google/generative-ai';
+import {
+  LLMProvider, ChatRequest, ChatResult, ProviderErrorKind,
+  classifyHttpError, estimateUsage, countTokensByRatio, findContextWindow
+} from './types';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenerativeAI | null = null;
+
+  constructor(private apiKey: string | undefined = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY) {}
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.client) {
+      if (!this.apiKey) {
+        throw new Error('GOOGLE_API_KEY or GEMINI_API_KEY not configured');
+      }
+      this.client = new GoogleGenerativeAI(this.apiKey);
+    }
+    return this.client;
+  }
+
+  // Gemini takes a single prompt, so flatten the system prompt and conversation
+  private getModel(request: ChatRequest) {
+    return this.getClient().getGenerativeModel({
+      model: request.model,
+      ...(request.responseFormat === 'json' && { generationConfig: { responseMimeType: 'application/json' } })
+    });
+  }
+
+  private buildPrompt(request: ChatRequest): string {
+    return `${request.systemPrompt}\n\nUser: ${request.messages.map(m => m.content).join('\n')}`;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const model = this.getModel(request);
+    const result = await model.generateContent(this.buildPrompt(request));
+    return this.toResult(request, result.response);
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const model = this.getModel(request);
+    const result = await model.generateContentStream(this.buildPrompt(request));
+
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        onDelta(delta);
+      }
+    }
+
+    return this.toResult(request, await result.response);
+  }
+
+  private toResult(request: ChatRequest, response: EnhancedGenerateContentResponse): ChatResult {
+    if (response.promptFeedback?.blockReason) {
+      throw new Error(`Gemini response blocked by safety filter: ${response.promptFeedback.blockReason}`);
+    }
+
+    const content = response.text() || '';
+    const usage = response.usageMetadata;
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: usage
+        ? {
+            inputTokens: usage.promptTokenCount,
+            outputTokens: usage.candidatesTokenCount,
+            estimated: false
+          }
+        : estimateUsage(request, content)
+    };
+  }
+
+  async countTokens(text: string, model: string): Promise<number> {
+    if (!text) {
+      return 0;
+    }
+    try {
+      const { totalTokens } = await this.getClient().getGenerativeModel({ model }).countTokens(text);
+      return totalTokens;
+    } catch (error) {
+      console.warn(`⚠️ Gemini provider: Token count failed for ${model}, estimating`, error);
+      return countTokensByRatio(text, 4);
+    }
+  }
+
+  contextWindow(model: string): number {
+    return findContextWindow(this.name, model);
+  }
+
+  classifyError(error: unknown): ProviderErrorKind {
+    const message = error instanceof Error ? error.message : '';
+    // The Gemini SDK reports HTTP status inside the message, e.g. "[429 Too Many Requests]"
+    if (message.includes('[429')) return 'rate_limit';
+    if (message.includes('[401') || message.includes('[403')) return 'auth';
+    if (message.includes('[5')) return 'unavailable';
+    return classifyHttpError(error);
+  }
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export { OpenAIProvider, type OpenAIProviderOptions } from './openai-provider';
+export { AnthropicProvider } from './anthropic-provider';
+export { GeminiProvider } from './gemini-provider';
+export { ScriptedProvider, defaultScriptedRules, type ScriptedRule } from './scripted-provider';
+export { ProviderRegistry, createDefaultRegistry, providerRegistry } from './registry';
+export { decideRetry, type RetryDecision } from './retry-policy';
@@ -0,0 +1,155 @@
+import { OpenAI } from 'openai';
+import { encodingForModel, getEncoding, type Tiktoken, type TiktokenModel } from 'js-tiktoken';
+import {
+  LLMProvider, ChatRequest, ChatResult, ProviderErrorKind, ProviderName,
+  classifyHttpError, estimateUsage, countTokensByRatio, findContextWindow
+} from './types';
+
+export interface OpenAIProviderOptions {
+  name?: ProviderName;
+  apiKey?: string;
+  baseURL?: string;
+  contextWindow?: number; // For self-hosted models, whose context length is set by the server
+}
+
+/**
+ * OpenAI chat completions provider. Also used for any OpenAI-compatible server
+ * (vLLM, LM Studio, Ollama's /v1 endpoint) by passing a name and baseURL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: ProviderName;
+  private client: OpenAI | null = null;
+  private encodings = new Map<string, Tiktoken>();
+
+  constructor(private options: OpenAIProviderOptions = {}) {
+    this.name = options.name || 'openai';
+  }
+
+  isAvailable(): boolean {
+    return !!this.options.apiKey || !!this.options.baseURL;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.isAvailable()) {
+        throw new Error(`${this.name} provider is not configured`);
+      }
+      this.client = new OpenAI({
+        // Local OpenAI-compatible servers usually ignore the key but the SDK requires one
+        apiKey: this.options.apiKey || 'not-needed',
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  private buildMessages(request: ChatRequest) {
+    return [
+      { role: 'system' as const, content: request.systemPrompt },
+      ...request.messages.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      }))
+    ];
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: this.buildMessages(request),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2000,
+      ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' as const } })
+    });
+
+    const content = response.choices[0]?.message?.content || '';
+    const finishReason = response.choices[0]?.finish_reason;
+    if (finishReason === 'content_filter') {
+      throw new Error(`${this.name} response blocked by content_filter`);
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+            estimated: false
+          }
+        : estimateUsage(request, content)
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: this.buildMessages(request),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2000,
+      ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' as const } }),
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    let content = '';
+    let usage: ChatResult['usage'] | null = null;
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      if (choice?.delta?.content) {
+        content += choice.delta.content;
+        onDelta(choice.delta.content);
+      }
+      if (choice?.finish_reason === 'content_filter') {
+        throw new Error(`${this.name} response blocked by content_filter`);
+      }
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+          estimated: false
+        };
+      }
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: usage || estimateUsage(request, content)
+    };
+  }
+
+  async countTokens(text: string, model: string): Promise<number> {
+    try {
+      // Special tokens such as <|endoftext|> in the text are counted as plain text
+      return this.getEncoding(model).encode(text, [], []).length;
+    } catch (error) {
+      console.warn(`⚠️ ${this.name} provider: Tokenizer failed for ${model}, estimating token count`, error);
+      return countTokensByRatio(text, 4);
+    }
+  }
+
+  // Models tiktoken does not know, e.g. self-hosted ones, are counted with GPT-4o's encoding
+  private getEncoding(model: string): Tiktoken {
+    let encoding = this.encodings.get(model);
+    if (!encoding) {
+      try {
+        encoding = encodingForModel(model as TiktokenModel);
+      } catch {
+        encoding = getEncoding('o200k_base');
+      }
+      this.encodings.set(model, encoding);
+    }
+    return encoding;
+  }
+
+  contextWindow(model: string): number {
+    return this.options.contextWindow ?? findContextWindow(this.name, model);
+  }
+
+  classifyError(error: unknown): ProviderErrorKind {
+    return classifyHttpError(error);
+  }
+}
@@ -0,0 +1,75 @@
+import { LLMProvider, ProviderName } from './types';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { GeminiProvider } from './gemini-provider';
+import { ScriptedProvider } from './scripted-provider';
+
+export class ProviderRegistry {
+  private providers = new Map<ProviderName, LLMProvider>();
+
+  register(provider: LLMProvider): void {
+    if (this.providers.has(provider.name)) {
+      console.log(`🔁 Provider registry: replacing provider "${provider.name}"`);
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  unregister(name: ProviderName): boolean {
+    return this.providers.delete(name);
+  }
+
+  has(name: ProviderName): boolean {
+    return this.providers.has(name);
+  }
+
+  get(name: ProviderName): LLMProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${name}. Registered: ${this.list().join(', ')}`);
+    }
+    return provider;
+  }
+
+  list(): ProviderName[] {
+    return Array.from(this.providers.keys());
+  }
+
+  available(): ProviderName[] {
+    return Array.from(this.providers.values())
+      .filter(p => p.isAvailable())
+      .map(p => p.name);
+  }
+}
+
+export function createDefaultRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+
+  registry.register(new OpenAIProvider({ apiKey: process.env.OPENAI_API_KEY }));
+  registry.register(new AnthropicProvider());
+  registry.register(new GeminiProvider());
+  registry.register(new ScriptedProvider());
+
+  // Generic OpenAI-compatible server (vLLM, LM Studio, llama.cpp server, ...)
+  if (process.env.LOCAL_LLM_BASE_URL) {
+    registry.register(new OpenAIProvider({
+      name: process.env.LOCAL_LLM_NAME || 'local',
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      contextWindow: Number(process.env.LOCAL_LLM_CONTEXT_WINDOW) || undefined,
+    }));
+  }
+
+  // Ollama exposes an OpenAI-compatible API under /v1
+  if (process.env.OLLAMA_HOST) {
+    registry.register(new OpenAIProvider({
+      name: 'ollama',
+      baseURL: `${process.env.OLLAMA_HOST.replace(/\/$/, '')}/v1`,
+      contextWindow: Number(process.env.OLLAMA_CONTEXT_WINDOW) || undefined,
+    }));
+  }
+
+  return registry;
+}
+
+// Singleton instance
+export const providerRegistry = createDefaultRegistry();
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { decideRetry } from './retry-policy';
+
+describe('decideRetry', () => {
+  it('backs off exponentially on rate limits until the retries run out', () => {
+    expect(decideRetry('rate_limit', 1)).toEqual({ retrySameHop: true, delayMs: 2000 });
+    expect(decideRetry('rate_limit', 2)).toEqual({ retrySameHop: true, delayMs: 4000 });
+    expect(decideRetry('rate_limit', 3)).toEqual({ retrySameHop: false, delayMs: 0 });
+  });
+
+  it('retries transient failures once after a fixed delay', () => {
+    expect(decideRetry('timeout', 1)).toEqual({ retrySameHop: true, delayMs: 1000 });
+    expect(decideRetry('unavailable', 1)).toEqual({ retrySameHop: true, delayMs: 1500 });
+    expect(decideRetry('unavailable', 2).retrySameHop).toBe(false);
+  });
+
+  it('moves straight to the next hop on auth and content filter errors', () => {
+    expect(decideRetry('auth', 1).retrySameHop).toBe(false);
+    expect(decideRetry('content_filter', 1).retrySameHop).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { ProviderErrorKind } from './types';
+
+export interface RetryDecision {
+  // Retry the same provider/model after `delayMs`; otherwise move to the next hop in the chain
+  retrySameHop: boolean;
+  delayMs: number;
+}
+
+interface RetryRule {
+  maxRetries: number;
+  baseDelayMs: number;
+  exponential: boolean;
+}
+
+// How each error class is handled before giving up on a hop
+const retryRules: Record<ProviderErrorKind, RetryRule> = {
+  rate_limit: { maxRetries: 2, baseDelayMs: 2000, exponential: true },
+  timeout: { maxRetries: 1, baseDelayMs: 1000, exponential: false },
+  unavailable: { maxRetries: 1, baseDelayMs: 1500, exponential: false },
+  unknown: { maxRetries: 1, baseDelayMs: 1000, exponential: false },
+  // Retrying a bad key or a filtered prompt on the same hop cannot succeed
+  auth: { maxRetries: 0, baseDelayMs: 0, exponential: false },
+  content_filter: { maxRetries: 0, baseDelayMs: 0, exponential: false },
+};
+
+export function decideRetry(kind: ProviderErrorKind, attemptsOnHop: number): RetryDecision {
+  const rule = retryRules[kind];
+  if (attemptsOnHop > rule.maxRetries) {
+    return { retrySameHop: false, delayMs: 0 };
+  }
+  const delayMs = rule.exponential
+    ? rule.baseDelayMs * Math.pow(2, attemptsOnHop - 1)
+    : rule.baseDelayMs;
+  return { retrySameHop: true, delayMs };
+}
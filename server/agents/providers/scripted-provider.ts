@@ -0,0 +1,212 @@
+import {
+  LLMProvider, ChatRequest, ChatResult, ProviderErrorKind, estimateUsage, estimateTokens, findContextWindow
+} from './types';
+
+export interface ScriptedRule {
+  // Matched against the last user message of the request
+  match: RegExp | ((request: ChatRequest) => boolean);
+  respond: string | ((request: ChatRequest) => string);
+}
+
+function lastUserMessage(request: ChatRequest): string {
+  const userMessages = request.messages.filter(m => m.role === 'user');
+  return userMessages[userMessages.length - 1]?.content || '';
+}
+
+function scriptedSolutions(request: ChatRequest): string {
+  const count = parseInt(lastUserMessage(request).match(/Generate (\d+)/)?.[1] || '3', 10);
+  const solutions = [];
+  for (let i = 1; i <= count; i++) {
+    solutions.push({
+      title: `Scripted Solution ${i}`,
+      objective: `Deterministic solution ${i} produced by the scripted provider for offline runs.`,
+      approach: 'Pilot the approach with one team, measure outcomes, then expand in stages.',
+      enablers: ['Executive sponsor', 'Pilot team'],
+      risks: ['Pilot results may not generalize'],
+      expectedOutcomes: ['Measurable improvement in the target metric within one quarter'],
+      impact: { timeframe: i === 1 ? 'quick_win' : 'longer_term', effort: 'medium', confidence: 70, impactScore: Math.min(10, 5 + i), effortScore: Math.min(10, 3 + i) }
+    });
+  }
+  return JSON.stringify({ solutions });
+}
+
+// Echoes the participant's title so the stored solution keeps it
+function scriptedProposal(request: ChatRequest): string {
+  const title = lastUserMessage(request).match(/^TITLE: (.+)$/m)?.[1] || 'Participant Solution';
+  return JSON.stringify({
+    title,
+    objective: 'Deterministic structure for a participant proposal, produced by the scripted provider.',
+    approach: 'Pilot the proposal with one team, measure outcomes, then expand in stages.',
+    enablers: ['Executive sponsor'],
+    risks: ['The proposal may need more detail before rollout'],
+    expectedOutcomes: ['Measurable improvement in the target metric within one quarter'],
+    impact: { timeframe: 'quick_win', effort: 'low', confidence: 60, impactScore: 6, effortScore: 3 }
+  });
+}
+
+const scriptedRefinement = JSON.stringify({
+  title: 'Scripted Solution (refined)',
+  objective: 'Deterministic refined solution produced by the scripted provider for offline runs.',
+  approach: 'Pilot with one team behind a cost cap, measure outcomes against a baseline, then expand in stages.',
+  enablers: ['Executive sponsor', 'Pilot team', 'Baseline metrics'],
+  risks: ['Pilot results may not generalize', 'Costs may exceed the cap before results are in'],
+  expectedOutcomes: ['Measurable improvement in the target metric within one quarter'],
+  impact: { timeframe: 'quick_win', effort: 'medium', confidence: 75, impactScore: 7, effortScore: 5 },
+  changeSummary: 'Added a cost cap and baseline measurement in answer to the opponent\'s cost objection.'
+});
+
+const scriptedExpansions: Record<string, object> = {
+  implementation: {
+    phases: [
+      { name: 'Pilot', duration: '6 weeks', milestones: ['Pilot team onboarded'], deliverables: ['Pilot results report'] },
+      { name: 'Rollout', duration: '3 months', milestones: ['All teams live'], deliverables: ['Rollout playbook'] }
+    ]
+  },
+  resources: {
+    items: [
+      { category: 'people', item: 'Pilot team lead', quantity: '1 FTE' },
+      { category: 'budget', item: 'Pilot tooling', estimatedCost: '$10k one-off' }
+    ]
+  },
+  risks: {
+    entries: [
+      { risk: 'Pilot results may not generalize', likelihood: 'medium', impact: 'high', mitigation: 'Pilot with two dissimilar teams', owner: 'Programme lead' }
+    ]
+  },
+  metrics: {
+    kpis: [
+      { name: 'Cycle time', description: 'Time from request to delivery', target: '20% lower within one quarter', measurement: 'Ticket system timestamps', frequency: 'weekly' }
+    ]
+  }
+};
+
+function scriptedExpansion(request: ChatRequest): string {
+  const aspect = lastUserMessage(request).match(/Expand on the (\w+) aspect/)?.[1] || 'implementation';
+  return JSON.stringify(scriptedExpansions[aspect] || scriptedExpansions.implementation);
+}
+
+// Scores every S/C pair listed in the prompt, varying by position so rankings are not all ties
+function scriptedComparison(request: ChatRequest): string {
+  const prompt = lastUserMessage(request);
+  const solutions = prompt.match(/^S\d+\./gm) || ['S1.'];
+  const criteria = prompt.match(/^C\d+\./gm) || ['C1.'];
+  const scores = solutions.flatMap((solution, i) => criteria.map((criterion, j) => ({
+    solution: solution.slice(0, -1),
+    criterion: criterion.slice(0, -1),
+    score: 4 + ((i * 3 + j * 2) % 6),
+    rationale: 'Scripted score based on the solution\'s position in the list.'
+  })));
+  return JSON.stringify({ scores });
+}
+
+const scriptedSummary = JSON.stringify({
+  insights: 'Both sides agreed the problem is worth solving; evidence quality varied across solutions.',
+  sections: [
+    { title: 'Key Findings', points: ['Both sides agreed the problem is worth solving.'], sentiment: 'positive' },
+    { title: 'Open Concerns', points: ['Evidence quality varied across solutions.'], sentiment: 'neutral' }
+  ],
+  decisionPrompts: ['Which solution should be piloted first?'],
+  recommendedActions: ['Pilot the strongest solution with a small group.', 'Schedule a review after the first iteration.'],
+  proposedOutcome: 'pending'
+});
+
+const scriptedClaims = JSON.stringify({
+  claims: [
+    { text: 'A staged rollout reduces delivery risk.', type: 'causal' },
+    { text: 'The pilot team can start within one quarter.', type: 'prediction' }
+  ]
+});
+
+const scriptedVerdict = JSON.stringify({
+  status: 'supported',
+  confidence: 70,
+  relevance: 80,
+  analysis: 'Scripted fact check: the consulted sources back the claim for small pilots.'
+});
+
+export const defaultScriptedRules: ScriptedRule[] = [
+  { match: /distinct, innovative solutions/i, respond: scriptedSolutions },
+  { match: /into atomic claims/i, respond: scriptedClaims },
+  { match: /Structure this participant-proposed solution/i, respond: scriptedProposal },
+  { match: /Refine this solution/i, respond: scriptedRefinement },
+  { match: /Expand on the \w+ aspect/i, respond: scriptedExpansion },
+  { match: /Score these solutions against the comparison criteria/i, respond: scriptedComparison },
+  { match: /Assess this claim/i, respond: scriptedVerdict },
+  { match: /Respond with JSON/i, respond: '{"canProgress": true, "reason": "Scripted evaluation", "nextSteps": ["Continue"]}' },
+  { match: /analyze the debate history/i, respond: scriptedSummary },
+];
+
+/**
+ * Deterministic provider that never leaves the process. Responses are chosen by
+ * the first matching rule, so the full six-phase flow can run offline in tests.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  private rules: ScriptedRule[];
+  readonly calls: ChatRequest[] = [];
+
+  constructor(rules: ScriptedRule[] = defaultScriptedRules) {
+    this.rules = [...rules];
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  // Rules added later take precedence over the defaults
+  addRule(rule: ScriptedRule): void {
+    this.rules.unshift(rule);
+  }
+
+  reset(rules: ScriptedRule[] = defaultScriptedRules): void {
+    this.rules = [...rules];
+    this.calls.length = 0;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    this.calls.push(request);
+    const content = this.respond(request);
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: estimateUsage(request, content)
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const result = await this.chat(request);
+    // Emit word-sized chunks so streaming consumers see several deltas
+    for (const token of result.content.match(/\S+\s*/g) || []) {
+      onDelta(token);
+    }
+    return result;
+  }
+
+  private respond(request: ChatRequest): string {
+    const message = lastUserMessage(request);
+    for (const rule of this.rules) {
+      const matched = rule.match instanceof RegExp ? rule.match.test(message) : rule.match(request);
+      if (matched) {
+        return typeof rule.respond === 'string' ? rule.respond : rule.respond(request);
+      }
+    }
+
+    const agent = request.metadata?.agent || 'agent';
+    const topic = message.split('\n').find(line => line.trim().length > 0)?.trim() || 'the request';
+    return `Scripted ${agent} response. Research indicates that a staged rollout reduces risk for: ${topic.substring(0, 120)}`;
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  contextWindow(model: string): number {
+    return findContextWindow(this.name, model);
+  }
+
+  classifyError(): ProviderErrorKind {
+    return 'unknown';
+  }
+}
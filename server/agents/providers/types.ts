@@ -0,0 +1,138 @@
+import type { AgentMessage } from '../base-agent';
+
+// Known provider names; any other string may be registered at runtime (e.g. 'ollama')
+export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'scripted' | (string & {});
+
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'auth'
+  | 'timeout'
+  | 'content_filter'
+  | 'unavailable'
+  | 'unknown';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // true when the provider did not report usage and we fell back to char/4
+}
+
+export interface ChatRequest {
+  model: string;
+  systemPrompt: string;
+  messages: AgentMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json'; // 'json' enables the provider's JSON mode where it has one
+  metadata?: {
+    agent?: string;
+    sessionId?: string;
+    phase?: number;
+  };
+}
+
+export interface ChatResult {
+  content: string;
+  provider: ProviderName;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  isAvailable(): boolean;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  // Same as chat, but reports text deltas as they arrive
+  stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult>;
+  classifyError(error: unknown): ProviderErrorKind;
+  // Prompt size in this provider's tokens, so prompts can be fitted before sending. Uses the
+  // provider's tokenizer or token-counting API, and a character-ratio estimate if that fails.
+  countTokens(text: string, model: string): Promise<number>;
+  // Largest prompt plus completion the model accepts, in tokens
+  contextWindow(model: string): number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Approximate a tokenizer by its average characters per token on English text.
+ * Characters outside ASCII rarely share a token, so each counts as one.
+ */
+export function countTokensByRatio(text: string, charsPerToken: number): number {
+  const nonAscii = text.replace(/[\x00-\x7F]/g, '').length;
+  return Math.ceil((text.length - nonAscii) / charsPerToken) + nonAscii;
+}
+
+// Keyed by "provider/model"; "provider/*" matches any model of that provider
+export const contextWindows: Record<string, number> = {
+  'openai/gpt-4o': 128000,
+  'openai/gpt-4o-mini': 128000,
+  'openai/*': 128000,
+  'anthropic/*': 200000,
+  'gemini/gemini-1.5-pro': 2000000,
+  'gemini/gemini-1.5-flash': 1000000,
+  'gemini/*': 1000000,
+  'scripted/*': 128000,
+};
+
+// Conservative default for unknown and self-hosted models, whose context is often configured small
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export function findContextWindow(provider: ProviderName, model: string): number {
+  return contextWindows[`${provider}/${model}`] ?? contextWindows[`${provider}/*`] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+export function estimateUsage(request: ChatRequest, content: string): TokenUsage {
+  const input = request.systemPrompt + request.messages.map(m => m.content).join('\n');
+  return {
+    inputTokens: estimateTokens(input),
+    outputTokens: estimateTokens(content),
+    estimated: true
+  };
+}
+
+// Shared classification for SDK errors that expose an HTTP status and/or a message
+export function classifyHttpError(error: unknown): ProviderErrorKind {
+  if (!error || typeof error !== 'object') {
+    return 'unknown';
+  }
+
+  const err = error as { status?: number; code?: string; name?: string; message?: string };
+  const message = (err.message || '').toLowerCase();
+
+  if (err.status === 429 || message.includes('rate limit') || message.includes('quota')) {
+    return 'rate_limit';
+  }
+  if (err.status === 401 || err.status === 403 || message.includes('api key')) {
+    return 'auth';
+  }
+  if (
+    err.status === 408 ||
+    err.code === 'ETIMEDOUT' ||
+    err.name === 'AbortError' ||
+    (err.name || '').includes('Timeout') ||
+    message.includes('timed out') ||
+    message.includes('timeout')
+  ) {
+    return 'timeout';
+  }
+  if (
+    message.includes('content_filter') ||
+    message.includes('content filter') ||
+    message.includes('safety') ||
+    message.includes('blocked')
+  ) {
+    return 'content_filter';
+  }
+  if (
+    (err.status !== undefined && err.status >= 500) ||
+    err.code === 'ECONNREFUSED' ||
+    err.code === 'ENOTFOUND' ||
+    message.includes('overloaded')
+  ) {
+    return 'unavailable';
+  }
+  return 'unknown';
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export { PerplexityResearchProvider } from './perplexity-provider';
+export { OpenAISearchResearchProvider, type OpenAISearchProviderOptions } from './openai-search-provider';
+export { LocalCorpusResearchProvider } from './local-corpus-provider';
+export { MockResearchProvider } from './mock-provider';
+export { ResearchRegistry, createDefaultResearchRegistry, researchRegistry } from './registry';
+export { ResearchService, type ClaimResearch, type TrendResearch } from './research-service';
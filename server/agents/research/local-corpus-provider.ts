@@ -0,0 +1,43 @@
+import { storage } from '../../storage';
+import { queryTerms } from '../../services/context-retriever';
+import {
+  ResearchProvider, ResearchProviderKind, ResearchQuery, ResearchResult, SearchResult,
+  researchProfiles
+} from './types';
+
+/**
+ * Offline full-text search over the session's indexed grounding materials. Needs
+ * no API key, so it always runs; a session without documents simply yields no sources.
+ */
+export class LocalCorpusResearchProvider implements ResearchProvider {
+  readonly name = 'local-corpus';
+  readonly kind: ResearchProviderKind = 'corpus';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async search(query: ResearchQuery): Promise<ResearchResult> {
+    const matches = query.scope.sessionId
+      ? await storage.searchGroundingChunks(query.scope.sessionId, queryTerms(query.terms), researchProfiles[query.mode].maxSources)
+      : [];
+
+    const sources: SearchResult[] = matches.map(match => ({
+      title: match.page ? `${match.documentName}, p. ${match.page}` : match.documentName,
+      snippet: match.content,
+      url: match.documentUrl || '',
+      source: match.documentName,
+      documentId: match.documentId,
+      chunkId: match.id,
+      page: match.page
+    }));
+
+    console.log(`📚 Local corpus: ${sources.length} passages for "${query.terms.substring(0, 60)}"`);
+    return {
+      content: sources.map((s, i) => `[${i + 1}] ${s.title}: ${s.snippet}`).join('\n\n'),
+      sources,
+      provider: this.name,
+      kind: this.kind
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { ResearchProvider, ResearchProviderKind, ResearchQuery, ResearchResult } from './types';
+
+/**
+ * Placeholder results for development without any search backend. Results are
+ * flagged as mock so they are never cited or stored as evidence.
+ */
+export class MockResearchProvider implements ResearchProvider {
+  readonly name = 'mock';
+  readonly kind: ResearchProviderKind = 'mock';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async search(query: ResearchQuery): Promise<ResearchResult> {
+    console.log(`Using mock search results for: ${query.terms}`);
+    const sources = [
+      {
+        title: `Research findings on: ${query.terms}`,
+        snippet: `Recent studies and market analysis show significant trends related to ${query.terms}. Key factors include implementation challenges, success metrics, and strategic considerations.`,
+        url: '',
+        source: 'Research Database (Mock)'
+      },
+      {
+        title: `Industry analysis: ${query.terms}`,
+        snippet: `Market data indicates growing interest in ${query.terms} with measurable impacts on operational efficiency and strategic outcomes.`,
+        url: '',
+        source: 'Industry Reports (Mock)'
+      }
+    ];
+
+    return {
+      content: sources.map(s => `${s.source}: ${s.snippet}`).join('\n\n'),
+      sources,
+      provider: this.name,
+      kind: this.kind
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { OpenAI } from 'openai';
+import { usageLedger } from '../../services/usage-ledger';
+import {
+  ResearchProvider, ResearchProviderKind, ResearchProviderName, ResearchQuery, ResearchResult, SearchResult,
+  researchProfiles, citationsToSources
+} from './types';
+
+export interface OpenAISearchProviderOptions {
+  name?: ResearchProviderName;
+  model?: string;
+  apiKey?: string;
+  baseURL?: string; // Unset means OpenAI itself, where web_search_options is sent
+}
+
+// Compatible servers that copy Perplexity's response shape put citations at the top level
+type SearchCompletion = OpenAI.Chat.Completions.ChatCompletion & { citations?: string[] };
+
+/**
+ * Any OpenAI-compatible chat model that searches the web while answering,
+ * e.g. OpenAI's search-preview models or a self-hosted search-augmented model.
+ */
+export class OpenAISearchResearchProvider implements ResearchProvider {
+  readonly name: ResearchProviderName;
+  readonly kind: ResearchProviderKind = 'web';
+  private client: OpenAI | null = null;
+
+  constructor(private options: OpenAISearchProviderOptions = {}) {
+    this.name = options.name || 'openai-search';
+  }
+
+  isAvailable(): boolean {
+    return !!this.options.model && (!!this.options.apiKey || !!this.options.baseURL);
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.isAvailable()) {
+        throw new Error(`${this.name} research provider is not configured`);
+      }
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey || 'not-needed',
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  private extractSources(completion: SearchCompletion, limit: number): SearchResult[] {
+    const annotations = completion.choices[0]?.message?.annotations || [];
+    const cited = annotations
+      .filter(a => a.type === 'url_citation')
+      .map(a => a.url_citation);
+
+    if (cited.length === 0) {
+      return citationsToSources(completion.citations || [], limit);
+    }
+
+    const seen = new Set<string>();
+    return cited
+      .filter(c => !seen.has(c.url) && seen.add(c.url))
+      .slice(0, limit)
+      .map(c => {
+        const domain = citationsToSources([c.url], 1)[0]?.source || c.url;
+        return { title: c.title || domain, snippet: '', url: c.url, source: domain };
+      });
+  }
+
+  async search(query: ResearchQuery): Promise<ResearchResult> {
+    const profile = researchProfiles[query.mode];
+    const model = this.options.model!;
+    const startTime = Date.now();
+
+    const completion = await this.getClient().chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: query.systemPrompt },
+        { role: 'user', content: query.prompt }
+      ],
+      max_tokens: profile.maxTokens,
+      ...(!this.options.baseURL && { web_search_options: { search_context_size: query.mode === 'deep' ? 'high' as const : 'medium' as const } })
+    }) as SearchCompletion;
+
+    await usageLedger.record({
+      ...query.scope,
+      service: 'search',
+      provider: this.name,
+      model: completion.model || model,
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens,
+      estimated: !completion.usage,
+      latencyMs: Date.now() - startTime
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      sources: this.extractSources(completion, profile.maxSources),
+      provider: this.name,
+      kind: this.kind
+    };
+  }
+}
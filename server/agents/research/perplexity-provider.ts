@@ -0,0 +1,95 @@
+import { usageLedger } from '../../services/usage-ledger';
+import {
+  ResearchProvider, ResearchProviderKind, ResearchQuery, ResearchResult,
+  researchProfiles, citationsToSources
+} from './types';
+
+interface PerplexityResponse {
+  id: string;
+  model: string;
+  object: string;
+  created: number;
+  citations: string[];
+  choices: Array<{
+    index: number;
+    finish_reason: string;
+    message: {
+      role: string;
+      content: string;
+    };
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Perplexity's online models: answers come with the URLs they were grounded on.
+ */
+export class PerplexityResearchProvider implements ResearchProvider {
+  readonly name = 'perplexity';
+  readonly kind: ResearchProviderKind = 'web';
+  private readonly baseUrl = 'https://api.perplexity.ai/chat/completions';
+  private readonly model = 'llama-3.1-sonar-small-128k-online';
+
+  constructor(private apiKey: string | undefined = process.env.PERPLEXITY_API_KEY) {}
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  async search(query: ResearchQuery): Promise<ResearchResult> {
+    if (!this.apiKey) {
+      throw new Error('Perplexity API key not available');
+    }
+
+    const profile = researchProfiles[query.mode];
+    const startTime = Date.now();
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: query.systemPrompt },
+          { role: 'user', content: query.prompt }
+        ],
+        max_tokens: profile.maxTokens,
+        temperature: 0.2,
+        top_p: 0.9,
+        search_recency_filter: profile.recency,
+        return_images: false,
+        return_related_questions: false,
+        stream: false
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Perplexity API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: PerplexityResponse = await response.json();
+    console.log(`Perplexity API usage: ${data.usage.total_tokens} tokens`);
+    await usageLedger.record({
+      ...query.scope,
+      service: 'search',
+      provider: 'perplexity',
+      model: data.model || this.model,
+      inputTokens: data.usage.prompt_tokens,
+      outputTokens: data.usage.completion_tokens,
+      latencyMs: Date.now() - startTime
+    });
+
+    return {
+      content: data.choices[0]?.message?.content || '',
+      sources: citationsToSources(data.citations || [], profile.maxSources),
+      provider: this.name,
+      kind: this.kind
+    };
+  }
+}
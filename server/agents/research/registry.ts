@@ -0,0 +1,84 @@
+import type { ResearchStatus } from '@shared/research';
+import { ResearchProvider, ResearchProviderName } from './types';
+import { PerplexityResearchProvider } from './perplexity-provider';
+import { OpenAISearchResearchProvider } from './openai-search-provider';
+import { LocalCorpusResearchProvider } from './local-corpus-provider';
+import { MockResearchProvider } from './mock-provider';
+
+const DEFAULT_ORDER: ResearchProviderName[] = ['perplexity', 'openai-search', 'local-corpus'];
+
+export class ResearchRegistry {
+  private providers = new Map<ResearchProviderName, ResearchProvider>();
+
+  // Providers are tried in this order; mock is never part of it
+  constructor(private order: ResearchProviderName[] = DEFAULT_ORDER) {}
+
+  register(provider: ResearchProvider): void {
+    if (this.providers.has(provider.name)) {
+      console.log(`🔁 Research registry: replacing provider "${provider.name}"`);
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  has(name: ResearchProviderName): boolean {
+    return this.providers.has(name);
+  }
+
+  get(name: ResearchProviderName): ResearchProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown research provider: ${name}. Registered: ${this.list().join(', ')}`);
+    }
+    return provider;
+  }
+
+  list(): ResearchProviderName[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Available providers in search order, excluding mock
+   */
+  ordered(): ResearchProvider[] {
+    return this.order
+      .map(name => this.providers.get(name))
+      .filter((p): p is ResearchProvider => !!p && p.kind !== 'mock' && p.isAvailable());
+  }
+
+  status(): ResearchStatus {
+    const providers = Array.from(this.providers.values()).map(p => ({
+      name: p.name,
+      kind: p.kind,
+      available: p.isAvailable()
+    }));
+    const liveSearch = this.ordered().some(p => p.kind === 'web');
+
+    return {
+      providers,
+      order: this.ordered().map(p => p.name),
+      liveSearch,
+      mockInUse: !liveSearch && this.has('mock')
+    };
+  }
+}
+
+export function createDefaultResearchRegistry(): ResearchRegistry {
+  const order = process.env.RESEARCH_PROVIDERS
+    ? process.env.RESEARCH_PROVIDERS.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_ORDER;
+  const registry = new ResearchRegistry(order);
+
+  registry.register(new PerplexityResearchProvider());
+  registry.register(new OpenAISearchResearchProvider({
+    model: process.env.SEARCH_MODEL,
+    apiKey: process.env.SEARCH_MODEL_API_KEY || (process.env.SEARCH_MODEL_BASE_URL ? undefined : process.env.OPENAI_API_KEY),
+    baseURL: process.env.SEARCH_MODEL_BASE_URL,
+  }));
+  registry.register(new LocalCorpusResearchProvider());
+  registry.register(new MockResearchProvider());
+
+  return registry;
+}
+
+// Singleton instance
+export const researchRegistry = createDefaultResearchRegistry();
@@ -0,0 +1,133 @@
+import type { EvidenceProvenance } from '@shared/schema';
+import type { UsageScope } from '../../services/usage-ledger';
+import { ResearchQuery, ResearchResult, ResearchMode, ResearchProviderName, SearchResult } from './types';
+import { ResearchRegistry, researchRegistry } from './registry';
+
+// What a fact-check search turned up and where it came from
+export interface ClaimResearch {
+  findings: string;
+  sources: SearchResult[];
+  confidence: number; // 0-100, from how many sources back the findings
+  provenance: EvidenceProvenance;
+  provider: ResearchProviderName | null; // null when no backend answered
+  retrievedAt: string;
+}
+
+export interface TrendResearch {
+  trends: string[];
+  sources: SearchResult[];
+  mock: boolean; // Placeholder results: never cite or store them
+}
+
+export class ResearchService {
+  private registry: ResearchRegistry;
+
+  constructor(registry: ResearchRegistry = researchRegistry) {
+    this.registry = registry;
+  }
+
+  /**
+   * Ask each available backend in order and keep the first answer that cites sources.
+   * A backend that fails is logged and skipped; an uncited answer is kept as a fallback.
+   */
+  private async search(query: ResearchQuery): Promise<{ cited: ResearchResult | null; uncited: ResearchResult | null }> {
+    let uncited: ResearchResult | null = null;
+
+    for (const provider of this.registry.ordered()) {
+      try {
+        const result = await provider.search(query);
+        if (result.sources.length > 0) {
+          return { cited: result, uncited };
+        }
+        if (!uncited && result.content.trim()) {
+          uncited = result;
+        }
+      } catch (error) {
+        console.error(`❌ Research: ${provider.name} failed, trying the next backend`, error);
+      }
+    }
+
+    return { cited: null, uncited };
+  }
+
+  async gatherEvidence(claim: string, scope: UsageScope = {}, mode: ResearchMode = 'quick'): Promise<ClaimResearch> {
+    const retrievedAt = new Date().toISOString();
+    console.log(`Gathering evidence for claim: ${claim}`);
+
+    const { cited, uncited } = await this.search({
+      prompt: `Fact-check this claim with supporting evidence and analysis: "${claim}". Provide specific data, studies, and credible sources.`,
+      systemPrompt: 'You are a fact-checker. Analyze claims objectively with supporting evidence from credible sources.',
+      terms: claim,
+      mode,
+      scope
+    });
+
+    if (cited) {
+      return {
+        findings: cited.content,
+        sources: cited.sources,
+        confidence: cited.sources.length > 2 ? 90 : 75,
+        provenance: cited.kind === 'corpus' ? 'local_corpus' : 'web_search',
+        provider: cited.provider,
+        retrievedAt
+      };
+    }
+
+    if (uncited) {
+      return {
+        findings: uncited.content,
+        sources: [],
+        confidence: 60,
+        provenance: 'model_knowledge',
+        provider: uncited.provider,
+        retrievedAt
+      };
+    }
+
+    // No invented sources: the verdict rests on what the model already knows
+    return {
+      findings: 'No live search was available. Judge the claim from general knowledge only and say that no sources were consulted.',
+      sources: [],
+      confidence: 40,
+      provenance: 'model_knowledge',
+      provider: null,
+      retrievedAt
+    };
+  }
+
+  async researchTrends(topic: string, scope: UsageScope = {}, mode: ResearchMode = 'quick'): Promise<TrendResearch> {
+    console.log(`Researching trends for: ${topic}`);
+    const query: ResearchQuery = {
+      prompt: `Analyze current market trends, developments, and future outlook for: ${topic}. Focus on 2024-2025 data and recent changes in the industry.`,
+      systemPrompt: 'You are a market analyst. Provide current trend analysis with specific data points and recent market developments.',
+      terms: topic,
+      mode,
+      scope
+    };
+    const { cited, uncited } = await this.search(query);
+    const result = cited || uncited;
+
+    if (result) {
+      // Extract trend points from the content; an answer without any yields none rather than invented ones
+      const trendLines = result.content.split('\n').filter(line =>
+        line.includes('trend') || line.includes('growth') || line.includes('increase') ||
+        line.includes('adoption') || line.includes('market') || line.match(/^\d+\./)
+      );
+
+      return { trends: trendLines.slice(0, 4), sources: result.sources, mock: false };
+    }
+
+    console.warn(`⚠️ Research: no backend answered for "${topic}", using mock trends`);
+    const mock = await this.registry.get('mock').search(query);
+    return {
+      trends: [
+        `Growing adoption of ${topic} across multiple industries`,
+        `Increased investment in ${topic} solutions`,
+        `Emerging regulatory frameworks affecting ${topic}`,
+        `Technology advances enabling better ${topic} implementation`
+      ],
+      sources: mock.sources,
+      mock: true
+    };
+  }
+}
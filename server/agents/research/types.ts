@@ -0,0 +1,63 @@
+import type { SessionConfig } from '@shared/schema';
+import type { ResearchProviderKind } from '@shared/research';
+import type { UsageScope } from '../../services/usage-ledger';
+
+export type { ResearchProviderKind };
+
+// Known research backends; any other string may be registered at runtime
+export type ResearchProviderName = 'perplexity' | 'openai-search' | 'local-corpus' | 'mock' | (string & {});
+
+export type ResearchMode = SessionConfig['researchMode'];
+
+export interface SearchResult {
+  title: string;
+  snippet: string;
+  url: string;
+  source: string;
+  // Set for passages from the session's grounding materials
+  documentId?: string;
+  chunkId?: string;
+  page?: number | null;
+}
+
+export interface ResearchQuery {
+  prompt: string; // What to research, phrased for a search model
+  systemPrompt: string;
+  terms: string; // The bare topic or claim, used for keyword matching
+  mode: ResearchMode;
+  scope: UsageScope;
+}
+
+export interface ResearchResult {
+  content: string;
+  sources: SearchResult[];
+  provider: ResearchProviderName;
+  kind: ResearchProviderKind;
+}
+
+export interface ResearchProvider {
+  readonly name: ResearchProviderName;
+  readonly kind: ResearchProviderKind;
+  isAvailable(): boolean;
+  search(query: ResearchQuery): Promise<ResearchResult>;
+}
+
+// Per research mode: quick favours fresh, short answers; deep looks back further
+export const researchProfiles: Record<ResearchMode, { recency: 'month' | 'year'; maxTokens: number; maxSources: number }> = {
+  quick: { recency: 'month', maxTokens: 1000, maxSources: 3 },
+  deep: { recency: 'year', maxTokens: 2000, maxSources: 6 },
+};
+
+// One source per citation, titled by domain; citations that are not valid URLs are dropped
+export function citationsToSources(citations: string[], limit: number): SearchResult[] {
+  const sources: SearchResult[] = [];
+  for (const citation of citations.slice(0, limit)) {
+    try {
+      const domain = new URL(citation).hostname.replace('www.', '');
+      sources.push({ title: domain, snippet: '', url: citation, source: domain });
+    } catch (urlError) {
+      console.warn('Invalid URL in citations:', citation);
+    }
+  }
+  return sources;
+}
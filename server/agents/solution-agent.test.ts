@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FakeProvider } from '../test/fake-provider';
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+const { storage } = await import('../storage');
+const { providerRegistry } = await import('./providers');
+const { SolutionAgent } = await import('./solution-agent');
+
+const solution = (n: number) => ({
+  title: `Solution ${n}`,
+  objective: 'Shorten onboarding',
+  approach: 'Pair every new engineer with a buddy',
+  enablers: ['Buddy time in sprint plans'],
+  risks: ['Buddies lose focus time'],
+  expectedOutcomes: ['First merged change within a week'],
+  impact: { timeframe: 'quick_win', effort: 'low', confidence: 70, impactScore: 6, effortScore: 3 }
+});
+const solutionSet = (count: number) => JSON.stringify({ solutions: Array.from({ length: count }, (_, i) => solution(i + 1)) });
+
+describe('SolutionAgent.generateSolutions', () => {
+  it('asks again until the reply has exactly the requested number of solutions', async () => {
+    const openai = new FakeProvider('openai').reply(solutionSet(4), solutionSet(2));
+    providerRegistry.register(openai);
+    const session = await storage.createSession({ title: 'Solutions' });
+
+    const result = await new SolutionAgent().generateSolutions('Onboarding takes too long', { sessionId: session.id, phase: 3 }, 2);
+
+    expect(result.data.map(s => s.title)).toEqual(['Solution 1', 'Solution 2']);
+    expect(openai.calls).toHaveLength(2);
+    const repair = openai.calls[1].messages[openai.calls[1].messages.length - 1].content;
+    expect(repair).toContain('solutions: Array must contain exactly 2 element(s)');
+  });
+});
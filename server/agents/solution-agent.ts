@@ -1,7 +1,25 @@
-import { BaseAgent, AgentProvider, AgentMessage, AgentContext } from './base-agent';
+import { z, type ZodType } from 'zod';
+import { BaseAgent, AgentProvider, AgentContext, StructuredResult } from './base-agent';
+import {
+  generatedSolutionSchema, refinedSolutionSchema, solutionExpansionContentSchemas, proposedComparisonScoresSchema,
+  type GeneratedSolution, type RefinedSolution, type Solution, type SolutionFeedback,
+  type ExpansionAspect, type SolutionExpansionContents, type ComparisonCriterion, type ProposedComparisonScores,
+  type ParticipantSolutionRequest
+} from '@shared/schema';
+
+// A reply with more or fewer solutions than requested goes back for repair like any other invalid output
+const solutionSetSchema = (count: number) => z.object({
+  solutions: z.array(generatedSolutionSchema).length(count)
+});
 
 export class SolutionAgent extends BaseAgent {
-  constructor(provider: AgentProvider = { name: 'openai', model: 'gpt-4o' }) {
+  constructor(
+    provider: AgentProvider = { name: 'openai', model: 'gpt-4o' },
+    fallbacks: AgentProvider[] = [
+      { name: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+      { name: 'gemini', model: 'gemini-1.5-pro' }
+    ]
+  ) {
     const systemPrompt = `You are the SOLUTION agent in an AI Think Tank debate system. Your role is to:
 
 CORE RESPONSIBILITIES:
@@ -35,7 +53,7 @@ COMMUNICATION STYLE:
 
 You create solutions that are both visionary and executable, ensuring they can progress from concept to implementation.`;
 
-    super(provider, 'solution', systemPrompt);
+    super(provider, 'solution', systemPrompt, fallbacks);
   }
 
   getName(): string {
@@ -46,67 +64,229 @@ You create solutions that are both visionary and executable, ensuring they can p
     return 'Generates innovative, practical solutions using design thinking and creative problem-solving frameworks';
   }
 
-  async generateSolutions(problemStatement: string, context: AgentContext, count: number = 3): Promise<AgentMessage[]> {
+  /**
+   * Generate solutions as schema-validated JSON. Invalid output is repaired by
+   * re-prompting (see generateStructured); nothing is filled in with defaults.
+   */
+  async generateSolutions(problemStatement: string, context: AgentContext, count: number = 3): Promise<StructuredResult<GeneratedSolution[]>> {
     const generationPrompt = `Generate ${count} distinct, innovative solutions for this problem:
 
 PROBLEM: ${problemStatement}
 
-For each solution, provide:
-1. TITLE: Clear, compelling name
-2. SUMMARY: One-sentence value proposition  
-3. APPROACH: Core methodology and key steps
-4. IMPLEMENTATION: Practical path to execution
-5. IMPACT: Expected outcomes and success metrics
-6. CONSIDERATIONS: Key constraints and risks
+Make each solution meaningfully different in approach, timeline, or focus area.
+
+Respond with a single JSON object of this shape and nothing else:
+{
+  "solutions": [
+    {
+      "title": "Clear, compelling name",
+      "objective": "One-sentence value proposition",
+      "approach": "Core methodology, key steps and practical path to execution",
+      "enablers": ["Resources, capabilities or conditions the solution depends on"],
+      "risks": ["Key constraints and risks"],
+      "expectedOutcomes": ["Concrete, measurable outcomes"],
+      "impact": {
+        "timeframe": "quick_win" | "longer_term",
+        "effort": "low" | "medium" | "high",
+        "confidence": 0-100,
+        "impactScore": 1-10 (how far it moves the problem; 1 marginal, 10 transformative),
+        "effortScore": 1-10 (cost and effort to deliver; 1 trivial, 10 major programme)
+      }
+    }
+  ]
+}
+
+Every list needs at least one specific entry for that solution; do not use generic placeholders.`;
+
+    const result = await this.generateStructured(generationPrompt, solutionSetSchema(count), context);
+    return { data: result.data.solutions, message: result.message };
+  }
+
+  /**
+   * Turn a participant's proposal into the full solution structure. The author's
+   * wording is kept; the agent only fills in the parts the author left out and
+   * estimates impact the same way as for generated solutions.
+   */
+  async structureProposal(proposal: ParticipantSolutionRequest, problemStatement: string, context: AgentContext): Promise<StructuredResult<GeneratedSolution>> {
+    const provided = (label: string, value?: string | string[]) => {
+      if (Array.isArray(value) ? !value.length : !value) return `${label}: (not given)`;
+      return Array.isArray(value) ? `${label}:\n${value.map(item => `- ${item}`).join('\n')}` : `${label}: ${value}`;
+    };
+
+    const structurePrompt = `Structure this participant-proposed solution for the problem:
+
+PROBLEM: ${problemStatement}
+
+TITLE: ${proposal.title}
+DESCRIPTION: ${proposal.description}
+${provided('OBJECTIVE', proposal.objective)}
+${provided('APPROACH', proposal.approach)}
+${provided('ENABLERS', proposal.enablers)}
+${provided('RISKS', proposal.risks)}
+${provided('EXPECTED OUTCOMES', proposal.expectedOutcomes)}
+
+Keep the author's title and wording: copy every field they gave as written, and build the missing fields from their description, reusing their phrasing wherever it fits. Do not change the idea, add features they did not propose, or judge it; the debate will do that. Estimate impact as you would for your own solutions.
 
-Make each solution meaningfully different in approach, timeline, or focus area.`;
+Respond with a single JSON object of this shape and nothing else:
+{
+  "title": "The author's title",
+  "objective": "One-sentence value proposition",
+  "approach": "Core methodology, key steps and practical path to execution",
+  "enablers": ["Resources, capabilities or conditions the solution depends on"],
+  "risks": ["Key constraints and risks"],
+  "expectedOutcomes": ["Concrete, measurable outcomes"],
+  "impact": {
+    "timeframe": "quick_win" | "longer_term",
+    "effort": "low" | "medium" | "high",
+    "confidence": 0-100,
+    "impactScore": 1-10 (how far it moves the problem; 1 marginal, 10 transformative),
+    "effortScore": 1-10 (cost and effort to deliver; 1 trivial, 10 major programme)
+  }
+}`;
 
-    const response = await this.processMessage(generationPrompt, context);
-    return [response];
+    return this.generateStructured(structurePrompt, generatedSolutionSchema, context);
   }
 
-  async refineSolution(solutionId: string, feedback: string, context: AgentContext): Promise<AgentMessage> {
-    const refinementPrompt = `Refine the solution based on this feedback:
+  /**
+   * Produce the next version of `solution`, answering the arguments it lost, its
+   * contested claims and participants' questions. Returns the full revised solution
+   * plus a summary of what changed.
+   */
+  async refineSolution(solution: Solution, feedback: SolutionFeedback, context: AgentContext): Promise<StructuredResult<RefinedSolution>> {
+    const list = (items: string[]) => items.length ? items.map(item => `- ${item}`).join('\n') : '- None';
+
+    const refinementPrompt = `Refine this solution using the feedback from its debate:
+
+CURRENT SOLUTION (version ${solution.version}):
+${JSON.stringify({
+  title: solution.title,
+  objective: solution.objective,
+  approach: solution.approach,
+  enablers: solution.enablers,
+  risks: solution.risks,
+  expectedOutcomes: solution.expectedOutcomes,
+  impact: solution.impact
+}, null, 2)}
 
-FEEDBACK: ${feedback}
+ROUNDS THE SOLUTION LOST:
+${list(feedback.lostRounds.map(r => `Round ${r.round}: the proponent argued "${r.proponent}" but the opponent prevailed with "${r.opponent}"`))}
 
-Please provide an improved version that addresses the feedback while maintaining the solution's core value proposition. Focus on:
-- Addressing specific concerns raised
-- Strengthening weak areas identified
-- Adding missing implementation details
-- Improving feasibility and practicality`;
+UNRESOLVED OBJECTIONS:
+${list(feedback.objections)}
 
-    return this.processMessage(refinementPrompt, context);
+CONTESTED OR REFUTED CLAIMS:
+${list(feedback.contestedClaims.map(c => `${c.text} (${c.status})`))}
+
+PARTICIPANT QUESTIONS:
+${list(feedback.questions)}
+${feedback.guidance ? `\nFACILITATOR GUIDANCE: ${feedback.guidance}\n` : ''}
+Keep the solution's core value proposition. Address the objections that won, drop or qualify refuted claims, answer the questions where the plan can, and add the implementation detail that was missing.
+
+Respond with a single JSON object of this shape and nothing else:
+{
+  "title": "Title, changed only if the solution changed materially",
+  "objective": "One-sentence value proposition",
+  "approach": "Revised methodology, key steps and practical path to execution",
+  "enablers": ["Resources, capabilities or conditions the solution depends on"],
+  "risks": ["Key constraints and risks, including any the debate exposed"],
+  "expectedOutcomes": ["Concrete, measurable outcomes"],
+  "impact": {
+    "timeframe": "quick_win" | "longer_term",
+    "effort": "low" | "medium" | "high",
+    "confidence": 0-100,
+    "impactScore": 1-10 (how far it moves the problem; 1 marginal, 10 transformative),
+    "effortScore": 1-10 (cost and effort to deliver; 1 trivial, 10 major programme)
+  },
+  "changeSummary": "Two to four sentences on what changed and which feedback each change answers"
+}`;
+
+    return this.generateStructured(refinementPrompt, refinedSolutionSchema, context);
   }
 
-  async expandSolution(solutionId: string, aspect: 'implementation' | 'resources' | 'risks' | 'metrics', context: AgentContext): Promise<AgentMessage> {
-    const aspectPrompts = {
-      implementation: "Provide a detailed implementation roadmap with phases, milestones, and key deliverables",
-      resources: "Detail the resources needed including team, budget, tools, and external dependencies", 
-      risks: "Identify potential risks, challenges, and mitigation strategies",
-      metrics: "Define success metrics, KPIs, and validation methods to measure solution effectiveness"
+  /**
+   * Work one aspect of a solution out into planning detail: roadmap phases,
+   * resource line items, a risk register or KPIs, as schema-validated JSON
+   */
+  async expandSolution<A extends ExpansionAspect>(solution: Solution, aspect: A, context: AgentContext): Promise<StructuredResult<SolutionExpansionContents[A]>> {
+    const aspectPrompts: Record<ExpansionAspect, { task: string; shape: string }> = {
+      implementation: {
+        task: 'Provide a detailed implementation roadmap with phases, milestones, and key deliverables',
+        shape: `{
+  "phases": [
+    { "name": "Phase name", "duration": "e.g. 6 weeks", "milestones": ["Checkpoint that ends the phase"], "deliverables": ["Concrete output"] }
+  ]
+}`
+      },
+      resources: {
+        task: 'Detail the resources needed including team, budget, tools, and external dependencies',
+        shape: `{
+  "items": [
+    { "category": "people" | "budget" | "tools" | "external", "item": "What is needed", "quantity": "e.g. 2 FTE", "estimatedCost": "e.g. $40k one-off", "notes": "Optional detail" }
+  ]
+}`
+      },
+      risks: {
+        task: 'Identify potential risks, challenges, and mitigation strategies as a risk register',
+        shape: `{
+  "entries": [
+    { "risk": "What could go wrong", "likelihood": "low" | "medium" | "high", "impact": "low" | "medium" | "high", "mitigation": "How to prevent or contain it", "owner": "Responsible role" }
+  ]
+}`
+      },
+      metrics: {
+        task: 'Define success metrics, KPIs, and validation methods to measure solution effectiveness',
+        shape: `{
+  "kpis": [
+    { "name": "KPI name", "description": "What it shows", "target": "Target value and date", "measurement": "How and from which data it is measured", "frequency": "e.g. weekly" }
+  ]
+}`
+      }
     };
 
     const expandPrompt = `Expand on the ${aspect} aspect of this solution:
 
-${aspectPrompts[aspect]}
+SOLUTION: ${solution.title}
+OBJECTIVE: ${solution.objective}
+APPROACH: ${solution.approach}
+ENABLERS: ${solution.enablers.join('; ')}
+RISKS: ${solution.risks.join('; ')}
+EXPECTED OUTCOMES: ${solution.expectedOutcomes.join('; ')}
 
-Provide comprehensive details that would help stakeholders understand what's required for successful execution.`;
+${aspectPrompts[aspect].task}. Be specific to this solution and reflect what its debate established, so a team can plan from it directly.
 
-    return this.processMessage(expandPrompt, context);
+Respond with a single JSON object of this shape and nothing else:
+${aspectPrompts[aspect].shape}`;
+
+    const schema = solutionExpansionContentSchemas[aspect] as unknown as ZodType<SolutionExpansionContents[A]>;
+    return this.generateStructured(expandPrompt, schema, context);
   }
 
-  async compareSolutions(solutions: string[], criteria: string[], context: AgentContext): Promise<AgentMessage> {
-    const comparisonPrompt = `Compare these solutions across the specified criteria:
+  /**
+   * Score each solution on each weighted criterion, 1-10 with a one-line rationale.
+   * Solutions and criteria are labelled S1.. and C1.. in the prompt and the reply.
+   */
+  async compareSolutions(solutions: Solution[], criteria: ComparisonCriterion[], context: AgentContext): Promise<StructuredResult<ProposedComparisonScores>> {
+    const comparisonPrompt = `Score these solutions against the comparison criteria:
 
 SOLUTIONS:
-${solutions.map((s, i) => `${i + 1}. ${s}`).join('\n')}
+${solutions.map((s, i) => `S${i + 1}. ${s.title}
+   Objective: ${s.objective}
+   Approach: ${s.approach}
+   Risks: ${s.risks.join('; ')}
+   Impact: ${JSON.stringify(s.impact)}`).join('\n')}
+
+CRITERIA:
+${criteria.map((c, i) => `C${i + 1}. ${c.name} (weight ${c.weight})${c.description ? ` - ${c.description}` : ''}`).join('\n')}
 
-COMPARISON CRITERIA:
-${criteria.map(c => `- ${c}`).join('\n')}
+Score every solution on every criterion from 1 (poor) to 10 (excellent), where a higher score is always better for the session: a cheaper solution scores higher on cost, a less risky one higher on risk. Ground the scores in the solutions' details and what their debates established, and keep them comparable across solutions.
 
-Provide a structured comparison matrix and recommend the most promising solution(s) with clear reasoning.`;
+Respond with a single JSON object of this shape and nothing else:
+{
+  "scores": [
+    { "solution": "S1", "criterion": "C1", "score": 1-10, "rationale": "One sentence explaining the score" }
+  ]
+}`;
 
-    return this.processMessage(comparisonPrompt, context);
+    return this.generateStructured(comparisonPrompt, proposedComparisonScoresSchema, context);
   }
 }
\ No newline at end of file
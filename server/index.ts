@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./services/job-queue";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +68,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Resume jobs interrupted by a restart and start processing new ones
+    jobQueue.start().catch(error => {
+      console.error("Failed to start job queue:", error);
+    });
   });
 })();
@@ -3,15 +3,34 @@ import { createServer, type Server } from "http";
 import session from "express-session";
 import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { orchestrator } from "./agents/orchestrator";
+import { orchestrator, type OrchestrationResult } from "./agents/orchestrator";
+import { debateEngine } from "./agents/enhanced-debate-engine";
+import { researchRegistry } from "./agents/research";
+import { groundingIngestion } from "./services/grounding-ingestion";
+import { detectDocumentKind, MAX_DOCUMENT_BYTES } from "./services/document-text";
 import { getVoiceService, AudioGenerationRequestSchema } from "./services/voice-service";
+import { jobQueue } from "./services/job-queue";
+import { usageLedger } from "./services/usage-ledger";
+import { getBudgetStatus, BudgetExceededError } from "./services/budget";
+import { solutionRefinement } from "./services/solution-refinement";
+import { solutionExpander } from "./services/solution-expansion";
+import { solutionComparison } from "./services/solution-comparison";
+import { participantSolutions } from "./services/participant-solutions";
 import { 
   insertSessionSchema, insertProblemSchema, insertSolutionSchema, 
   insertDebatePointSchema, insertEvidenceSchema, insertQuestionSchema,
   insertSummarySchema, insertVoteSchema, updateSessionSchema,
-  insertUserSchema 
+  insertUserSchema, submitJobSchema, sessionConfigSchema, debateInstructionRequestSchema,
+  participantArgumentSchema, groundingLinkRequestSchema, refineSolutionRequestSchema, expansionAspectSchema,
+  comparisonCriteriaRequestSchema, comparisonScoreRequestSchema, solutionImpactOverrideRequestSchema,
+  participantSolutionRequestSchema
 } from "@shared/schema";
+import { normalizeImpact } from "@shared/impact";
+import type { AgentStreamEvent, PhaseStreamResult } from "@shared/agent-events";
+import { sessionBudgetSchema } from "@shared/usage";
 import { z } from "zod";
+import multer from "multer";
+import path from "path";
 
 // Rate limiting store (in-memory for development, use Redis in production)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
@@ -88,6 +107,72 @@ const rateLimit = (windowMs: number, maxRequests: number) => {
   };
 };
 
+// Budget exhaustion is reported as 402 Payment Required; other phase failures as 500
+const phaseErrorStatus = (result: OrchestrationResult) => result.errorCode === "budget_exceeded" ? 402 : 500;
+
+// Server-Sent Events: runs an orchestrator phase and forwards agent events as they happen.
+// The stream always ends with a "result" event carrying a PhaseStreamResult.
+const streamPhase = async (res: Response, sessionId: string, phase: number, label: string) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering so deltas arrive immediately
+  res.flushHeaders();
+
+  // The response closes when the client disconnects; the request's close fires as soon as its body is read
+  let closed = false;
+  res.on("close", () => { closed = true; });
+
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  // Comment lines keep idle connections open while an agent waits on a slow provider
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(": ping\n\n");
+  }, 15000);
+
+  try {
+    // The phase keeps running if the client disconnects, so results are still persisted
+    const result = await orchestrator.processPhase(sessionId, phase, {
+      onEvent: (event: AgentStreamEvent) => send(event.type, event)
+    });
+
+    const payload: PhaseStreamResult = result.success
+      ? {
+          success: true,
+          message: `${label} completed`,
+          sessionId,
+          phase,
+          nextActions: result.nextActions,
+          phaseComplete: result.phaseComplete,
+          data: result.data || {}
+        }
+      : {
+          success: false,
+          message: result.error || `${label} failed`,
+          sessionId,
+          phase,
+          errorCode: result.errorCode
+        };
+    send("result", payload);
+  } catch (error) {
+    const payload: PhaseStreamResult = {
+      success: false,
+      message: error instanceof Error ? error.message : "Unknown error",
+      sessionId,
+      phase
+    };
+    send("result", payload);
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+};
+
 // Validation schemas
 // Enhanced password policy for production security
 const passwordSchema = z.string()
@@ -228,7 +313,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const sessionData = insertSessionSchema.parse({
         ...req.body,
-        facilitatorId: req.user!.id // Ensure session is owned by authenticated user
+        facilitatorId: req.user!.id, // Ensure session is owned by authenticated user
+        config: sessionConfigSchema.parse(req.body?.config ?? {})
       });
       const session = await storage.createSession(sessionData);
       res.json(session);
@@ -279,6 +365,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/sessions/:id", authenticateUser, async (req: AuthenticatedRequest, res) => {
     try {
       const updates = updateSessionSchema.parse(req.body);
+      if (updates.config !== undefined) {
+        const existing = await storage.getSession(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Session not found" });
+        }
+        if (existing.facilitatorId !== req.user!.id) {
+          return res.status(403).json({ message: "Only the session facilitator can change the session configuration" });
+        }
+        // The budget is only set through PUT /budget, so keep whatever is stored
+        const { budget: _budget, ...config } = sessionConfigSchema.parse(updates.config ?? {});
+        const budget = (existing.config as Record<string, unknown> | null)?.budget;
+        updates.config = budget ? { ...config, budget } : config;
+      }
       const session = await storage.updateSession(req.params.id, updates);
       if (!session) {
         return res.status(404).json({ message: "Session not found" });
@@ -353,13 +452,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         sessionId: req.params.sessionId
       });
-      const solution = await storage.createSolution(solutionData);
+      // Store impact on the numeric scales even when the client sent labels or free text
+      const { derived, ...impact } = normalizeImpact(solutionData.impact);
+      const solution = await storage.createSolution({ ...solutionData, impact });
       res.json(solution);
     } catch (error) {
       res.status(400).json({ message: "Invalid solution data", error });
     }
   });
 
+  // Propose a solution as a participant; the Solution agent completes its structure
+  app.post("/api/sessions/:sessionId/solutions/proposals", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    try {
+      const proposal = participantSolutionRequestSchema.parse(req.body);
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const solution = await participantSolutions.submit(session.id, req.user!.id, proposal);
+      res.status(201).json(solution);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid solution proposal", error });
+      }
+      if (error instanceof Error && error.message === "No approved problem statement found") {
+        return res.status(409).json({ message: error.message });
+      }
+      const status = error instanceof BudgetExceededError ? 402 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : "Failed to add solution", error });
+    }
+  });
+
   // Get session solutions
   app.get("/api/sessions/:sessionId/solutions", async (req, res) => {
     try {
@@ -383,6 +507,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Refine a solution from its debate outcome; the result becomes the solution's next version
+  app.post("/api/solutions/:solutionId/refine", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    try {
+      const request = refineSolutionRequestSchema.parse(req.body ?? {});
+      const solution = await storage.getSolution(req.params.solutionId);
+      if (!solution) {
+        return res.status(404).json({ message: "Solution not found" });
+      }
+      const session = await storage.getSession(solution.sessionId);
+      if (session?.facilitatorId !== req.user!.id && !await storage.isSessionParticipant(solution.sessionId, req.user!.id)) {
+        return res.status(403).json({ message: "Only the session's facilitator and participants can refine its solutions" });
+      }
+
+      const result = await solutionRefinement.refine(solution.id, {
+        guidance: request.guidance,
+        userId: req.user!.id
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refinement request", error });
+      }
+      const status = error instanceof BudgetExceededError ? 402 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : "Failed to refine solution", error });
+    }
+  });
+
+  // Get a solution's version history, newest first
+  app.get("/api/solutions/:solutionId/versions", async (req, res) => {
+    try {
+      const versions = await storage.getSolutionVersions(req.params.solutionId);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch solution versions", error });
+    }
+  });
+
+  // Place a solution on the impact/effort chart in place of the AI estimate (facilitator only)
+  app.put("/api/solutions/:solutionId/impact", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { override } = solutionImpactOverrideRequestSchema.parse(req.body);
+      const solution = await storage.getSolution(req.params.solutionId);
+      if (!solution) {
+        return res.status(404).json({ message: "Solution not found" });
+      }
+      const session = await storage.getSession(solution.sessionId);
+      if (session?.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can adjust impact estimates" });
+      }
+
+      const updated = await storage.setSolutionImpactOverride(solution.id, override && {
+        impactScore: Math.round(override.impactScore * 10) / 10,
+        effortScore: Math.round(override.effortScore * 10) / 10,
+        adjustedBy: req.user!.id,
+        adjustedAt: new Date().toISOString()
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid impact override", error });
+      }
+      res.status(500).json({ message: "Failed to save impact override", error });
+    }
+  });
+
+  // Expand one aspect of a solution (implementation, resources, risks, metrics) into planning detail
+  app.post("/api/solutions/:solutionId/expansions/:aspect", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    try {
+      const aspect = expansionAspectSchema.parse(req.params.aspect);
+      const solution = await storage.getSolution(req.params.solutionId);
+      if (!solution) {
+        return res.status(404).json({ message: "Solution not found" });
+      }
+      const session = await storage.getSession(solution.sessionId);
+      if (session?.facilitatorId !== req.user!.id && !await storage.isSessionParticipant(solution.sessionId, req.user!.id)) {
+        return res.status(403).json({ message: "Only the session's facilitator and participants can expand its solutions" });
+      }
+
+      const expansion = await solutionExpander.expand(solution.id, aspect, req.user!.id);
+      res.status(201).json(expansion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid expansion aspect", error });
+      }
+      const status = error instanceof BudgetExceededError ? 402 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : "Failed to expand solution", error });
+    }
+  });
+
+  // Get the latest expansion of each aspect of a solution
+  app.get("/api/solutions/:solutionId/expansions", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const expansions = await solutionExpander.current(req.params.solutionId);
+      res.json(expansions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch solution expansions", error });
+    }
+  });
+
   // Debate Routes
 
   // Create debate point  
@@ -419,6 +642,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the atomic claims of every debate point in a session, with their fact-check status
+  app.get("/api/sessions/:sessionId/claims", async (req, res) => {
+    try {
+      const claims = await storage.getSessionClaims(req.params.sessionId);
+      res.json(claims);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch claims", error });
+    }
+  });
+
+  // Get structured debates (rounds, summaries, consensus, winner) for every debated solution
+  app.get("/api/sessions/:sessionId/debates", async (req, res) => {
+    try {
+      const debates = await debateEngine.getDebateSessions(req.params.sessionId);
+      res.json(debates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch debates", error });
+    }
+  });
+
+  // Get the latest structured debate for one solution
+  app.get("/api/sessions/:sessionId/debates/:solutionId", async (req, res) => {
+    try {
+      const debate = await debateEngine.getDebateSession(req.params.sessionId, req.params.solutionId);
+      if (!debate || debate.rounds.length === 0) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      res.json(debate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch debate", error });
+    }
+  });
+
+  // Get the argument graph (nodes with scores and evidence counts, rebuttal/support edges) for one solution
+  app.get("/api/sessions/:sessionId/debates/:solutionId/graph", async (req, res) => {
+    try {
+      const graph = await debateEngine.getArgumentGraph(req.params.sessionId, req.params.solutionId);
+      if (!graph) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      res.json(graph);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch argument graph", error });
+    }
+  });
+
+  // Pause a running debate after the turn in progress
+  app.post("/api/debate-sessions/:debateId/pause", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await storage.getDebateSession(req.params.debateId);
+      if (!existing) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      const session = await storage.getSession(existing.sessionId);
+      if (session?.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can pause the debate" });
+      }
+
+      const debate = await debateEngine.pauseDebate(existing.id);
+      if (!debate) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      if (debate.status !== "paused") {
+        return res.status(409).json({ message: `Debate is already ${debate.status}`, debate });
+      }
+      res.json(debate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to pause debate", error });
+    }
+  });
+
+  // Resume a paused debate
+  app.post("/api/debate-sessions/:debateId/resume", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await storage.getDebateSession(req.params.debateId);
+      if (!existing) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      const session = await storage.getSession(existing.sessionId);
+      if (session?.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can resume the debate" });
+      }
+
+      const resumed = await debateEngine.resumeDebate(existing.id);
+      if (!resumed) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      const debate = resumed.record;
+      if (debate.status !== "active") {
+        return res.status(409).json({ message: `Debate is already ${debate.status}`, debate });
+      }
+      // Its run stopped at the pause, so a job carries the debate on from the next turn
+      if (resumed.stopped) {
+        await jobQueue.submit(debate.sessionId, "debate_session", { debateSessionId: debate.id }, req.user!.id);
+      }
+      res.json(debate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resume debate", error });
+    }
+  });
+
+  // Add a participant's argument or rebuttal; the agents answer it on their next turn
+  app.post("/api/debate-sessions/:debateId/arguments", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const argument = participantArgumentSchema.parse(req.body);
+      const debate = await storage.getDebateSession(req.params.debateId);
+      if (!debate) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      if (debate.status === "completed" || debate.status === "failed") {
+        return res.status(409).json({ message: `Debate is already ${debate.status}`, debate });
+      }
+      if (argument.rebuttalTo) {
+        const target = await storage.getDebatePoint(argument.rebuttalTo);
+        if (!target || target.debateSessionId !== debate.id) {
+          return res.status(400).json({ message: "Rebuttal target is not part of this debate" });
+        }
+      }
+
+      const point = await debateEngine.submitParticipantArgument(debate, req.user!.id, argument);
+      if (!point) {
+        return res.status(409).json({ message: "The debate's last round is no longer taking arguments", debate });
+      }
+      res.status(201).json(point);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid argument", error });
+      }
+      res.status(500).json({ message: "Failed to add argument", error });
+    }
+  });
+
+  // Inject a facilitator instruction for the Moderator to relay before the next round
+  app.post("/api/debate-sessions/:debateId/instructions", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { instruction } = debateInstructionRequestSchema.parse(req.body);
+      const debate = await storage.getDebateSession(req.params.debateId);
+      if (!debate) {
+        return res.status(404).json({ message: "Debate not found" });
+      }
+      const session = await storage.getSession(debate.sessionId);
+      if (session?.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can instruct the Moderator" });
+      }
+      if (debate.status === "completed" || debate.status === "failed") {
+        return res.status(409).json({ message: `Debate is already ${debate.status}`, debate });
+      }
+
+      const saved = await debateEngine.injectInstruction(debate, instruction, req.user!.id);
+      res.status(201).json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid instruction", error });
+      }
+      res.status(500).json({ message: "Failed to add instruction", error });
+    }
+  });
+
   // Vote on debate point with transactional vote counting
   app.post("/api/debate-points/:pointId/vote", authenticateUser, async (req: AuthenticatedRequest, res) => {
     try {
@@ -447,7 +828,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const evidenceData = insertEvidenceSchema.parse({
         ...req.body,
-        sessionId: req.params.sessionId
+        sessionId: req.params.sessionId,
+        provenance: "manual"
       });
       const evidence = await storage.createEvidence(evidenceData);
       res.json(evidence);
@@ -466,6 +848,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Which research backends are configured, and whether market research is running on mock results
+  app.get("/api/research/status", (req, res) => {
+    res.json(researchRegistry.status());
+  });
+
+  // Grounding Material Routes
+
+  // Uploads are held in memory until the ingestion service has stored and indexed them
+  const groundingUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DOCUMENT_BYTES, files: 10 }
+  }).array("files");
+
+  // Upload files (PDF, DOCX, Markdown, HTML, text) and index their text for the session
+  app.post("/api/sessions/:sessionId/grounding", authenticateUser, (req, res, next) => {
+    groundingUpload(req, res, (error: unknown) => {
+      if (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid upload" });
+      }
+      next();
+    });
+  }, async (req: AuthenticatedRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can add grounding materials" });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (!files.length) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      const unsupported = files.filter(f => !detectDocumentKind(f.originalname, f.mimetype));
+      if (unsupported.length) {
+        return res.status(400).json({
+          message: `Unsupported file type: ${unsupported.map(f => f.originalname).join(", ")}. Use PDF, DOCX, Markdown, HTML or text.`
+        });
+      }
+
+      const documents = [];
+      for (const file of files) {
+        documents.push(await groundingIngestion.ingestFile(session.id, {
+          name: file.originalname,
+          mimeType: file.mimetype,
+          buffer: file.buffer
+        }, req.user!.id));
+      }
+      res.status(201).json(documents);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to ingest grounding materials", error });
+    }
+  });
+
+  // Fetch a link and index the page or document behind it
+  app.post("/api/sessions/:sessionId/grounding/links", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { url } = groundingLinkRequestSchema.parse(req.body);
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can add grounding materials" });
+      }
+
+      const document = await groundingIngestion.ingestLink(session.id, url, req.user!.id);
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid link", error });
+      }
+      res.status(500).json({ message: "Failed to ingest link", error });
+    }
+  });
+
+  // List a session's grounding documents with their indexing status
+  app.get("/api/sessions/:sessionId/grounding", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const documents = await storage.getSessionGroundingDocuments(req.params.sessionId);
+      res.json(documents);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch grounding materials", error });
+    }
+  });
+
+  // Open a grounding document: the stored file inline (so PDFs honour #page=N), or the original link
+  app.get("/api/sessions/:sessionId/grounding/:documentId/file", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const document = await storage.getGroundingDocument(req.params.documentId);
+      if (!document || document.sessionId !== req.params.sessionId) {
+        return res.status(404).json({ message: "Grounding document not found" });
+      }
+
+      if (document.url) {
+        // Only ever redirect to the http(s) link the document was ingested from
+        const link = URL.canParse(document.url) ? new URL(document.url) : null;
+        if (!link || (link.protocol !== "http:" && link.protocol !== "https:")) {
+          return res.status(400).json({ message: "Grounding document link is not an http(s) URL" });
+        }
+        return res.redirect(link.href);
+      }
+      if (!document.storagePath) {
+        return res.status(404).json({ message: "Grounding document file not found" });
+      }
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(document.name)}"`);
+      res.sendFile(path.resolve(document.storagePath), (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Grounding document file not found" });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to open grounding document", error });
+    }
+  });
+
+  // Remove a grounding document and its index
+  app.delete("/api/sessions/:sessionId/grounding/:documentId", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const document = await storage.getGroundingDocument(req.params.documentId);
+      if (!document || document.sessionId !== req.params.sessionId) {
+        return res.status(404).json({ message: "Grounding document not found" });
+      }
+      const session = await storage.getSession(document.sessionId);
+      if (session?.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can remove grounding materials" });
+      }
+
+      await groundingIngestion.deleteDocument(document);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete grounding document", error });
+    }
+  });
+
   // Question Routes
 
   // Create question
@@ -551,7 +1070,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           nextActions: result.nextActions
         });
       } else {
-        res.status(500).json({ message: result.error || "Failed to generate solutions" });
+        res.status(phaseErrorStatus(result)).json({ message: result.error || "Failed to generate solutions" });
       }
     } catch (error) {
       res.status(500).json({ message: "Failed to trigger solution generation", error });
@@ -570,7 +1089,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           nextActions: result.nextActions
         });
       } else {
-        res.status(500).json({ message: result.error || "Failed to conduct debate" });
+        res.status(phaseErrorStatus(result)).json({ message: result.error || "Failed to conduct debate" });
       }
     } catch (error) {
       res.status(500).json({ message: "Failed to start debate", error });
@@ -589,7 +1108,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           nextActions: result.nextActions
         });
       } else {
-        res.status(500).json({ message: result.error || "Failed to gather evidence" });
+        res.status(phaseErrorStatus(result)).json({ message: result.error || "Failed to gather evidence" });
       }
     } catch (error) {
       res.status(500).json({ message: "Failed to trigger evidence gathering", error });
@@ -608,7 +1127,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           nextActions: result.nextActions
         });
       } else {
-        res.status(500).json({ message: result.error || "Failed to generate summary" });
+        res.status(phaseErrorStatus(result)).json({ message: result.error || "Failed to generate summary" });
       }
     } catch (error) {
       res.status(500).json({ message: "Failed to trigger summary generation", error });
@@ -641,7 +1160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           data: result.data || {}
         });
       } else {
-        res.status(500).json({ 
+        res.status(phaseErrorStatus(result)).json({ 
           message: result.error || "Failed to process current phase",
           sessionId: req.params.sessionId,
           currentPhase: session.currentPhase,
@@ -658,6 +1177,194 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streaming workflow triggers (Server-Sent Events)
+
+  // Stream solution generation
+  app.post("/api/sessions/:sessionId/generate-solutions/stream", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    await streamPhase(res, req.params.sessionId, 3, "Solution generation");
+  });
+
+  // Stream debate round
+  app.post("/api/sessions/:sessionId/start-debate/stream", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    await streamPhase(res, req.params.sessionId, 4, "Debate");
+  });
+
+  // Stream current phase processing
+  app.post("/api/sessions/:sessionId/process-current-phase/stream", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (session.currentPhase < 1 || session.currentPhase > 6) {
+        return res.status(400).json({ message: `Invalid phase: ${session.currentPhase}` });
+      }
+
+      await streamPhase(res, req.params.sessionId, session.currentPhase, `Phase ${session.currentPhase} processing`);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to process current phase", error });
+    }
+  });
+
+  // Usage and Cost Routes
+
+  // Get token usage and cost for a session
+  app.get("/api/sessions/:sessionId/usage", async (req, res) => {
+    try {
+      const summary = await usageLedger.getSessionSummary(req.params.sessionId);
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch usage", error });
+    }
+  });
+
+  // Get budget status (spent, remaining, downgrade state)
+  app.get("/api/sessions/:sessionId/budget", async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json(await getBudgetStatus(session.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch budget", error });
+    }
+  });
+
+  // Set or clear the session budget (stored in sessions.config.budget)
+  app.put("/api/sessions/:sessionId/budget", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const budget = req.body?.budget === null ? null : sessionBudgetSchema.parse(req.body?.budget);
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can change the budget" });
+      }
+
+      const config = { ...((session.config as Record<string, unknown> | null) || {}) };
+      if (budget) {
+        config.budget = budget;
+      } else {
+        delete config.budget;
+      }
+      await storage.updateSession(session.id, { config });
+      res.json(await getBudgetStatus(session.id));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid budget data", error });
+    }
+  });
+
+  // Background Job Routes
+
+  // Submit a phase run or debate session as a persisted job
+  app.post("/api/sessions/:sessionId/jobs", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    try {
+      const request = submitJobSchema.parse(req.body);
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      let job;
+      if (request.type === "process_phase") {
+        const phase = request.phase ?? session.currentPhase;
+        job = await jobQueue.submit(session.id, request.type, { phase }, req.user!.id);
+      } else {
+        const solution = await storage.getSolution(request.solutionId);
+        if (!solution || solution.sessionId !== session.id) {
+          return res.status(404).json({ message: "Solution not found" });
+        }
+        job = await jobQueue.submit(session.id, request.type, {
+          solutionId: solution.id,
+          rounds: request.rounds ?? 3
+        }, req.user!.id);
+      }
+
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid job request", error });
+      }
+      res.status(500).json({ message: "Failed to submit job", error });
+    }
+  });
+
+  // Get session jobs
+  app.get("/api/sessions/:sessionId/jobs", async (req, res) => {
+    try {
+      const jobs = await storage.getSessionJobs(req.params.sessionId);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch jobs", error });
+    }
+  });
+
+  // Get specific job (poll for status and progress)
+  app.get("/api/jobs/:jobId", async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job", error });
+    }
+  });
+
+  // Cancel a queued or running job
+  app.post("/api/jobs/:jobId/cancel", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await storage.getJob(req.params.jobId);
+      if (!existing) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const session = await storage.getSession(existing.sessionId);
+      if (session?.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can cancel its jobs" });
+      }
+
+      const job = await jobQueue.cancel(existing.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.status !== "cancelled" && !job.cancelRequested) {
+        return res.status(409).json({ message: `Job is already ${job.status}`, job });
+      }
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel job", error });
+    }
+  });
+
+  // Retry a failed or cancelled job
+  app.post("/api/jobs/:jobId/retry", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    try {
+      const existing = await storage.getJob(req.params.jobId);
+      if (!existing) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const session = await storage.getSession(existing.sessionId);
+      if (session?.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can retry its jobs" });
+      }
+
+      const job = await jobQueue.retry(existing.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.status !== "queued") {
+        return res.status(409).json({ message: `Only failed or cancelled jobs can be retried (job is ${job.status})`, job });
+      }
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retry job", error });
+    }
+  });
+
   // Voice Integration Routes
   
   // Health check for voice service
@@ -807,7 +1514,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const result = await voiceService.narrateDebateSummary(debateSummaryData);
+      const result = await voiceService.narrateDebateSummary(debateSummaryData, {
+        sessionId,
+        phase: session.currentPhase,
+        agent: "narrator"
+      });
 
       res.json({
         success: true,
@@ -919,6 +1630,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Solution Comparison Routes
+
+  // Get the session's comparison matrix with ranking and weight sensitivity
+  app.get("/api/sessions/:sessionId/comparison", async (req, res) => {
+    try {
+      const matrix = await solutionComparison.getMatrix(req.params.sessionId);
+      res.json(matrix);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comparison matrix", error });
+    }
+  });
+
+  // Replace the session's weighted comparison criteria
+  app.put("/api/sessions/:sessionId/comparison/criteria", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can define comparison criteria" });
+      }
+
+      const { criteria } = comparisonCriteriaRequestSchema.parse(req.body);
+      const matrix = await solutionComparison.setCriteria(session.id, criteria);
+      res.json(matrix);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid comparison criteria", error });
+      }
+      res.status(500).json({ message: "Failed to save comparison criteria", error });
+    }
+  });
+
+  // Have the Solution agent propose a score for every solution and criterion
+  app.post("/api/sessions/:sessionId/comparison/score", authenticateUser, aiRateLimit, async (req: AuthenticatedRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const matrix = await solutionComparison.proposeScores(session.id);
+      res.json(matrix);
+    } catch (error) {
+      const status = error instanceof BudgetExceededError ? 402 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : "Failed to score solutions", error });
+    }
+  });
+
+  // Override one cell of the matrix; a null score reverts it to the AI proposal
+  app.patch("/api/sessions/:sessionId/comparison/scores", authenticateUser, async (req: AuthenticatedRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.facilitatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the session facilitator can override comparison scores" });
+      }
+
+      const { solutionId, criterionId, score } = comparisonScoreRequestSchema.parse(req.body);
+      const matrix = await solutionComparison.adjustScore(session.id, solutionId, criterionId, score, req.user!.id);
+      res.json(matrix);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid comparison score", error });
+      }
+      if (error instanceof Error && error.message === "Solution or criterion not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save comparison score", error });
+    }
+  });
+
   // Summary and Library Routes
 
   // Get session summary
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+const { storage } = await import('../storage');
+const { getBudgetStatus, enforceBudget, parseSessionBudget, BudgetExceededError } = await import('./budget');
+
+async function sessionWithSpend(budget: unknown, costUsd: number, tokens: number = 0) {
+  const session = await storage.createSession({ title: 'Budget session', config: { budget } });
+  await storage.createUsageEntry({
+    sessionId: session.id, service: 'llm', provider: 'openai', model: 'gpt-4o',
+    inputTokens: tokens, outputTokens: 0, latencyMs: 10, costUsd
+  });
+  return session.id;
+}
+
+describe('getBudgetStatus', () => {
+  it('is unlimited without a budget and still reports the spend', async () => {
+    const sessionId = await sessionWithSpend(undefined, 1.5);
+    expect(await getBudgetStatus(sessionId)).toMatchObject({ budget: null, spent: 1.5, remaining: null, state: 'unlimited' });
+  });
+
+  it('is ok below the downgrade threshold', async () => {
+    const sessionId = await sessionWithSpend({ unit: 'usd', limit: 10 }, 2);
+    expect(await getBudgetStatus(sessionId)).toMatchObject({ spent: 2, remaining: 8, fractionUsed: 0.2, state: 'ok' });
+  });
+
+  it('downgrades from the threshold and is exhausted at the limit', async () => {
+    expect((await getBudgetStatus(await sessionWithSpend({ unit: 'usd', limit: 10, downgradeAt: 0.5 }, 5))).state).toBe('downgraded');
+    expect((await getBudgetStatus(await sessionWithSpend({ unit: 'usd', limit: 10 }, 10))).state).toBe('exhausted');
+  });
+
+  it('counts tokens for token budgets', async () => {
+    const sessionId = await sessionWithSpend({ unit: 'tokens', limit: 1000 }, 100, 900);
+    expect(await getBudgetStatus(sessionId)).toMatchObject({ spent: 900, remaining: 100, state: 'downgraded' });
+  });
+});
+
+describe('enforceBudget', () => {
+  it('throws a 402 BudgetExceededError once the budget is spent', async () => {
+    const sessionId = await sessionWithSpend({ unit: 'usd', limit: 1 }, 1.25);
+    const error = await enforceBudget(sessionId).catch(e => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.status).toBe(402);
+    expect(error.message).toBe('Session budget exhausted: spent $1.25 of $1.00');
+  });
+
+  it('returns the status while there is budget left', async () => {
+    const sessionId = await sessionWithSpend({ unit: 'usd', limit: 1 }, 0.9);
+    expect((await enforceBudget(sessionId)).state).toBe('downgraded');
+  });
+});
+
+describe('parseSessionBudget', () => {
+  it('ignores an invalid stored budget rather than blocking the session', () => {
+    expect(parseSessionBudget({ budget: { unit: 'usd', limit: -5 } })).toBeNull();
+    expect(parseSessionBudget(null)).toBeNull();
+  });
+});
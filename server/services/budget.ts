@@ -0,0 +1,74 @@
+import { storage } from '../storage';
+import { sessionBudgetSchema, type SessionBudget, type BudgetStatus } from '@shared/usage';
+
+/**
+ * Thrown before an agent call when the session has spent its budget.
+ * Carries status 402 so the Express error handler reports it as Payment Required.
+ */
+export class BudgetExceededError extends Error {
+  readonly status = 402;
+
+  constructor(readonly budgetStatus: BudgetStatus) {
+    super(`Session budget exhausted: spent ${formatAmount(budgetStatus.spent, budgetStatus.budget)} of ${formatAmount(budgetStatus.budget?.limit ?? 0, budgetStatus.budget)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Model used in place of the configured one once a session passes its downgrade threshold
+export const cheaperModels: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-20241022',
+  gemini: 'gemini-1.5-flash',
+};
+
+function formatAmount(amount: number, budget: SessionBudget | null): string {
+  return budget?.unit === 'tokens' ? `${Math.round(amount)} tokens` : `$${amount.toFixed(2)}`;
+}
+
+export function parseSessionBudget(config: unknown): SessionBudget | null {
+  const budget = (config as { budget?: unknown } | null)?.budget;
+  if (!budget) {
+    return null;
+  }
+
+  const parsed = sessionBudgetSchema.safeParse(budget);
+  if (!parsed.success) {
+    console.warn('⚠️ Budget: Ignoring invalid session budget', parsed.error.issues);
+    return null;
+  }
+  return parsed.data;
+}
+
+export async function getBudgetStatus(sessionId: string): Promise<BudgetStatus> {
+  const session = await storage.getSession(sessionId);
+  const budget = parseSessionBudget(session?.config);
+  const totals = await storage.getSessionUsageTotals(sessionId);
+
+  if (!budget) {
+    return { sessionId, budget: null, spent: totals.costUsd, remaining: null, fractionUsed: null, state: 'unlimited' };
+  }
+
+  const spent = budget.unit === 'tokens' ? totals.tokens : totals.costUsd;
+  const fractionUsed = spent / budget.limit;
+
+  return {
+    sessionId,
+    budget,
+    spent,
+    remaining: Math.max(0, budget.limit - spent),
+    fractionUsed,
+    state: fractionUsed >= 1 ? 'exhausted' : fractionUsed >= budget.downgradeAt ? 'downgraded' : 'ok'
+  };
+}
+
+/**
+ * Check the session budget before an agent call. Throws BudgetExceededError at
+ * the hard limit; otherwise returns the status so callers can downgrade models.
+ */
+export async function enforceBudget(sessionId: string): Promise<BudgetStatus> {
+  const status = await getBudgetStatus(sessionId);
+  if (status.state === 'exhausted') {
+    throw new BudgetExceededError(status);
+  }
+  return status;
+}
@@ -0,0 +1,121 @@
+import { storage } from '../storage';
+import { AnalystAgent } from '../agents/analyst-agent';
+import type { AgentContext } from '../agents/base-agent';
+import type { Claim, ClaimVerdict, ContextReference, DebatePoint, EvidenceSource } from '@shared/schema';
+import type { SearchResult } from '../agents/research';
+
+// Value judgements are weighed in debate, not fact-checked
+const checkableTypes = new Set(['factual', 'causal', 'prediction']);
+
+// Session documents behind a verdict: passages the corpus search returned plus those the Analyst cited
+function documentReferences(sources: SearchResult[], cited: ContextReference[]): ContextReference[] {
+  const fromSearch: ContextReference[] = sources
+    .filter(s => s.chunkId)
+    .map(s => ({ kind: 'grounding', chunkId: s.chunkId, documentId: s.documentId, title: s.source, page: s.page ?? null, url: s.url || undefined }));
+
+  const seen = new Set<string>();
+  return [...cited, ...fromSearch].filter(ref => {
+    const key = ref.chunkId || ref.evidenceId || ref.title;
+    return !seen.has(key) && !!seen.add(key);
+  });
+}
+
+export class ClaimChecker {
+  private analyst: AnalystAgent;
+
+  constructor(analyst: AnalystAgent = new AnalystAgent()) {
+    this.analyst = analyst;
+  }
+
+  /**
+   * Break a debate point into atomic claims and store them. A failed
+   * decomposition is logged and yields no claims rather than failing the debate.
+   */
+  async decomposePoint(point: DebatePoint, context: AgentContext): Promise<Claim[]> {
+    try {
+      const { data } = await this.analyst.decomposeArgument(point.content, context);
+      const saved = await storage.createClaims(data.map(claim => ({
+        sessionId: point.sessionId,
+        pointId: point.id,
+        text: claim.text,
+        type: claim.type
+      })));
+      console.log(`🧩 Claim Checker: Point ${point.id} split into ${saved.length} claims`);
+      return saved;
+    } catch (error) {
+      console.error(`❌ Claim Checker: Failed to decompose point ${point.id}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Decompose every point in the session that has no claims yet, e.g. participant
+   * points added after their round was checked
+   */
+  async decomposeMissing(sessionId: string, context: AgentContext): Promise<Claim[]> {
+    const points = await storage.getSessionDebatePoints(sessionId);
+    const decomposed = new Set((await storage.getSessionClaims(sessionId)).map(c => c.pointId));
+
+    const created: Claim[] = [];
+    for (const point of points.filter(p => !decomposed.has(p.id))) {
+      created.push(...await this.decomposePoint(point, context));
+    }
+    return created;
+  }
+
+  /**
+   * Fact-check a claim, attach the evidence to it and its point, and record the verdict.
+   * The evidence carries the search citations and retrieval time, links to the session
+   * documents it drew on, or is marked as model knowledge when nothing backed it.
+   */
+  async verifyClaim(claim: Claim, context: AgentContext): Promise<{ claim: Claim; verdict: ClaimVerdict }> {
+    const { data: verdict, message, research } = await this.analyst.verifyClaim(claim.text, context);
+    const references = documentReferences(research.sources, message.references || []);
+    const [primary] = research.sources;
+    const source: EvidenceSource = primary
+      ? {
+          title: primary.title,
+          url: primary.url,
+          type: research.provenance === 'local_corpus' ? 'internal' : 'external',
+          date: research.retrievedAt,
+          retrievedAt: research.retrievedAt,
+          citations: research.sources.map(s => s.url).filter(Boolean),
+          references
+        }
+      : references.length
+        ? { title: references[0].title, url: references[0].url || '', type: 'internal', date: research.retrievedAt, references }
+        : { title: 'Analyst model knowledge', url: '', type: 'analysis', date: research.retrievedAt };
+    // Citing the team's documents makes an otherwise unsourced verdict a sourced one
+    const provenance = research.provenance === 'model_knowledge' && references.some(r => r.kind === 'grounding')
+      ? 'local_corpus'
+      : research.provenance;
+
+    await storage.createEvidence({
+      sessionId: claim.sessionId,
+      pointId: claim.pointId,
+      claimId: claim.id,
+      claim: claim.text,
+      snippet: verdict.analysis,
+      source,
+      provenance,
+      // A verdict can be no surer than the research behind it
+      confidence: Math.round(Math.min(verdict.confidence, research.confidence)),
+      relevanceScore: Math.round(verdict.relevance),
+      gatheredBy: 'analyst_agent'
+    });
+
+    const updated = await storage.updateClaimStatus(claim.id, verdict.status);
+    console.log(`🔎 Claim Checker: "${claim.text.substring(0, 60)}" is ${verdict.status} (${provenance}, ${research.sources.length} sources, ${references.length} session references)`);
+    return { claim: updated || claim, verdict };
+  }
+
+  /**
+   * Checkable claims that have not been fact-checked yet, optionally limited to some points
+   */
+  selectUnchecked(claims: Claim[], limit: number, pointIds?: string[]): Claim[] {
+    return claims
+      .filter(c => !c.verifiedAt && checkableTypes.has(c.type))
+      .filter(c => !pointIds || pointIds.includes(c.pointId))
+      .slice(0, limit);
+  }
+}
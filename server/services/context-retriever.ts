@@ -0,0 +1,141 @@
+import { storage } from '../storage';
+import { estimateTokens } from '../agents/providers';
+import { retrievalSettingsSchema, type ContextReference, type Evidence, type RetrievalSettings } from '@shared/schema';
+
+const MIN_TERM_LENGTH = 3;
+const MAX_QUERY_TERMS = 40;
+
+// One passage handed to an agent, labelled so the response can cite it
+export interface RetrievedPassage {
+  reference: ContextReference;
+  content: string;
+  tokens: number;
+}
+
+/**
+ * Distinct lowercase words worth searching for, in order of first appearance
+ */
+export function queryTerms(text: string, limit: number = MAX_QUERY_TERMS): string[] {
+  const words = text.toLowerCase().split(/\W+/).filter(t => t.length >= MIN_TERM_LENGTH);
+  return Array.from(new Set(words)).slice(0, limit);
+}
+
+function overlap(text: string, terms: Set<string>): number {
+  return queryTerms(text, Infinity).filter(t => terms.has(t)).length;
+}
+
+// Take from each ranked list in turn so neither source crowds out the other
+function interleave<T>(lists: T[][]): T[] {
+  const merged: T[] = [];
+  const longest = Math.max(0, ...lists.map(l => l.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) merged.push(list[i]);
+    }
+  }
+  return merged;
+}
+
+export class ContextRetriever {
+  private defaults: RetrievalSettings;
+
+  constructor(defaults: RetrievalSettings = retrievalSettingsSchema.parse({})) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * The grounding chunks and prior evidence most relevant to `query`, best first,
+   * until the token budget or chunk limit is reached
+   */
+  async retrieve(sessionId: string, query: string, settings: RetrievalSettings = this.defaults): Promise<RetrievedPassage[]> {
+    if (!settings.enabled || settings.tokenBudget === 0) {
+      return [];
+    }
+
+    const terms = queryTerms(query);
+    if (!terms.length) {
+      return [];
+    }
+
+    const [chunks, evidence] = await Promise.all([
+      storage.searchGroundingChunks(sessionId, terms, settings.maxChunks),
+      storage.getSessionEvidence(sessionId)
+    ]);
+
+    const groundingPassages = chunks.map(chunk => ({
+      reference: {
+        label: '',
+        kind: 'grounding' as const,
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        title: chunk.documentName,
+        page: chunk.page,
+        url: chunk.documentUrl || undefined
+      },
+      content: chunk.content,
+      tokens: chunk.tokenCount
+    }));
+
+    const wanted = new Set(terms);
+    const evidencePassages = evidence
+      .map(item => ({ item, score: overlap(`${item.claim} ${item.snippet}`, wanted) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, settings.maxChunks)
+      .map(({ item }) => this.evidencePassage(item));
+
+    const passages: RetrievedPassage[] = [];
+    let used = 0;
+    for (const passage of interleave([groundingPassages, evidencePassages])) {
+      if (passages.length >= settings.maxChunks) break;
+      if (used + passage.tokens > settings.tokenBudget) continue;
+      used += passage.tokens;
+      passages.push({ ...passage, reference: { ...passage.reference, label: `S${passages.length + 1}` } });
+    }
+
+    if (passages.length) {
+      console.log(`📎 Context Retriever: ${passages.length} passages (${used}/${settings.tokenBudget} tokens) for session ${sessionId}`);
+    }
+    return passages;
+  }
+
+  private evidencePassage(item: Evidence): RetrievedPassage {
+    const source = item.source && typeof item.source === 'object' ? item.source as { title?: string; url?: string } : {};
+    const content = `${item.claim}: ${item.snippet}`;
+    return {
+      reference: {
+        label: '',
+        kind: 'evidence',
+        evidenceId: item.id,
+        title: source.title || 'Session evidence',
+        page: null,
+        url: source.url || undefined
+      },
+      content,
+      tokens: estimateTokens(content)
+    };
+  }
+
+  /**
+   * System prompt section listing the passages with their citation labels
+   */
+  formatForPrompt(passages: RetrievedPassage[]): string {
+    if (!passages.length) {
+      return '';
+    }
+    return `\n\nSESSION MATERIALS (excerpts from the team's documents and earlier evidence; cite them as [S1], [S2] where you rely on them):\n${passages.map(p =>
+      `[${p.reference.label}] ${p.reference.title}${p.reference.page ? `, p. ${p.reference.page}` : ''}: ${p.content}`
+    ).join('\n\n')}`;
+  }
+
+  /**
+   * The passages a response actually cited
+   */
+  citedReferences(passages: RetrievedPassage[], content: string): ContextReference[] {
+    return passages
+      .filter(p => content.includes(`[${p.reference.label}]`))
+      .map(p => p.reference);
+  }
+}
+
+export const contextRetriever = new ContextRetriever();
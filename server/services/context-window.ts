@@ -0,0 +1,122 @@
+import { estimateTokens } from '../agents/providers';
+import { historySettingsSchema, type HistorySettings } from '@shared/schema';
+import type { AgentMessage, DebateDigest } from '../agents/base-agent';
+
+export type TokenCounter = (text: string) => number;
+
+// Debate history fitted to a token budget, oldest first
+export interface AssembledHistory {
+  digests: DebateDigest[]; // Stand in for the older rounds they cover
+  messages: AgentMessage[]; // Kept verbatim
+  omitted: number; // Messages neither kept nor covered by a digest
+  tokens: number;
+}
+
+export interface AssembleOptions {
+  settings?: HistorySettings; // The session's history settings; policy defaults when absent
+  budget?: number; // Further cap, e.g. what is left of the model's context window
+  count?: TokenCounter;
+}
+
+function formatTurn(message: AgentMessage): string {
+  return `${message.agentId || message.role}: ${message.content}`;
+}
+
+function formatDigest(digest: DebateDigest): string {
+  return `Digest of ${digest.label ? `${digest.label}, ` : ''}rounds 1-${digest.throughRound}: ${digest.content}`;
+}
+
+/**
+ * Decides which debate history goes into a prompt. The most recent turns are kept
+ * verbatim; older rounds are replaced by the Moderator's rolling digest of their
+ * debate, and whatever still does not fit the budget is dropped oldest first.
+ */
+export class ContextWindowPolicy {
+  private defaults: HistorySettings;
+
+  constructor(defaults: HistorySettings = historySettingsSchema.parse({})) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * Fit `history` into the history token budget, counted with the target provider's tokenizer
+   */
+  assemble(history: AgentMessage[], digests: DebateDigest[] = [], options: AssembleOptions = {}): AssembledHistory {
+    const settings = options.settings ?? this.defaults;
+    const budget = Math.min(settings.tokenBudget, options.budget ?? Infinity);
+    const count = options.count ?? estimateTokens;
+    const recentTurns = settings.recentTurns;
+    const kept = new Set<AgentMessage>();
+    let tokens = 0;
+    const fits = (text: string): boolean => {
+      const cost = count(text);
+      if (tokens + cost > budget) return false;
+      tokens += cost;
+      return true;
+    };
+
+    // Recent turns first, newest backwards, so the latest exchange always survives
+    const recent = history.slice(Math.max(0, history.length - recentTurns));
+    for (let i = recent.length - 1; i >= 0; i--) {
+      if (!fits(formatTurn(recent[i]))) break;
+      kept.add(recent[i]);
+    }
+
+    // For each debate, the newest digest that only covers older turns
+    const older = history.slice(0, history.length - recent.length);
+    const usedDigests: DebateDigest[] = [];
+    const covered = new Set<AgentMessage>();
+    const debates = Array.from(new Set(older.filter(m => m.debateSessionId).map(m => m.debateSessionId!)));
+    for (const debateSessionId of debates.reverse()) {
+      const firstRecentRound = Math.min(Infinity, ...recent
+        .filter(m => m.debateSessionId === debateSessionId && m.round !== undefined)
+        .map(m => m.round!));
+      const digest = digests
+        .filter(d => d.debateSessionId === debateSessionId && d.throughRound < firstRecentRound)
+        .sort((a, b) => b.throughRound - a.throughRound)[0];
+      if (!digest || !fits(formatDigest(digest))) continue;
+
+      usedDigests.unshift(digest);
+      older
+        .filter(m => m.debateSessionId === debateSessionId && m.round !== undefined && m.round <= digest.throughRound)
+        .forEach(m => covered.add(m));
+    }
+
+    // Older turns no digest covers, e.g. facilitator instructions, while budget remains
+    for (let i = older.length - 1; i >= 0; i--) {
+      if (covered.has(older[i])) continue;
+      if (!fits(formatTurn(older[i]))) break;
+      kept.add(older[i]);
+    }
+
+    return {
+      digests: usedDigests,
+      messages: history.filter(m => kept.has(m)),
+      omitted: history.filter(m => !kept.has(m) && !covered.has(m)).length,
+      tokens
+    };
+  }
+
+  /**
+   * Plain-text rendering of an assembled history, digests before the turns they precede
+   */
+  format(assembled: AssembledHistory): string {
+    return [
+      ...(assembled.omitted ? [`(${assembled.omitted} earlier messages omitted)`] : []),
+      ...assembled.digests.map(formatDigest),
+      ...assembled.messages.map(formatTurn)
+    ].join('\n\n');
+  }
+
+  /**
+   * System prompt section with the debate so far, or nothing when there is no history
+   */
+  formatForPrompt(assembled: AssembledHistory): string {
+    if (!assembled.digests.length && !assembled.messages.length) {
+      return '';
+    }
+    return `\n\nDEBATE SO FAR (earlier rounds condensed into digests):\n${this.format(assembled)}`;
+  }
+}
+
+export const contextWindowPolicy = new ContextWindowPolicy();
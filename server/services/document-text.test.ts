@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { LookupAddress } from 'dns';
+
+// Host names resolve from this table; unknown names fail like a missing DNS record
+vi.mock('dns', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('dns')>();
+  const hosts: Record<string, LookupAddress> = {
+    'rebind.example': { address: '10.0.0.5', family: 4 },
+    'nat64.example': { address: '64:ff9b::a9fe:a9fe', family: 6 },
+  };
+  const lookup = (hostname: string, _options: unknown, callback: (error: Error | null, addresses: LookupAddress[]) => void) => {
+    const entry = hosts[hostname];
+    return entry ? callback(null, [entry]) : callback(new Error(`getaddrinfo ENOTFOUND ${hostname}`), []);
+  };
+  return { ...actual, default: { ...actual, lookup }, lookup };
+});
+
+vi.mock('undici', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('undici')>();
+  return { ...actual, fetch: vi.fn(actual.fetch) };
+});
+
+const { fetch, Response } = await import('undici');
+const { fetchLinkText, detectDocumentKind } = await import('./document-text');
+
+const redirectTo = (location: string) => new Response(null, { status: 302, headers: { location } });
+
+describe('fetchLinkText', () => {
+  afterEach(() => {
+    vi.mocked(fetch).mockClear();
+  });
+
+  it.each([
+    'http://localhost:5000/',
+    'http://127.0.0.1/',
+    'http://[::1]/',
+    'http://[::ffff:7f00:1]/',
+    'http://169.254.169.254/latest/meta-data',
+    'http://198.18.0.1/',
+    'http://[64:ff9b::a9fe:a9fe]/',
+    'http://metadata.google.internal/',
+  ])('refuses the private host of %s without connecting', async (url) => {
+    await expect(fetchLinkText(url)).rejects.toThrow('Links to private hosts are not allowed');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it.each(['http://rebind.example/', 'https://nat64.example/report.pdf'])(
+    'refuses %s when the name resolves to a private address at connect time',
+    async (url) => {
+      await expect(fetchLinkText(url)).rejects.toThrow('Links to private hosts are not allowed');
+    }
+  );
+
+  it('checks every redirect hop', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(redirectTo('http://169.254.169.254/latest/meta-data'));
+    await expect(fetchLinkText('https://docs.example/start')).rejects.toThrow('Links to private hosts are not allowed');
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    vi.mocked(fetch).mockResolvedValueOnce(redirectTo('https://rebind.example/'));
+    await expect(fetchLinkText('https://docs.example/start')).rejects.toThrow('Links to private hosts are not allowed');
+  });
+
+  it('refuses redirects to other protocols', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(redirectTo('file:///etc/passwd'));
+    await expect(fetchLinkText('https://docs.example/start')).rejects.toThrow('Only http and https links are supported');
+  });
+
+  it('gives up after too many redirects', async () => {
+    vi.mocked(fetch).mockImplementation(async () => redirectTo('https://docs.example/again'));
+    await expect(fetchLinkText('https://docs.example/start')).rejects.toThrow('more than 5 redirects');
+    vi.mocked(fetch).mockReset();
+  });
+
+  it('follows a public redirect and extracts the page by its content type', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(redirectTo('/guide'))
+      .mockResolvedValueOnce(new Response('<html><head><title>Rollout guide</title></head><body><p>Ship in stages.</p></body></html>', {
+        headers: { 'content-type': 'text/html; charset=utf-8' }
+      }));
+
+    expect(await fetchLinkText('https://docs.example/start')).toEqual({
+      title: 'Rollout guide',
+      pages: [{ page: null, text: 'Ship in stages.' }]
+    });
+    expect(String(vi.mocked(fetch).mock.calls[1][0])).toBe('https://docs.example/guide');
+  });
+});
+
+describe('detectDocumentKind', () => {
+  it('prefers the extension and falls back to the MIME type', () => {
+    expect(detectDocumentKind('notes.MD', 'text/plain')).toBe('markdown');
+    expect(detectDocumentKind('upload', 'application/pdf')).toBe('pdf');
+    expect(detectDocumentKind('legacy.doc', 'application/msword')).toBeNull();
+  });
+});
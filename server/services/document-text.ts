@@ -0,0 +1,265 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import { isIP } from 'net';
+import { Agent, fetch, type Response } from 'undici';
+import mammoth from 'mammoth';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown' | 'html' | 'text' | 'link';
+export type FileKind = Exclude<DocumentKind, 'link'>;
+
+// Text of one page; page is null for formats without pages
+export interface ExtractedPage {
+  page: number | null;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  title?: string; // Set when the document names itself, e.g. an HTML <title>
+  pages: ExtractedPage[];
+}
+
+export const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+const LINK_TIMEOUT_MS = 15000;
+
+const extensionKinds: Record<string, FileKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+};
+
+/**
+ * Work out how to read an uploaded file from its extension, then its MIME type.
+ * Returns null for formats we cannot extract text from (e.g. legacy .doc).
+ */
+export function detectDocumentKind(fileName: string, mimeType: string = ''): FileKind | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  if (extensionKinds[extension]) {
+    return extensionKinds[extension];
+  }
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
+  if (mimeType === 'text/markdown') return 'markdown';
+  if (mimeType === 'text/html') return 'html';
+  if (mimeType.startsWith('text/')) return 'text';
+  return null;
+}
+
+const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (match, name) => entities[name.toLowerCase()] ?? match);
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(head|script|style|noscript|svg|nav|footer)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(br|\/p|\/div|\/li|\/h[1-6]|\/tr|\/section|\/article)[^>]*>/gi, '\n\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n')
+    .trim();
+}
+
+function htmlTitle(html: string): string | undefined {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  return match ? decodeEntities(match[1]).trim() || undefined : undefined;
+}
+
+// Keep the words, drop the markup: links keep their text, images their alt text
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/^>\s?/gm, '')
+    .replace(/(\*\*|__|\*|_|`)/g, '')
+    .trim();
+}
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedPage[]> {
+  // pdf.js takes ownership of the array it is given, so hand it a copy
+  const pdf = await getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, disableFontFace: true }).promise;
+  const pages: ExtractedPage[] = [];
+
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .trim();
+      pages.push({ page: number, text });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+}
+
+/**
+ * Extract the text of a stored file. Scanned PDFs without a text layer yield empty pages.
+ */
+export async function extractDocumentText(kind: FileKind, buffer: Buffer): Promise<ExtractedDocument> {
+  switch (kind) {
+    case 'pdf':
+      return { pages: await extractPdf(buffer) };
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer });
+      return { pages: [{ page: null, text: value.trim() }] };
+    }
+    case 'markdown':
+      return { pages: [{ page: null, text: markdownToText(buffer.toString('utf8')) }] };
+    case 'html': {
+      const html = buffer.toString('utf8');
+      return { title: htmlTitle(html), pages: [{ page: null, text: htmlToText(html) }] };
+    }
+    case 'text':
+      return { pages: [{ page: null, text: buffer.toString('utf8').trim() }] };
+  }
+}
+
+const MAX_REDIRECTS = 5;
+
+// IPv4-mapped IPv6 (::ffff:127.0.0.1, or ::ffff:7f00:1 as URL normalises it) is checked as IPv4
+function unmapIPv6(address: string): string {
+  const mapped = address.match(/^::ffff:(?:0:)?(.+)$/i);
+  if (!mapped) {
+    return address;
+  }
+  if (isIP(mapped[1]) === 4) {
+    return mapped[1];
+  }
+  const hex = mapped[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (!hex) {
+    return address;
+  }
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+function isPrivateAddress(address: string): boolean {
+  const ip = unmapIPv6(address.toLowerCase());
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0
+      || a === 10
+      || a === 127
+      || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+      || (a === 169 && b === 254) // Link-local, including cloud metadata endpoints
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 198 && (b === 18 || b === 19)) // Benchmarking
+      || a >= 224; // Multicast and reserved
+  }
+  return ip === '::'
+    || ip === '::1'
+    || ip.startsWith('64:ff9b::') // NAT64, which reaches any IPv4 address through the gateway
+    || /^f[cd][0-9a-f]{2}:/.test(ip) // Unique local
+    || /^fe[89ab][0-9a-f]:/.test(ip); // Link-local
+}
+
+const privateHostError = (hostname: string) => new Error(`Links to private hosts are not allowed: ${hostname}`);
+
+// Links are fetched server-side, so refuse private host names and addresses before connecting
+function assertPublicHost(hostname: string): void {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || (isIP(host) && isPrivateAddress(host))) {
+    throw privateHostError(hostname);
+  }
+}
+
+/**
+ * DNS lookup for link sockets that fails on private addresses. The check runs on the
+ * addresses the socket then connects to, so a name that resolves to a public address
+ * once and a private one the next time (DNS rebinding) cannot slip through.
+ */
+function lookupPublicAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, []);
+    }
+    if (!addresses.length || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(privateHostError(hostname), []);
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const linkAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Fetch a web page or document and extract its text according to the response type.
+ * Redirects are followed by hand so every hop is checked against private hosts.
+ */
+export async function fetchLinkText(url: string): Promise<ExtractedDocument> {
+  let parsed = new URL(url);
+  let response: Response | undefined;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error(`Only http and https links are supported: ${parsed.href}`);
+    }
+    assertPublicHost(parsed.hostname);
+
+    try {
+      response = await fetch(parsed, {
+        redirect: 'manual',
+        dispatcher: linkAgent,
+        signal: AbortSignal.timeout(LINK_TIMEOUT_MS),
+        headers: { 'User-Agent': 'AI-Think-Tank/1.0 (grounding material fetcher)' }
+      });
+    } catch (error) {
+      // fetch reports connection errors, including a refused private address, as "fetch failed"
+      const cause = (error as { cause?: unknown }).cause;
+      throw cause instanceof Error ? cause : error;
+    }
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    parsed = new URL(location, parsed);
+    response = undefined;
+  }
+
+  if (!response) {
+    throw new Error(`Fetching ${url} failed: more than ${MAX_REDIRECTS} redirects`);
+  }
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} failed: ${response.status} ${response.statusText}`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength > MAX_DOCUMENT_BYTES) {
+    throw new Error(`Linked document is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > MAX_DOCUMENT_BYTES) {
+    throw new Error(`Linked document is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+  }
+
+  const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim();
+  // Servers know better than URLs what they return; fall back to the path, then to HTML
+  const kind = detectDocumentKind('', mimeType) || detectDocumentKind(parsed.pathname) || 'html';
+  return extractDocumentText(kind, buffer);
+}
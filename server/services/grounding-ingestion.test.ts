@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+const { storage } = await import('../storage');
+const { GroundingIngestion } = await import('./grounding-ingestion');
+
+const sentence = (n: number) => `Sentence ${n} explains one step of the rollout plan in some detail for the team.`;
+
+describe('GroundingIngestion', () => {
+  let uploadDir: string;
+  let ingestion: InstanceType<typeof GroundingIngestion>;
+
+  beforeAll(async () => {
+    uploadDir = await mkdtemp(path.join(tmpdir(), 'grounding-'));
+    ingestion = new GroundingIngestion(uploadDir);
+  });
+
+  afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+  });
+
+  const ingestText = async (name: string, text: string) => {
+    const createChunks = vi.spyOn(storage, 'createGroundingChunks');
+    const document = await ingestion.ingestFile('session-1', { name, mimeType: 'text/plain', buffer: Buffer.from(text) });
+    const chunks = createChunks.mock.calls.flatMap(([batch]) => batch);
+    createChunks.mockRestore();
+    return { document, chunks };
+  };
+
+  it('stores the file and packs short paragraphs into one chunk', async () => {
+    const { document, chunks } = await ingestText('notes.txt', 'First paragraph.\n\nSecond   paragraph\nwrapped.');
+
+    expect(document).toMatchObject({ status: 'indexed', kind: 'text', chunkCount: 1, pageCount: null });
+    expect(chunks).toEqual([expect.objectContaining({ chunkIndex: 0, page: null, content: 'First paragraph.\nSecond paragraph wrapped.' })]);
+    expect(await readFile(document.storagePath!, 'utf8')).toContain('First paragraph.');
+  });
+
+  it('splits long paragraphs at sentence ends and keeps every chunk within the limit', async () => {
+    const paragraph = Array.from({ length: 40 }, (_, i) => sentence(i + 1)).join(' ');
+    const { chunks } = await ingestText('plan.md', `# Plan\n\n${paragraph}`);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map(chunk => chunk.chunkIndex)).toEqual(chunks.map((_, i) => i));
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(1200);
+      expect(chunk.content).toMatch(/detail for the team\.$/);
+      expect(chunk.tokenCount).toBe(Math.ceil(chunk.content.length / 4));
+    }
+    expect(chunks.map(chunk => chunk.content).join(' ').replace(/\n/g, ' ')).toBe(`Plan ${paragraph}`);
+  });
+
+  it('cuts a sentence longer than a chunk at the limit', async () => {
+    const { chunks } = await ingestText('log.txt', 'x'.repeat(2500));
+    expect(chunks.map(chunk => chunk.content.length)).toEqual([1200, 1200, 100]);
+  });
+
+  it('marks a document without text as failed instead of throwing', async () => {
+    const { document, chunks } = await ingestText('empty.txt', '  \n\n  ');
+    expect(chunks).toEqual([]);
+    expect(document).toMatchObject({ status: 'failed', error: 'No text could be extracted (scanned PDFs need OCR first)' });
+  });
+});
@@ -0,0 +1,154 @@
+import { mkdir, writeFile, rm } from 'fs/promises';
+import path from 'path';
+import { storage } from '../storage';
+import { estimateTokens } from '../agents/providers';
+import { detectDocumentKind, extractDocumentText, fetchLinkText, type ExtractedDocument, type ExtractedPage } from './document-text';
+import type { GroundingDocument, InsertGroundingChunk } from '@shared/schema';
+
+const MAX_CHUNK_CHARS = 1200; // ~300 tokens: small enough to cite precisely, large enough to keep context
+
+export interface GroundingUpload {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+// Split long paragraphs at sentence ends, and sentences that are still too long at the limit
+function splitLong(paragraph: string): string[] {
+  if (paragraph.length <= MAX_CHUNK_CHARS) {
+    return [paragraph];
+  }
+  return paragraph.split(/(?<=[.!?])\s+/).flatMap(sentence => {
+    const parts: string[] = [];
+    for (let i = 0; i < sentence.length; i += MAX_CHUNK_CHARS) {
+      parts.push(sentence.slice(i, i + MAX_CHUNK_CHARS));
+    }
+    return parts;
+  });
+}
+
+/**
+ * Pack a page's paragraphs into chunks of up to MAX_CHUNK_CHARS. Chunks never span
+ * pages, so every chunk can be cited by page.
+ */
+function chunkPage(page: ExtractedPage): string[] {
+  const units = page.text
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(splitLong);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (current && current.length + unit.length + 1 > MAX_CHUNK_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${unit}` : unit;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+export class GroundingIngestion {
+  private uploadDir: string;
+
+  constructor(uploadDir: string = process.env.UPLOAD_DIR || path.resolve('uploads')) {
+    this.uploadDir = uploadDir;
+  }
+
+  /**
+   * Store an uploaded file, extract its text and index it. Extraction failures are
+   * recorded on the document (status "failed") rather than thrown.
+   */
+  async ingestFile(sessionId: string, upload: GroundingUpload, uploadedBy?: string): Promise<GroundingDocument> {
+    const kind = detectDocumentKind(upload.name, upload.mimeType);
+    if (!kind) {
+      throw new Error(`Unsupported file type: ${upload.name}`);
+    }
+
+    const document = await storage.createGroundingDocument({
+      sessionId,
+      name: upload.name,
+      kind,
+      sizeBytes: upload.buffer.length,
+      uploadedBy
+    });
+
+    const storagePath = path.join(this.uploadDir, sessionId, `${document.id}${path.extname(upload.name).toLowerCase()}`);
+    await mkdir(path.dirname(storagePath), { recursive: true });
+    await writeFile(storagePath, upload.buffer);
+    await storage.updateGroundingDocument(document.id, { storagePath });
+
+    return this.index(document, () => extractDocumentText(kind, upload.buffer));
+  }
+
+  /**
+   * Fetch a link and index the page or document behind it
+   */
+  async ingestLink(sessionId: string, url: string, uploadedBy?: string): Promise<GroundingDocument> {
+    const document = await storage.createGroundingDocument({
+      sessionId,
+      name: url,
+      kind: 'link',
+      url,
+      uploadedBy
+    });
+
+    return this.index(document, () => fetchLinkText(url));
+  }
+
+  /**
+   * Remove a document, its chunks and the stored file
+   */
+  async deleteDocument(document: GroundingDocument): Promise<void> {
+    await storage.deleteGroundingDocument(document.id);
+    if (document.storagePath) {
+      await rm(document.storagePath, { force: true });
+    }
+    console.log(`🗑️ Grounding: Removed "${document.name}" from session ${document.sessionId}`);
+  }
+
+  private async index(document: GroundingDocument, extract: () => Promise<ExtractedDocument>): Promise<GroundingDocument> {
+    try {
+      const extracted = await extract();
+      const chunks: InsertGroundingChunk[] = extracted.pages
+        .flatMap(page => chunkPage(page).map(content => ({ page: page.page, content })))
+        .map((chunk, chunkIndex) => ({
+          documentId: document.id,
+          sessionId: document.sessionId,
+          chunkIndex,
+          page: chunk.page,
+          content: chunk.content,
+          tokenCount: estimateTokens(chunk.content)
+        }));
+
+      if (!chunks.length) {
+        throw new Error('No text could be extracted (scanned PDFs need OCR first)');
+      }
+
+      await storage.createGroundingChunks(chunks);
+      const pageCount = extracted.pages.some(p => p.page !== null) ? extracted.pages.length : null;
+      const indexed = await storage.updateGroundingDocument(document.id, {
+        name: document.kind === 'link' && extracted.title ? extracted.title : document.name,
+        status: 'indexed',
+        pageCount,
+        chunkCount: chunks.length,
+        indexedAt: new Date()
+      });
+
+      console.log(`📚 Grounding: Indexed "${document.name}" as ${chunks.length} chunks`);
+      return indexed || document;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Grounding: Failed to index "${document.name}"`, error);
+      const failed = await storage.updateGroundingDocument(document.id, { status: 'failed', error: message });
+      return failed || document;
+    }
+  }
+}
+
+export const groundingIngestion = new GroundingIngestion();
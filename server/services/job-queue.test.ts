@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { OrchestrationResult } from '../agents/orchestrator';
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+// Phase runs are stubbed so each test decides how long a job takes and how it ends
+vi.mock('../agents/orchestrator', () => ({ orchestrator: { processPhase: vi.fn() } }));
+vi.mock('../agents/enhanced-debate-engine', () => ({ debateEngine: {} }));
+
+const { storage } = await import('../storage');
+const { orchestrator } = await import('../agents/orchestrator');
+const { JobQueue } = await import('./job-queue');
+
+const processPhase = vi.mocked(orchestrator.processPhase);
+
+const succeeded = (phase: number): OrchestrationResult => ({ success: true, messages: [], phaseComplete: true, nextActions: [], data: { phase } });
+
+// Settles only when the run is cancelled, the way a provider call stops on abort
+const untilAborted = (signal?: AbortSignal) => new Promise<never>((_, reject) => {
+  signal?.addEventListener('abort', () => reject(new Error('Phase cancelled')));
+});
+
+describe('JobQueue', () => {
+  let sessionId: string;
+  let queue: InstanceType<typeof JobQueue>;
+
+  beforeEach(async () => {
+    sessionId = (await storage.createSession({ title: 'Queued session' })).id;
+    queue = new JobQueue({ pollIntervalMs: 10, heartbeatIntervalMs: 10, leaseMs: 1000 });
+  });
+
+  afterEach(() => {
+    queue.stop();
+    processPhase.mockReset();
+  });
+
+  it('runs a submitted phase job to completion and stores its result', async () => {
+    processPhase.mockResolvedValue(succeeded(3));
+    await queue.start();
+    const job = await queue.submit(sessionId, 'process_phase', { phase: 3 });
+
+    await vi.waitFor(async () => expect((await storage.getJob(job.id))?.status).toBe('completed'));
+    expect(await storage.getJob(job.id)).toMatchObject({
+      progress: 100, attempts: 1, result: { phase: 3, phaseComplete: true, data: { phase: 3 } }
+    });
+    expect(processPhase).toHaveBeenCalledWith(sessionId, 3, expect.objectContaining({ signal: expect.any(AbortSignal) }));
+  });
+
+  it('marks the job failed with the phase error', async () => {
+    processPhase.mockResolvedValue({ success: false, messages: [], error: 'No approved problem' });
+    await queue.start();
+    const job = await queue.submit(sessionId, 'process_phase', { phase: 3 });
+
+    await vi.waitFor(async () => expect(await storage.getJob(job.id)).toMatchObject({ status: 'failed', error: 'No approved problem' }));
+  });
+
+  it('cancels a queued job before it runs', async () => {
+    const job = await storage.createJob({ sessionId, type: 'process_phase', payload: { phase: 3 } });
+    expect((await queue.cancel(job.id))?.status).toBe('cancelled');
+
+    await queue.start();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(processPhase).not.toHaveBeenCalled();
+  });
+
+  it('aborts a running job on cancel and records it cancelled', async () => {
+    processPhase.mockImplementation((_sessionId, _phase, options) => untilAborted(options?.signal));
+    await queue.start();
+    const job = await queue.submit(sessionId, 'process_phase', { phase: 4 });
+    await vi.waitFor(async () => expect((await storage.getJob(job.id))?.status).toBe('running'));
+
+    expect((await queue.cancel(job.id))?.cancelRequested).toBe(true);
+    await vi.waitFor(async () => expect(await storage.getJob(job.id)).toMatchObject({ status: 'cancelled', error: null }));
+  });
+
+  it('puts a failed job back on the queue with a fresh attempt budget on retry', async () => {
+    const job = await storage.createJob({ sessionId, type: 'process_phase', payload: { phase: 3 }, status: 'failed', attempts: 3, error: 'Timed out' });
+    expect(await queue.retry(job.id)).toMatchObject({ status: 'queued', attempts: 0, error: null });
+    await queue.cancel(job.id);
+
+    const completed = await storage.createJob({ sessionId, type: 'process_phase', status: 'completed' });
+    expect((await queue.retry(completed.id))?.status).toBe('completed');
+  });
+
+  it('heartbeats running jobs', async () => {
+    processPhase.mockImplementation((_sessionId, _phase, options) => untilAborted(options?.signal));
+    await queue.start();
+    const job = await queue.submit(sessionId, 'process_phase', { phase: 4 });
+    await vi.waitFor(async () => expect((await storage.getJob(job.id))?.status).toBe('running'));
+    const claimedAt = (await storage.getJob(job.id))!.heartbeatAt!;
+
+    await vi.waitFor(async () => expect((await storage.getJob(job.id))!.heartbeatAt!.getTime()).toBeGreaterThan(claimedAt.getTime()));
+    await queue.cancel(job.id);
+  });
+
+  it('requeues only running jobs whose lease has expired', async () => {
+    processPhase.mockResolvedValue(succeeded(3));
+    const stale = await storage.createJob({
+      sessionId, type: 'process_phase', payload: { phase: 3 }, status: 'running', attempts: 1, heartbeatAt: new Date(Date.now() - 5000)
+    });
+    const live = await storage.createJob({
+      sessionId, type: 'process_phase', payload: { phase: 3 }, status: 'running', attempts: 1, heartbeatAt: new Date(Date.now() + 60000)
+    });
+
+    await queue.start();
+
+    await vi.waitFor(async () => expect(await storage.getJob(stale.id)).toMatchObject({ status: 'completed', attempts: 2 }));
+    expect(await storage.getJob(live.id)).toMatchObject({ status: 'running', attempts: 1 });
+    expect(processPhase).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,265 @@
+import { storage } from '../storage';
+import { orchestrator } from '../agents/orchestrator';
+import { debateEngine } from '../agents/enhanced-debate-engine';
+import type { Job } from '@shared/schema';
+
+export type JobType = 'process_phase' | 'debate_session';
+
+export interface JobControls {
+  signal: AbortSignal;
+  reportProgress: (progress: number, message: string) => void;
+}
+
+// Handlers return the JSON stored in jobs.result; throwing marks the job failed
+export type JobHandler = (job: Job, controls: JobControls) => Promise<Record<string, unknown>>;
+
+export interface JobQueueOptions {
+  pollIntervalMs?: number;
+  concurrency?: number;
+  maxAttempts?: number;
+  heartbeatIntervalMs?: number;
+  leaseMs?: number; // A running job whose heartbeat is older than this is requeued
+}
+
+const handlers: Record<JobType, JobHandler> = {
+  process_phase: async (job, { signal, reportProgress }) => {
+    const { phase } = job.payload as { phase: number };
+    const result = await orchestrator.processPhase(job.sessionId, phase, {
+      onProgress: reportProgress,
+      signal
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || `Phase ${phase} failed`);
+    }
+
+    return {
+      phase,
+      phaseComplete: result.phaseComplete ?? false,
+      nextActions: result.nextActions || [],
+      data: result.data || {},
+      messageCount: result.messages.length
+    };
+  },
+
+  // A payload with debateSessionId carries on a resumed debate instead of starting one
+  debate_session: async (job, { signal, reportProgress }) => {
+    const { solutionId, rounds, debateSessionId } = job.payload as { solutionId?: string; rounds?: number; debateSessionId?: string };
+    const context = await orchestrator.buildContext(job.sessionId);
+    context.onProgress = reportProgress;
+    context.signal = signal;
+
+    reportProgress(0, debateSessionId ? 'Resuming debate session' : 'Starting debate session');
+    const debate = debateSessionId
+      ? await debateEngine.continueDebateSession(debateSessionId, context)
+      : await debateEngine.startDebateSession(job.sessionId, solutionId!, context, rounds);
+    reportProgress(100, debate.status === 'paused' ? 'Debate paused' : 'Debate session complete');
+
+    return { ...debate };
+  }
+};
+
+/**
+ * Postgres-backed queue for long-running orchestration work. Jobs survive
+ * browser refreshes and server restarts: workers heartbeat the jobs they run,
+ * and a "running" job whose heartbeat has expired is requeued. Phase handlers
+ * are not idempotent, so a resumed job re-runs its phase from the beginning.
+ */
+export class JobQueue {
+  private running = new Map<string, AbortController>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private pollIntervalMs: number;
+  private concurrency: number;
+  private maxAttempts: number;
+  private heartbeatIntervalMs: number;
+  private leaseMs: number;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.concurrency = options.concurrency ?? 2;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15000;
+    this.leaseMs = options.leaseMs ?? 60000;
+  }
+
+  /**
+   * Requeue jobs whose worker has stopped and begin polling
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+
+    await this.requeueStaleJobs();
+
+    this.pollTimer = setInterval(() => { void this.poll(); }, this.pollIntervalMs);
+    console.log(`🚀 Job Queue: Polling every ${this.pollIntervalMs}ms (concurrency ${this.concurrency})`);
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Persist a new job; it is picked up on the next poll
+   */
+  async submit(sessionId: string, type: JobType, payload: Record<string, unknown>, createdBy?: string): Promise<Job> {
+    const job = await storage.createJob({ sessionId, type, payload, createdBy });
+    console.log(`📥 Job Queue: Submitted ${type} job ${job.id} for session ${sessionId}`);
+    void this.poll();
+    return job;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled immediately; running jobs stop
+   * before their next provider call.
+   */
+  async cancel(jobId: string): Promise<Job | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.status === 'queued') {
+      return await storage.updateJob(jobId, { status: 'cancelled', finishedAt: new Date() });
+    }
+
+    if (job.status === 'running') {
+      this.running.get(jobId)?.abort();
+      return await storage.updateJob(jobId, { cancelRequested: true, progressMessage: 'Cancelling...' });
+    }
+
+    return job;
+  }
+
+  /**
+   * Put a failed or cancelled job back on the queue with a fresh attempt budget
+   */
+  async retry(jobId: string): Promise<Job | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) {
+      return job;
+    }
+
+    const updated = await storage.updateJob(jobId, {
+      status: 'queued',
+      progress: 0,
+      progressMessage: null,
+      result: null,
+      error: null,
+      attempts: 0,
+      cancelRequested: false,
+      startedAt: null,
+      finishedAt: null
+    });
+    void this.poll();
+    return updated;
+  }
+
+  // Jobs still "running" without a recent heartbeat belong to a process that has stopped
+  private async requeueStaleJobs(): Promise<void> {
+    const requeued = await storage.requeueStaleJobs(new Date(Date.now() - this.leaseMs));
+    if (requeued.length > 0) {
+      console.log(`🔁 Job Queue: Requeued ${requeued.length} job(s) whose worker stopped`);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      // Another instance may have died while running jobs
+      await this.requeueStaleJobs();
+
+      // Cancellation may have been requested through another server instance
+      for (const [jobId, controller] of Array.from(this.running.entries())) {
+        const job = await storage.getJob(jobId);
+        if (job?.cancelRequested) {
+          controller.abort();
+        }
+      }
+
+      while (this.running.size < this.concurrency) {
+        const job = await storage.claimNextJob();
+        if (!job) {
+          break;
+        }
+        void this.run(job);
+      }
+    } catch (error) {
+      console.error('❌ Job Queue: Poll failed', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+    const startTime = Date.now();
+    const heartbeat = setInterval(() => {
+      storage.updateJob(job.id, { heartbeatAt: new Date() }).catch(error => {
+        console.error(`❌ Job Queue: Failed to record heartbeat for ${job.id}`, error);
+      });
+    }, this.heartbeatIntervalMs);
+
+    try {
+      if (job.attempts > this.maxAttempts) {
+        throw new Error(`Gave up after ${this.maxAttempts} attempts`);
+      }
+
+      const handler = handlers[job.type as JobType];
+      if (!handler) {
+        throw new Error(`Unknown job type: ${job.type}`);
+      }
+
+      console.log(`⚙️  Job Queue: Running ${job.type} job ${job.id} (attempt ${job.attempts})`);
+
+      let lastProgress = -1;
+      const reportProgress = (progress: number, message: string) => {
+        const clamped = Math.max(0, Math.min(100, Math.round(progress)));
+        if (clamped === lastProgress) return;
+        lastProgress = clamped;
+        storage.updateJob(job.id, { progress: clamped, progressMessage: message }).catch(error => {
+          console.error(`❌ Job Queue: Failed to record progress for ${job.id}`, error);
+        });
+      };
+
+      const result = await handler(job, { signal: controller.signal, reportProgress });
+
+      await storage.updateJob(job.id, {
+        status: 'completed',
+        progress: 100,
+        result,
+        finishedAt: new Date()
+      });
+      console.log(`✅ Job Queue: Job ${job.id} completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const cancelled = controller.signal.aborted;
+
+      await storage.updateJob(job.id, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: cancelled ? null : message,
+        progressMessage: cancelled ? 'Cancelled' : null,
+        finishedAt: new Date()
+      }).catch(updateError => {
+        console.error(`❌ Job Queue: Failed to record outcome for ${job.id}`, updateError);
+      });
+      console.log(`${cancelled ? '🛑' : '💥'} Job Queue: Job ${job.id} ${cancelled ? 'cancelled' : `failed: ${message}`}`);
+    } finally {
+      clearInterval(heartbeat);
+      this.running.delete(job.id);
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,46 @@
+import { storage } from '../storage';
+import { SolutionAgent } from '../agents/solution-agent';
+import { orchestrator } from '../agents/orchestrator';
+import type { ParticipantSolutionRequest, Solution } from '@shared/schema';
+
+export class ParticipantSolutions {
+  private agent: SolutionAgent;
+
+  constructor(agent: SolutionAgent = new SolutionAgent()) {
+    this.agent = agent;
+  }
+
+  /**
+   * Have the Solution agent complete a participant's proposal and store it next to
+   * the generated solutions, so it is debated, compared and charted the same way.
+   * Fields the author wrote are stored exactly as written.
+   */
+  async submit(sessionId: string, authorId: string, proposal: ParticipantSolutionRequest): Promise<Solution> {
+    const problem = (await storage.getSessionProblems(sessionId)).find(p => p.status === 'approved');
+    if (!problem) {
+      throw new Error('No approved problem statement found');
+    }
+
+    const context = await orchestrator.buildContext(sessionId);
+    const { data } = await this.agent.structureProposal(proposal, context.problemStatement || problem.statement, context);
+
+    const solution = await storage.createSolution({
+      sessionId,
+      problemId: problem.id,
+      title: proposal.title,
+      objective: proposal.objective || data.objective,
+      approach: proposal.approach || data.approach,
+      enablers: proposal.enablers?.length ? proposal.enablers : data.enablers,
+      risks: proposal.risks?.length ? proposal.risks : data.risks,
+      expectedOutcomes: proposal.expectedOutcomes?.length ? proposal.expectedOutcomes : data.expectedOutcomes,
+      impact: data.impact,
+      generatedBy: 'participant',
+      authorId
+    });
+
+    console.log(`🙋 Participant Solutions: Added "${solution.title}" to session ${sessionId}`);
+    return solution;
+  }
+}
+
+export const participantSolutions = new ParticipantSolutions();
@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Prices in USD. Token prices are per million tokens, speech per thousand
+ * characters, and search calls may add a flat per-request fee.
+ */
+export interface Price {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perThousandChars?: number;
+  perRequest?: number;
+}
+
+// Keyed by "provider/model"; "provider/*" matches any model of that provider
+export type PriceTable = Record<string, Price>;
+
+export const defaultPriceTable: PriceTable = {
+  'openai/gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'openai/gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'anthropic/claude-3-5-sonnet-20241022': { inputPerMillion: 3, outputPerMillion: 15 },
+  'anthropic/claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'gemini/gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini/gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'perplexity/llama-3.1-sonar-small-128k-online': { inputPerMillion: 0.2, outputPerMillion: 0.2, perRequest: 0.005 },
+  'elevenlabs/*': { perThousandChars: 0.3 },
+  // Local and offline providers cost nothing per call
+  'scripted/*': {},
+  'local/*': {},
+  'ollama/*': {},
+};
+
+export interface UsageAmounts {
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+}
+
+/**
+ * Load the price table. PRICE_TABLE_PATH may point to a JSON file whose
+ * entries override or extend the defaults.
+ */
+export function loadPriceTable(): PriceTable {
+  const path = process.env.PRICE_TABLE_PATH;
+  if (!path) {
+    return defaultPriceTable;
+  }
+
+  try {
+    const overrides = JSON.parse(readFileSync(path, 'utf-8')) as PriceTable;
+    console.log(`💲 Pricing: Loaded ${Object.keys(overrides).length} price override(s) from ${path}`);
+    return { ...defaultPriceTable, ...overrides };
+  } catch (error) {
+    console.error(`❌ Pricing: Failed to load ${path}, using default prices`, error);
+    return defaultPriceTable;
+  }
+}
+
+export function findPrice(table: PriceTable, provider: string, model: string): Price | undefined {
+  return table[`${provider}/${model}`] ?? table[`${provider}/*`];
+}
+
+/**
+ * Cost of one call in USD, or null when no price is configured for it
+ */
+export function computeCost(table: PriceTable, provider: string, model: string, amounts: UsageAmounts): number | null {
+  const price = findPrice(table, provider, model);
+  if (!price) {
+    return null;
+  }
+
+  return (
+    (amounts.inputTokens / 1_000_000) * (price.inputPerMillion ?? 0) +
+    (amounts.outputTokens / 1_000_000) * (price.outputPerMillion ?? 0) +
+    (amounts.characters / 1000) * (price.perThousandChars ?? 0) +
+    (price.perRequest ?? 0)
+  );
+}
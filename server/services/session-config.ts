@@ -0,0 +1,18 @@
+import { sessionConfigSchema, type SessionConfig } from '@shared/schema';
+
+/**
+ * Typed view of sessions.config with defaults filled in. Invalid top-level
+ * fields fall back to their defaults instead of failing the phase.
+ */
+export function resolveSessionConfig(config: unknown): SessionConfig {
+  const raw = config && typeof config === 'object' && !Array.isArray(config) ? config as Record<string, unknown> : {};
+  const parsed = sessionConfigSchema.safeParse(raw);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  console.warn('⚠️ Session config: Ignoring invalid settings', parsed.error.issues);
+  const invalidKeys = new Set(parsed.error.issues.map(issue => String(issue.path[0])));
+  const valid = Object.fromEntries(Object.entries(raw).filter(([key]) => !invalidKeys.has(key)));
+  return sessionConfigSchema.parse(valid);
+}
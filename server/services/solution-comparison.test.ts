@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { defaultComparisonCriteria, type ComparisonCell } from '@shared/comparison';
+import type { ComparisonCriterion } from '@shared/schema';
+
+vi.mock('../storage', async () => {
+  const { createMemoryStorage } = await import('../test/memory-storage');
+  return { storage: createMemoryStorage() };
+});
+
+const { rankSolutions, weightSensitivity } = await import('./solution-comparison');
+
+const solutions = [
+  { id: 'a', title: 'Pilot first', version: 1, authorName: null },
+  { id: 'b', title: 'Big bang', version: 1, authorName: 'Sam' }
+];
+
+const criterion = (id: string, weight: number): ComparisonCriterion => ({
+  id, sessionId: 'session', name: id, description: null, weight, position: 0, createdAt: new Date()
+});
+
+const cell = (solutionId: string, criterionId: string, aiScore: number | null, score: number | null = null): ComparisonCell => ({
+  solutionId, criterionId, aiScore, aiRationale: null, score, effectiveScore: score ?? aiScore
+});
+
+describe('rankSolutions', () => {
+  it('ranks by the weighted mean of the effective scores', () => {
+    const criteria = [criterion('cost', 75), criterion('impact', 25)];
+    const cells = [cell('a', 'cost', 8), cell('a', 'impact', 4), cell('b', 'cost', 4), cell('b', 'impact', 10)];
+
+    expect(rankSolutions(solutions, criteria, cells)).toEqual([
+      { solutionId: 'a', title: 'Pilot first', weightedScore: 7, scoredCriteria: 2, rank: 1 },
+      { solutionId: 'b', title: 'Big bang', weightedScore: 5.5, scoredCriteria: 2, rank: 2 }
+    ]);
+  });
+
+  it('leaves unscored criteria out of a solution\'s mean', () => {
+    const criteria = [criterion('cost', 50), criterion('impact', 50)];
+    const ranking = rankSolutions(solutions, criteria, [cell('a', 'cost', 6), cell('b', 'cost', 4), cell('b', 'impact', 6)]);
+
+    expect(ranking.find(r => r.solutionId === 'a')).toMatchObject({ weightedScore: 6, scoredCriteria: 1 });
+    expect(ranking.find(r => r.solutionId === 'b')).toMatchObject({ weightedScore: 5, scoredCriteria: 2 });
+  });
+
+  it('lets participant overrides win over the AI score', () => {
+    const criteria = [criterion('cost', 100)];
+    const ranking = rankSolutions(solutions, criteria, [cell('a', 'cost', 9, 2), cell('b', 'cost', 5)]);
+    expect(ranking.map(r => r.solutionId)).toEqual(['b', 'a']);
+  });
+
+  it('keeps the solutions\' order on ties', () => {
+    const ranking = rankSolutions(solutions, [criterion('cost', 100)], []);
+    expect(ranking.map(r => [r.solutionId, r.weightedScore, r.rank])).toEqual([['a', 0, 1], ['b', 0, 2]]);
+  });
+});
+
+describe('weightSensitivity', () => {
+  const criteria = [criterion('cost', 50), criterion('impact', 50)];
+  // a wins on cost, b on impact; b leads at equal weights
+  const cells = [cell('a', 'cost', 8), cell('a', 'impact', 4), cell('b', 'cost', 5), cell('b', 'impact', 8)];
+
+  it('records where the winner changes as a weight moves', () => {
+    const [cost, impact] = weightSensitivity(solutions, criteria, cells);
+
+    expect(cost).toMatchObject({ criterionId: 'cost', weight: 50, stableFrom: 0, stableTo: 60 });
+    expect(cost.winners).toEqual([{ fromWeight: 0, solutionId: 'b' }, { fromWeight: 70, solutionId: 'a' }]);
+    expect(impact).toMatchObject({ criterionId: 'impact', weight: 50, stableFrom: 40, stableTo: 100 });
+    expect(impact.winners).toEqual([{ fromWeight: 0, solutionId: 'a' }, { fromWeight: 40, solutionId: 'b' }]);
+  });
+
+  it('reports a single winner when no weight changes the ranking', () => {
+    const dominant = [cell('a', 'cost', 9), cell('a', 'impact', 9), cell('b', 'cost', 3), cell('b', 'impact', 3)];
+    for (const entry of weightSensitivity(solutions, criteria, dominant)) {
+      expect(entry.winners).toEqual([{ fromWeight: 0, solutionId: 'a' }]);
+      expect([entry.stableFrom, entry.stableTo]).toEqual([0, 100]);
+    }
+  });
+
+  it('is empty until two solutions have scores to compare', () => {
+    expect(weightSensitivity(solutions.slice(0, 1), criteria, cells)).toEqual([]);
+    expect(weightSensitivity(solutions, criteria, [])).toEqual([]);
+  });
+});
+
+describe('defaultComparisonCriteria', () => {
+  it('weighs the default criteria equally', () => {
+    expect(new Set(defaultComparisonCriteria.map(c => c.weight)).size).toBe(1);
+    expect(defaultComparisonCriteria.reduce((sum, c) => sum + c.weight, 0)).toBe(100);
+  });
+});
@@ -0,0 +1,197 @@
+import { storage } from '../storage';
+import { SolutionAgent } from '../agents/solution-agent';
+import { orchestrator } from '../agents/orchestrator';
+import type { ComparisonCriteriaRequest, ComparisonCriterion, ComparisonScore, SolutionWithAuthor } from '@shared/schema';
+import type { ComparisonCell, ComparisonMatrix, RankedSolution, WeightSensitivity } from '@shared/comparison';
+
+const SENSITIVITY_STEP = 10;
+const MAX_WEIGHT = 100;
+
+type MatrixSolution = ComparisonMatrix['solutions'][number];
+
+/**
+ * Rank solutions by the weighted mean of their effective scores. Criteria a solution
+ * has no score for are left out of its mean; ties keep the solutions' order.
+ */
+export function rankSolutions(
+  solutions: MatrixSolution[],
+  criteria: Array<Pick<ComparisonCriterion, 'id' | 'weight'>>,
+  cells: ComparisonCell[]
+): RankedSolution[] {
+  const cellScores = new Map(cells.map(cell => [`${cell.solutionId}:${cell.criterionId}`, cell.effectiveScore]));
+
+  const scored = solutions.map((solution, order) => {
+    let weighted = 0;
+    let totalWeight = 0;
+    let scoredCriteria = 0;
+    for (const criterion of criteria) {
+      const score = cellScores.get(`${solution.id}:${criterion.id}`);
+      if (score == null) continue;
+      weighted += criterion.weight * score;
+      totalWeight += criterion.weight;
+      scoredCriteria++;
+    }
+    const weightedScore = totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) / 100 : 0;
+    return { solutionId: solution.id, title: solution.title, weightedScore, scoredCriteria, order };
+  });
+
+  return scored
+    .sort((a, b) => b.weightedScore - a.weightedScore || a.order - b.order)
+    .map(({ order, ...entry }, index) => ({ ...entry, rank: index + 1 }));
+}
+
+/**
+ * For each criterion, move its weight from 0 to 100 with the others fixed and record
+ * which solution comes first along the way, and the range over which the current
+ * winner holds
+ */
+export function weightSensitivity(
+  solutions: MatrixSolution[],
+  criteria: ComparisonCriterion[],
+  cells: ComparisonCell[]
+): WeightSensitivity[] {
+  if (solutions.length < 2 || !cells.some(cell => cell.effectiveScore != null)) {
+    return [];
+  }
+  const winnerAt = (criterionId: string, weight: number) => rankSolutions(
+    solutions,
+    criteria.map(c => c.id === criterionId ? { id: c.id, weight } : c),
+    cells
+  )[0].solutionId;
+
+  return criteria.map(criterion => {
+    const steps = new Set<number>([criterion.weight]);
+    for (let weight = 0; weight <= MAX_WEIGHT; weight += SENSITIVITY_STEP) {
+      steps.add(weight);
+    }
+    const samples = Array.from(steps)
+      .sort((a, b) => a - b)
+      .map(weight => ({ weight, solutionId: winnerAt(criterion.id, weight) }));
+
+    const winners: WeightSensitivity['winners'] = [];
+    for (const sample of samples) {
+      if (winners[winners.length - 1]?.solutionId !== sample.solutionId) {
+        winners.push({ fromWeight: sample.weight, solutionId: sample.solutionId });
+      }
+    }
+
+    // Widen from the current weight while the same solution stays on top
+    const current = samples.findIndex(sample => sample.weight === criterion.weight);
+    const winner = samples[current].solutionId;
+    let from = current;
+    let to = current;
+    while (from > 0 && samples[from - 1].solutionId === winner) from--;
+    while (to < samples.length - 1 && samples[to + 1].solutionId === winner) to++;
+
+    return {
+      criterionId: criterion.id,
+      criterion: criterion.name,
+      weight: criterion.weight,
+      stableFrom: samples[from].weight,
+      stableTo: samples[to].weight,
+      winners
+    };
+  });
+}
+
+export class SolutionComparison {
+  private agent: SolutionAgent;
+
+  constructor(agent: SolutionAgent = new SolutionAgent()) {
+    this.agent = agent;
+  }
+
+  /**
+   * The session's criteria, scores, ranking and sensitivity analysis
+   */
+  async getMatrix(sessionId: string): Promise<ComparisonMatrix> {
+    const [criteria, sessionSolutions, scores] = await Promise.all([
+      storage.getSessionComparisonCriteria(sessionId),
+      storage.getSessionSolutions(sessionId),
+      storage.getSessionComparisonScores(sessionId)
+    ]);
+    return this.buildMatrix(sessionId, criteria, sessionSolutions, scores);
+  }
+
+  async setCriteria(sessionId: string, criteria: ComparisonCriteriaRequest['criteria']): Promise<ComparisonMatrix> {
+    await storage.replaceComparisonCriteria(sessionId, criteria);
+    return this.getMatrix(sessionId);
+  }
+
+  /**
+   * Have the Solution agent score every solution on every criterion. Participant
+   * overrides are kept; only the AI proposals are replaced.
+   */
+  async proposeScores(sessionId: string): Promise<ComparisonMatrix> {
+    const [criteria, sessionSolutions] = await Promise.all([
+      storage.getSessionComparisonCriteria(sessionId),
+      storage.getSessionSolutions(sessionId)
+    ]);
+    if (!criteria.length) {
+      throw new Error('Define comparison criteria before scoring');
+    }
+    if (!sessionSolutions.length) {
+      throw new Error('The session has no solutions to compare');
+    }
+
+    const context = await orchestrator.buildContext(sessionId);
+    const { data } = await this.agent.compareSolutions(sessionSolutions, criteria, context);
+
+    // Map the prompt's S1/C1 labels back to ids; unknown labels are dropped
+    const byLabel = <T extends { id: string }>(items: T[], prefix: string, label: string) => {
+      const index = Number(label.trim().toUpperCase().replace(prefix, '')) - 1;
+      return Number.isInteger(index) ? items[index]?.id : undefined;
+    };
+    const proposals = new Map<string, { solutionId: string; criterionId: string; aiScore: number; aiRationale: string }>();
+    for (const proposal of data.scores) {
+      const solutionId = byLabel(sessionSolutions, 'S', proposal.solution);
+      const criterionId = byLabel(criteria, 'C', proposal.criterion);
+      if (solutionId && criterionId) {
+        proposals.set(`${solutionId}:${criterionId}`, { solutionId, criterionId, aiScore: proposal.score, aiRationale: proposal.rationale });
+      }
+    }
+
+    await storage.saveProposedComparisonScores(sessionId, Array.from(proposals.values()));
+    console.log(`⚖️ Solution Comparison: Scored ${proposals.size} of ${sessionSolutions.length * criteria.length} cells for session ${sessionId}`);
+    return this.getMatrix(sessionId);
+  }
+
+  async adjustScore(sessionId: string, solutionId: string, criterionId: string, score: number | null, userId: string): Promise<ComparisonMatrix> {
+    const [solution, criteria] = await Promise.all([
+      storage.getSolution(solutionId),
+      storage.getSessionComparisonCriteria(sessionId)
+    ]);
+    if (!solution || solution.sessionId !== sessionId || !criteria.some(c => c.id === criterionId)) {
+      throw new Error('Solution or criterion not found');
+    }
+
+    await storage.setComparisonScore(sessionId, solutionId, criterionId, score, userId);
+    return this.getMatrix(sessionId);
+  }
+
+  private buildMatrix(sessionId: string, criteria: ComparisonCriterion[], sessionSolutions: SolutionWithAuthor[], scores: ComparisonScore[]): ComparisonMatrix {
+    const solutions = sessionSolutions.map(s => ({ id: s.id, title: s.title, version: s.version, authorName: s.authorName }));
+    const criterionIds = new Set(criteria.map(c => c.id));
+    const cells: ComparisonCell[] = scores
+      .filter(score => criterionIds.has(score.criterionId))
+      .map(score => ({
+        solutionId: score.solutionId,
+        criterionId: score.criterionId,
+        aiScore: score.aiScore,
+        aiRationale: score.aiRationale,
+        score: score.score,
+        effectiveScore: score.score ?? score.aiScore
+      }));
+
+    return {
+      sessionId,
+      criteria,
+      solutions,
+      cells,
+      ranking: rankSolutions(solutions, criteria, cells),
+      sensitivity: weightSensitivity(solutions, criteria, cells)
+    };
+  }
+}
+
+export const solutionComparison = new SolutionComparison();
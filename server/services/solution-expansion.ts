@@ -0,0 +1,55 @@
+import { storage } from '../storage';
+import { SolutionAgent } from '../agents/solution-agent';
+import { orchestrator } from '../agents/orchestrator';
+import type { ExpansionAspect, SolutionExpansion } from '@shared/schema';
+
+export class SolutionExpander {
+  private agent: SolutionAgent;
+
+  constructor(agent: SolutionAgent = new SolutionAgent()) {
+    this.agent = agent;
+  }
+
+  /**
+   * Have the Solution agent work one aspect of the solution out in detail and store
+   * it against the solution's current version. Earlier expansions are kept.
+   */
+  async expand(solutionId: string, aspect: ExpansionAspect, userId?: string): Promise<SolutionExpansion> {
+    const solution = await storage.getSolution(solutionId);
+    if (!solution) {
+      throw new Error('Solution not found');
+    }
+
+    const context = await orchestrator.buildContext(solution.sessionId);
+    const { data, message } = await this.agent.expandSolution(solution, aspect, context);
+
+    const expansion = await storage.createSolutionExpansion({
+      solutionId: solution.id,
+      aspect,
+      solutionVersion: solution.version,
+      content: data,
+      provider: message.provider,
+      model: message.model,
+      createdBy: userId ?? null
+    });
+
+    console.log(`🗺️ Solution Expander: Expanded ${aspect} for "${solution.title}" (v${solution.version})`);
+    return expansion;
+  }
+
+  /**
+   * The latest expansion of each aspect
+   */
+  async current(solutionId: string): Promise<SolutionExpansion[]> {
+    const expansions = await storage.getSolutionExpansions(solutionId);
+    const latest = new Map<string, SolutionExpansion>();
+    for (const expansion of expansions) {
+      if (!latest.has(expansion.aspect)) {
+        latest.set(expansion.aspect, expansion);
+      }
+    }
+    return Array.from(latest.values());
+  }
+}
+
+export const solutionExpander = new SolutionExpander();
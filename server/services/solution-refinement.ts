@@ -0,0 +1,98 @@
+import { storage } from '../storage';
+import { SolutionAgent } from '../agents/solution-agent';
+import { orchestrator } from '../agents/orchestrator';
+import type { DebatePoint, Solution, SolutionFeedback, SolutionVersion } from '@shared/schema';
+
+const MAX_EXCERPT_CHARS = 600;
+const MAX_OBJECTIONS = 3;
+const MAX_QUESTIONS = 10;
+
+function excerpt(text: string): string {
+  return text.length > MAX_EXCERPT_CHARS ? `${text.substring(0, MAX_EXCERPT_CHARS)}...` : text;
+}
+
+export interface RefinementResult {
+  solution: Solution;
+  version: SolutionVersion;
+  feedback: SolutionFeedback;
+}
+
+export class SolutionRefinement {
+  private agent: SolutionAgent;
+
+  constructor(agent: SolutionAgent = new SolutionAgent()) {
+    this.agent = agent;
+  }
+
+  /**
+   * What the latest debate of the solution left unanswered: the rounds the opponent
+   * won, the strongest objections otherwise, contested or refuted claims and the
+   * session's participant questions
+   */
+  async gatherFeedback(solution: Solution, guidance?: string): Promise<SolutionFeedback> {
+    const debate = await storage.getLatestDebateSession(solution.sessionId, solution.id);
+    const [rounds, allPoints, claims, questions] = await Promise.all([
+      debate ? storage.getDebateRounds(debate.id) : Promise.resolve([]),
+      storage.getSolutionDebatePoints(solution.id),
+      storage.getSessionClaims(solution.sessionId),
+      storage.getSessionQuestions(solution.sessionId)
+    ]);
+
+    // Only the latest debate speaks to the current version
+    const points = debate ? allPoints.filter(p => p.debateSessionId === debate.id) : allPoints;
+    const side = (round: number, agent: string) => points
+      .filter(p => p.round === round && p.agent === agent)
+      .map(p => excerpt(p.content))
+      .join(' / ');
+
+    const lostRounds = rounds
+      .filter(r => r.winner === 'opponent')
+      .map(r => ({ round: r.roundNumber, proponent: side(r.roundNumber, 'proponent'), opponent: side(r.roundNumber, 'opponent') }));
+
+    const objections = lostRounds.length ? [] : points
+      .filter(p => p.agent === 'opponent')
+      .sort((a, b) => (b.upvotes - b.downvotes) - (a.upvotes - a.downvotes))
+      .slice(0, MAX_OBJECTIONS)
+      .map((p: DebatePoint) => excerpt(p.content));
+
+    const pointIds = new Set(points.map(p => p.id));
+    const contestedClaims = claims
+      .filter(c => pointIds.has(c.pointId) && (c.status === 'contested' || c.status === 'refuted'))
+      .map(c => ({ text: c.text, status: c.status as 'contested' | 'refuted' }));
+
+    // Unanswered and most-voted questions first
+    const openQuestions = [...questions]
+      .sort((a, b) => Number(a.answered) - Number(b.answered) || b.votes - a.votes)
+      .slice(0, MAX_QUESTIONS)
+      .map(q => q.question);
+
+    return { lostRounds, objections, contestedClaims, questions: openQuestions, guidance };
+  }
+
+  /**
+   * Refine the solution from its debate feedback and store the result as its next version
+   */
+  async refine(solutionId: string, options: { guidance?: string; userId?: string } = {}): Promise<RefinementResult> {
+    const solution = await storage.getSolution(solutionId);
+    if (!solution) {
+      throw new Error('Solution not found');
+    }
+
+    const feedback = await this.gatherFeedback(solution, options.guidance);
+    const context = await orchestrator.buildContext(solution.sessionId);
+    const { data } = await this.agent.refineSolution(solution, feedback, context);
+
+    const { changeSummary, ...content } = data;
+    const result = await storage.createSolutionVersion(solution.id, {
+      ...content,
+      changeSummary,
+      feedback,
+      createdBy: options.userId ?? null
+    });
+
+    console.log(`🔧 Solution Refinement: "${solution.title}" is now version ${result.version.version} (${feedback.lostRounds.length} lost rounds, ${feedback.contestedClaims.length} contested claims addressed)`);
+    return { ...result, feedback };
+  }
+}
+
+export const solutionRefinement = new SolutionRefinement();
@@ -0,0 +1,109 @@
+import { storage } from '../storage';
+import { loadPriceTable, computeCost, PriceTable } from './pricing';
+import type { UsageEntry } from '@shared/schema';
+import type { UsageBreakdown, UsageSummary } from '@shared/usage';
+
+// Who a call was made for; every field is optional because some calls happen outside a session
+export interface UsageScope {
+  sessionId?: string;
+  phase?: number;
+  agent?: string;
+}
+
+export interface UsageRecord extends UsageScope {
+  service: 'llm' | 'search' | 'tts';
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  characters?: number;
+  estimated?: boolean;
+  latencyMs: number;
+}
+
+export class UsageLedger {
+  private priceTable: PriceTable;
+
+  constructor(priceTable: PriceTable = loadPriceTable()) {
+    this.priceTable = priceTable;
+  }
+
+  /**
+   * Record one external call. Never throws: a ledger failure must not fail the call it describes.
+   */
+  async record(record: UsageRecord): Promise<void> {
+    const amounts = {
+      inputTokens: record.inputTokens ?? 0,
+      outputTokens: record.outputTokens ?? 0,
+      characters: record.characters ?? 0
+    };
+    const costUsd = computeCost(this.priceTable, record.provider, record.model, amounts);
+
+    if (costUsd === null) {
+      console.warn(`⚠️ Usage Ledger: No price configured for ${record.provider}/${record.model}`);
+    }
+
+    try {
+      await storage.createUsageEntry({
+        sessionId: record.sessionId ?? null,
+        phase: record.phase ?? null,
+        agent: record.agent ?? null,
+        service: record.service,
+        provider: record.provider,
+        model: record.model,
+        ...amounts,
+        estimated: record.estimated ?? false,
+        latencyMs: record.latencyMs,
+        costUsd
+      });
+    } catch (error) {
+      console.error('❌ Usage Ledger: Failed to record usage', error);
+    }
+  }
+
+  /**
+   * Totals for a session, broken down by agent, phase and provider
+   */
+  async getSessionSummary(sessionId: string): Promise<UsageSummary> {
+    const entries = await storage.getSessionUsage(sessionId);
+    return summarizeUsage(sessionId, entries);
+  }
+}
+
+function breakdown(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageBreakdown[] {
+  const groups = new Map<string, UsageBreakdown>();
+
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const group = groups.get(key) || {
+      key, calls: 0, inputTokens: 0, outputTokens: 0, characters: 0, costUsd: 0, latencyMs: 0
+    };
+    group.calls++;
+    group.inputTokens += entry.inputTokens;
+    group.outputTokens += entry.outputTokens;
+    group.characters += entry.characters;
+    group.costUsd += entry.costUsd ?? 0;
+    group.latencyMs += entry.latencyMs;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+export function summarizeUsage(sessionId: string, entries: UsageEntry[]): UsageSummary {
+  return {
+    sessionId,
+    totalCalls: entries.length,
+    totalInputTokens: entries.reduce((sum, e) => sum + e.inputTokens, 0),
+    totalOutputTokens: entries.reduce((sum, e) => sum + e.outputTokens, 0),
+    totalCharacters: entries.reduce((sum, e) => sum + e.characters, 0),
+    totalCostUsd: entries.reduce((sum, e) => sum + (e.costUsd ?? 0), 0),
+    estimatedCalls: entries.filter(e => e.estimated).length,
+    unpricedCalls: entries.filter(e => e.costUsd === null).length,
+    byAgent: breakdown(entries, e => e.agent || e.service),
+    byPhase: breakdown(entries, e => e.phase ? `Phase ${e.phase}` : 'Outside phases'),
+    byProvider: breakdown(entries, e => `${e.provider}/${e.model}`)
+  };
+}
+
+export const usageLedger = new UsageLedger();
@@ -1,5 +1,6 @@
 import { ElevenLabsClient } from 'elevenlabs';
 import { z } from 'zod';
+import { usageLedger, UsageScope } from './usage-ledger';
 
 // Zod schemas for validation
 export const VoiceSettingsSchema = z.object({
@@ -136,7 +137,7 @@ export class VoiceService {
   /**
    * Generate speech audio from text using ElevenLabs
    */
-  async generateSpeech(request: AudioGenerationRequest): Promise<AudioGenerationResult> {
+  async generateSpeech(request: AudioGenerationRequest, scope: UsageScope = {}): Promise<AudioGenerationResult> {
     await this.initialize();
     
     if (!this.isAvailable) {
@@ -154,6 +155,7 @@ export class VoiceService {
       const { text, voiceId, modelId, voiceSettings } = request;
 
       console.log(`🗣️ Generating speech for ${text.length} characters...`);
+      const startTime = Date.now();
 
       const audioStream = await this.client.generate({
         voice: voiceId || this.defaultVoiceId,
@@ -182,6 +184,14 @@ export class VoiceService {
       };
 
       console.log(`✅ Speech generated: ${result.duration}s, ${result.characterCount} chars`);
+      await usageLedger.record({
+        ...scope,
+        service: 'tts',
+        provider: 'elevenlabs',
+        model: modelId || this.defaultModelId,
+        characters: text.length,
+        latencyMs: Date.now() - startTime
+      });
       return result;
 
     } catch (error) {
@@ -203,7 +213,7 @@ export class VoiceService {
     }>;
     finalConclusion: string;
     winnerPosition?: 'proponent' | 'opponent' | 'draw';
-  }): Promise<AudioGenerationResult> {
+  }, scope: UsageScope = {}): Promise<AudioGenerationResult> {
     
     const narrationScript = this.buildDebateNarrationScript(summary);
     
@@ -216,7 +226,7 @@ export class VoiceService {
         style: 0.20, // Slightly expressive for narration
         use_speaker_boost: true
       }
-    });
+    }, scope);
   }
 
   /**
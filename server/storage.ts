@@ -2,21 +2,39 @@ import {
   type User, type InsertUser,
   type Session, type InsertSession,
   type Problem, type InsertProblem,
-  type Solution, type InsertSolution,
+  type Solution, type InsertSolution, type SolutionWithAuthor,
+  type SolutionVersion, type InsertSolutionVersion, type SolutionImpactOverride,
+  type SolutionExpansion, type InsertSolutionExpansion,
   type DebatePoint, type InsertDebatePoint,
   type Evidence, type InsertEvidence,
+  type Claim, type InsertClaim,
   type Question, type InsertQuestion,
   type Summary, type InsertSummary,
   type Vote, type InsertVote,
-  users, sessions, problems, solutions, debatePoints, evidence, questions, summaries, votes
+  type DebateSessionRecord, type InsertDebateSessionRecord,
+  type DebateRoundRecord, type InsertDebateRoundRecord,
+  type DebateInstruction, type InsertDebateInstruction,
+  type Job, type InsertJob,
+  type UsageEntry, type InsertUsageEntry,
+  type GroundingDocument, type InsertGroundingDocument,
+  type GroundingChunk, type InsertGroundingChunk,
+  type ComparisonCriterion, type ComparisonScore, type ComparisonCriteriaRequest,
+  users, sessions, problems, solutions, solutionVersions, solutionExpansions, debatePoints, evidence, claims, questions, summaries, votes, debateSessions, debateRounds, debateInstructions, jobs, usageLedger,
+  groundingDocuments, groundingChunks, comparisonCriteria, comparisonScores
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, or, lt, desc, sql, isNull, notInArray } from "drizzle-orm";
 import bcrypt from "bcrypt";
 
 // Safe user type without password for API responses
 export type SafeUser = Omit<User, 'password'>;
 
+// Content of a new solution version; the number is assigned by createSolutionVersion
+export type SolutionRevision = Omit<InsertSolutionVersion, 'solutionId' | 'version'>;
+
+// A grounding chunk found by full-text search, with the document it came from
+export type GroundingChunkMatch = GroundingChunk & { documentName: string; documentUrl: string | null; rank: number };
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<SafeUser | undefined>;
@@ -31,6 +49,7 @@ export interface IStorage {
   updateSession(id: string, updates: Partial<Session>): Promise<Session | undefined>;
   getUserSessions(facilitatorId: string): Promise<Session[]>;
   getAllSessions(): Promise<Session[]>;
+  isSessionParticipant(sessionId: string, userId: string): Promise<boolean>;
 
   // Problem operations
   createProblem(problem: InsertProblem): Promise<Problem>;
@@ -39,8 +58,13 @@ export interface IStorage {
 
   // Solution operations
   createSolution(solution: InsertSolution): Promise<Solution>;
-  getSessionSolutions(sessionId: string): Promise<Solution[]>;
+  getSessionSolutions(sessionId: string): Promise<SolutionWithAuthor[]>;
   getSolution(id: string): Promise<Solution | undefined>;
+  getSolutionVersions(solutionId: string): Promise<SolutionVersion[]>;
+  setSolutionImpactOverride(id: string, override: SolutionImpactOverride | null): Promise<Solution | undefined>;
+  createSolutionVersion(solutionId: string, revision: SolutionRevision): Promise<{ solution: Solution; version: SolutionVersion }>;
+  createSolutionExpansion(expansion: InsertSolutionExpansion): Promise<SolutionExpansion>;
+  getSolutionExpansions(solutionId: string): Promise<SolutionExpansion[]>;
 
   // Debate operations
   createDebatePoint(point: InsertDebatePoint): Promise<DebatePoint>;
@@ -56,6 +80,12 @@ export interface IStorage {
   getPointEvidence(pointId: string): Promise<Evidence[]>;
   linkEvidenceToDebatePoint(argumentId: string, evidenceId: string): Promise<boolean>;
 
+  // Claim operations
+  createClaims(claimData: InsertClaim[]): Promise<Claim[]>;
+  getSessionClaims(sessionId: string): Promise<Claim[]>;
+  getPointClaims(pointId: string): Promise<Claim[]>;
+  updateClaimStatus(id: string, status: string): Promise<Claim | undefined>;
+
   // Question operations
   createQuestion(question: InsertQuestion): Promise<Question>;
   getSessionQuestions(sessionId: string): Promise<Question[]>;
@@ -73,6 +103,56 @@ export interface IStorage {
   createVote(vote: InsertVote): Promise<Vote>;
   getUserVoteForPoint(userId: string, pointId: string): Promise<Vote | undefined>;
   createVoteWithCountUpdate(vote: InsertVote): Promise<{success: boolean, vote?: Vote, message?: string}>;
+
+  // Debate session operations
+  createDebateSession(debateSession: InsertDebateSessionRecord): Promise<DebateSessionRecord>;
+  getDebateSession(id: string): Promise<DebateSessionRecord | undefined>;
+  updateDebateSession(id: string, updates: Partial<DebateSessionRecord>): Promise<DebateSessionRecord | undefined>;
+  getSessionDebateSessions(sessionId: string): Promise<DebateSessionRecord[]>;
+  getLatestDebateSession(sessionId: string, solutionId?: string): Promise<DebateSessionRecord | undefined>;
+  stopPausedDebateSession(id: string): Promise<boolean>;
+  resumeDebateSession(id: string): Promise<{ record: DebateSessionRecord; stopped: boolean } | undefined>;
+
+  // Debate round operations
+  createDebateRound(debateRound: InsertDebateRoundRecord): Promise<DebateRoundRecord>;
+  updateDebateRound(id: string, updates: Partial<DebateRoundRecord>): Promise<DebateRoundRecord | undefined>;
+  getDebateRounds(debateSessionId: string): Promise<DebateRoundRecord[]>;
+  getSessionDebateRounds(sessionId: string): Promise<DebateRoundRecord[]>;
+
+  // Debate instruction operations
+  createDebateInstruction(instruction: InsertDebateInstruction): Promise<DebateInstruction>;
+  getPendingDebateInstructions(debateSessionId: string): Promise<DebateInstruction[]>;
+  markDebateInstructionRelayed(id: string, roundNumber: number, relay: string): Promise<DebateInstruction | undefined>;
+  getSessionDebateInstructions(sessionId: string): Promise<DebateInstruction[]>;
+
+  // Job operations
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  getSessionJobs(sessionId: string): Promise<Job[]>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
+  claimNextJob(): Promise<Job | undefined>;
+  requeueStaleJobs(heartbeatBefore: Date): Promise<Job[]>;
+
+  // Usage ledger operations
+  createUsageEntry(entry: InsertUsageEntry): Promise<UsageEntry>;
+  getSessionUsage(sessionId: string): Promise<UsageEntry[]>;
+  getSessionUsageTotals(sessionId: string): Promise<{costUsd: number, tokens: number}>;
+
+  // Grounding material operations
+  createGroundingDocument(document: InsertGroundingDocument): Promise<GroundingDocument>;
+  getGroundingDocument(id: string): Promise<GroundingDocument | undefined>;
+  getSessionGroundingDocuments(sessionId: string): Promise<GroundingDocument[]>;
+  updateGroundingDocument(id: string, updates: Partial<GroundingDocument>): Promise<GroundingDocument | undefined>;
+  deleteGroundingDocument(id: string): Promise<boolean>;
+  createGroundingChunks(chunks: InsertGroundingChunk[]): Promise<GroundingChunk[]>;
+  searchGroundingChunks(sessionId: string, terms: string[], limit: number): Promise<GroundingChunkMatch[]>;
+
+  // Comparison matrix operations
+  getSessionComparisonCriteria(sessionId: string): Promise<ComparisonCriterion[]>;
+  replaceComparisonCriteria(sessionId: string, criteria: ComparisonCriteriaRequest['criteria']): Promise<ComparisonCriterion[]>;
+  getSessionComparisonScores(sessionId: string): Promise<ComparisonScore[]>;
+  saveProposedComparisonScores(sessionId: string, scores: Array<{ solutionId: string; criterionId: string; aiScore: number; aiRationale: string }>): Promise<void>;
+  setComparisonScore(sessionId: string, solutionId: string, criterionId: string, score: number | null, userId: string): Promise<ComparisonScore>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -162,6 +242,21 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(sessions.updatedAt));
   }
 
+  // A participant has submitted a problem, proposed a solution, argued or asked a question in the session
+  async isSessionParticipant(sessionId: string, userId: string): Promise<boolean> {
+    const contributions = await Promise.all([
+      db.select({ id: problems.id }).from(problems)
+        .where(and(eq(problems.sessionId, sessionId), eq(problems.submittedBy, userId))).limit(1),
+      db.select({ id: solutions.id }).from(solutions)
+        .where(and(eq(solutions.sessionId, sessionId), eq(solutions.authorId, userId))).limit(1),
+      db.select({ id: debatePoints.id }).from(debatePoints)
+        .where(and(eq(debatePoints.sessionId, sessionId), eq(debatePoints.authorId, userId))).limit(1),
+      db.select({ id: questions.id }).from(questions)
+        .where(and(eq(questions.sessionId, sessionId), eq(questions.askedBy, userId))).limit(1)
+    ]);
+    return contributions.some(rows => rows.length > 0);
+  }
+
   // Problem operations
   async createProblem(problem: InsertProblem): Promise<Problem> {
     const result = await db.insert(problems).values(problem).returning();
@@ -196,10 +291,13 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getSessionSolutions(sessionId: string): Promise<Solution[]> {
-    return await db.select().from(solutions)
+  // With the proposing participant's username; null for AI-generated solutions
+  async getSessionSolutions(sessionId: string): Promise<SolutionWithAuthor[]> {
+    const result = await db.select({ solution: solutions, authorName: users.username }).from(solutions)
+      .leftJoin(users, eq(solutions.authorId, users.id))
       .where(eq(solutions.sessionId, sessionId))
       .orderBy(desc(solutions.createdAt));
+    return result.map(row => ({ ...row.solution, authorName: row.authorName }));
   }
 
   async getSolution(id: string): Promise<Solution | undefined> {
@@ -207,6 +305,86 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getSolutionVersions(solutionId: string): Promise<SolutionVersion[]> {
+    return await db.select().from(solutionVersions)
+      .where(eq(solutionVersions.solutionId, solutionId))
+      .orderBy(desc(solutionVersions.version));
+  }
+
+  async setSolutionImpactOverride(id: string, override: SolutionImpactOverride | null): Promise<Solution | undefined> {
+    const result = await db.update(solutions)
+      .set({ impactOverride: override })
+      .where(eq(solutions.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createSolutionExpansion(expansion: InsertSolutionExpansion): Promise<SolutionExpansion> {
+    const result = await db.insert(solutionExpansions).values(expansion).returning();
+
+    if (!result.length) {
+      throw new Error('Failed to create solution expansion');
+    }
+    return result[0];
+  }
+
+  async getSolutionExpansions(solutionId: string): Promise<SolutionExpansion[]> {
+    return await db.select().from(solutionExpansions)
+      .where(eq(solutionExpansions.solutionId, solutionId))
+      .orderBy(desc(solutionExpansions.createdAt));
+  }
+
+  // Replace the solution's content with the revision and keep both versions in solution_versions
+  async createSolutionVersion(solutionId: string, revision: SolutionRevision): Promise<{ solution: Solution; version: SolutionVersion }> {
+    return await db.transaction(async (tx) => {
+      // Row lock so concurrent refinements get consecutive version numbers
+      const current = await tx.select().from(solutions).where(eq(solutions.id, solutionId)).for('update');
+      if (!current.length) {
+        throw new Error('Solution not found');
+      }
+      const solution = current[0];
+
+      const recorded = await tx.select({ id: solutionVersions.id }).from(solutionVersions)
+        .where(eq(solutionVersions.solutionId, solutionId))
+        .limit(1);
+      if (!recorded.length) {
+        await tx.insert(solutionVersions).values({
+          solutionId,
+          version: solution.version,
+          title: solution.title,
+          objective: solution.objective,
+          approach: solution.approach,
+          enablers: solution.enablers,
+          risks: solution.risks,
+          expectedOutcomes: solution.expectedOutcomes,
+          impact: solution.impact,
+          createdAt: solution.createdAt
+        });
+      }
+
+      const version = solution.version + 1;
+      const inserted = await tx.insert(solutionVersions).values({ ...revision, solutionId, version }).returning();
+      const updated = await tx.update(solutions)
+        .set({
+          title: revision.title,
+          objective: revision.objective,
+          approach: revision.approach,
+          enablers: revision.enablers,
+          risks: revision.risks,
+          expectedOutcomes: revision.expectedOutcomes,
+          impact: revision.impact,
+          version
+        })
+        .where(eq(solutions.id, solutionId))
+        .returning();
+
+      if (!inserted.length || !updated.length) {
+        throw new Error('Failed to create solution version');
+      }
+      return { solution: updated[0], version: inserted[0] };
+    });
+  }
+
   // Debate operations
   async createDebatePoint(point: InsertDebatePoint): Promise<DebatePoint> {
     const result = await db.insert(debatePoints).values(point).returning();
@@ -282,6 +460,34 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Claim operations
+  async createClaims(claimData: InsertClaim[]): Promise<Claim[]> {
+    if (claimData.length === 0) {
+      return [];
+    }
+    return await db.insert(claims).values(claimData).returning();
+  }
+
+  async getSessionClaims(sessionId: string): Promise<Claim[]> {
+    return await db.select().from(claims)
+      .where(eq(claims.sessionId, sessionId))
+      .orderBy(claims.createdAt);
+  }
+
+  async getPointClaims(pointId: string): Promise<Claim[]> {
+    return await db.select().from(claims)
+      .where(eq(claims.pointId, pointId))
+      .orderBy(claims.createdAt);
+  }
+
+  async updateClaimStatus(id: string, status: string): Promise<Claim | undefined> {
+    const result = await db.update(claims)
+      .set({ status, verifiedAt: new Date() })
+      .where(eq(claims.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
   // Question operations
   async createQuestion(question: InsertQuestion): Promise<Question> {
     const result = await db.insert(questions).values(question).returning();
@@ -404,6 +610,364 @@ export class DatabaseStorage implements IStorage {
       };
     }
   }
+
+  // Debate session operations
+  async createDebateSession(debateSession: InsertDebateSessionRecord): Promise<DebateSessionRecord> {
+    const result = await db.insert(debateSessions).values(debateSession).returning();
+    
+    if (!result.length) {
+      throw new Error('Failed to create debate session');
+    }
+    return result[0];
+  }
+
+  async getDebateSession(id: string): Promise<DebateSessionRecord | undefined> {
+    const result = await db.select().from(debateSessions).where(eq(debateSessions.id, id));
+    return result[0];
+  }
+
+  async updateDebateSession(id: string, updates: Partial<DebateSessionRecord>): Promise<DebateSessionRecord | undefined> {
+    const result = await db.update(debateSessions)
+      .set(updates)
+      .where(eq(debateSessions.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getSessionDebateSessions(sessionId: string): Promise<DebateSessionRecord[]> {
+    return await db.select().from(debateSessions)
+      .where(eq(debateSessions.sessionId, sessionId))
+      .orderBy(desc(debateSessions.createdAt));
+  }
+
+  async getLatestDebateSession(sessionId: string, solutionId?: string): Promise<DebateSessionRecord | undefined> {
+    const conditions = [eq(debateSessions.sessionId, sessionId)];
+    if (solutionId) {
+      conditions.push(eq(debateSessions.solutionId, solutionId));
+    }
+
+    const result = await db.select().from(debateSessions)
+      .where(and(...conditions))
+      .orderBy(desc(debateSessions.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  // Records that a paused debate's run has stopped; false when the debate is not paused (any more) or already stopped
+  async stopPausedDebateSession(id: string): Promise<boolean> {
+    const result = await db.update(debateSessions)
+      .set({ pausedAt: new Date() })
+      .where(and(eq(debateSessions.id, id), eq(debateSessions.status, 'paused'), isNull(debateSessions.pausedAt)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Reactivates a paused debate; stopped tells whether its run had already stopped and has to be started again
+  async resumeDebateSession(id: string): Promise<{ record: DebateSessionRecord; stopped: boolean } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locking the row orders this against stopPausedDebateSession
+      const [current] = await tx.select().from(debateSessions).where(eq(debateSessions.id, id)).for('update');
+      if (!current || current.status !== 'paused') {
+        return current && { record: current, stopped: false };
+      }
+
+      const [record] = await tx.update(debateSessions)
+        .set({ status: 'active', pausedAt: null })
+        .where(eq(debateSessions.id, id))
+        .returning();
+      return { record, stopped: current.pausedAt !== null };
+    });
+  }
+
+  // Debate round operations
+  async createDebateRound(debateRound: InsertDebateRoundRecord): Promise<DebateRoundRecord> {
+    const result = await db.insert(debateRounds).values(debateRound).returning();
+    
+    if (!result.length) {
+      throw new Error('Failed to create debate round');
+    }
+    return result[0];
+  }
+
+  async updateDebateRound(id: string, updates: Partial<DebateRoundRecord>): Promise<DebateRoundRecord | undefined> {
+    const result = await db.update(debateRounds)
+      .set(updates)
+      .where(eq(debateRounds.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getDebateRounds(debateSessionId: string): Promise<DebateRoundRecord[]> {
+    return await db.select().from(debateRounds)
+      .where(eq(debateRounds.debateSessionId, debateSessionId))
+      .orderBy(debateRounds.roundNumber);
+  }
+
+  async getSessionDebateRounds(sessionId: string): Promise<DebateRoundRecord[]> {
+    const result = await db.select({ round: debateRounds }).from(debateRounds)
+      .innerJoin(debateSessions, eq(debateRounds.debateSessionId, debateSessions.id))
+      .where(eq(debateSessions.sessionId, sessionId))
+      .orderBy(debateRounds.createdAt);
+    return result.map(row => row.round);
+  }
+
+  // Debate instruction operations
+  async createDebateInstruction(instruction: InsertDebateInstruction): Promise<DebateInstruction> {
+    const result = await db.insert(debateInstructions).values(instruction).returning();
+    
+    if (!result.length) {
+      throw new Error('Failed to create debate instruction');
+    }
+    return result[0];
+  }
+
+  async getPendingDebateInstructions(debateSessionId: string): Promise<DebateInstruction[]> {
+    return await db.select().from(debateInstructions)
+      .where(and(eq(debateInstructions.debateSessionId, debateSessionId), isNull(debateInstructions.relayedAt)))
+      .orderBy(debateInstructions.createdAt);
+  }
+
+  async markDebateInstructionRelayed(id: string, roundNumber: number, relay: string): Promise<DebateInstruction | undefined> {
+    const result = await db.update(debateInstructions)
+      .set({ relayedInRound: roundNumber, relay, relayedAt: new Date() })
+      .where(eq(debateInstructions.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getSessionDebateInstructions(sessionId: string): Promise<DebateInstruction[]> {
+    return await db.select().from(debateInstructions)
+      .where(eq(debateInstructions.sessionId, sessionId))
+      .orderBy(debateInstructions.createdAt);
+  }
+
+  // Job operations
+  async createJob(job: InsertJob): Promise<Job> {
+    const result = await db.insert(jobs).values(job).returning();
+    
+    if (!result.length) {
+      throw new Error('Failed to create job');
+    }
+    return result[0];
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const result = await db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getSessionJobs(sessionId: string): Promise<Job[]> {
+    return await db.select().from(jobs)
+      .where(eq(jobs.sessionId, sessionId))
+      .orderBy(desc(jobs.createdAt));
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const result = await db.update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    // SKIP LOCKED lets several server instances poll the same table without claiming a job twice
+    const result = await db.update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        startedAt: new Date(),
+        heartbeatAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(jobs.id, sql`(
+        SELECT ${jobs.id} FROM ${jobs}
+        WHERE ${jobs.status} = 'queued'
+        ORDER BY ${jobs.createdAt}
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return result[0];
+  }
+
+  async requeueStaleJobs(heartbeatBefore: Date): Promise<Job[]> {
+    // Jobs claimed before heartbeats were recorded have none and count as stale
+    return await db.update(jobs)
+      .set({ status: "queued", progressMessage: "Requeued after its worker stopped", updatedAt: new Date() })
+      .where(and(
+        eq(jobs.status, "running"),
+        or(isNull(jobs.heartbeatAt), lt(jobs.heartbeatAt, heartbeatBefore))
+      ))
+      .returning();
+  }
+
+  // Usage ledger operations
+  async createUsageEntry(entry: InsertUsageEntry): Promise<UsageEntry> {
+    const result = await db.insert(usageLedger).values(entry).returning();
+    
+    if (!result.length) {
+      throw new Error('Failed to create usage entry');
+    }
+    return result[0];
+  }
+
+  async getSessionUsage(sessionId: string): Promise<UsageEntry[]> {
+    return await db.select().from(usageLedger)
+      .where(eq(usageLedger.sessionId, sessionId))
+      .orderBy(usageLedger.createdAt);
+  }
+
+  async getSessionUsageTotals(sessionId: string): Promise<{costUsd: number, tokens: number}> {
+    const result = await db.select({
+      costUsd: sql<number>`coalesce(sum(${usageLedger.costUsd}), 0)`.mapWith(Number),
+      tokens: sql<number>`coalesce(sum(${usageLedger.inputTokens} + ${usageLedger.outputTokens}), 0)`.mapWith(Number)
+    }).from(usageLedger).where(eq(usageLedger.sessionId, sessionId));
+    return result[0] || { costUsd: 0, tokens: 0 };
+  }
+
+  // Grounding material operations
+  async createGroundingDocument(document: InsertGroundingDocument): Promise<GroundingDocument> {
+    const result = await db.insert(groundingDocuments).values(document).returning();
+    
+    if (!result.length) {
+      throw new Error('Failed to create grounding document');
+    }
+    return result[0];
+  }
+
+  async getGroundingDocument(id: string): Promise<GroundingDocument | undefined> {
+    const result = await db.select().from(groundingDocuments).where(eq(groundingDocuments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getSessionGroundingDocuments(sessionId: string): Promise<GroundingDocument[]> {
+    return await db.select().from(groundingDocuments)
+      .where(eq(groundingDocuments.sessionId, sessionId))
+      .orderBy(groundingDocuments.createdAt);
+  }
+
+  async updateGroundingDocument(id: string, updates: Partial<GroundingDocument>): Promise<GroundingDocument | undefined> {
+    const result = await db.update(groundingDocuments)
+      .set(updates)
+      .where(eq(groundingDocuments.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async deleteGroundingDocument(id: string): Promise<boolean> {
+    const result = await db.delete(groundingDocuments).where(eq(groundingDocuments.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createGroundingChunks(chunks: InsertGroundingChunk[]): Promise<GroundingChunk[]> {
+    if (!chunks.length) {
+      return [];
+    }
+    return await db.insert(groundingChunks).values(chunks).returning();
+  }
+
+  // Chunks matching any of the terms, best full-text rank first
+  async searchGroundingChunks(sessionId: string, terms: string[], limit: number): Promise<GroundingChunkMatch[]> {
+    const words = terms.map(t => t.replace(/\W/g, '')).filter(Boolean);
+    if (!words.length) {
+      return [];
+    }
+
+    const vector = sql`to_tsvector('english', ${groundingChunks.content})`;
+    const query = sql`to_tsquery('english', ${words.join(' | ')})`;
+    const rank = sql<number>`ts_rank(${vector}, ${query})`.mapWith(Number);
+
+    const rows = await db.select({
+      chunk: groundingChunks,
+      documentName: groundingDocuments.name,
+      documentUrl: groundingDocuments.url,
+      rank
+    })
+      .from(groundingChunks)
+      .innerJoin(groundingDocuments, eq(groundingChunks.documentId, groundingDocuments.id))
+      .where(and(eq(groundingChunks.sessionId, sessionId), sql`${vector} @@ ${query}`))
+      .orderBy(desc(rank))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.chunk, documentName: row.documentName, documentUrl: row.documentUrl, rank: row.rank }));
+  }
+
+  // Comparison matrix operations
+  async getSessionComparisonCriteria(sessionId: string): Promise<ComparisonCriterion[]> {
+    return await db.select().from(comparisonCriteria)
+      .where(eq(comparisonCriteria.sessionId, sessionId))
+      .orderBy(comparisonCriteria.position, comparisonCriteria.createdAt);
+  }
+
+  // Criteria sent back with their id are updated in place so their scores survive; the rest are replaced
+  async replaceComparisonCriteria(sessionId: string, criteria: ComparisonCriteriaRequest['criteria']): Promise<ComparisonCriterion[]> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select({ id: comparisonCriteria.id }).from(comparisonCriteria)
+        .where(eq(comparisonCriteria.sessionId, sessionId));
+      const existingIds = new Set(existing.map(c => c.id));
+      const keptIds = criteria.map(c => c.id).filter((id): id is string => !!id && existingIds.has(id));
+
+      await tx.delete(comparisonCriteria).where(keptIds.length
+        ? and(eq(comparisonCriteria.sessionId, sessionId), notInArray(comparisonCriteria.id, keptIds))
+        : eq(comparisonCriteria.sessionId, sessionId));
+
+      for (const [position, criterion] of Array.from(criteria.entries())) {
+        const values = {
+          name: criterion.name,
+          description: criterion.description || null,
+          weight: criterion.weight,
+          position
+        };
+        if (criterion.id && existingIds.has(criterion.id)) {
+          await tx.update(comparisonCriteria).set(values).where(eq(comparisonCriteria.id, criterion.id));
+        } else {
+          await tx.insert(comparisonCriteria).values({ ...values, sessionId });
+        }
+      }
+
+      return await tx.select().from(comparisonCriteria)
+        .where(eq(comparisonCriteria.sessionId, sessionId))
+        .orderBy(comparisonCriteria.position);
+    });
+  }
+
+  async getSessionComparisonScores(sessionId: string): Promise<ComparisonScore[]> {
+    return await db.select().from(comparisonScores)
+      .where(eq(comparisonScores.sessionId, sessionId));
+  }
+
+  // New AI scores replace earlier ones; participant overrides are left untouched
+  async saveProposedComparisonScores(sessionId: string, scores: Array<{ solutionId: string; criterionId: string; aiScore: number; aiRationale: string }>): Promise<void> {
+    if (!scores.length) {
+      return;
+    }
+    await db.insert(comparisonScores)
+      .values(scores.map(score => ({ ...score, sessionId })))
+      .onConflictDoUpdate({
+        target: [comparisonScores.solutionId, comparisonScores.criterionId],
+        set: {
+          aiScore: sql`excluded.ai_score`,
+          aiRationale: sql`excluded.ai_rationale`,
+          updatedAt: new Date()
+        }
+      });
+  }
+
+  async setComparisonScore(sessionId: string, solutionId: string, criterionId: string, score: number | null, userId: string): Promise<ComparisonScore> {
+    const result = await db.insert(comparisonScores)
+      .values({ sessionId, solutionId, criterionId, score, adjustedBy: userId })
+      .onConflictDoUpdate({
+        target: [comparisonScores.solutionId, comparisonScores.criterionId],
+        set: { score, adjustedBy: userId, updatedAt: new Date() }
+      })
+      .returning();
+
+    if (!result.length) {
+      throw new Error('Failed to save comparison score');
+    }
+    return result[0];
+  }
 }
 
 export const storage = new DatabaseStorage();
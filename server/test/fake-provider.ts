@@ -0,0 +1,58 @@
+import {
+  LLMProvider, ProviderName, ChatRequest, ChatResult, ProviderErrorKind,
+  estimateUsage, estimateTokens, classifyHttpError
+} from '../agents/providers';
+
+/**
+ * Provider that can be registered under any name, e.g. 'openai', and answers from
+ * a queue of replies; an Error in the queue is thrown instead. Lets tests drive
+ * retries, fallbacks and model choice without a network.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly calls: ChatRequest[] = [];
+  private replies: Array<string | Error> = [];
+
+  constructor(readonly name: ProviderName, private window: number = 128000) {}
+
+  reply(...replies: Array<string | Error>): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    // Agents keep appending to the conversation they sent, so record it as it was
+    this.calls.push({ ...request, messages: [...request.messages] });
+    const reply = this.replies.shift() ?? `${this.name} response`;
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return { content: reply, provider: this.name, model: request.model, usage: estimateUsage(request, reply) };
+  }
+
+  async stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult> {
+    const result = await this.chat(request);
+    onDelta(result.content);
+    return result;
+  }
+
+  classifyError(error: unknown): ProviderErrorKind {
+    return classifyHttpError(error);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  contextWindow(): number {
+    return this.window;
+  }
+}
+
+// An error the way provider SDKs report HTTP failures
+export function httpError(status: number, message: string = `HTTP ${status}`): Error {
+  return Object.assign(new Error(message), { status });
+}
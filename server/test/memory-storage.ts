@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import type {
+  Session, Problem, Solution, DebatePoint, Evidence, Claim, Question, Summary,
+  DebateSessionRecord, DebateRoundRecord, DebateInstruction, Job, UsageEntry, GroundingDocument, GroundingChunk
+} from '@shared/schema';
+import type { IStorage } from '../storage';
+
+const newRow = () => ({ id: randomUUID(), createdAt: new Date() });
+
+const add = <T>(rows: T[], row: T) => {
+  rows.push(row);
+  return row;
+};
+const find = <T extends { id: string }>(rows: T[], id: string) => rows.find(row => row.id === id);
+const update = <T extends { id: string }>(rows: T[], id: string, updates: Partial<T>) => {
+  const row = find(rows, id);
+  return row && Object.assign(row, updates);
+};
+const where = <T, K extends keyof T>(rows: T[], column: K, value: T[K]) => rows.filter(row => row[column] === value);
+
+/**
+ * In-memory stand-in for the Postgres storage, covering what the orchestrator, debate
+ * engine, job queue and grounding ingestion use so they can run in tests without a database.
+ * Column defaults mirror shared/schema.ts; calling anything not implemented here throws.
+ */
+export function createMemoryStorage(): IStorage {
+  const sessions: Session[] = [];
+  const problems: Problem[] = [];
+  const solutions: Solution[] = [];
+  const debatePoints: DebatePoint[] = [];
+  const evidence: Evidence[] = [];
+  const claims: Claim[] = [];
+  const questions: Question[] = [];
+  const summaries: Summary[] = [];
+  const debateSessions: DebateSessionRecord[] = [];
+  const debateRounds: DebateRoundRecord[] = [];
+  const debateInstructions: DebateInstruction[] = [];
+  const jobs: Job[] = [];
+  const usageLedger: UsageEntry[] = [];
+  const groundingDocuments: GroundingDocument[] = [];
+  const groundingChunks: GroundingChunk[] = [];
+
+  const implemented: Partial<IStorage> = {
+    createSession: async (session) => add(sessions, {
+      ...newRow(), facilitatorId: null, currentPhase: 1, completedPhases: [], status: 'draft',
+      updatedAt: new Date(), config: null, groundingMaterials: [], ...session
+    }),
+    getSession: async (id) => find(sessions, id),
+    updateSession: async (id, updates) => update(sessions, id, updates),
+
+    createProblem: async (problem) => add(problems, { ...newRow(), submittedBy: null, status: 'pending', ...problem }),
+    getSessionProblems: async (sessionId) => where(problems, 'sessionId', sessionId),
+
+    createSolution: async (solution) => add(solutions, {
+      ...newRow(), enablers: [], risks: [], expectedOutcomes: [], impactOverride: null,
+      generatedBy: 'solution_agent', authorId: null, version: 1, ...solution
+    }),
+    getSessionSolutions: async (sessionId) => where(solutions, 'sessionId', sessionId).map(s => ({ ...s, authorName: null })),
+    getSolution: async (id) => find(solutions, id),
+
+    createDebatePoint: async (point) => add(debatePoints, {
+      ...newRow(), authorId: null, round: 1, rebuttalTo: null, debateSessionId: null, upvotes: 0, downvotes: 0,
+      evidenceAttached: false, provider: null, model: null, ...point
+    }),
+    getDebatePoint: async (id) => find(debatePoints, id),
+    getSessionDebatePoints: async (sessionId) => where(debatePoints, 'sessionId', sessionId),
+    getSolutionDebatePoints: async (solutionId) => where(debatePoints, 'solutionId', solutionId),
+
+    createEvidence: async (item) => add(evidence, {
+      ...newRow(), pointId: null, claimId: null, provenance: 'model_knowledge', gatheredBy: 'analyst_agent', ...item
+    }),
+    getSessionEvidence: async (sessionId) => where(evidence, 'sessionId', sessionId),
+
+    createClaims: async (items) => items.map(claim => add(claims, { ...newRow(), status: 'unverified', verifiedAt: null, ...claim })),
+    getSessionClaims: async (sessionId) => where(claims, 'sessionId', sessionId),
+    getPointClaims: async (pointId) => where(claims, 'pointId', pointId),
+    updateClaimStatus: async (id, status) => update(claims, id, { status }),
+
+    getSessionQuestions: async (sessionId) => where(questions, 'sessionId', sessionId),
+
+    upsertSummary: async (sessionId, summary) => {
+      const existing = where(summaries, 'sessionId', sessionId)[0];
+      const values = { decisionPrompts: [], recommendedActions: null, outcome: null, ...summary, sessionId };
+      return existing ? Object.assign(existing, values) : add(summaries, { ...newRow(), ...values });
+    },
+    getSessionSummary: async (sessionId) => where(summaries, 'sessionId', sessionId)[0],
+
+    createDebateSession: async (debate) => add(debateSessions, {
+      ...newRow(), status: 'active', overallConsensus: null, winningPosition: null, solutionVersion: null, pausedAt: null,
+      completedAt: null, ...debate
+    }),
+    getDebateSession: async (id) => find(debateSessions, id),
+    updateDebateSession: async (id, updates) => update(debateSessions, id, updates),
+    getSessionDebateSessions: async (sessionId) => where(debateSessions, 'sessionId', sessionId),
+    stopPausedDebateSession: async (id) => {
+      const debate = find(debateSessions, id);
+      if (debate?.status !== 'paused' || debate.pausedAt) {
+        return false;
+      }
+      debate.pausedAt = new Date();
+      return true;
+    },
+    resumeDebateSession: async (id) => {
+      const debate = find(debateSessions, id);
+      if (!debate || debate.status !== 'paused') {
+        return debate && { record: debate, stopped: false };
+      }
+      const stopped = debate.pausedAt !== null;
+      return { record: Object.assign(debate, { status: 'active', pausedAt: null }), stopped };
+    },
+
+    createDebateRound: async (round) => add(debateRounds, {
+      ...newRow(), status: 'active', summary: null, digest: null, consensusLevel: null, winner: null, completedAt: null, ...round
+    }),
+    updateDebateRound: async (id, updates) => update(debateRounds, id, updates),
+    getDebateRounds: async (debateSessionId) => where(debateRounds, 'debateSessionId', debateSessionId)
+      .sort((a, b) => a.roundNumber - b.roundNumber),
+    getSessionDebateRounds: async (sessionId) => {
+      const debateIds = new Set(where(debateSessions, 'sessionId', sessionId).map(d => d.id));
+      return debateRounds.filter(round => debateIds.has(round.debateSessionId));
+    },
+
+    getPendingDebateInstructions: async (debateSessionId) => where(debateInstructions, 'debateSessionId', debateSessionId)
+      .filter(item => item.relayedInRound == null),
+    getSessionDebateInstructions: async (sessionId) => where(debateInstructions, 'sessionId', sessionId),
+
+    createJob: async (job) => add(jobs, {
+      ...newRow(), payload: {}, status: 'queued', progress: 0, progressMessage: null, result: null, error: null, attempts: 0,
+      cancelRequested: false, createdBy: null, startedAt: null, heartbeatAt: null, finishedAt: null, updatedAt: new Date(), ...job
+    }),
+    getJob: async (id) => find(jobs, id),
+    getSessionJobs: async (sessionId) => where(jobs, 'sessionId', sessionId),
+    updateJob: async (id, updates) => update(jobs, id, { ...updates, updatedAt: new Date() }),
+    claimNextJob: async () => {
+      const job = where(jobs, 'status', 'queued').sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+      return job && Object.assign(job, {
+        status: 'running', attempts: job.attempts + 1, startedAt: new Date(), heartbeatAt: new Date(), updatedAt: new Date()
+      });
+    },
+    requeueStaleJobs: async (heartbeatBefore) => where(jobs, 'status', 'running')
+      .filter(job => !job.heartbeatAt || job.heartbeatAt < heartbeatBefore)
+      .map(job => Object.assign(job, { status: 'queued', progressMessage: 'Requeued after its worker stopped', updatedAt: new Date() })),
+
+    createUsageEntry: async (entry) => add(usageLedger, {
+      ...newRow(), sessionId: null, phase: null, agent: null, inputTokens: 0, outputTokens: 0, characters: 0,
+      estimated: false, costUsd: null, ...entry
+    }),
+    getSessionUsage: async (sessionId) => where(usageLedger, 'sessionId', sessionId),
+    getSessionUsageTotals: async (sessionId) => {
+      const entries = where(usageLedger, 'sessionId', sessionId);
+      return {
+        costUsd: entries.reduce((sum, entry) => sum + (entry.costUsd ?? 0), 0),
+        tokens: entries.reduce((sum, entry) => sum + entry.inputTokens + entry.outputTokens, 0)
+      };
+    },
+
+    createGroundingDocument: async (document) => add(groundingDocuments, {
+      ...newRow(), url: null, storagePath: null, sizeBytes: 0, status: 'processing', error: null, pageCount: null,
+      chunkCount: 0, uploadedBy: null, indexedAt: null, ...document
+    }),
+    getGroundingDocument: async (id) => find(groundingDocuments, id),
+    getSessionGroundingDocuments: async (sessionId) => where(groundingDocuments, 'sessionId', sessionId),
+    updateGroundingDocument: async (id, updates) => update(groundingDocuments, id, updates),
+    createGroundingChunks: async (chunks) => chunks.map(chunk => add(groundingChunks, { ...newRow(), page: null, ...chunk })),
+    searchGroundingChunks: async () => [],
+  };
+
+  return new Proxy(implemented as IStorage, {
+    get(target, method) {
+      if (typeof method !== 'string' || method === 'then' || method in target) {
+        return target[method as keyof IStorage];
+      }
+      return () => Promise.reject(new Error(`Memory storage does not implement ${method}`));
+    }
+  });
+}
@@ -0,0 +1,27 @@
+// Events pushed to the client while agents work, shared by the SSE routes and the UI
+
+export type AgentStreamEvent =
+  | {
+      type: "started";
+      callId: string; // Correlates partial/finished/failed events of one agent call
+      agent: string;
+      provider: string;
+      model: string;
+      fallback: boolean; // A "started" event for an existing callId means the previous hop failed
+    }
+  | { type: "partial"; callId: string; agent: string; delta: string }
+  | { type: "finished"; callId: string; agent: string; provider: string; model: string; content: string }
+  | { type: "failed"; callId: string; agent: string; error: string }
+  | { type: "debate_failed"; debateSessionId: string; error: string }; // A debate stopped on an error and will not resume
+
+// Terminal event of a phase stream, mirrors the JSON body of the blocking routes
+export interface PhaseStreamResult {
+  success: boolean;
+  message: string;
+  sessionId: string;
+  phase: number;
+  nextActions?: string[];
+  phaseComplete?: boolean;
+  data?: Record<string, unknown>;
+  errorCode?: string; // e.g. "budget_exceeded" when the session budget stopped the phase
+}
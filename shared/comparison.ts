@@ -0,0 +1,47 @@
+import type { ComparisonCriterion } from "./schema";
+
+// Comparison matrix as served to the summary view; scores are 1-10, higher is better
+
+export interface ComparisonCell {
+  solutionId: string;
+  criterionId: string;
+  aiScore: number | null;
+  aiRationale: string | null;
+  score: number | null; // Participant override
+  effectiveScore: number | null; // score ?? aiScore
+}
+
+export interface RankedSolution {
+  solutionId: string;
+  title: string;
+  weightedScore: number; // Weighted mean of the effective scores, 0-10
+  rank: number; // 1 = best
+  scoredCriteria: number; // Criteria with a score; unscored criteria do not count towards the mean
+}
+
+// How the winner changes as one criterion's weight moves while the others stay put
+export interface WeightSensitivity {
+  criterionId: string;
+  criterion: string;
+  weight: number; // Current weight
+  stableFrom: number; // Lowest weight at which the current winner still ranks first
+  stableTo: number; // Highest such weight
+  winners: Array<{ fromWeight: number; solutionId: string }>; // Winner from each weight upwards, one entry per change
+}
+
+export interface ComparisonMatrix {
+  sessionId: string;
+  criteria: ComparisonCriterion[];
+  solutions: Array<{ id: string; title: string; version: number; authorName: string | null }>; // authorName is set for participant proposals
+  cells: ComparisonCell[];
+  ranking: RankedSolution[];
+  sensitivity: WeightSensitivity[];
+}
+
+// Starting point offered to facilitators who have not defined criteria yet
+export const defaultComparisonCriteria: Array<{ name: string; description: string; weight: number }> = [
+  { name: "Cost", description: "Lower total cost to build and run scores higher", weight: 25 },
+  { name: "Time to value", description: "Sooner measurable benefit scores higher", weight: 25 },
+  { name: "Risk", description: "Lower delivery and adoption risk scores higher", weight: 25 },
+  { name: "Customer impact", description: "Larger benefit to customers scores higher", weight: 25 },
+];
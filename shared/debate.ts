@@ -0,0 +1,90 @@
+// Debate structures produced by EnhancedDebateEngine and served to the debate view
+
+export type ConsensusLevel = 'low' | 'moderate' | 'high';
+export type DebatePosition = 'proponent' | 'opponent';
+export type DebateOutcome = DebatePosition | 'draw';
+export type DebateStatus = 'active' | 'completed' | 'paused' | 'failed';
+
+export interface DebateArgument {
+  id: string;
+  agentRole: DebatePosition;
+  roundNumber: number;
+  title?: string;
+  content: string;
+  evidenceIds: string[];
+  strengthScore: number;
+  votes: {
+    up: number;
+    down: number;
+    participants: string[];
+  };
+  rebuttalTo?: string;
+  authorId?: string; // Set when a participant, not an agent, made the argument
+  timestamp: Date;
+}
+
+export interface DebateRound {
+  id?: string; // debate_rounds row, once persisted
+  roundNumber: number;
+  solutionId: string;
+  arguments: DebateArgument[];
+  roundSummary?: string;
+  digest?: string; // Moderator's rolling digest of the debate through this round
+  consensusLevel: ConsensusLevel;
+  winner?: DebateOutcome;
+  status: DebateStatus;
+  completed: boolean;
+}
+
+// Facilitator instruction injected mid-debate and relayed to both sides by the Moderator
+export interface FacilitatorInstruction {
+  id: string;
+  instruction: string;
+  relayedInRound?: number; // Unset until the Moderator has relayed it
+  relay?: string;
+}
+
+export interface DebateSession {
+  id?: string; // debate_sessions row, once persisted
+  sessionId: string;
+  solutionId: string;
+  solutionVersion?: number; // Version of the solution that was debated
+  rounds: DebateRound[];
+  totalRounds?: number; // Rounds planned; rounds.length may be lower while the debate runs
+  overallConsensus: ConsensusLevel;
+  winningPosition?: DebateOutcome;
+  instructions: FacilitatorInstruction[];
+  totalVotes: number;
+  participantCount: number;
+  status: DebateStatus;
+}
+
+// Argument graph for the debate map: one node per debate point, one edge per reply link
+export type ArgumentEdgeType = 'rebuttal' | 'support';
+
+export interface ArgumentNode {
+  id: string;
+  side: DebatePosition;
+  roundNumber: number;
+  title: string;
+  strengthScore: number;
+  upvotes: number;
+  downvotes: number;
+  evidenceCount: number;
+  authorId?: string; // Set for participant points
+  unanswered: boolean; // No point from the other side rebuts it yet
+}
+
+export interface ArgumentEdge {
+  from: string; // The replying point
+  to: string; // The point it replies to
+  type: ArgumentEdgeType; // rebuttal when the sides differ, support when they match
+}
+
+export interface ArgumentGraph {
+  sessionId: string;
+  solutionId: string;
+  debateSessionId?: string;
+  nodes: ArgumentNode[];
+  edges: ArgumentEdge[];
+}
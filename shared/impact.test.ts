@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeImpact, impactPosition, impactQuadrant, IMPACT_MIDPOINT } from './impact';
+
+describe('normalizeImpact', () => {
+  it('keeps numeric scores the Solution agent returned', () => {
+    expect(normalizeImpact({ timeframe: 'quick_win', effort: 'low', confidence: 80, impactScore: 8, effortScore: 2 })).toEqual({
+      timeframe: 'quick_win', effort: 'low', confidence: 80, impactScore: 8, effortScore: 2, derived: false
+    });
+  });
+
+  it('scores effort from its label when only the label is stored', () => {
+    const impact = normalizeImpact({ timeframe: 'longer_term', effort: 'high', confidence: 60 });
+    expect(impact.effortScore).toBe(8);
+    expect(impact.impactScore).toBe(5); // "high" effort must not read as high impact
+    expect(impact.derived).toBe(true);
+  });
+
+  it('reads legacy free text for impact, confidence and timeframe', () => {
+    const impact = normalizeImpact('Transformative change within weeks, 75% confidence, minimal effort');
+    expect(impact).toMatchObject({ impactScore: 9, effortScore: 3, effort: 'low', confidence: 75, timeframe: 'quick_win', derived: true });
+  });
+
+  it('falls back to the midpoint of the scales when nothing is known', () => {
+    expect(normalizeImpact(null)).toEqual({
+      timeframe: 'longer_term', effort: 'medium', confidence: 50, impactScore: 5, effortScore: 5, derived: true
+    });
+  });
+
+  it('clamps scores and confidence to their ranges', () => {
+    const impact = normalizeImpact({ impactScore: 14, effortScore: 0, confidence: 140, timeframe: 'quick_win' });
+    expect(impact).toMatchObject({ impactScore: 10, effortScore: 1, confidence: 100, effort: 'low' });
+  });
+});
+
+describe('impactPosition', () => {
+  const impact = { timeframe: 'quick_win', effort: 'medium', confidence: 70, impactScore: 7, effortScore: 5 };
+
+  it('uses the AI estimate when there is no override', () => {
+    expect(impactPosition({ impact, impactOverride: null })).toEqual({ impactScore: 7, effortScore: 5, confidence: 70, source: 'ai' });
+  });
+
+  it('marks estimates inferred from labels or text as derived', () => {
+    expect(impactPosition({ impact: 'Major improvement', impactOverride: null }).source).toBe('derived');
+  });
+
+  it('prefers the facilitator override and keeps the estimate confidence', () => {
+    expect(impactPosition({ impact, impactOverride: { impactScore: 3, effortScore: 9 } })).toEqual({
+      impactScore: 3, effortScore: 9, confidence: 70, source: 'override'
+    });
+  });
+});
+
+describe('impactQuadrant', () => {
+  it('splits the chart at the midpoint', () => {
+    expect(impactQuadrant(8, 2)).toBe('quick_win');
+    expect(impactQuadrant(8, 8)).toBe('major_project');
+    expect(impactQuadrant(2, 2)).toBe('fill_in');
+    expect(impactQuadrant(2, 8)).toBe('thankless_task');
+  });
+
+  it('counts the midpoint itself as high', () => {
+    expect(impactQuadrant(IMPACT_MIDPOINT, IMPACT_MIDPOINT)).toBe('major_project');
+  });
+});
@@ -0,0 +1,131 @@
+import type { Solution, SolutionImpact, SolutionImpactOverride } from "./schema";
+
+// Midpoint of the 1-10 scales; splits the impact/effort chart into quadrants
+export const IMPACT_MIDPOINT = 5.5;
+
+const effortLevels: Record<SolutionImpact["effort"], number> = { low: 3, medium: 5, high: 8 };
+
+// Keyword fallbacks for impact written as free text by earlier versions of the Solution agent
+const impactKeywords: Array<{ pattern: RegExp; score: number }> = [
+  { pattern: /transformative|breakthrough|game.?chang/i, score: 9 },
+  { pattern: /\b(high|major|significant|substantial|strong)\b/i, score: 8 },
+  { pattern: /\b(moderate|medium)\b/i, score: 5 },
+  { pattern: /\b(low|minor|limited|small|marginal)\b/i, score: 3 },
+  { pattern: /positive|beneficial|improve/i, score: 6 },
+];
+
+const effortKeywords: Array<{ pattern: RegExp; score: number }> = [
+  { pattern: /\b(high|major|significant|complex|extensive)\b/i, score: 8 },
+  { pattern: /\b(moderate|medium)\b/i, score: 5 },
+  { pattern: /\b(low|minimal|easy|simple|light)\b/i, score: 3 },
+];
+
+export type NormalizedImpact = SolutionImpact & {
+  derived: boolean; // Some value was inferred from labels or free text rather than stored as a number
+};
+
+export type ImpactQuadrant = "quick_win" | "major_project" | "fill_in" | "thankless_task";
+
+export const impactQuadrants: Record<ImpactQuadrant, { label: string; description: string }> = {
+  quick_win: { label: "Quick wins", description: "High impact, low effort" },
+  major_project: { label: "Major projects", description: "High impact, high effort" },
+  fill_in: { label: "Fill-ins", description: "Low impact, low effort" },
+  thankless_task: { label: "Thankless tasks", description: "Low impact, high effort" },
+};
+
+function clampScore(value: number): number {
+  return Math.min(10, Math.max(1, value));
+}
+
+function fromKeywords(text: string, keywords: Array<{ pattern: RegExp; score: number }>): number | undefined {
+  return keywords.find(k => k.pattern.test(text))?.score;
+}
+
+/**
+ * Bring a stored `solutions.impact` value onto the numeric scales. Current rows carry
+ * impactScore/effortScore; older rows only have the effort label, or free text such
+ * as "Positive strategic impact expected", and are scored from keywords.
+ */
+export function normalizeImpact(raw: unknown): NormalizedImpact {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const text = typeof raw === "string" ? raw : Object.values(value).filter(v => typeof v === "string").join(" ");
+  // Free text other than the effort and timeframe labels, so "high" effort is not read as high impact
+  const impactText = typeof raw === "string" ? raw : Object.entries(value)
+    .filter(([field, v]) => field !== "effort" && field !== "timeframe" && typeof v === "string")
+    .map(([, v]) => v)
+    .join(" ");
+  let derived = false;
+
+  const number = (field: string) => typeof value[field] === "number" && isFinite(value[field] as number) ? value[field] as number : undefined;
+
+  const effort = ["low", "medium", "high"].includes(value.effort as string)
+    ? value.effort as SolutionImpact["effort"]
+    : undefined;
+
+  let impactScore = number("impactScore");
+  if (impactScore === undefined) {
+    impactScore = fromKeywords(impactText, impactKeywords) ?? 5;
+    derived = true;
+  }
+
+  let effortScore = number("effortScore");
+  if (effortScore === undefined) {
+    effortScore = effort ? effortLevels[effort] : fromKeywords(typeof value.effort === "string" ? value.effort : text, effortKeywords) ?? 5;
+    derived = true;
+  }
+
+  let confidence = number("confidence");
+  if (confidence === undefined) {
+    const percent = text.match(/(\d{1,3})\s*%/);
+    confidence = percent ? Number(percent[1]) : 50;
+    derived = true;
+  }
+
+  let timeframe: SolutionImpact["timeframe"] | undefined = value.timeframe === "quick_win" || value.timeframe === "longer_term" ? value.timeframe : undefined;
+  if (!timeframe) {
+    timeframe = /quick|short.?term|immediate|weeks?\b/i.test(text) ? "quick_win" : "longer_term";
+    derived = true;
+  }
+
+  effortScore = clampScore(effortScore);
+  return {
+    timeframe,
+    effort: effort ?? (effortScore <= 4 ? "low" : effortScore <= 6 ? "medium" : "high"),
+    confidence: Math.min(100, Math.max(0, confidence)),
+    impactScore: clampScore(impactScore),
+    effortScore,
+    derived
+  };
+}
+
+export interface ImpactPosition {
+  impactScore: number;
+  effortScore: number;
+  confidence: number;
+  source: "ai" | "derived" | "override";
+}
+
+/**
+ * Where a solution sits on the impact/effort chart: the facilitator's placement if
+ * there is one, otherwise the normalized AI estimate
+ */
+export function impactPosition(solution: Pick<Solution, "impact" | "impactOverride">): ImpactPosition {
+  const estimate = normalizeImpact(solution.impact);
+  const override = solution.impactOverride as SolutionImpactOverride | null;
+  if (override) {
+    return { impactScore: override.impactScore, effortScore: override.effortScore, confidence: estimate.confidence, source: "override" };
+  }
+  return {
+    impactScore: estimate.impactScore,
+    effortScore: estimate.effortScore,
+    confidence: estimate.confidence,
+    source: estimate.derived ? "derived" : "ai"
+  };
+}
+
+export function impactQuadrant(impactScore: number, effortScore: number): ImpactQuadrant {
+  if (impactScore >= IMPACT_MIDPOINT) {
+    return effortScore < IMPACT_MIDPOINT ? "quick_win" : "major_project";
+  }
+  return effortScore < IMPACT_MIDPOINT ? "fill_in" : "thankless_task";
+}
@@ -0,0 +1,16 @@
+// Research backend status for GET /api/research/status
+
+export type ResearchProviderKind = "web" | "corpus" | "mock";
+
+export interface ResearchProviderStatus {
+  name: string;
+  kind: ResearchProviderKind;
+  available: boolean;
+}
+
+export interface ResearchStatus {
+  providers: ResearchProviderStatus[];
+  order: string[]; // Available providers in the order they are tried
+  liveSearch: boolean; // At least one web provider is configured
+  mockInUse: boolean; // Market research falls back to placeholder results
+}
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, boolean, doublePrecision, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { sessionBudgetSchema } from "./usage";
 
 // Users table (keep existing structure)
 export const users = pgTable("users", {
@@ -21,7 +22,7 @@ export const sessions = pgTable("sessions", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   config: jsonb("config"), // Session configuration (agent settings, research mode, etc.)
-  groundingMaterials: jsonb("grounding_materials").default(sql`'[]'::jsonb`), // Array of uploaded files/links
+  groundingMaterials: jsonb("grounding_materials").default(sql`'[]'::jsonb`), // Legacy list of uploaded files/links; see grounding_documents
 });
 
 // Problem statements submitted for sessions
@@ -34,7 +35,7 @@ export const problems = pgTable("problems", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-// AI-generated solutions for problems
+// Solutions for problems, generated by the Solution agent or proposed by participants
 export const solutions = pgTable("solutions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => sessions.id).notNull(),
@@ -45,8 +46,42 @@ export const solutions = pgTable("solutions", {
   enablers: text("enablers").array().notNull().default(sql`ARRAY[]::text[]`),
   risks: text("risks").array().notNull().default(sql`ARRAY[]::text[]`),
   expectedOutcomes: text("expected_outcomes").array().notNull().default(sql`ARRAY[]::text[]`),
-  impact: jsonb("impact").notNull(), // { timeframe, effort, confidence }
-  generatedBy: text("generated_by").notNull().default("solution_agent"), // Which AI agent generated it
+  impact: jsonb("impact").notNull(), // { timeframe, effort, confidence, impactScore, effortScore }; older rows may hold free text, see normalizeImpact
+  impactOverride: jsonb("impact_override"), // SolutionImpactOverride set by the facilitator on the impact/effort chart
+  generatedBy: text("generated_by").notNull().default("solution_agent"), // Which AI agent generated it, or "participant"
+  authorId: varchar("author_id").references(() => users.id), // Participant who proposed the solution; null for AI-generated ones
+  version: integer("version").notNull().default(1), // Current version; every refined version is kept in solution_versions
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Snapshot of each version of a solution; version 1 is recorded when the solution is first refined
+export const solutionVersions = pgTable("solution_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  solutionId: varchar("solution_id").references(() => solutions.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  objective: text("objective").notNull(),
+  approach: text("approach").notNull(),
+  enablers: text("enablers").array().notNull().default(sql`ARRAY[]::text[]`),
+  risks: text("risks").array().notNull().default(sql`ARRAY[]::text[]`),
+  expectedOutcomes: text("expected_outcomes").array().notNull().default(sql`ARRAY[]::text[]`),
+  impact: jsonb("impact").notNull(),
+  changeSummary: text("change_summary"), // What the refinement changed and why; null for version 1
+  feedback: jsonb("feedback"), // SolutionFeedback the refinement answered
+  createdBy: varchar("created_by").references(() => users.id), // Participant who requested the refinement
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Structured planning detail for one aspect of a solution; the latest row per aspect is current
+export const solutionExpansions = pgTable("solution_expansions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  solutionId: varchar("solution_id").references(() => solutions.id, { onDelete: "cascade" }).notNull(),
+  aspect: text("aspect").notNull(), // implementation, resources, risks, metrics
+  solutionVersion: integer("solution_version").notNull(), // Version the expansion was written for
+  content: jsonb("content").notNull(), // Shape depends on aspect, see solutionExpansionContentSchemas
+  provider: text("provider"),
+  model: text("model"),
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -55,15 +90,19 @@ export const debatePoints = pgTable("debate_points", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => sessions.id).notNull(),
   solutionId: varchar("solution_id").references(() => solutions.id).notNull(),
-  agent: text("agent").notNull(), // proponent, opponent
+  agent: text("agent").notNull(), // proponent, opponent (the side, for participant points too)
+  authorId: varchar("author_id").references(() => users.id), // Participant who wrote the point; null for AI agents
   pointNumber: integer("point_number").notNull(),
   round: integer("round").notNull().default(1),
   title: text("title").notNull(),
   content: text("content").notNull(),
   rebuttalTo: varchar("rebuttal_to"), // Self-reference ID without FK constraint to avoid circular dependency
+  debateSessionId: varchar("debate_session_id").references(() => debateSessions.id), // Engine run that produced the point; null for manual points
   upvotes: integer("upvotes").notNull().default(0),
   downvotes: integer("downvotes").notNull().default(0),
   evidenceAttached: boolean("evidence_attached").notNull().default(false),
+  provider: text("provider"), // LLM provider that actually produced the point (may be a fallback)
+  model: text("model"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -72,15 +111,29 @@ export const evidence = pgTable("evidence", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => sessions.id).notNull(),
   pointId: varchar("point_id").references(() => debatePoints.id), // Which debate point this supports
+  claimId: varchar("claim_id").references(() => claims.id), // Which atomic claim of that point it bears on
   claim: text("claim").notNull(),
   snippet: text("snippet").notNull(),
-  source: jsonb("source").notNull(), // { title, url, type, date }
+  source: jsonb("source").notNull(), // { title, url, type, date, retrievedAt?, citations? }
+  provenance: text("provenance").notNull().default("model_knowledge"), // web_search, local_corpus, model_knowledge, manual
   confidence: integer("confidence").notNull(), // 0-100 confidence score
   relevanceScore: integer("relevance_score").notNull(), // 0-100 relevance score
   gatheredBy: text("gathered_by").notNull().default("analyst_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Atomic claims a debate point is broken into; evidence attaches to these
+export const claims = pgTable("claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  pointId: varchar("point_id").references(() => debatePoints.id).notNull(),
+  text: text("text").notNull(),
+  type: text("type").notNull(), // factual, causal, value, prediction
+  status: text("status").notNull().default("unverified"), // unverified, supported, contested, refuted
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  verifiedAt: timestamp("verified_at"),
+});
+
 // Participant questions and answers
 export const questions = pgTable("questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -116,6 +169,146 @@ export const votes = pgTable("votes", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// One run of a structured debate on a solution, with its outcome once finished
+export const debateSessions = pgTable("debate_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  solutionId: varchar("solution_id").references(() => solutions.id).notNull(),
+  status: text("status").notNull().default("active"), // active, paused, completed, failed
+  totalRounds: integer("total_rounds").notNull(),
+  overallConsensus: text("overall_consensus"), // low, moderate, high
+  winningPosition: text("winning_position"), // proponent, opponent, draw
+  solutionVersion: integer("solution_version"), // Version of the solution that was debated
+  pausedAt: timestamp("paused_at"), // When the paused debate's run stopped at a checkpoint; null while it is still on its way there
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// One round of a debate session; its arguments are the debate_points saved with the same round number
+export const debateRounds = pgTable("debate_rounds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  debateSessionId: varchar("debate_session_id").references(() => debateSessions.id).notNull(),
+  roundNumber: integer("round_number").notNull(),
+  status: text("status").notNull().default("active"), // active, paused, completed, failed
+  summary: text("summary"), // Moderator's round summary
+  digest: text("digest"), // Moderator's rolling digest of the debate up to and including this round
+  consensusLevel: text("consensus_level"), // low, moderate, high
+  winner: text("winner"), // proponent, opponent, draw
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Facilitator instructions injected into a running debate; the Moderator relays them before the next round
+export const debateInstructions = pgTable("debate_instructions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  debateSessionId: varchar("debate_session_id").references(() => debateSessions.id).notNull(),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  instruction: text("instruction").notNull(), // e.g. "focus on cost"
+  createdBy: varchar("created_by").references(() => users.id),
+  relayedInRound: integer("relayed_in_round"), // Null until the Moderator has relayed it
+  relay: text("relay"), // Moderator's message passing the instruction to both sides
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  relayedAt: timestamp("relayed_at"),
+});
+
+// Background jobs for long-running orchestration work (phase runs, debate sessions)
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  type: text("type").notNull(), // process_phase, debate_session
+  payload: jsonb("payload").notNull().default(sql`'{}'::jsonb`), // Type-specific input, e.g. { phase } or { solutionId, rounds }
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed, cancelled
+  progress: integer("progress").notNull().default(0), // 0-100
+  progressMessage: text("progress_message"),
+  result: jsonb("result"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  heartbeatAt: timestamp("heartbeat_at"), // Bumped while a worker runs the job; a stale heartbeat means the worker is gone
+  finishedAt: timestamp("finished_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Usage ledger: one row per billable external call (LLM, research search, text-to-speech)
+export const usageLedger = pgTable("usage_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id), // Null for calls made outside a session
+  phase: integer("phase"),
+  agent: text("agent"), // solution, proponent, opponent, analyst, moderator, narrator
+  service: text("service").notNull(), // llm, search, tts
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  characters: integer("characters").notNull().default(0), // Billed characters for text-to-speech
+  estimated: boolean("estimated").notNull().default(false), // Token counts were estimated, not reported
+  latencyMs: integer("latency_ms").notNull(),
+  costUsd: doublePrecision("cost_usd"), // Null when the price table has no entry for provider/model
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Files and links uploaded as grounding material for a session
+export const groundingDocuments = pgTable("grounding_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(), // pdf, docx, markdown, html, text, link
+  url: text("url"), // Set for links
+  storagePath: text("storage_path"), // Where the uploaded file is kept; null for links
+  sizeBytes: integer("size_bytes").notNull().default(0),
+  status: text("status").notNull().default("processing"), // processing, indexed, failed
+  error: text("error"),
+  pageCount: integer("page_count"),
+  chunkCount: integer("chunk_count").notNull().default(0),
+  uploadedBy: varchar("uploaded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  indexedAt: timestamp("indexed_at"),
+});
+
+// Searchable passages of a grounding document, full-text indexed per session
+export const groundingChunks = pgTable("grounding_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").references(() => groundingDocuments.id, { onDelete: "cascade" }).notNull(),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  page: integer("page"), // 1-based page for PDFs
+  content: text("content").notNull(),
+  tokenCount: integer("token_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("grounding_chunks_session_idx").on(table.sessionId),
+  index("grounding_chunks_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
+
+// Weighted criteria the session's solutions are compared on, defined by the facilitator
+export const comparisonCriteria = pgTable("comparison_criteria", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  name: text("name").notNull(), // e.g. cost, time to value, risk, customer impact
+  description: text("description"), // What a high score means, e.g. "lower total cost scores higher"
+  weight: integer("weight").notNull().default(50), // Relative weight 0-100; normalised when ranking
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One cell of the comparison matrix: how well a solution does on a criterion, 1-10 (higher is better)
+export const comparisonScores = pgTable("comparison_scores", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id).notNull(),
+  solutionId: varchar("solution_id").references(() => solutions.id, { onDelete: "cascade" }).notNull(),
+  criterionId: varchar("criterion_id").references(() => comparisonCriteria.id, { onDelete: "cascade" }).notNull(),
+  aiScore: integer("ai_score"), // Proposed by the Solution agent
+  aiRationale: text("ai_rationale"),
+  score: integer("score"), // Set by a participant; overrides aiScore
+  adjustedBy: varchar("adjusted_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("comparison_scores_cell_idx").on(table.solutionId, table.criterionId),
+]);
+
 // Create Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -128,6 +321,45 @@ export const insertSessionSchema = createInsertSchema(sessions).omit({
   updatedAt: true,
 });
 
+// Per-agent sliders from the setup page, 0-100, keyed by agent role
+const agentSetting = z.number().min(0).max(100);
+
+export const agentSettingsSchema = z.object({
+  solution: z.object({ innovation: agentSetting.default(70), rigor: agentSetting.default(80) }).default({}),
+  proponent: z.object({ vision: agentSetting.default(75), customer_focus: agentSetting.default(60) }).default({}),
+  opponent: z.object({ risk_aversion: agentSetting.default(80), cost_focus: agentSetting.default(70) }).default({}),
+  analyst: z.object({ evidence_depth: agentSetting.default(85), confidence_threshold: agentSetting.default(75) }).default({}),
+  moderator: z.object({ detail_level: agentSetting.default(65), decision_focus: agentSetting.default(80) }).default({}),
+});
+
+// How much of the session's grounding materials and evidence is pulled into each agent call
+export const retrievalSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  tokenBudget: z.number().int().min(0).max(8000).default(1500),
+  maxChunks: z.number().int().min(1).max(20).default(6),
+});
+
+// How much debate history goes into each agent call: recent turns verbatim, older rounds as digests
+export const historySettingsSchema = z.object({
+  recentTurns: z.number().int().min(1).max(20).default(6),
+  tokenBudget: z.number().int().min(500).max(16000).default(4000),
+});
+
+// Shape of sessions.config; every field has a default so older sessions still resolve
+export const sessionConfigSchema = z.object({
+  researchMode: z.enum(["quick", "deep"]).default("quick"),
+  debateRounds: z.number().int().min(1).max(5).default(3),
+  pointsPerSide: z.number().int().min(2).max(5).default(3),
+  solutionCount: z.number().int().min(1).max(5).default(3),
+  agentSettings: agentSettingsSchema.default({}),
+  retrieval: retrievalSettingsSchema.default({}),
+  history: historySettingsSchema.default({}),
+  facilitatorName: z.string().optional(),
+  uploadedFiles: z.array(z.object({ name: z.string(), type: z.string() })).optional(),
+  budget: sessionBudgetSchema.optional(),
+  tags: z.array(z.string()).optional(), // Labels shown in the session library
+});
+
 export const insertProblemSchema = createInsertSchema(problems).omit({
   id: true,
   createdAt: true,
@@ -138,6 +370,118 @@ export const insertSolutionSchema = createInsertSchema(solutions).omit({
   createdAt: true,
 });
 
+// Shape of solutions.impact, as rendered by the solution view and the impact/effort chart
+export const solutionImpactSchema = z.object({
+  timeframe: z.enum(["quick_win", "longer_term"]),
+  effort: z.enum(["low", "medium", "high"]),
+  confidence: z.number().min(0).max(100), // Percent
+  impactScore: z.number().min(1).max(10), // How far the solution moves the problem, 1 = marginal, 10 = transformative
+  effortScore: z.number().min(1).max(10), // Cost and effort to deliver, 1 = trivial, 10 = major programme
+});
+
+// Facilitator's placement of a solution on the impact/effort chart, in place of the AI estimate
+export const solutionImpactOverrideSchema = z.object({
+  impactScore: z.number().min(1).max(10),
+  effortScore: z.number().min(1).max(10),
+});
+
+// Override schema for PUT /api/solutions/:solutionId/impact; null restores the AI estimate
+export const solutionImpactOverrideRequestSchema = z.object({
+  override: solutionImpactOverrideSchema.nullable(),
+});
+
+// What the Solution agent must return for each solution; session, problem and author are filled in by the server
+export const generatedSolutionSchema = insertSolutionSchema.pick({
+  title: true,
+  objective: true,
+  approach: true,
+}).extend({
+  title: z.string().trim().min(1),
+  objective: z.string().trim().min(1),
+  approach: z.string().trim().min(1),
+  enablers: z.array(z.string().trim().min(1)).min(1),
+  risks: z.array(z.string().trim().min(1)).min(1),
+  expectedOutcomes: z.array(z.string().trim().min(1)).min(1),
+  impact: solutionImpactSchema,
+});
+
+export const insertSolutionVersionSchema = createInsertSchema(solutionVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Debate outcomes fed back to the Solution agent when a solution is refined
+export const solutionFeedbackSchema = z.object({
+  lostRounds: z.array(z.object({
+    round: z.number().int(),
+    proponent: z.string(),
+    opponent: z.string(),
+  })),
+  objections: z.array(z.string()), // Strongest opposing points, when no round was lost outright
+  contestedClaims: z.array(z.object({ text: z.string(), status: z.enum(["contested", "refuted"]) })),
+  questions: z.array(z.string()),
+  guidance: z.string().optional(), // Facilitator's direction for this refinement
+});
+
+// What the Solution agent returns when refining: a full replacement plus what changed
+export const refinedSolutionSchema = generatedSolutionSchema.extend({
+  changeSummary: z.string().trim().min(1),
+});
+
+// Refinement request schema for POST /solutions/:solutionId/refine
+export const refineSolutionRequestSchema = z.object({
+  guidance: z.string().trim().max(2000).optional(),
+});
+
+export const insertSolutionExpansionSchema = createInsertSchema(solutionExpansions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const expansionAspectSchema = z.enum(["implementation", "resources", "risks", "metrics"]);
+
+const level = z.enum(["low", "medium", "high"]);
+const entryText = z.string().trim().min(1);
+
+// What the Solution agent returns for each expansion aspect
+export const solutionExpansionContentSchemas = {
+  implementation: z.object({
+    phases: z.array(z.object({
+      name: entryText,
+      duration: entryText, // e.g. "6 weeks"
+      milestones: z.array(entryText).min(1),
+      deliverables: z.array(entryText).min(1),
+    })).min(1),
+  }),
+  resources: z.object({
+    items: z.array(z.object({
+      category: z.enum(["people", "budget", "tools", "external"]),
+      item: entryText,
+      quantity: z.string().trim().optional(), // e.g. "2 FTE", "3 licences"
+      estimatedCost: z.string().trim().optional(), // Free text, e.g. "$40k one-off"
+      notes: z.string().trim().optional(),
+    })).min(1),
+  }),
+  risks: z.object({
+    entries: z.array(z.object({
+      risk: entryText,
+      likelihood: level,
+      impact: level,
+      mitigation: entryText,
+      owner: z.string().trim().optional(), // Role, not a person
+    })).min(1),
+  }),
+  metrics: z.object({
+    kpis: z.array(z.object({
+      name: entryText,
+      description: entryText,
+      target: entryText,
+      measurement: entryText, // How and from which data source it is measured
+      frequency: entryText,
+    })).min(1),
+  }),
+};
+
 export const insertDebatePointSchema = createInsertSchema(debatePoints).omit({
   id: true,
   createdAt: true,
@@ -148,6 +492,55 @@ export const insertEvidenceSchema = createInsertSchema(evidence).omit({
   createdAt: true,
 });
 
+// Where a piece of evidence came from: a live search with citations, the session's own documents,
+// the model's own knowledge, or a person
+export const evidenceProvenanceSchema = z.enum(["web_search", "local_corpus", "model_knowledge", "manual"]);
+
+// A grounding chunk or earlier evidence row an agent was given and cited, e.g. as [S2]
+export const contextReferenceSchema = z.object({
+  label: z.string().optional(), // Citation label the agent was given, e.g. "S2"
+  kind: z.enum(["grounding", "evidence"]),
+  chunkId: z.string().optional(),
+  documentId: z.string().optional(),
+  evidenceId: z.string().optional(),
+  title: z.string(),
+  page: z.number().int().nullable(),
+  url: z.string().optional(),
+});
+
+// Shape of the evidence.source column
+export const evidenceSourceSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  type: z.string(),
+  date: z.string().optional(),
+  retrievedAt: z.string().optional(), // When a search fetched the citations
+  citations: z.array(z.string()).optional(),
+  references: z.array(contextReferenceSchema).optional(), // Session documents the verdict drew on
+});
+
+export const insertClaimSchema = createInsertSchema(claims).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const claimTypeSchema = z.enum(["factual", "causal", "value", "prediction"]);
+export const claimStatusSchema = z.enum(["unverified", "supported", "contested", "refuted"]);
+
+// One claim as the Analyst extracts it from a debate point
+export const extractedClaimSchema = z.object({
+  text: z.string().trim().min(1),
+  type: claimTypeSchema,
+});
+
+// Analyst verdict on one claim after weighing the gathered evidence
+export const claimVerdictSchema = z.object({
+  status: claimStatusSchema,
+  confidence: z.number().min(0).max(100),
+  relevance: z.number().min(0).max(100),
+  analysis: z.string().trim().min(1),
+});
+
 export const insertQuestionSchema = createInsertSchema(questions).omit({
   id: true,
   createdAt: true,
@@ -158,11 +551,149 @@ export const insertSummarySchema = createInsertSchema(summaries).omit({
   createdAt: true,
 });
 
+// One entry of summaries.sections
+export const summarySectionSchema = z.object({
+  title: z.string().trim().min(1),
+  points: z.array(z.string().trim().min(1)).min(1),
+  sentiment: z.enum(["positive", "negative", "neutral"]),
+});
+
+// One entry of summaries.participantSentiment, computed from votes and questions
+export const participantSentimentSchema = z.object({
+  category: z.string(),
+  percentage: z.number().min(0).max(100),
+  count: z.number().int().min(0),
+});
+
+// What the Moderator agent must return when summarizing a session
+export const moderatorSummarySchema = z.object({
+  insights: z.string().trim().min(1),
+  sections: z.array(summarySectionSchema).min(1),
+  decisionPrompts: z.array(z.string().trim().min(1)).min(1),
+  recommendedActions: z.array(z.string().trim().min(1)).min(1),
+  proposedOutcome: z.enum(["adopted", "modified", "rejected", "pending"]),
+});
+
 export const insertVoteSchema = createInsertSchema(votes).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertDebateSessionSchema = createInsertSchema(debateSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDebateRoundSchema = createInsertSchema(debateRounds).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDebateInstructionSchema = createInsertSchema(debateInstructions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Participant argument schema for POST /debate-sessions/:debateId/arguments
+export const participantArgumentSchema = z.object({
+  side: z.enum(["proponent", "opponent"]),
+  title: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(5000),
+  rebuttalTo: z.string().min(1).optional(), // Debate point this argument answers
+});
+
+// Proposal schema for POST /sessions/:sessionId/solutions/proposals; the Solution agent fills in whatever the author leaves out
+export const participantSolutionRequestSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(5000), // The idea in the author's own words
+  objective: z.string().trim().max(500).optional(),
+  approach: z.string().trim().max(5000).optional(),
+  enablers: z.array(z.string().trim().min(1).max(300)).max(10).optional(),
+  risks: z.array(z.string().trim().min(1).max(300)).max(10).optional(),
+  expectedOutcomes: z.array(z.string().trim().min(1).max(300)).max(10).optional(),
+});
+
+// Facilitator instruction schema for POST /debate-sessions/:debateId/instructions
+export const debateInstructionRequestSchema = z.object({
+  instruction: z.string().trim().min(1).max(500),
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertUsageEntrySchema = createInsertSchema(usageLedger).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGroundingDocumentSchema = createInsertSchema(groundingDocuments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGroundingChunkSchema = createInsertSchema(groundingChunks).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Link schema for POST /api/sessions/:sessionId/grounding/links
+export const groundingLinkRequestSchema = z.object({
+  url: z.string().trim().url().refine(url => /^https?:\/\//i.test(url), "Only http and https links are supported"),
+});
+
+export const insertComparisonCriterionSchema = createInsertSchema(comparisonCriteria).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertComparisonScoreSchema = createInsertSchema(comparisonScores).omit({
+  id: true,
+  updatedAt: true,
+});
+
+// Criteria schema for PUT /api/sessions/:sessionId/comparison/criteria; replaces the session's criteria, keeping scores of criteria whose id is sent back
+export const comparisonCriteriaRequestSchema = z.object({
+  criteria: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().trim().min(1).max(80),
+    description: z.string().trim().max(300).optional(),
+    weight: z.number().int().min(0).max(100),
+  })).max(12),
+});
+
+// Score schema for PATCH /api/sessions/:sessionId/comparison/scores; null clears the override and falls back to the AI score
+export const comparisonScoreRequestSchema = z.object({
+  solutionId: z.string().min(1),
+  criterionId: z.string().min(1),
+  score: z.number().int().min(1).max(10).nullable(),
+});
+
+// What the Solution agent returns when scoring solutions; S1/C1 labels refer to the prompt's lists
+export const proposedComparisonScoresSchema = z.object({
+  scores: z.array(z.object({
+    solution: z.string().trim().min(1),
+    criterion: z.string().trim().min(1),
+    score: z.number().int().min(1).max(10),
+    rationale: z.string().trim().min(1),
+  })).min(1),
+});
+
+// Job submission schema for POST /sessions/:sessionId/jobs
+export const submitJobSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("process_phase"),
+    phase: z.number().min(1).max(6).optional(), // Defaults to the session's current phase
+  }),
+  z.object({
+    type: z.literal("debate_session"),
+    solutionId: z.string().min(1),
+    rounds: z.number().min(1).max(10).optional(),
+  }),
+]);
+
 // Session update schema for PATCH /sessions/:id - only allow safe fields
 export const updateSessionSchema = insertSessionSchema.partial().omit({
   facilitatorId: true, // Cannot change facilitator
@@ -178,24 +709,88 @@ export type User = typeof users.$inferSelect;
 
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
+export type SessionConfig = z.infer<typeof sessionConfigSchema>;
+export type AgentSettings = z.infer<typeof agentSettingsSchema>;
+export type RetrievalSettings = z.infer<typeof retrievalSettingsSchema>;
+export type HistorySettings = z.infer<typeof historySettingsSchema>;
 
 export type InsertProblem = z.infer<typeof insertProblemSchema>;
 export type Problem = typeof problems.$inferSelect;
 
 export type InsertSolution = z.infer<typeof insertSolutionSchema>;
 export type Solution = typeof solutions.$inferSelect;
+export type SolutionWithAuthor = Solution & { authorName: string | null }; // As listed by GET /sessions/:sessionId/solutions
+export type SolutionImpact = z.infer<typeof solutionImpactSchema>;
+export type GeneratedSolution = z.infer<typeof generatedSolutionSchema>;
+export type InsertSolutionVersion = z.infer<typeof insertSolutionVersionSchema>;
+export type SolutionVersion = typeof solutionVersions.$inferSelect;
+export type SolutionFeedback = z.infer<typeof solutionFeedbackSchema>;
+export type RefinedSolution = z.infer<typeof refinedSolutionSchema>;
+export type SolutionImpactOverride = z.infer<typeof solutionImpactOverrideSchema> & { adjustedBy: string; adjustedAt: string };
+export type SolutionImpactOverrideRequest = z.infer<typeof solutionImpactOverrideRequestSchema>;
+export type RefineSolutionRequest = z.infer<typeof refineSolutionRequestSchema>;
+export type InsertSolutionExpansion = z.infer<typeof insertSolutionExpansionSchema>;
+export type SolutionExpansion = typeof solutionExpansions.$inferSelect;
+export type ExpansionAspect = z.infer<typeof expansionAspectSchema>;
+export type SolutionExpansionContents = { [A in ExpansionAspect]: z.infer<typeof solutionExpansionContentSchemas[A]> };
 
 export type InsertDebatePoint = z.infer<typeof insertDebatePointSchema>;
 export type DebatePoint = typeof debatePoints.$inferSelect;
 
 export type InsertEvidence = z.infer<typeof insertEvidenceSchema>;
 export type Evidence = typeof evidence.$inferSelect;
+export type EvidenceProvenance = z.infer<typeof evidenceProvenanceSchema>;
+export type EvidenceSource = z.infer<typeof evidenceSourceSchema>;
+export type ContextReference = z.infer<typeof contextReferenceSchema>;
+
+export type InsertClaim = z.infer<typeof insertClaimSchema>;
+export type Claim = typeof claims.$inferSelect;
+export type ClaimType = z.infer<typeof claimTypeSchema>;
+export type ClaimStatus = z.infer<typeof claimStatusSchema>;
+export type ExtractedClaim = z.infer<typeof extractedClaimSchema>;
+export type ClaimVerdict = z.infer<typeof claimVerdictSchema>;
 
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
 export type Question = typeof questions.$inferSelect;
 
 export type InsertSummary = z.infer<typeof insertSummarySchema>;
 export type Summary = typeof summaries.$inferSelect;
+export type SummarySection = z.infer<typeof summarySectionSchema>;
+export type ParticipantSentiment = z.infer<typeof participantSentimentSchema>;
+export type ModeratorSummary = z.infer<typeof moderatorSummarySchema>;
 
 export type InsertVote = z.infer<typeof insertVoteSchema>;
 export type Vote = typeof votes.$inferSelect;
+
+export type InsertUsageEntry = z.infer<typeof insertUsageEntrySchema>;
+export type UsageEntry = typeof usageLedger.$inferSelect;
+
+export type InsertGroundingDocument = z.infer<typeof insertGroundingDocumentSchema>;
+export type GroundingDocument = typeof groundingDocuments.$inferSelect;
+export type InsertGroundingChunk = z.infer<typeof insertGroundingChunkSchema>;
+export type GroundingChunk = typeof groundingChunks.$inferSelect;
+
+export type InsertComparisonCriterion = z.infer<typeof insertComparisonCriterionSchema>;
+export type ComparisonCriterion = typeof comparisonCriteria.$inferSelect;
+export type InsertComparisonScore = z.infer<typeof insertComparisonScoreSchema>;
+export type ComparisonScore = typeof comparisonScores.$inferSelect;
+export type ComparisonCriteriaRequest = z.infer<typeof comparisonCriteriaRequestSchema>;
+export type ComparisonScoreRequest = z.infer<typeof comparisonScoreRequestSchema>;
+export type ProposedComparisonScores = z.infer<typeof proposedComparisonScoresSchema>;
+
+export type InsertDebateSessionRecord = z.infer<typeof insertDebateSessionSchema>;
+export type DebateSessionRecord = typeof debateSessions.$inferSelect;
+
+export type InsertDebateRoundRecord = z.infer<typeof insertDebateRoundSchema>;
+export type DebateRoundRecord = typeof debateRounds.$inferSelect;
+
+export type ParticipantSolutionRequest = z.infer<typeof participantSolutionRequestSchema>;
+export type ParticipantArgument = z.infer<typeof participantArgumentSchema>;
+
+export type InsertDebateInstruction = z.infer<typeof insertDebateInstructionSchema>;
+export type DebateInstruction = typeof debateInstructions.$inferSelect;
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+export type SubmitJob = z.infer<typeof submitJobSchema>;
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+// Aggregated usage for one slice of a session (an agent, a phase or a provider)
+export interface UsageBreakdown {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+export interface UsageSummary {
+  sessionId: string;
+  totalCalls: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCharacters: number;
+  totalCostUsd: number;
+  estimatedCalls: number; // Calls whose token counts were estimated rather than reported
+  unpricedCalls: number; // Calls with no price table entry, excluded from cost totals
+  byAgent: UsageBreakdown[];
+  byPhase: UsageBreakdown[];
+  byProvider: UsageBreakdown[];
+}
+
+// Spending cap stored at sessions.config.budget
+export const sessionBudgetSchema = z.object({
+  unit: z.enum(["usd", "tokens"]),
+  limit: z.number().positive(),
+  downgradeAt: z.number().min(0).max(1).default(0.8), // Fraction of the limit after which agents switch to cheaper models
+});
+
+export type SessionBudget = z.infer<typeof sessionBudgetSchema>;
+
+// unlimited: no budget set; downgraded: past downgradeAt; exhausted: calls are refused
+export type BudgetState = "unlimited" | "ok" | "downgraded" | "exhausted";
+
+export interface BudgetStatus {
+  sessionId: string;
+  budget: SessionBudget | null;
+  spent: number; // In the budget's unit, or USD when no budget is set
+  remaining: number | null;
+  fractionUsed: number | null;
+  state: BudgetState;
+}